@@ -1,7 +1,31 @@
-import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
-import { Octokit } from 'octokit'
+// Analyzes a repository and streams progress as NDJSON: one `AnalysisStreamEvent` per line,
+// step events while the work runs and a final `result` (or `error`) event
+import { stream, HandlerEvent } from '@netlify/functions'
+import { PassThrough } from 'node:stream'
+import {
+  ProviderKind,
+  RepositoryProvider,
+  resolveRepositoryProvider,
+  parseProviderHosts
+} from '../../src/services/providers'
+import { selectRepresentativeFiles } from '../../src/services/workspace'
+import { detectFrameworks, FrameworkCategory } from '../../src/services/frameworkDetection'
+import { buildArchitectureDiagram } from '../../src/services/architectureDiagram'
+import { buildImportGraph, clusterImportGraph } from '../../src/services/importGraph'
+import { RemoteIngestionRequest, ingestRemoteRepository } from '../../src/services/ingestion'
+import { recordProvenance } from '../../src/services/provenance'
+import {
+  AnalysisStep,
+  AnalysisStepEvent,
+  AnalysisStreamEvent,
+  Dependency,
+  DiagramData,
+  FileData,
+  RepositoryData,
+  TestingAnalysis
+} from '../../src/types'
 
-const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+const handler = stream(async (event: HandlerEvent) => {
   const headers = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'Content-Type',
@@ -21,223 +45,126 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
     }
   }
 
+  let request: { url?: string; token?: string; provider?: ProviderKind; from?: string; to?: string; packagePath?: string }
   try {
-    const { url, token } = JSON.parse(event.body || '{}')
-    
-    if (!url) {
-      return {
-        statusCode: 400,
-        headers,
-        body: JSON.stringify({ error: 'Repository URL is required' })
-      }
-    }
-
-    const octokit = new Octokit({ auth: token })
-    
-    // Parse GitHub URL
-    const match = url.match(/github\.com\/([^\/]+)\/([^\/]+)/)
-    if (!match) {
-      return {
-        statusCode: 400,
-        headers,
-        body: JSON.stringify({ error: 'Invalid GitHub URL' })
-      }
-    }
-
-    const owner = match[1]
-    const repo = match[2].replace(/\.git$/, '')
-
-    // Get repository data
-    const [repoData, languages, commits, tree] = await Promise.all([
-      octokit.rest.repos.get({ owner, repo }),
-      octokit.rest.repos.listLanguages({ owner, repo }),
-      octokit.rest.repos.listCommits({ owner, repo, per_page: 50 }),
-      octokit.rest.git.getTree({ 
-        owner, 
-        repo, 
-        tree_sha: 'HEAD',
-        recursive: 'true' 
-      }).catch(() => ({ data: { tree: [] } }))
-    ])
-
-    // Get README
-    let readme = ''
-    try {
-      const readmeData = await octokit.rest.repos.getReadme({ owner, repo })
-      readme = Buffer.from(readmeData.data.content, 'base64').toString('utf-8')
-    } catch (error) {
-      console.warn('README not found')
-    }
-
-    // Analyze dependencies
-    const dependencies = await analyzeDependencies(octokit, owner, repo)
-
-    // Enhanced analysis
-    const languageStats = await analyzeLanguageDistribution(octokit, owner, repo)
-    const projectPurpose = await analyzeProjectPurpose(repoData.data, tree.data.tree, dependencies)
-    const architectureAnalysis = await analyzeArchitecture(tree.data.tree)
-    const designPatterns = await analyzeDesignPatterns(tree.data.tree)
-    const frameworkAnalysis = await analyzeFrameworks(dependencies, tree.data.tree)
-
-    const result = {
-      url,
-      name: repoData.data.name,
-      description: repoData.data.description || '',
-      language: repoData.data.language || 'Unknown',
-      languages: languages.data,
-      languageStats, // Add language distribution
-      projectPurpose, // Add deep project analysis
-      dependencies,
-      commits: commits.data.map(commit => ({
-        sha: commit.sha,
-        message: commit.commit.message,
-        author: commit.commit.author?.name || 'Unknown',
-        date: commit.commit.author?.date || '',
-        additions: 0,
-        deletions: 0
-      })),
-      files: tree.data.tree
-        .filter(item => item.type === 'blob')
-        .map(file => ({
-          path: file.path || '',
-          type: getFileType(file.path || ''),
-          size: file.size || 0,
-          importance: calculateFileImportance(file.path || '')
-        }))
-        .slice(0, 100),
-      readme,
-      architectureAnalysis, // Add enhanced architecture analysis
-      designPatterns, // Add design patterns
-      frameworkAnalysis, // Add framework analysis
-      screenshots: [],
-      createdAt: repoData.data.created_at,
-      updatedAt: repoData.data.updated_at,
-      stars: repoData.data.stargazers_count,
-      forks: repoData.data.forks_count
-    }
-
+    request = JSON.parse(event.body || '{}')
+  } catch {
     return {
-      statusCode: 200,
+      statusCode: 400,
       headers,
-      body: JSON.stringify(result)
+      body: JSON.stringify({ error: 'Invalid request body' })
     }
+  }
 
-  } catch (error) {
-    console.error('Error analyzing repository:', error)
+  const { url, token, provider: requestedProvider, from, to, packagePath } = request
+  if (!url) {
     return {
-      statusCode: 500,
+      statusCode: 400,
       headers,
-      body: JSON.stringify({ 
+      body: JSON.stringify({ error: 'Repository URL is required' })
+    }
+  }
+
+  // Events are written as they happen; the response is returned right away so the client sees them live
+  const body = new PassThrough()
+  const send = (streamEvent: AnalysisStreamEvent) => {
+    body.write(`${JSON.stringify(streamEvent)}\n`)
+  }
+  const report = (stepEvent: AnalysisStepEvent) => send({ type: 'step', ...stepEvent })
+
+  resolveRepositoryProvider(url, {
+    token,
+    provider: requestedProvider,
+    hosts: parseProviderHosts(process.env.REPOSITORY_PROVIDER_HOSTS),
+    tokens: {
+      github: process.env.GITHUB_TOKEN,
+      gitlab: process.env.GITLAB_TOKEN,
+      bitbucket: process.env.BITBUCKET_TOKEN,
+      gitea: process.env.GITEA_TOKEN
+    },
+    onProgress: report,
+    onQuota: quota => send({ type: 'quota', quota })
+  })
+    .then(provider => analyzeRepository(provider, url, { from, to, packagePath: packagePath || undefined, onProgress: report }))
+    .then(repository => send({ type: 'result', repository }))
+    .catch(error => {
+      console.error('Error analyzing repository:', error)
+      send({
+        type: 'error',
         error: 'Failed to analyze repository',
         details: error instanceof Error ? error.message : 'Unknown error'
       })
-    }
+    })
+    .finally(() => body.end())
+
+  return {
+    statusCode: 200,
+    headers: { ...headers, 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+    body
   }
-}
+})
 
-async function analyzeDependencies(octokit: Octokit, owner: string, repo: string) {
-  const dependencies = []
-  
-  try {
-    // Try package.json
-    const packageJson = await octokit.rest.repos.getContent({
-      owner,
-      repo,
-      path: 'package.json'
-    })
+async function analyzeRepository(
+  provider: RepositoryProvider,
+  url: string,
+  request: RemoteIngestionRequest & { onProgress: (event: AnalysisStepEvent) => void }
+): Promise<RepositoryData> {
+  const repository = await ingestRemoteRepository(provider, request)
 
-    if ('content' in packageJson.data) {
-      const content = Buffer.from(packageJson.data.content, 'base64').toString('utf-8')
-      const parsed = JSON.parse(content)
-      
-      if (parsed.dependencies) {
-        Object.entries(parsed.dependencies).forEach(([name, version]) => {
-          dependencies.push({
-            name,
-            version: version as string,
-            type: 'dependency'
-          })
-        })
-      }
-    }
-  } catch (error) {
-    // Try requirements.txt
+  // Enhanced analysis; each heuristic is optional, so a failure is reported and the rest carries on
+  const runStep = async <T>(step: AnalysisStep, analyze: () => Promise<T>, partial: (value: T) => Partial<RepositoryData>) => {
+    request.onProgress({ step, status: 'started' })
     try {
-      const requirements = await octokit.rest.repos.getContent({
-        owner,
-        repo,
-        path: 'requirements.txt'
-      })
-
-      if ('content' in requirements.data) {
-        const content = Buffer.from(requirements.data.content, 'base64').toString('utf-8')
-        content.split('\n').forEach(line => {
-          if (line.trim()) {
-            const [name, version] = line.trim().split('==')
-            dependencies.push({
-              name,
-              version: version || 'latest',
-              type: 'dependency'
-            })
-          }
-        })
-      }
-    } catch (pythonError) {
-      console.warn('No dependency files found')
+      const value = await analyze()
+      request.onProgress({ step, status: 'completed', partial: partial(value) })
+      return value
+    } catch (error) {
+      console.warn(`Analysis step "${step}" failed:`, error)
+      request.onProgress({ step, status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      return undefined
     }
   }
 
-  return dependencies
-}
+  const languageStats = analyzeLanguageDistribution(repository.languages)
+  const projectPurpose = await runStep('purpose',
+    () => analyzeProjectPurpose(repository, repository.files, repository.dependencies),
+    value => ({ projectPurpose: value }))
+  const architectureAnalysis = await runStep('architecture',
+    () => analyzeArchitecture(repository.files),
+    // The diagram is only useful with the final result
+    value => ({ architectureAnalysis: { ...value, diagram: undefined } }))
+  const designPatterns = await analyzeDesignPatterns(repository.files)
+  const frameworkAnalysis = await runStep('frameworks',
+    () => analyzeFrameworks(repository.dependencies, repository.files, repository.testing),
+    value => ({ frameworkAnalysis: value }))
 
-function getFileType(path: string): string {
-  const extension = path.split('.').pop()?.toLowerCase()
-  const typeMap: Record<string, string> = {
-    'js': 'javascript',
-    'ts': 'typescript',
-    'jsx': 'react',
-    'tsx': 'react',
-    'py': 'python',
-    'java': 'java',
-    'cpp': 'cpp',
-    'c': 'c',
-    'md': 'markdown',
-    'json': 'json',
-    'yml': 'yaml',
-    'yaml': 'yaml',
-    'css': 'css',
-    'html': 'html',
-    'vue': 'vue',
-    'go': 'go',
-    'rs': 'rust'
+  const result: RepositoryData = {
+    ...repository,
+    url,
+    languageStats, // Add language distribution
+    projectPurpose, // Add deep project analysis
+    files: selectRepresentativeFiles(repository.files, 100, repository.workspace),
+    architectureAnalysis, // Add enhanced architecture analysis
+    designPatterns, // Add design patterns
+    frameworkAnalysis // Add framework analysis
   }
-  return typeMap[extension || ''] || 'unknown'
-}
-
-function calculateFileImportance(path: string): number {
-  if (path.match(/^(README|readme)/)) return 10
-  if (path.match(/package\.json|requirements\.txt|pom\.xml|Cargo\.toml/)) return 9
-  if (path.match(/src\/|lib\/|app\//)) return 8
-  if (path.match(/test\/|spec\/|__tests__\//)) return 7
-  if (path.match(/\.config\.|\.env|Dockerfile/)) return 6
-  if (path.match(/docs\/|documentation\//)) return 5
-  return 3
+  // Heuristics over the fetched data; the purpose templates are the least certain
+  recordProvenance(result, ['languageStats', 'frameworkAnalysis'], 'inferred', 'high')
+  recordProvenance(result, ['architectureAnalysis'], 'inferred')
+  recordProvenance(result, ['projectPurpose', 'designPatterns'], 'inferred', 'low')
+  return result
 }
 
 // Enhanced analysis functions
-async function analyzeLanguageDistribution(octokit: Octokit, owner: string, repo: string) {
-  try {
-    const languages = await octokit.rest.repos.listLanguages({ owner, repo })
-    const total = Object.values(languages.data).reduce((sum: number, bytes: unknown) => sum + (bytes as number), 0)
-    
-    return Object.entries(languages.data).map(([language, bytes]) => ({
-      language,
-      bytes: bytes as number,
-      percentage: Math.round(((bytes as number) / total) * 100)
-    })).sort((a, b) => b.percentage - a.percentage)
-  } catch (error) {
-    return []
-  }
+function analyzeLanguageDistribution(languages: Record<string, number>) {
+  const total = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0)
+  if (total === 0) return []
+
+  return Object.entries(languages).map(([language, bytes]) => ({
+    language,
+    bytes,
+    percentage: Math.round((bytes / total) * 100)
+  })).sort((a, b) => b.percentage - a.percentage)
 }
 
 async function analyzeProjectPurpose(repoData: any, files: any[], dependencies: any[]): Promise<{
@@ -431,6 +358,7 @@ async function analyzeArchitecture(files: any[]): Promise<{
   layering: string[];
   designRationale: string;
   scalabilityIndicators: string[];
+  diagram?: DiagramData;
 }> {
   const paths = files.map(f => f.path || '').filter(Boolean)
   
@@ -478,8 +406,15 @@ async function analyzeArchitecture(files: any[]): Promise<{
   }
   
   const complexity = paths.length > 100 ? 'complex' : paths.length > 50 ? 'moderate' : 'simple'
-  
-  return { pattern, structure, complexity, layering, designRationale, scalabilityIndicators }
+
+  // Folder names are only a hint; the imports between the fetched sources show the actual structure
+  const diagram = buildArchitectureDiagram(files) || undefined
+  const { clusters } = clusterImportGraph(buildImportGraph(files))
+  if (structure.length === 0 && clusters.length > 0) {
+    structure = clusters.map(cluster => cluster.directory)
+  }
+
+  return { pattern, structure, complexity, layering, designRationale, scalabilityIndicators, diagram }
 }
 
 async function analyzeDesignPatterns(files: any[]): Promise<string[]> {
@@ -510,7 +445,7 @@ async function analyzeDesignPatterns(files: any[]): Promise<string[]> {
   return patterns
 }
 
-async function analyzeFrameworks(dependencies: any[], files: any[]): Promise<{
+async function analyzeFrameworks(dependencies: Dependency[], files: FileData[], testingAnalysis?: TestingAnalysis): Promise<{
   frontend: string[];
   backend: string[];
   database: string[];
@@ -518,47 +453,17 @@ async function analyzeFrameworks(dependencies: any[], files: any[]): Promise<{
   buildTools: string[];
   percentages: { category: string; frameworks: string; percentage: number }[];
 }> {
-  const depNames = dependencies.map(d => d.name.toLowerCase())
   const paths = files.map(f => f.path || '').filter(Boolean)
-  
-  const frontend: string[] = []
-  const backend: string[] = []
-  const database: string[] = []
-  const testing: string[] = []
-  const buildTools: string[] = []
-  
-  // Frontend frameworks
-  if (depNames.includes('react')) frontend.push('React')
-  if (depNames.includes('vue')) frontend.push('Vue.js')
-  if (depNames.includes('angular')) frontend.push('Angular')
-  if (depNames.includes('svelte')) frontend.push('Svelte')
-  if (depNames.includes('next')) frontend.push('Next.js')
-  if (depNames.includes('nuxt')) frontend.push('Nuxt.js')
-  
-  // Backend frameworks
-  if (depNames.includes('express')) backend.push('Express.js')
-  if (depNames.includes('fastify')) backend.push('Fastify')
-  if (depNames.includes('koa')) backend.push('Koa.js')
-  if (depNames.includes('django')) backend.push('Django')
-  if (depNames.includes('flask')) backend.push('Flask')
-  if (depNames.includes('spring')) backend.push('Spring Boot')
-  
-  // Database
-  if (depNames.includes('mongoose')) database.push('MongoDB')
-  if (depNames.includes('prisma')) database.push('Prisma')
-  if (depNames.includes('sequelize')) database.push('Sequelize')
-  if (depNames.includes('typeorm')) database.push('TypeORM')
-  
-  // Testing
-  if (depNames.includes('jest')) testing.push('Jest')
-  if (depNames.includes('mocha')) testing.push('Mocha')
-  if (depNames.includes('cypress')) testing.push('Cypress')
-  if (depNames.includes('playwright')) testing.push('Playwright')
-  
-  // Build tools
-  if (depNames.includes('webpack')) buildTools.push('Webpack')
-  if (depNames.includes('vite')) buildTools.push('Vite')
-  if (depNames.includes('rollup')) buildTools.push('Rollup')
+  const detected = detectFrameworks(dependencies)
+  const namesIn = (category: FrameworkCategory) => detected.filter(f => f.category === category).map(f => f.name)
+
+  // Dependencies from every supported manifest (npm, PyPI, Go, Cargo, RubyGems, Maven/Gradle, Composer, NuGet)
+  const frontend = namesIn('frontend')
+  const backend = namesIn('backend')
+  const database = namesIn('database')
+  // Test files reveal runners that aren't declared as dependencies (Go test, JUnit via a parent POM, ...)
+  const testing = Array.from(new Set([...namesIn('testing'), ...(testingAnalysis?.frameworks || [])]))
+  const buildTools = namesIn('buildTools')
   if (paths.some(p => p.includes('docker'))) buildTools.push('Docker')
   
   // Calculate percentages
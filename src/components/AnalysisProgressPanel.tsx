@@ -0,0 +1,47 @@
+import React from 'react'
+import { AnalysisProgress } from '../types'
+
+interface AnalysisProgressPanelProps {
+  progress: AnalysisProgress
+  className?: string
+}
+
+// Live view of the analysis stream: the current step, what is already known and the steps that failed
+export const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({ progress, className = '' }) => {
+  const { partial, stepErrors = [] } = progress
+  const languages = partial?.languages ? Object.keys(partial.languages).slice(0, 3) : []
+
+  return (
+    <div className={`border border-gray-200 rounded-lg p-4 space-y-3 ${className}`}>
+      <div className="flex justify-between text-sm text-gray-700">
+        <span>{progress.message}</span>
+        <span>{progress.progress}%</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className="bg-gradient-to-r from-blue-600 to-purple-600 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${progress.progress}%` }}
+        />
+      </div>
+      {partial?.name && (
+        <div className="text-sm text-gray-600">
+          <span className="font-medium text-gray-800">{partial.name}</span>
+          {partial.description && <span> — {partial.description}</span>}
+          {languages.length > 0 && <span className="ml-2 text-xs text-gray-500">{languages.join(' / ')}</span>}
+          {partial.dependencies && <span className="ml-2 text-xs text-gray-500">依存関係 {partial.dependencies.length}件</span>}
+        </div>
+      )}
+      {stepErrors.length > 0 && (
+        <ul className="text-xs text-amber-800 list-disc list-inside space-y-1">
+          {stepErrors.map((stepError, index) => (
+            <li key={index}>
+              {stepError.detail || stepError.step}: {stepError.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default AnalysisProgressPanel
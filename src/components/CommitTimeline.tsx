@@ -0,0 +1,35 @@
+import React from 'react'
+import { ChartData } from '../types'
+
+interface CommitTimelineProps {
+  chart: ChartData
+  className?: string
+}
+
+// One column per week; quiet weeks stay visible as gaps
+export const CommitTimeline: React.FC<CommitTimelineProps> = ({ chart, className = '' }) => {
+  const values = chart.data.map(value => Number(value) || 0)
+  const max = Math.max(1, ...values)
+
+  return (
+    <div className={className}>
+      <p className="text-sm font-semibold text-gray-700 mb-2">{chart.title}</p>
+      <div className="flex items-end h-32 gap-px">
+        {values.map((value, index) => (
+          <div
+            key={index}
+            className={value > 0 ? 'flex-1 bg-blue-500 rounded-t' : 'flex-1 bg-gray-200'}
+            style={{ height: value > 0 ? `${(value / max) * 100}%` : '2px' }}
+            title={`${chart.labels[index]}: ${value}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{chart.labels[0]}</span>
+        <span>{chart.labels[chart.labels.length - 1]}</span>
+      </div>
+    </div>
+  )
+}
+
+export default CommitTimeline
@@ -1,5 +1,6 @@
 import React, { useMemo } from 'react'
 import { VisualElement } from '../types'
+import { MermaidDiagram } from './MermaidDiagram'
 import { projectThemes, detectProjectTheme, calculateOptimalFontSize, getEmotionalColors } from '../services/visualDesignSystem'
 
 interface EnhancedEngagingSlideElementsProps {
@@ -182,6 +183,23 @@ export const EnhancedEngagingSlideElements: React.FC<EnhancedEngagingSlideElemen
           </div>
         )
 
+      case 'diagram':
+        return (
+          <div
+            key={index}
+            className="rounded-2xl p-6 shadow-lg"
+            style={{ background: selectedTheme.colors.surface }}
+          >
+            <h3
+              className="font-semibold mb-4"
+              style={{ color: selectedTheme.colors.primary, fontSize: dynamicFontSizes.body }}
+            >
+              🗺️ {element.data.title}
+            </h3>
+            <MermaidDiagram diagram={element.data} />
+          </div>
+        )
+
       case 'tech-stack':
         return (
           <div 
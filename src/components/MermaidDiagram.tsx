@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react'
+import { DiagramData } from '../types'
+import { renderDiagramSvg } from '../services/architectureDiagram'
+
+interface MermaidDiagramProps {
+  diagram: DiagramData
+  className?: string
+}
+
+export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ diagram, className = '' }) => {
+  const [svg, setSvg] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setSvg(null)
+    setError(null)
+    renderDiagramSvg(diagram)
+      .then(rendered => !cancelled && setSvg(rendered))
+      .catch(renderError => !cancelled && setError(renderError instanceof Error ? renderError.message : String(renderError)))
+    return () => {
+      cancelled = true
+    }
+  }, [diagram])
+
+  if (error) {
+    // Still show the source so the structure is readable without the renderer
+    return (
+      <pre className={`text-xs text-gray-600 bg-gray-50 p-4 rounded overflow-x-auto ${className}`}>
+        {diagram.source}
+      </pre>
+    )
+  }
+
+  if (!svg) {
+    return <div className={`text-sm text-gray-500 ${className}`}>図を描画中...</div>
+  }
+
+  // Mermaid renders with securityLevel 'strict', which sanitizes labels
+  return <div className={`flex justify-center overflow-x-auto ${className}`} dangerouslySetInnerHTML={{ __html: svg }} />
+}
+
+export default MermaidDiagram
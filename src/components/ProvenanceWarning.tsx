@@ -0,0 +1,31 @@
+import React from 'react'
+import { RepositoryData } from '../types'
+import { DATA_SOURCE_LABELS, FIELD_LABELS, findGuessedFields } from '../services/provenance'
+
+interface ProvenanceWarningProps {
+  repository: RepositoryData
+  className?: string
+}
+
+// Shown when slides rest on placeholder or low-confidence data, so nobody presents a guess as fact
+export const ProvenanceWarning: React.FC<ProvenanceWarningProps> = ({ repository, className = '' }) => {
+  const guessed = findGuessedFields(repository)
+  if (guessed.length === 0) return null
+
+  return (
+    <div className={`border border-amber-300 bg-amber-50 text-amber-900 rounded-lg p-4 ${className}`}>
+      <p className="font-semibold mb-2">⚠️ このプレゼンテーションには推定データが含まれています</p>
+      <ul className="text-sm list-disc list-inside space-y-1">
+        {guessed.map(({ field, provenance }) => (
+          <li key={field}>
+            {FIELD_LABELS[field] || field}: {DATA_SOURCE_LABELS[provenance.source]}
+            {provenance.note ? `（${provenance.note}）` : ''}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs mt-2">発表前に内容を確認してください。</p>
+    </div>
+  )
+}
+
+export default ProvenanceWarning
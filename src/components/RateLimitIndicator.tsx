@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react'
+import { RateLimitQuota } from '../types'
+import { rateLimitMonitor } from '../services/rateLimitMonitor'
+
+interface RateLimitIndicatorProps {
+  className?: string
+}
+
+// Remaining API quota per host, as last reported by the rate limit headers
+export const RateLimitIndicator: React.FC<RateLimitIndicatorProps> = ({ className = '' }) => {
+  const [quotas, setQuotas] = useState<RateLimitQuota[]>(() => rateLimitMonitor.getQuotas())
+
+  useEffect(() => rateLimitMonitor.subscribe(setQuotas), [])
+
+  if (quotas.length === 0) return null
+
+  return (
+    <div className={`flex flex-wrap gap-2 text-xs ${className}`}>
+      {quotas.map(quota => {
+        const low = quota.remaining < quota.limit * 0.1
+        const resetTime = new Date(quota.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        return (
+          <span
+            key={`${quota.host} ${quota.resource}`}
+            className={`px-2 py-1 rounded ${low ? 'bg-amber-100 text-amber-900' : 'bg-gray-100 text-gray-600'}`}
+            title={`${quota.resource} · ${resetTime} にリセット`}
+          >
+            {quota.host} API 残り {quota.remaining.toLocaleString()} / {quota.limit.toLocaleString()}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
+
+export default RateLimitIndicator
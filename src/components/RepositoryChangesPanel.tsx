@@ -0,0 +1,81 @@
+import React from 'react'
+import { RepositoryChangeSummary } from '../types'
+import { hasRepositoryChanges } from '../services/repositoryDiff'
+
+interface RepositoryChangesPanelProps {
+  changes: RepositoryChangeSummary
+  // Set when a saved presentation was updated in place
+  updatedSlides: number | null
+  onRegenerateAll?: () => void
+  className?: string
+}
+
+const MAX_LISTED = 3
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta))
+
+// What changed since the previous analysis, and how much of the saved deck that touched
+export const RepositoryChangesPanel: React.FC<RepositoryChangesPanelProps> = ({ changes, updatedSlides, onRegenerateAll, className = '' }) => {
+  const since = new Date(changes.since).toLocaleString()
+
+  if (!hasRepositoryChanges(changes)) {
+    return (
+      <div className={`border border-gray-200 rounded-lg p-4 text-sm text-gray-600 ${className}`}>
+        前回の解析（{since}）から変更はありません。{updatedSlides !== null && '保存済みのプレゼンテーションをそのまま表示しています。'}
+      </div>
+    )
+  }
+
+  const { newCommits, addedFiles, removedFiles, modifiedFiles, dependencyChanges, starsDelta, forksDelta } = changes
+  const fileChanges = addedFiles.length + removedFiles.length + modifiedFiles.length
+
+  return (
+    <div className={`border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-2 ${className}`}>
+      <p className="font-semibold text-blue-900">前回の解析（{since}）からの変更</p>
+      <ul className="text-sm text-gray-700 space-y-1">
+        {newCommits.length > 0 && (
+          <li>
+            新しいコミット {newCommits.length}件
+            <ul className="ml-4 text-xs text-gray-500 list-disc list-inside">
+              {newCommits.slice(0, MAX_LISTED).map(commit => (
+                <li key={commit.sha}>{commit.message.split('\n')[0]}</li>
+              ))}
+            </ul>
+          </li>
+        )}
+        {fileChanges > 0 && (
+          <li>ファイル: 追加 {addedFiles.length} / 削除 {removedFiles.length} / 変更 {modifiedFiles.length}</li>
+        )}
+        {dependencyChanges.length > 0 && (
+          <li>
+            依存関係の変更 {dependencyChanges.length}件
+            <ul className="ml-4 text-xs text-gray-500 list-disc list-inside">
+              {dependencyChanges.slice(0, MAX_LISTED).map(change => (
+                <li key={`${change.ecosystem}:${change.type}:${change.name}`}>
+                  {change.name} {change.change === 'updated'
+                    ? `${change.fromVersion} → ${change.toVersion}`
+                    : change.change === 'added' ? '(追加)' : '(削除)'}
+                </li>
+              ))}
+            </ul>
+          </li>
+        )}
+        {(starsDelta !== 0 || forksDelta !== 0) && (
+          <li>⭐ {formatDelta(starsDelta)} / フォーク {formatDelta(forksDelta)}</li>
+        )}
+      </ul>
+      {updatedSlides !== null && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-blue-900">保存済みのプレゼンテーションのうち {updatedSlides}枚のスライドを更新しました</span>
+          {onRegenerateAll && (
+            <button onClick={onRegenerateAll} className="px-3 py-1 bg-white border border-blue-300 text-blue-700 rounded hover:bg-blue-100">
+              すべて作り直す
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RepositoryChangesPanel
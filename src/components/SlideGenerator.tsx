@@ -1,64 +1,229 @@
-import { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { SlideGeneratorService } from '../services/slideGenerator'
 import { repositoryAnalysisEngine } from '../services/repositoryAnalysis'
 import { storyGenerator } from '../services/storyGenerator'
 import { exportService } from '../services/export'
+import { localRepositoryService, LocalRepositorySource } from '../services/localRepository'
+import { parseRefSpec } from '../services/releaseAnalysis'
+import { applyAnalysisEvent } from '../services/analysisStream'
+import { diffRepositories, isSameAnalysisTarget } from '../services/repositoryDiff'
+import { storageService } from '../services/storage'
+import { formatCodeSource } from '../services/codeExcerpt'
+import { templateRegistry } from '../services/templateRegistry'
+import { formatCitation } from '../services/citations'
+import { MermaidDiagram } from './MermaidDiagram'
+import { CommitTimeline } from './CommitTimeline'
 import LLMEnhancementPanel from './LLMEnhancementPanel'
 import RepositoryAnalysisDisplay from './RepositoryAnalysisDisplay'
-import { SlidePresentation, RepositoryData, StoryStructure } from '../types'
+import { ProvenanceWarning } from './ProvenanceWarning'
+import { AnalysisProgressPanel } from './AnalysisProgressPanel'
+import { RateLimitIndicator } from './RateLimitIndicator'
+import { RepositoryChangesPanel } from './RepositoryChangesPanel'
+import { TemplateManager } from './TemplateManager'
+import { SlidePresentation, RepositoryData, StoryStructure, PresentationMode, WorkspaceInfo, AnalysisProgress, RepositoryChangeSummary, SlideTemplate, Audience } from '../types'
 
 const slideGeneratorService = new SlideGeneratorService()
 
 export default function SlideGenerator() {
   const [repositoryUrl, setRepositoryUrl] = useState('')
+  const [sourceType, setSourceType] = useState<'url' | 'local'>('url')
+  const [localSource, setLocalSource] = useState<LocalRepositorySource | null>(null)
+  const [refSpec, setRefSpec] = useState('')
+  const [workspace, setWorkspace] = useState<WorkspaceInfo | null>(null)
+  const [packagePath, setPackagePath] = useState('')
+  const [isDragging, setIsDragging] = useState(false)
   const [isGenerating, setIsGenerating] = useState(false)
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null)
   const [presentation, setPresentation] = useState<SlidePresentation | null>(null)
   const [currentSlide, setCurrentSlide] = useState(0)
-  const [mode, setMode] = useState<'ted' | 'imrad'>('ted')
+  const [mode, setMode] = useState<PresentationMode>('ted')
   const [duration, setDuration] = useState<3 | 5>(3)
   const [language, setLanguage] = useState<'ja' | 'en' | 'zh'>('ja')
+  // Empty for a mixed audience
+  const [audience, setAudience] = useState<Audience | ''>('')
   const [showLLMPanel, setShowLLMPanel] = useState(false)
   const [repositoryData, setRepositoryData] = useState<RepositoryData | null>(null)
-  const [_storyData, setStoryData] = useState<StoryStructure | null>(null)
+  const [storyData, setStoryData] = useState<StoryStructure | null>(null)
+  const [changes, setChanges] = useState<RepositoryChangeSummary | null>(null)
+  const [updatedSlides, setUpdatedSlides] = useState<number | null>(null)
+  const [templates, setTemplates] = useState<SlideTemplate[]>([])
+  const [templateId, setTemplateId] = useState('')
+  const [showTemplates, setShowTemplates] = useState(false)
+  const [includeReferences, setIncludeReferences] = useState(false)
+
+  const loadTemplates = () => {
+    templateRegistry.getTemplates()
+      .then(setTemplates)
+      // Without IndexedDB only the built-in modes are available
+      .catch(error => console.warn('Failed to load templates:', error))
+  }
+
+  useEffect(loadTemplates, [])
+
+  // A package picked for one repository means nothing for the next
+  useEffect(() => {
+    setWorkspace(null)
+    setPackagePath('')
+  }, [sourceType, repositoryUrl, localSource])
+
+  const canGenerate = sourceType === 'url' ? repositoryUrl.trim().length > 0 : localSource !== null
+  const template = templates.find(candidate => candidate.id === templateId)
+  // A template's story is generated in the template's mode
+  const storyMode = template ? template.mode : mode
+
+  const localSourceName = localSource
+    ? localSource.kind === 'directory' ? `📁 ${localSource.handle.name}` : `🗜️ ${localSource.file.name}`
+    : null
+
+  const chooseDirectory = async () => {
+    try {
+      const handle = await localRepositoryService.pickDirectory()
+      setLocalSource({ kind: 'directory', handle })
+    } catch (error) {
+      // AbortError means the user closed the picker
+      if (error instanceof DOMException && error.name === 'AbortError') return
+      console.error('Directory selection failed:', error)
+      alert(`フォルダの選択に失敗しました: ${error}`)
+    }
+  }
+
+  const handleArchiveSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      setLocalSource({ kind: localRepositoryService.isBundleFile(file) ? 'bundle' : 'zip', file })
+    }
+  }
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+
+    const source = await localRepositoryService.resolveDroppedItems(event.dataTransfer)
+    if (source) {
+      setLocalSource(source)
+    } else {
+      alert('フォルダ、.zipまたは.bundleファイルをドロップしてください')
+    }
+  }
 
   const generateSlides = async () => {
-    if (!repositoryUrl.trim()) return
+    if (!canGenerate) return
 
     setIsGenerating(true)
+    setChanges(null)
+    setProgress({ stage: 'repository', progress: 0, message: 'リポジトリ情報を取得中...' })
     try {
-      console.log('Analyzing repository:', repositoryUrl)
-      
-      // Step 1: Analyze repository
-      const repoData = await repositoryAnalysisEngine.analyzeRepository(repositoryUrl)
+      // Step 1: Analyze repository; remote analysis streams its steps into the progress panel
+      const range = parseRefSpec(refSpec)
+      const repoData = sourceType === 'local' && localSource
+        ? await repositoryAnalysisEngine.analyzeLocalRepository(localSource, range, packagePath || null)
+        : await repositoryAnalysisEngine.analyzeRepository(repositoryUrl, range, packagePath || null,
+          event => setProgress(previous => previous && applyAnalysisEvent(previous, event)))
       setRepositoryData(repoData)
+      setProgress(previous => previous && { ...previous, stage: 'story', progress: 45, message: 'ストーリー構造を生成中...', step: undefined })
+      if (repoData.workspace) setWorkspace(repoData.workspace)
       console.log('Repository analysis complete:', repoData)
       
       // Step 2: Generate story structure
-      const story = await storyGenerator.generateStory(repoData, mode, language)
+      const story = await storyGenerator.generateStory(repoData, storyMode, language, audience || undefined)
       setStoryData(story)
       console.log('Story generation complete:', story)
+      setProgress(previous => previous && { ...previous, stage: 'slides', progress: 75, message: 'スライドを生成中...' })
       
-      // Step 3: Generate presentation slides
-      const slidePresentation = slideGeneratorService.generatePresentation(
-        repoData,
-        story,
-        mode,
-        duration,
-        language
-      )
+      // Step 3: Generate presentation slides. A saved deck for the same target and settings is updated
+      // in place: only the slides touched by what changed since it was made are regenerated
+      const cacheKey = [repoData.url, refSpec.trim(), packagePath].filter(Boolean).join('#')
+      const { saved, lastAnalysis } = sourceType === 'url'
+        ? await findBaseline(repoData, cacheKey)
+        : { saved: undefined, lastAnalysis: undefined }
+      const baseline = saved
+        ? { data: saved.repositoryData, since: saved.updatedAt }
+        : lastAnalysis && { data: lastAnalysis.data, since: lastAnalysis.analyzedAt }
+      const repositoryChanges = baseline ? diffRepositories(baseline.data, repoData, baseline.since) : null
+      setChanges(repositoryChanges)
+
+      let slidePresentation: SlidePresentation
+      if (saved && repositoryChanges) {
+        const update = slideGeneratorService.updatePresentation(saved.presentationData, repoData, story, repositoryChanges, template, audience || undefined)
+        slidePresentation = update.presentation
+        setUpdatedSlides(update.updatedSlides)
+      } else {
+        slidePresentation = template
+          ? slideGeneratorService.generateFromTemplate(template, repoData, story, duration, language, audience || undefined)
+          : slideGeneratorService.generatePresentation(repoData, story, mode, duration, language, audience || undefined)
+        setUpdatedSlides(null)
+      }
+
+      // Local sources hold object URLs and whole file contents, so only remote analyses are kept
+      if (sourceType === 'url') {
+        await Promise.all([
+          storageService.cacheRepository(cacheKey, repoData),
+          storageService.savePresentation(slidePresentation)
+        ]).catch(error => console.warn('Failed to save the analysis:', error))
+      }
       
       setPresentation(slidePresentation)
       setCurrentSlide(0)
+      setProgress(previous => previous && { ...previous, stage: 'complete', progress: 100, message: '生成完了！' })
       console.log('Slide generation complete:', slidePresentation)
       
     } catch (error) {
       console.error('Slide generation failed:', error)
+      setProgress(previous => previous && { ...previous, error: error instanceof Error ? error.message : String(error) })
       alert(`スライド生成に失敗しました: ${error}`)
     } finally {
       setIsGenerating(false)
     }
   }
 
+  const findBaseline = async (repoData: RepositoryData, cacheKey: string) => {
+    try {
+      const presentations = await storageService.getPresentationsForRepository(repoData.url)
+      return {
+        saved: presentations.find(candidate =>
+          candidate.mode === storyMode
+          && (candidate.presentationData.templateId || '') === templateId
+          && (candidate.presentationData.audience || '') === audience
+          && candidate.language === language
+          && candidate.duration === duration
+          && isSameAnalysisTarget(candidate.repositoryData, repoData)),
+        lastAnalysis: await storageService.getLastAnalysis(cacheKey)
+      }
+    } catch (error) {
+      // Without IndexedDB (private browsing) every run starts fresh
+      console.warn('Failed to load the previous analysis:', error)
+      return { saved: undefined, lastAnalysis: undefined }
+    }
+  }
+
+  const regenerateAll = async () => {
+    if (!presentation || !repositoryData || !storyData) return
+    // A deck whose template was deleted since falls back to its mode
+    const deckTemplate = templates.find(candidate => candidate.id === presentation.templateId)
+    const regenerated = deckTemplate
+      ? slideGeneratorService.generateFromTemplate(
+        deckTemplate,
+        repositoryData,
+        storyData,
+        presentation.duration,
+        presentation.language,
+        presentation.audience
+      )
+      : slideGeneratorService.generatePresentation(
+        repositoryData,
+        storyData,
+        presentation.mode,
+        presentation.duration,
+        presentation.language,
+        presentation.audience
+      )
+    const replaced = { ...regenerated, id: presentation.id, title: presentation.title, createdAt: presentation.createdAt }
+    setPresentation(replaced)
+    setCurrentSlide(0)
+    setUpdatedSlides(replaced.slides.length)
+    await storageService.savePresentation(replaced).catch(error => console.warn('Failed to save the presentation:', error))
+  }
+
   const exportToPDF = async () => {
     if (!presentation) return
     try {
@@ -66,7 +231,8 @@ export default function SlideGenerator() {
         format: 'pdf' as const, 
         theme: 'default',
         includeNotes: false,
-        quality: 'medium' as const 
+        quality: 'medium' as const,
+        includeReferences
       }
       await exportService.exportToPDF(presentation, config)
       alert('PDF export completed!')
@@ -83,7 +249,8 @@ export default function SlideGenerator() {
         format: 'pptx' as const, 
         theme: 'default',
         includeNotes: false,
-        quality: 'medium' as const 
+        quality: 'medium' as const,
+        includeReferences
       }
       await exportService.exportToPowerPoint(presentation, config)
       alert('PowerPoint export completed!')
@@ -141,33 +308,135 @@ export default function SlideGenerator() {
       {/* Input Section */}
       <div className="bg-white rounded-lg shadow-lg p-6">
         <div className="space-y-6">
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setSourceType('url')}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                sourceType === 'url' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Repository URL
+            </button>
+            <button
+              onClick={() => setSourceType('local')}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                sourceType === 'local' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Local Folder / ZIP
+            </button>
+          </div>
+
+          {sourceType === 'url' ? (
+            <div>
+              <label htmlFor="repo-url" className="block text-sm font-medium text-gray-700 mb-2">
+                Repository URL
+              </label>
+              <input
+                id="repo-url"
+                type="url"
+                value={repositoryUrl}
+                onChange={(e) => setRepositoryUrl(e.target.value)}
+                placeholder="https://github.com/owner/repository"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                GitHub, GitLab, Bitbucket and Gitea/Forgejo, including self-hosted instances
+              </p>
+              <RateLimitIndicator className="mt-2" />
+            </div>
+          ) : (
+            <div
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true) }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+                isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+              }`}
+            >
+              <p className="text-gray-600 mb-4">
+                Drop a project folder, a .zip archive or a git bundle here. Files are analyzed locally and never uploaded. Commit history is read from .git when present.
+              </p>
+              <div className="flex justify-center space-x-2">
+                <button
+                  onClick={chooseDirectory}
+                  disabled={!localRepositoryService.isDirectoryPickerSupported()}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-800 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+                >
+                  Choose Folder
+                </button>
+                <label className="px-4 py-2 bg-gray-700 hover:bg-gray-800 text-white rounded-lg transition-colors cursor-pointer">
+                  Upload .zip / .bundle
+                  <input type="file" accept=".zip,application/zip,.bundle,.bdl" onChange={handleArchiveSelected} className="hidden" />
+                </label>
+              </div>
+              {localSourceName && (
+                <p className="mt-4 text-sm font-medium text-gray-800">{localSourceName}</p>
+              )}
+            </div>
+          )}
+
           <div>
-            <label htmlFor="repo-url" className="block text-sm font-medium text-gray-700 mb-2">
-              GitHub Repository URL
+            <label htmlFor="ref-spec" className="block text-sm font-medium text-gray-700 mb-2">
+              Branch / Tag / Range <span className="text-gray-400 font-normal">(optional)</span>
             </label>
             <input
-              id="repo-url"
-              type="url"
-              value={repositoryUrl}
-              onChange={(e) => setRepositoryUrl(e.target.value)}
-              placeholder="https://github.com/owner/repository"
+              id="ref-spec"
+              type="text"
+              value={refSpec}
+              onChange={(e) => setRefSpec(e.target.value)}
+              placeholder="v2.3 or v2.2..v2.3"
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
+            <p className="mt-1 text-xs text-gray-500">
+              A range limits history, changed files and dependency changes to that release. Pair it with the "What's New" mode.
+            </p>
           </div>
 
+          {workspace && (
+            <div>
+              <label htmlFor="workspace-package" className="block text-sm font-medium text-gray-700 mb-2">
+                Workspace Package
+              </label>
+              <select
+                id="workspace-package"
+                value={packagePath}
+                onChange={(e) => setPackagePath(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Whole workspace ({workspace.packages.length} packages)</option>
+                {workspace.packages.map(workspacePackage => (
+                  <option key={workspacePackage.path} value={workspacePackage.path}>
+                    {workspacePackage.name} — {workspacePackage.path}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Detected a {workspace.tool} workspace. Pick a package and generate again to present it on its own.
+              </p>
+            </div>
+          )}
+
           {/* Configuration Options */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Presentation Mode
               </label>
               <select
                 value={mode}
-                onChange={(e) => setMode(e.target.value as 'ted' | 'imrad')}
+                onChange={(e) => setMode(e.target.value as PresentationMode)}
+                disabled={!!template}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
               >
                 <option value="ted">TED Style</option>
                 <option value="imrad">IMRAD (Academic)</option>
+                <option value="release">What's New (Release)</option>
+                <option value="pitch">Startup Pitch</option>
+                <option value="sprint_demo">Sprint Demo</option>
+                <option value="postmortem">Incident Postmortem</option>
+                <option value="onboarding">Onboarding Walkthrough</option>
+                <option value="lightning">Lightning Talk</option>
               </select>
             </div>
 
@@ -199,11 +468,62 @@ export default function SlideGenerator() {
                 <option value="zh">中文</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Audience
+              </label>
+              <select
+                value={audience}
+                onChange={(e) => setAudience(e.target.value as Audience | '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Mixed</option>
+                <option value="technical">Technical</option>
+                <option value="business">Business</option>
+                <option value="general">General</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label htmlFor="slide-template" className="block text-sm font-medium text-gray-700">
+                Template <span className="text-gray-400 font-normal">(optional)</span>
+              </label>
+              <button
+                onClick={() => setShowTemplates(!showTemplates)}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                {showTemplates ? 'Hide Templates' : 'Manage Templates'}
+              </button>
+            </div>
+            <select
+              id="slide-template"
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">None — use the presentation mode</option>
+              {templates.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.name} ({candidate.structure.length} sections)
+                </option>
+              ))}
+            </select>
+            {template && (
+              <p className="mt-1 text-xs text-gray-500">
+                Slides follow the template's sections; the story is written in its {template.mode} style.
+              </p>
+            )}
+            {showTemplates && (
+              <TemplateManager templates={templates} onTemplatesChange={loadTemplates} className="mt-4" />
+            )}
           </div>
 
           <button
             onClick={generateSlides}
-            disabled={isGenerating || !repositoryUrl.trim()}
+            disabled={isGenerating || !canGenerate}
             className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 flex items-center justify-center space-x-2"
           >
             {isGenerating ? (
@@ -215,6 +535,15 @@ export default function SlideGenerator() {
               <span>Generate Presentation</span>
             )}
           </button>
+
+          {/* Failed steps stay listed after generation; the slides may be missing that data */}
+          {progress && (isGenerating || (progress.stepErrors?.length ?? 0) > 0) && (
+            <AnalysisProgressPanel progress={progress} />
+          )}
+
+          {changes && !isGenerating && (
+            <RepositoryChangesPanel changes={changes} updatedSlides={updatedSlides} onRegenerateAll={regenerateAll} />
+          )}
         </div>
       </div>
 
@@ -231,6 +560,15 @@ export default function SlideGenerator() {
               Generated Presentation
             </h2>
             <div className="flex space-x-2">
+              <label className="flex items-center space-x-2 px-2 text-sm text-gray-600" title="Appends slides listing the repository sources behind the bullets">
+                <input
+                  type="checkbox"
+                  checked={includeReferences}
+                  onChange={(e) => setIncludeReferences(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <span>References</span>
+              </label>
               <button
                 onClick={enhanceWithLLM}
                 className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
@@ -258,6 +596,8 @@ export default function SlideGenerator() {
             </div>
           </div>
 
+          <ProvenanceWarning repository={presentation.repository} className="mb-4" />
+
           {/* Slide Preview */}
           {currentSlideData && (
             <div className="border rounded-lg p-6 mb-4 bg-gray-50">
@@ -277,14 +617,54 @@ export default function SlideGenerator() {
                 
                 {currentSlideData.bullets && currentSlideData.bullets.length > 0 && (
                   <ul className="list-disc list-inside space-y-2 text-gray-700">
-                    {currentSlideData.bullets.map((bullet, index) => (
-                      <li key={index}>{bullet}</li>
-                    ))}
+                    {currentSlideData.bullets.map((bullet, index) => {
+                      // Hovering a bullet shows where its claim comes from
+                      const citations = currentSlideData.citations?.[bullet] || []
+                      return (
+                        <li key={index}>
+                          {citations.length > 0 ? (
+                            <span
+                              title={citations.map(formatCitation).join('\n')}
+                              className="underline decoration-dotted decoration-gray-400 cursor-help"
+                            >
+                              {bullet}
+                            </span>
+                          ) : bullet}
+                        </li>
+                      )
+                    })}
                   </ul>
                 )}
                 
+                {currentSlideData.image && (
+                  <figure className="mt-4 p-4 bg-white border border-gray-200 rounded-lg">
+                    <img
+                      src={currentSlideData.image.url}
+                      alt={currentSlideData.image.caption || ''}
+                      className="max-h-96 mx-auto rounded"
+                    />
+                  </figure>
+                )}
+
+                {currentSlideData.diagram && (
+                  <div className="mt-4 p-4 bg-white border border-gray-200 rounded-lg">
+                    <MermaidDiagram diagram={currentSlideData.diagram} />
+                  </div>
+                )}
+
+                {currentSlideData.chart?.type === 'timeline' && (
+                  <div className="mt-4 p-4 bg-white border border-gray-200 rounded-lg">
+                    <CommitTimeline chart={currentSlideData.chart} />
+                  </div>
+                )}
+
                 {currentSlideData.code && (
                   <div className="mt-4 p-4 bg-gray-900 rounded-lg">
+                    {currentSlideData.code.path && (
+                      <p className="text-gray-400 text-xs font-mono mb-2">
+                        {formatCodeSource(currentSlideData.code)}
+                      </p>
+                    )}
                     <pre className="text-green-400 text-sm overflow-x-auto">
                       <code>{currentSlideData.code.code}</code>
                     </pre>
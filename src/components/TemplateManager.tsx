@@ -0,0 +1,152 @@
+import React, { useState } from 'react'
+import { SlideTemplate } from '../types'
+import { TemplateValidationError, parseTemplate, serializeTemplate, templateRegistry } from '../services/templateRegistry'
+import { exportService } from '../services/export'
+
+interface TemplateManagerProps {
+  templates: SlideTemplate[]
+  // Called after a template was added, changed or deleted
+  onTemplatesChange: () => void
+  className?: string
+}
+
+// Import, export and edit the user templates kept in IndexedDB; templates are edited as YAML
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, onTemplatesChange, className = '' }) => {
+  const [editing, setEditing] = useState<{ id: string; source: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null)
+    try {
+      await action()
+      onTemplatesChange()
+    } catch (actionError) {
+      if (actionError instanceof TemplateValidationError) {
+        setError(actionError.message)
+        return
+      }
+      console.error(failure, actionError)
+      alert(`${failure}: ${actionError}`)
+    }
+  }
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    run(async () => templateRegistry.importTemplate(await file.text()), 'テンプレートの読み込みに失敗しました')
+  }
+
+  const createFromExample = () => run(async () => {
+    const template = await templateRegistry.createFromExample()
+    setEditing({ id: template.id, source: serializeTemplate(template, 'yaml') })
+  }, 'テンプレートの作成に失敗しました')
+
+  const saveEditing = () => {
+    if (!editing) return
+    run(async () => {
+      const template = parseTemplate(editing.source)
+      // Changing the id in the editor saves a copy under the new id
+      await templateRegistry.saveTemplate(template)
+      setEditing(null)
+    }, 'テンプレートの保存に失敗しました')
+  }
+
+  const deleteTemplate = (template: SlideTemplate) => {
+    if (!confirm(`テンプレート「${template.name}」を削除しますか？`)) return
+    run(async () => {
+      await templateRegistry.deleteTemplate(template.id)
+      if (editing?.id === template.id) setEditing(null)
+    }, 'テンプレートの削除に失敗しました')
+  }
+
+  const exportTemplate = (template: SlideTemplate, format: 'json' | 'yaml') => {
+    const { blob, filename } = templateRegistry.exportTemplate(template, format)
+    exportService.downloadFile(blob, filename)
+  }
+
+  return (
+    <div className={`border border-gray-200 rounded-lg p-4 space-y-4 ${className}`}>
+      <div className="flex justify-between items-center">
+        <p className="font-semibold text-gray-800">Slide Templates</p>
+        <div className="flex space-x-2">
+          <button
+            onClick={createFromExample}
+            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+          >
+            New from Example
+          </button>
+          <label className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors cursor-pointer">
+            Import JSON / YAML
+            <input type="file" accept=".json,.yaml,.yml,application/json" onChange={handleImport} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2">{error}</p>
+      )}
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No templates yet. Start from the example or import a template file.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {templates.map(template => (
+            <li key={template.id} className="py-2 flex justify-between items-center">
+              <div>
+                <p className="text-sm font-medium text-gray-800">{template.name}</p>
+                <p className="text-xs text-gray-500">
+                  {template.structure.length} sections · {template.mode}
+                  {template.description && ` — ${template.description}`}
+                </p>
+              </div>
+              <div className="flex space-x-2 text-xs">
+                <button
+                  onClick={() => { setError(null); setEditing({ id: template.id, source: serializeTemplate(template, 'yaml') }) }}
+                  className="text-blue-600 hover:underline"
+                >
+                  Edit
+                </button>
+                <button onClick={() => exportTemplate(template, 'yaml')} className="text-blue-600 hover:underline">YAML</button>
+                <button onClick={() => exportTemplate(template, 'json')} className="text-blue-600 hover:underline">JSON</button>
+                <button onClick={() => deleteTemplate(template)} className="text-red-600 hover:underline">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing && (
+        <div className="space-y-2">
+          <textarea
+            value={editing.source}
+            onChange={(e) => setEditing({ ...editing, source: e.target.value })}
+            spellCheck={false}
+            rows={16}
+            className="w-full px-3 py-2 font-mono text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500">
+            Each section binds a slide to a story section (story.why, story.result, ...) or to part of the analysis
+            (repository.metrics, repository.contributors, ...). Durations are relative weights in seconds.
+          </p>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => { setError(null); setEditing(null) }}
+              className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveEditing}
+              className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              Save Template
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,11 +4,12 @@ import { storyGenerator } from '../services/storyGenerator'
 import { slideGeneratorService } from '../services/slideGenerator'
 import { exportService } from '../services/export'
 import { storageService } from '../services/storage'
-import { SlidePresentation, AnalysisProgress, ExportConfig } from '../types'
+import { applyAnalysisEvent } from '../services/analysisStream'
+import { SlidePresentation, AnalysisProgress, ExportConfig, PresentationMode } from '../types'
 
 interface UseSlideGenerationOptions {
   repoUrl: string
-  mode: 'ted' | 'imrad'
+  mode: PresentationMode
   duration: 3 | 5
   language: 'ja' | 'en' | 'zh'
   githubToken?: string
@@ -32,27 +33,35 @@ export function useSlideGeneration() {
 
       setProgress({
         stage: 'repository',
-        progress: 10,
+        progress: 0,
         message: 'リポジトリ情報を取得中...'
       })
 
-      // Step 1: Repository Analysis
-      const repositoryData = await repositoryAnalysisEngine.analyzeRepository(options.repoUrl)
+      // Step 1: Repository Analysis, reported step by step by the analysis stream
+      const repositoryData = await repositoryAnalysisEngine.analyzeRepository(
+        options.repoUrl,
+        null,
+        null,
+        event => setProgress(previous => applyAnalysisEvent(previous, event))
+      )
 
-      setProgress({
+      // Step errors stay visible for the rest of the generation
+      setProgress(previous => ({
         stage: 'story',
         progress: 45,
-        message: 'ストーリー構造を生成中...'
-      })
+        message: 'ストーリー構造を生成中...',
+        stepErrors: previous.stepErrors
+      }))
 
       // Step 2: Story Generation
       const storyStructure = storyGenerator.generateStory(repositoryData)
 
-      setProgress({
+      setProgress(previous => ({
         stage: 'slides',
         progress: 75,
-        message: 'スライドを生成中...'
-      })
+        message: 'スライドを生成中...',
+        stepErrors: previous.stepErrors
+      }))
 
       // Step 3: Slide Generation
       const slidePresentation = slideGeneratorService.generatePresentation(
@@ -63,11 +72,12 @@ export function useSlideGeneration() {
         options.language
       )
 
-      setProgress({
+      setProgress(previous => ({
         stage: 'complete',
         progress: 100,
-        message: '生成完了！'
-      })
+        message: '生成完了！',
+        stepErrors: previous.stepErrors
+      }))
 
       setPresentation(slidePresentation)
       
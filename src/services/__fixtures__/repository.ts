@@ -0,0 +1,26 @@
+// Fixture repository for generator tests
+// An English project, run through the same analyzers the ingestion pipeline applies
+
+import { RepositoryData } from '../../types'
+import { parseReadme } from '../readmeParser'
+import { analyzeContributors } from '../contributorAnalysis'
+import { analyzeCodeMetrics } from '../codeMetrics'
+import { analyzeTests } from '../testAnalysis'
+import { buildReleaseHistory } from '../changelog'
+import { extractApiSurface } from '../apiSurface'
+import { analyzeDelivery } from '../deliveryAnalysis'
+import fixture from './repository.json'
+
+export async function loadFixtureRepository(): Promise<RepositoryData> {
+  const repository = structuredClone(fixture) as RepositoryData
+  const paths = repository.files.map(file => file.path)
+  const readFile = async (path: string) => repository.files.find(file => file.path === path)?.content ?? null
+  repository.readmeStructure = parseReadme(repository.readme)
+  repository.contributors = analyzeContributors(repository.commits) || undefined
+  repository.codeMetrics = analyzeCodeMetrics(repository.files, repository.commits) || undefined
+  repository.testing = analyzeTests(repository.files, repository.dependencies)
+  repository.releaseHistory = buildReleaseHistory(await readFile('CHANGELOG.md'), []) || undefined
+  repository.apiSurface = await extractApiSurface(paths, readFile) || undefined
+  repository.deliveryAnalysis = await analyzeDelivery(paths, readFile) || undefined
+  return repository
+}
@@ -0,0 +1,84 @@
+// Analysis progress stream
+// Reads the NDJSON events of the analyze-repo function and folds them into AnalysisProgress
+
+import { AnalysisProgress, AnalysisStep, AnalysisStepEvent, AnalysisStreamEvent, RepositoryData } from '../types'
+import { rateLimitMonitor } from './rateLimitMonitor'
+
+// Remote analysis takes up the first part of the overall progress; story and slide generation follow
+const STEP_PROGRESS: Record<AnalysisStep, { stage: AnalysisProgress['stage']; progress: number; message: string }> = {
+  ingestion: { stage: 'repository', progress: 5, message: 'リポジトリに接続中...' },
+  metadata: { stage: 'repository', progress: 8, message: 'リポジトリ情報を取得中...' },
+  tree: { stage: 'files', progress: 12, message: 'ファイルツリーを取得中...' },
+  history: { stage: 'repository', progress: 16, message: 'コミット履歴とリリースを取得中...' },
+  readme: { stage: 'files', progress: 20, message: 'READMEを取得中...' },
+  dependencies: { stage: 'files', progress: 25, message: '依存関係を解析中...' },
+  sources: { stage: 'files', progress: 30, message: 'ソースコードとテストを取得中...' },
+  release: { stage: 'repository', progress: 34, message: 'リリース範囲を比較中...' },
+  purpose: { stage: 'repository', progress: 37, message: 'プロジェクトの目的を分析中...' },
+  architecture: { stage: 'files', progress: 40, message: 'アーキテクチャを分析中...' },
+  frameworks: { stage: 'files', progress: 43, message: 'フレームワークを検出中...' }
+}
+
+export const ANALYSIS_STREAM_CONTENT_TYPE = 'application/x-ndjson'
+
+// Resolves with the final result; per-step events go to `onEvent` as they arrive, quota updates to the monitor
+export async function readAnalysisStream(
+  response: Response,
+  onEvent: (event: AnalysisStepEvent) => void
+): Promise<RepositoryData> {
+  // Older deployments and proxies that buffer the response still send a single JSON document
+  if (!response.body || !response.headers.get('Content-Type')?.includes(ANALYSIS_STREAM_CONTENT_TYPE)) {
+    return response.json()
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let result: RepositoryData | null = null
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return
+    const event = JSON.parse(line) as AnalysisStreamEvent
+    if (event.type === 'result') {
+      result = event.repository
+    } else if (event.type === 'quota') {
+      rateLimitMonitor.update(event.quota)
+    } else if (event.type === 'error') {
+      throw new Error(event.details ? `${event.error}: ${event.details}` : event.error)
+    } else {
+      onEvent({ step: event.step, status: event.status, detail: event.detail, error: event.error, partial: event.partial })
+    }
+  }
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    lines.forEach(handleLine)
+  }
+  handleLine(buffer + decoder.decode())
+
+  if (!result) {
+    throw new Error('Analysis stream ended without a result')
+  }
+  return result
+}
+
+export function applyAnalysisEvent(progress: AnalysisProgress, event: AnalysisStepEvent): AnalysisProgress {
+  const { stage, progress: stepProgress, message } = STEP_PROGRESS[event.step]
+  const next: AnalysisProgress = {
+    ...progress,
+    stage,
+    // Steps run partly in parallel, so the bar only ever moves forward
+    progress: Math.max(progress.progress, stepProgress),
+    message: event.detail && event.step === 'ingestion' ? `${message} (${event.detail})` : message,
+    step: event.step,
+    partial: event.partial ? { ...progress.partial, ...event.partial } : progress.partial
+  }
+  if (event.error) {
+    next.stepErrors = [...(progress.stepErrors || []), { step: event.step, detail: event.detail, error: event.error }]
+  }
+  return next
+}
@@ -0,0 +1,364 @@
+// Public API extraction for JavaScript/TypeScript libraries
+// Follows the package.json entry points (types/exports/module/main) and their re-exports with the TypeScript parser
+
+import type * as TypeScript from 'typescript'
+import { ApiSurface, ApiSymbol, ApiSymbolKind } from '../types'
+
+type ReadFile = (path: string) => Promise<string | null>
+
+interface PackageJson {
+  name?: string
+  main?: string
+  module?: string
+  types?: string
+  typings?: string
+  exports?: PackageExports
+}
+
+type PackageExports = string | null | PackageExports[] | { [key: string]: PackageExports }
+
+const MAX_SYMBOLS = 40
+const MAX_REEXPORT_DEPTH = 4
+const MAX_SIGNATURE_LINES = 12
+const MAX_CLASS_MEMBERS = 6
+
+// Build output directories that usually mirror `src/`
+const OUTPUT_DIRECTORIES = /^(dist|lib|build|out|esm|cjs|es|types)(\/(esm|cjs|es|types))?\//
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.d.ts', '.js', '.jsx', '.mjs', '.cjs']
+
+export async function extractApiSurface(paths: string[], readFile: ReadFile, directory = ''): Promise<ApiSurface | null> {
+  const prefix = directory ? `${directory}/` : ''
+  if (!paths.includes(`${prefix}package.json`)) return null
+
+  let manifest: PackageJson
+  try {
+    manifest = JSON.parse(await readFile(`${prefix}package.json`) || '')
+  } catch {
+    return null
+  }
+
+  const known = new Set(paths)
+  const entryPoints = Array.from(new Set(
+    listEntryTargets(manifest)
+      .map(target => resolveEntrySource(`${prefix}${target.replace(/^\.\//, '')}`, prefix, known))
+      .filter((path): path is string => !!path)
+  ))
+  if (entryPoints.length === 0) return null
+
+  // The compiler is large, so it is only loaded for repositories that have an entry point to parse
+  const { default: ts } = await import('typescript')
+  const extractor = new ApiExtractor(ts, known, readFile)
+  const symbols: ApiSymbol[] = []
+  for (const entryPoint of entryPoints) {
+    for (const symbol of await extractor.collect(entryPoint)) {
+      if (!symbols.some(existing => existing.name === symbol.name)) symbols.push(symbol)
+    }
+  }
+  if (symbols.length === 0) return null
+
+  return {
+    packageName: manifest.name || directory.split('/').pop() || '',
+    entryPoints,
+    symbols: symbols.slice(0, MAX_SYMBOLS)
+  }
+}
+
+// Documented functions and classes make the best signature slides
+export function selectKeySymbols(surface: ApiSurface, limit: number): ApiSymbol[] {
+  const weight = (symbol: ApiSymbol) =>
+    (symbol.doc ? 4 : 0) + (symbol.kind === 'function' || symbol.kind === 'class' ? 2 : symbol.kind === 'interface' ? 1 : 0)
+  return [...surface.symbols]
+    .map((symbol, index) => ({ symbol, index }))
+    .sort((a, b) => weight(b.symbol) - weight(a.symbol) || a.index - b.index)
+    .slice(0, limit)
+    .map(entry => entry.symbol)
+}
+
+// Root export first, then the remaining subpath exports; `types` beats runtime files
+function listEntryTargets(manifest: PackageJson): string[] {
+  const targets: string[] = []
+  const fromExports = (value: PackageExports | undefined) => {
+    if (!value) return
+    if (typeof value === 'string') targets.push(value)
+    else if (Array.isArray(value)) value.forEach(fromExports)
+    else {
+      const keys = Object.keys(value)
+      const subpaths = keys.filter(key => key.startsWith('.'))
+      if (subpaths.length > 0) {
+        // Wildcard subpaths (`./*`) can't be enumerated
+        const enumerable = subpaths.filter(key => key !== '.' && !key.includes('*'))
+        fromExports(value['.'])
+        enumerable.forEach(key => fromExports(value[key]))
+      } else {
+        ['types', 'import', 'module', 'require', 'default', 'node', 'browser'].forEach(key => fromExports(value[key]))
+      }
+    }
+  }
+
+  const declared = [manifest.types, manifest.typings]
+  declared.forEach(target => target && targets.push(target))
+  fromExports(manifest.exports)
+  const runtime = [manifest.module, manifest.main]
+  runtime.forEach(target => target && targets.push(target))
+  return targets.length > 0 ? targets : ['index.ts', 'src/index.ts', 'index.js']
+}
+
+// Entry points usually name build output; prefer the source it was compiled from
+function resolveEntrySource(target: string, prefix: string, known: Set<string>): string | null {
+  const relative = target.slice(prefix.length)
+  const stem = relative.replace(/(\.d)?\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/, '')
+  const stems = [
+    ...(OUTPUT_DIRECTORIES.test(stem) ? [stem.replace(OUTPUT_DIRECTORIES, 'src/'), stem.replace(OUTPUT_DIRECTORIES, '')] : []),
+    stem,
+    `${stem}/index`
+  ]
+
+  for (const candidate of stems) {
+    const match = SOURCE_EXTENSIONS.map(extension => `${prefix}${candidate}${extension}`).find(path => known.has(path))
+    if (match) return match
+  }
+  return known.has(target) ? target : null
+}
+
+class ApiExtractor {
+  private readonly visited = new Map<string, ApiSymbol[]>()
+
+  constructor(
+    private readonly ts: typeof TypeScript,
+    private readonly known: Set<string>,
+    private readonly readFile: ReadFile
+  ) {}
+
+  async collect(path: string, depth = 0): Promise<ApiSymbol[]> {
+    const cached = this.visited.get(path)
+    if (cached) return cached
+    // Marks the file before recursing so circular re-exports terminate
+    this.visited.set(path, [])
+    if (depth > MAX_REEXPORT_DEPTH) return []
+
+    const content = await this.readFile(path).catch(() => null)
+    if (!content) return []
+
+    const ts = this.ts
+    const source = ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, this.scriptKind(path))
+    const symbols: ApiSymbol[] = []
+    const locals = new Map<string, TypeScript.Statement>()
+    const localExports: { name: string; alias: string }[] = []
+    // `import { a } from './a'` followed by `export { a }`
+    const imports = new Map<string, { specifier: string; name: string }>()
+
+    for (const statement of source.statements) {
+      const name = this.declarationName(statement)
+      if (name) locals.set(name, statement)
+
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        const bindings = statement.importClause?.namedBindings
+        if (bindings && ts.isNamedImports(bindings)) {
+          const specifier = statement.moduleSpecifier.text
+          bindings.elements.forEach(element => imports.set(element.name.text, {
+            specifier,
+            name: (element.propertyName || element.name).text
+          }))
+        }
+        continue
+      }
+
+      if (ts.isExportDeclaration(statement)) {
+        if (statement.isTypeOnly && !statement.moduleSpecifier) continue
+        const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : null
+        const clause = statement.exportClause
+
+        if (!specifier) {
+          if (clause && ts.isNamedExports(clause)) {
+            clause.elements.forEach(element => localExports.push({
+              name: (element.propertyName || element.name).text,
+              alias: element.name.text
+            }))
+          }
+          continue
+        }
+
+        // Packages re-exported from node_modules are not part of this repository's source
+        const target = specifier.startsWith('.') ? this.resolveImport(path, specifier) : null
+        if (!target) continue
+        const reexported = await this.collect(target, depth + 1)
+        if (!clause) {
+          symbols.push(...reexported)
+        } else if (ts.isNamedExports(clause)) {
+          clause.elements.forEach(element => {
+            const original = reexported.find(symbol => symbol.name === (element.propertyName || element.name).text)
+            if (original) symbols.push({ ...original, name: element.name.text })
+          })
+        }
+        continue
+      }
+
+      if (ts.isExportAssignment(statement) && !statement.isExportEquals && ts.isIdentifier(statement.expression)) {
+        localExports.push({ name: statement.expression.text, alias: 'default' })
+        continue
+      }
+
+      if (this.isExported(statement) && name && !this.isInternal(statement)) {
+        const symbol = this.describe(statement, name, source)
+        if (symbol) symbols.push(symbol)
+      }
+    }
+
+    for (const { name, alias } of localExports) {
+      const exportedName = alias === 'default' ? name : alias
+      const statement = locals.get(name)
+      const imported = imports.get(name)
+      if (statement) {
+        const symbol = this.isInternal(statement) ? null : this.describe(statement, name, source)
+        if (symbol) symbols.push({ ...symbol, name: exportedName })
+      } else if (imported && imported.specifier.startsWith('.')) {
+        const target = this.resolveImport(path, imported.specifier)
+        const original = target ? (await this.collect(target, depth + 1)).find(symbol => symbol.name === imported.name) : null
+        if (original) symbols.push({ ...original, name: exportedName })
+      }
+    }
+
+    // Overloads declare the same function several times; the first signature stands for all of them
+    const unique = symbols.filter((symbol, index) => symbols.findIndex(other => other.name === symbol.name) === index)
+    this.visited.set(path, unique)
+    return unique
+  }
+
+  private scriptKind(path: string): TypeScript.ScriptKind {
+    const ts = this.ts
+    if (/\.tsx$/.test(path)) return ts.ScriptKind.TSX
+    if (/\.jsx$/.test(path)) return ts.ScriptKind.JSX
+    if (/\.[mc]?js$/.test(path)) return ts.ScriptKind.JS
+    return ts.ScriptKind.TS
+  }
+
+  private resolveImport(from: string, specifier: string): string | null {
+    const segments: string[] = []
+    const parts = [...from.split('/').slice(0, -1), ...specifier.split('/')]
+    parts.forEach(segment => {
+      if (segment === '..') segments.pop()
+      else if (segment && segment !== '.') segments.push(segment)
+    })
+    // NodeNext sources import `./x.js` for `./x.ts`
+    const stem = segments.join('/').replace(/\.(js|jsx|mjs|cjs)$/, '')
+    return [stem, `${stem}/index`]
+      .flatMap(candidate => SOURCE_EXTENSIONS.map(extension => `${candidate}${extension}`))
+      .find(candidate => this.known.has(candidate))
+      || (this.known.has(segments.join('/')) ? segments.join('/') : null)
+  }
+
+  private declarationName(statement: TypeScript.Statement): string | null {
+    const ts = this.ts
+    if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+      return statement.name?.text || (this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword) ? 'default' : null)
+    }
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+      return statement.name.text
+    }
+    if (ts.isVariableStatement(statement)) {
+      const declaration = statement.declarationList.declarations[0]
+      return declaration && ts.isIdentifier(declaration.name) ? declaration.name.text : null
+    }
+    return null
+  }
+
+  private hasModifier(statement: TypeScript.Node, kind: TypeScript.SyntaxKind): boolean {
+    const ts = this.ts
+    return ts.canHaveModifiers(statement) && !!ts.getModifiers(statement)?.some(modifier => modifier.kind === kind)
+  }
+
+  private isExported(statement: TypeScript.Statement): boolean {
+    return this.hasModifier(statement, this.ts.SyntaxKind.ExportKeyword)
+  }
+
+  private isInternal(statement: TypeScript.Statement): boolean {
+    return this.ts.getJSDocTags(this.jsDocHost(statement)).some(tag => ['internal', 'private', 'hidden'].includes(tag.tagName.text))
+  }
+
+  // JSDoc on a variable statement is reached through its declaration
+  private jsDocHost(statement: TypeScript.Statement): TypeScript.Node {
+    return this.ts.isVariableStatement(statement) ? statement.declarationList.declarations[0] || statement : statement
+  }
+
+  private describe(statement: TypeScript.Statement, name: string, source: TypeScript.SourceFile): ApiSymbol | null {
+    const kind = this.symbolKind(statement)
+    if (!kind) return null
+
+    return {
+      name,
+      kind,
+      signature: this.signature(statement, source),
+      doc: this.documentation(statement),
+      path: source.fileName,
+      line: source.getLineAndCharacterOfPosition(statement.getStart(source)).line + 1
+    }
+  }
+
+  private symbolKind(statement: TypeScript.Statement): ApiSymbolKind | null {
+    const ts = this.ts
+    if (ts.isFunctionDeclaration(statement)) return 'function'
+    if (ts.isClassDeclaration(statement)) return 'class'
+    if (ts.isInterfaceDeclaration(statement)) return 'interface'
+    if (ts.isTypeAliasDeclaration(statement)) return 'type'
+    if (ts.isEnumDeclaration(statement)) return 'enum'
+    if (ts.isVariableStatement(statement)) {
+      const initializer = statement.declarationList.declarations[0]?.initializer
+      return initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) ? 'function' : 'variable'
+    }
+    return null
+  }
+
+  // Declarations with their bodies cut off; classes keep their public member signatures
+  private signature(statement: TypeScript.Statement, source: TypeScript.SourceFile): string {
+    const ts = this.ts
+    const text = source.text
+    const start = statement.getStart(source)
+    const until = (end: number) => text.slice(start, end).trim()
+
+    if (ts.isFunctionDeclaration(statement)) {
+      return statement.body ? until(statement.body.getStart(source)) : until(statement.end).replace(/;$/, '')
+    }
+
+    if (ts.isClassDeclaration(statement)) {
+      const header = until(statement.members.pos).replace(/\{$/, '').trim()
+      const members = statement.members
+        .filter(member => !ts.isClassStaticBlockDeclaration(member) && !ts.isSemicolonClassElement(member))
+        .filter(member => !this.hasModifier(member, ts.SyntaxKind.PrivateKeyword) && !this.hasModifier(member, ts.SyntaxKind.ProtectedKeyword))
+        .filter(member => !(member.name && ts.isPrivateIdentifier(member.name)))
+        .map(member => {
+          const body = (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) || ts.isGetAccessor(member) || ts.isSetAccessor(member))
+            ? member.body
+            : undefined
+          const end = body ? body.getStart(source) : ts.isPropertyDeclaration(member) && member.initializer ? member.initializer.getStart(source) : member.end
+          return `  ${text.slice(member.getStart(source), end).replace(/\s*[=;]?\s*$/, '').replace(/\s+/g, ' ').trim()}`
+        })
+      const shown = members.slice(0, MAX_CLASS_MEMBERS)
+      if (members.length > shown.length) shown.push('  // ...')
+      return `${header} {\n${shown.join('\n')}${shown.length > 0 ? '\n' : ''}}`
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      const declaration = statement.declarationList.declarations[0]
+      const initializer = declaration?.initializer
+      if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+        return until(initializer.body.getStart(source)).replace(/\s*=>\s*$/, ' =>').replace(/\{$/, '').trim()
+      }
+      return initializer && !declaration.type ? until(initializer.getStart(source)).replace(/\s*=\s*$/, '') : until(statement.end).replace(/;$/, '')
+    }
+
+    const lines = until(statement.end).split('\n')
+    return lines.length > MAX_SIGNATURE_LINES
+      ? [...lines.slice(0, MAX_SIGNATURE_LINES - 1), '  // ...', lines[lines.length - 1]].join('\n')
+      : lines.join('\n')
+  }
+
+  private documentation(statement: TypeScript.Statement): string | undefined {
+    const ts = this.ts
+    const docs = ts.getJSDocCommentsAndTags(this.jsDocHost(statement)).filter(ts.isJSDoc)
+    const comment = docs.length > 0 ? ts.getTextOfJSDocComment(docs[docs.length - 1].comment) : undefined
+    const paragraph = comment?.split(/\n\s*\n/)[0].replace(/\s+/g, ' ').trim()
+    return paragraph || undefined
+  }
+}
@@ -0,0 +1,111 @@
+// Architecture diagrams from the module import graph
+// Mermaid flowcharts for slides, rendered to SVG in the browser and rasterized for PDF/PPTX export
+
+import { DiagramData, FileData } from '../types'
+import { buildImportGraph, clusterImportGraph } from './importGraph'
+
+export interface RasterizedDiagram {
+  dataUrl: string
+  width: number
+  height: number
+}
+
+// Small graphs show individual files inside their directories; larger ones collapse to directories
+const MAX_FILE_NODES = 16
+const MAX_CLUSTER_NODES = 12
+const MAX_EDGES = 24
+
+let renderCount = 0
+
+// `fileCount` labels the collapsed directories in the deck language; the Netlify analysis is shared by every
+// language, so it leaves it out and the directories show only their path
+export function buildArchitectureDiagram(files: FileData[], title = 'Module dependencies', fileCount?: (count: number) => string): DiagramData | null {
+  const graph = buildImportGraph(files)
+  const { clusters, edges } = clusterImportGraph(graph)
+  const connectedFiles = clusters.reduce((sum, cluster) => sum + cluster.files.length, 0)
+  if (connectedFiles < 3) return null
+
+  const lines = ['flowchart LR']
+
+  if (connectedFiles <= MAX_FILE_NODES) {
+    // Few enough files to label each directory exactly
+    const ids = new Map<string, string>()
+    clusterImportGraph(graph, Number.MAX_SAFE_INTEGER).clusters.forEach((cluster, clusterIndex) => {
+      lines.push(`  subgraph c${clusterIndex}["${escapeLabel(cluster.directory)}"]`)
+      cluster.files.forEach(file => {
+        const id = `n${ids.size}`
+        ids.set(file, id)
+        lines.push(`    ${id}["${escapeLabel(file.split('/').pop()!)}"]`)
+      })
+      lines.push('  end')
+    })
+    let edgeCount = 0
+    graph.forEach((targets, source) => targets.forEach(target => {
+      if (edgeCount++ < MAX_EDGES && ids.has(source) && ids.has(target)) {
+        lines.push(`  ${ids.get(source)} --> ${ids.get(target)}`)
+      }
+    }))
+  } else {
+    // Busiest directories first, judged by the imports crossing their boundary
+    const weight = new Map<string, number>()
+    edges.forEach(edge => {
+      weight.set(edge.from, (weight.get(edge.from) || 0) + edge.count)
+      weight.set(edge.to, (weight.get(edge.to) || 0) + edge.count)
+    })
+    const shown = clusters
+      .filter(cluster => weight.has(cluster.directory))
+      .sort((a, b) => (weight.get(b.directory) || 0) - (weight.get(a.directory) || 0))
+      .slice(0, MAX_CLUSTER_NODES)
+    if (shown.length < 2) return null
+
+    const ids = new Map(shown.map((cluster, index) => [cluster.directory, `c${index}`]))
+    shown.forEach(cluster => {
+      const label = fileCount ? `${cluster.directory}<br/>${fileCount(cluster.files.length)}` : cluster.directory
+      lines.push(`  ${ids.get(cluster.directory)}["${escapeLabel(label)}"]`)
+    })
+    edges
+      .filter(edge => ids.has(edge.from) && ids.has(edge.to))
+      .slice(0, MAX_EDGES)
+      .forEach(edge => lines.push(`  ${ids.get(edge.from)} -->|${edge.count}| ${ids.get(edge.to)}`))
+  }
+
+  return { type: 'mermaid', title, source: lines.join('\n') }
+}
+
+export async function renderDiagramSvg(diagram: DiagramData): Promise<string> {
+  const { default: mermaid } = await import('mermaid')
+  // Plain SVG text labels (no foreignObject) keep the canvas untainted when rasterizing
+  mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', flowchart: { htmlLabels: false } })
+  const { svg } = await mermaid.render(`diagram-${++renderCount}`, diagram.source)
+  return svg
+}
+
+// PNG for exporters that can't embed SVG; `width` is the output width in pixels
+export async function rasterizeDiagram(diagram: DiagramData, width = 1600): Promise<RasterizedDiagram> {
+  const svg = await renderDiagramSvg(diagram)
+  const viewBox = svg.match(/viewBox="[\d.-]+ [\d.-]+ ([\d.]+) ([\d.]+)"/)
+  const aspect = viewBox ? Number(viewBox[2]) / Number(viewBox[1]) : 0.5
+  const height = Math.max(1, Math.round(width * aspect))
+
+  const image = new Image()
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve()
+    image.onerror = () => reject(new Error('Failed to load the diagram SVG'))
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  })
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas 2D context is not available')
+  context.fillStyle = '#FFFFFF'
+  context.fillRect(0, 0, width, height)
+  context.drawImage(image, 0, 0, width, height)
+
+  return { dataUrl: canvas.toDataURL('image/png'), width, height }
+}
+
+function escapeLabel(text: string): string {
+  return text.replace(/"/g, '#quot;')
+}
@@ -0,0 +1,115 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { RepositoryChangeSummary, RepositoryData, SlidePresentation, SlideTemplate, StoryStructure } from '../types'
+import { loadFixtureRepository } from './__fixtures__/repository'
+import { storyGenerator } from './storyGenerator'
+import { slideGeneratorService } from './slideGenerator'
+import { EXAMPLE_TEMPLATE } from './templateRegistry'
+
+// One section per kind of binding the audiences treat differently
+const TEMPLATE: SlideTemplate = {
+  id: 'audience-test',
+  name: 'Audience test',
+  mode: 'ted',
+  structure: [
+    { type: 'title', binding: 'repository.overview', title: '', estimatedDuration: 10, required: true },
+    { type: 'code', binding: 'story.approach', title: '', estimatedDuration: 30, required: true },
+    { type: 'diagram', binding: 'repository.architecture', title: '', estimatedDuration: 30, required: false },
+    { type: 'content', binding: 'repository.api', title: '', estimatedDuration: 20, required: false },
+    { type: 'code', binding: 'repository.code', title: '', estimatedDuration: 20, required: true },
+    { type: 'content', binding: 'story.result', title: '', estimatedDuration: 20, required: false },
+    { type: 'conclusion', binding: 'repository.url', title: '', estimatedDuration: 10, required: true }
+  ],
+  theme: EXAMPLE_TEMPLATE.theme
+}
+
+const sections = (presentation: SlidePresentation) => presentation.slides.map(slide => slide.section)
+
+describe('audiences in template decks', () => {
+  let repository: RepositoryData
+
+  beforeAll(async () => {
+    repository = await loadFixtureRepository()
+  })
+
+  const generate = async (audience?: 'technical' | 'business' | 'general') => {
+    const story = await storyGenerator.generateStory(repository, TEMPLATE.mode, 'en', audience)
+    return slideGeneratorService.generateFromTemplate(TEMPLATE, repository, story, 5, 'en', audience)
+  }
+
+  it('keeps every section with data for a mixed audience', async () => {
+    const presentation = await generate()
+
+    expect(sections(presentation)).toEqual(expect.arrayContaining(['architecture', 'api_overview', 'implementation']))
+    expect(presentation.audience).toBeUndefined()
+  })
+
+  it('leaves optional technical sections and code visuals out of business decks', async () => {
+    const presentation = await generate('business')
+
+    expect(sections(presentation)).not.toContain('architecture')
+    expect(sections(presentation)).not.toContain('api_overview')
+    // The required code binding stays, the story binding drops its code listing for the bullets
+    expect(presentation.slides.filter(slide => slide.type === 'code').map(slide => slide.section)).toEqual(['implementation'])
+    expect(presentation.slides.find(slide => slide.section === 'approach')?.type).toBe('content')
+    expect(presentation.audience).toBe('business')
+  })
+
+  it('adds the glossary before the closing slide of general decks', async () => {
+    const presentation = await generate('general')
+
+    expect(sections(presentation)).not.toContain('api_overview')
+    expect(sections(presentation).slice(-2)).toEqual(['glossary', 'conclusion'])
+    const total = presentation.slides.reduce((sum, slide) => sum + slide.duration, 0)
+    expect(Math.round(total)).toBe(300)
+  })
+
+  it('regenerates every slide when an update changes the audience', async () => {
+    const existing = await generate()
+    const story = await storyGenerator.generateStory(repository, TEMPLATE.mode, 'en', 'business')
+    const changes: RepositoryChangeSummary = {
+      since: existing.createdAt,
+      newCommits: [],
+      addedFiles: [],
+      removedFiles: [],
+      modifiedFiles: [],
+      dependencyChanges: [],
+      starsDelta: 0,
+      forksDelta: 0
+    }
+
+    const { presentation, updatedSlides } = slideGeneratorService.updatePresentation(existing, repository, story, changes, TEMPLATE, 'business')
+
+    expect(presentation.audience).toBe('business')
+    expect(updatedSlides).toBe(presentation.slides.length)
+    expect(sections(presentation)).not.toContain('architecture')
+  })
+})
+
+describe('audiences in release-style stories', () => {
+  let repository: RepositoryData
+
+  beforeAll(async () => {
+    repository = await loadFixtureRepository()
+  })
+
+  const storyText = (story: StoryStructure) => [story.why, story.problem, story.approach, story.result, story.next]
+    .flatMap(section => [section.title, section.content, ...section.bullets])
+    .join('\n')
+
+  describe.each(['release', 'sprint_demo', 'postmortem'] as const)('%s mode', mode => {
+    it('names dependencies or files for technical audiences', async () => {
+      const text = storyText(await storyGenerator.generateStory(repository, mode, 'en', 'technical'))
+
+      expect(text).toMatch(mode === 'postmortem' ? /src\// : /express|cron-parser/)
+    })
+
+    it.each(['business', 'general'] as const)('leaves dependency bumps and file paths out for %s audiences', async audience => {
+      const story = await storyGenerator.generateStory(repository, mode, 'en', audience)
+      const text = storyText(story)
+
+      repository.dependencies.forEach(dependency => expect(text).not.toContain(dependency.name))
+      expect(text).not.toMatch(/src\//)
+      expect(story.glossary !== undefined).toBe(audience === 'general')
+    })
+  })
+})
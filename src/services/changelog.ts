@@ -0,0 +1,208 @@
+// CHANGELOG and release parsing
+// Keep a Changelog and conventional-changelog files, plus the host's release notes, merged into milestones
+
+import { DiagramData, Milestone, ReleaseHistory } from '../types'
+
+interface ChangelogEntry {
+  text: string
+  priority: number
+}
+
+interface ProviderRelease {
+  tag: string
+  name?: string | null
+  body?: string | null
+  date?: string | null
+  prerelease?: boolean
+  url?: string
+}
+
+const CHANGELOG_FILE = /^(CHANGELOG|CHANGES|HISTORY|RELEASES|NEWS)(\.(md|markdown|txt))?$/i
+const VERSION_HEADING = /^#{1,3}\s+(?:version\s+)?\[?v?(\d+\.\d+(?:\.\d+)?(?:-[\w.]+)?)\]?(?:\([^)]*\))?(.*)$/i
+const UNRELEASED_HEADING = /^#{1,3}\s+\[?unreleased\]?/i
+const MAX_MILESTONES = 20
+const MAX_HIGHLIGHTS = 5
+const MAX_TIMELINE_MILESTONES = 6
+
+// Lower sorts first: what a listener most needs to hear about a version
+const CATEGORY_PRIORITIES: { pattern: RegExp; priority: number }[] = [
+  { pattern: /breaking/i, priority: 0 },
+  { pattern: /added|features?|new/i, priority: 1 },
+  { pattern: /changed|performance|improve|security/i, priority: 2 },
+  { pattern: /fix/i, priority: 3 }
+]
+const DEFAULT_PRIORITY = 4
+
+export function findChangelogPath(paths: string[], directory?: string): string | undefined {
+  const inDirectory = (prefix: string) => paths
+    .filter(path => path.startsWith(prefix) && CHANGELOG_FILE.test(path.slice(prefix.length)))
+    .sort((a, b) => Number(!/changelog/i.test(a)) - Number(!/changelog/i.test(b)))[0]
+  return (directory && inDirectory(`${directory}/`)) || inDirectory('')
+}
+
+export function parseChangelog(content: string): ReleaseHistory {
+  const milestones: Milestone[] = []
+  const unreleased: ChangelogEntry[] = []
+  let current: { milestone: Milestone; entries: ChangelogEntry[] } | null = null
+  let inUnreleased = false
+  let priority = DEFAULT_PRIORITY
+
+  const finish = () => {
+    if (current) milestones.push({ ...current.milestone, highlights: topEntries(current.entries) })
+    current = null
+  }
+
+  for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+    const version = line.match(VERSION_HEADING)
+    if (version) {
+      finish()
+      inUnreleased = false
+      priority = DEFAULT_PRIORITY
+      // Yanked releases were withdrawn and shouldn't be presented as shipped
+      if (/\[?yanked\]?/i.test(version[2])) continue
+      current = {
+        milestone: { version: version[1], date: version[2].match(/\d{4}-\d{2}-\d{2}/)?.[0], highlights: [], source: 'changelog' },
+        entries: []
+      }
+      continue
+    }
+    if (UNRELEASED_HEADING.test(line)) {
+      finish()
+      inUnreleased = true
+      priority = DEFAULT_PRIORITY
+      continue
+    }
+    if (/^#{1,6}\s/.test(line)) {
+      priority = categoryPriority(line)
+      continue
+    }
+
+    const entry = parseEntry(line, priority)
+    if (!entry) continue
+    if (current) current.entries.push(entry)
+    else if (inUnreleased) unreleased.push(entry)
+  }
+  finish()
+
+  return { milestones: milestones.slice(0, MAX_MILESTONES), unreleased: topEntries(unreleased) }
+}
+
+// Release notes are free-form Markdown; their bullet points (grouped by headings, if any) are the highlights
+export function milestoneFromRelease(release: ProviderRelease, source: Milestone['source'] = 'release'): Milestone {
+  const entries: ChangelogEntry[] = []
+  let priority = DEFAULT_PRIORITY
+  for (const line of (release.body || '').replace(/\r\n/g, '\n').split('\n')) {
+    if (/^#{1,6}\s/.test(line)) {
+      priority = categoryPriority(line)
+      continue
+    }
+    const entry = parseEntry(line, priority)
+    if (entry) entries.push(entry)
+  }
+
+  return {
+    version: release.tag,
+    date: release.date ? release.date.slice(0, 10) : undefined,
+    title: release.name && release.name !== release.tag ? release.name : undefined,
+    highlights: topEntries(entries),
+    source,
+    prerelease: release.prerelease || undefined,
+    url: release.url
+  }
+}
+
+// Releases win on naming and links; the CHANGELOG fills in dates and highlights they lack
+export function buildReleaseHistory(changelog: string | null, releases: Milestone[]): ReleaseHistory | null {
+  const parsed = changelog ? parseChangelog(changelog) : { milestones: [], unreleased: [] }
+  const byVersion = new Map<string, Milestone>()
+
+  releases.filter(release => /\d/.test(release.version)).forEach(release => {
+    byVersion.set(versionKey(release.version), release)
+  })
+  parsed.milestones.forEach(entry => {
+    const release = byVersion.get(versionKey(entry.version))
+    byVersion.set(versionKey(entry.version), release
+      ? {
+          ...release,
+          date: release.date || entry.date,
+          highlights: release.highlights.length > 0 ? release.highlights : entry.highlights
+        }
+      : entry)
+  })
+
+  const milestones = Array.from(byVersion.values())
+    .sort((a, b) => a.date && b.date && a.date !== b.date
+      ? b.date.localeCompare(a.date)
+      : compareVersions(b.version, a.version))
+    .slice(0, MAX_MILESTONES)
+
+  if (milestones.length === 0 && parsed.unreleased.length === 0) return null
+  return { milestones, unreleased: parsed.unreleased }
+}
+
+// Oldest to newest, ending with the unreleased work as the road ahead
+export function buildMilestoneTimeline(history: ReleaseHistory, title: string, unreleasedLabel: string): DiagramData | null {
+  const shipped = history.milestones.filter(milestone => !milestone.prerelease).slice(0, MAX_TIMELINE_MILESTONES).reverse()
+  if (shipped.length < 2 && history.unreleased.length === 0) return null
+
+  const lines = ['timeline', `  title ${timelineText(title)}`]
+  shipped.forEach(milestone => {
+    const period = milestone.date ? `${milestone.version} (${milestone.date})` : milestone.version
+    const events = milestone.highlights.slice(0, 2)
+    lines.push(`  ${timelineText(period)} : ${(events.length > 0 ? events : [milestone.title || milestone.version]).map(timelineText).join(' : ')}`)
+  })
+  if (history.unreleased.length > 0) {
+    lines.push(`  ${timelineText(unreleasedLabel)} : ${history.unreleased.slice(0, 2).map(timelineText).join(' : ')}`)
+  }
+
+  return { type: 'mermaid', title, source: lines.join('\n') }
+}
+
+function compareVersions(a: string, b: string): number {
+  const parts = (version: string) => (versionKey(version).match(/\d+/g) || []).slice(0, 3).map(Number)
+  const [left, right] = [parts(a), parts(b)]
+  for (let index = 0; index < 3; index++) {
+    const difference = (left[index] || 0) - (right[index] || 0)
+    if (difference !== 0) return difference
+  }
+  // 1.0.0-rc.1 comes before 1.0.0
+  return Number(!versionKey(a).includes('-')) - Number(!versionKey(b).includes('-'))
+}
+
+function parseEntry(line: string, priority: number): ChangelogEntry | null {
+  // Top-level bullets only; nested ones elaborate on their parent
+  const bullet = line.match(/^ {0,1}[-*+]\s+(.+)$/)
+  if (!bullet) return null
+  const text = bullet[1]
+    .replace(/\s*\(\[[0-9a-f]{7,40}\]\([^)]*\)\)/gi, '')
+    .replace(/\s*\(?\[#\d+\]\([^)]*\)\)?/g, '')
+    .replace(/\s+by @[\w-]+ in https?:\/\/\S+$/, '')
+    .replace(/\s+in https?:\/\/\S+$/, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\*\*|__|`/g, '')
+    .trim()
+  return text ? { text, priority } : null
+}
+
+function topEntries(entries: ChangelogEntry[]): string[] {
+  return entries
+    .map((entry, index) => ({ ...entry, index }))
+    .sort((a, b) => a.priority - b.priority || a.index - b.index)
+    .slice(0, MAX_HIGHLIGHTS)
+    .map(entry => entry.text)
+}
+
+function categoryPriority(heading: string): number {
+  return CATEGORY_PRIORITIES.find(category => category.pattern.test(heading))?.priority ?? DEFAULT_PRIORITY
+}
+
+function versionKey(version: string): string {
+  // Monorepo tags such as `pkg@1.2.0`
+  return version.replace(/^.*@/, '').replace(/^v/i, '')
+}
+
+// Colons separate events in Mermaid timelines
+function timelineText(text: string): string {
+  const plain = text.replace(/[:;#]/g, ' ').replace(/\s+/g, ' ').trim()
+  return plain.length > 48 ? `${plain.slice(0, 47)}…` : plain
+}
@@ -0,0 +1,94 @@
+// Evidence for generated claims
+// Story bullets record the README lines, files, commits and dependencies they were derived from, so a presenter
+// can check a claim before making it; slides carry the citations along and exports can list them as references
+
+import { Citation, CommitData, Dependency, RepositoryData } from '../types'
+import { commitSubject } from './releaseAnalysis'
+
+const README_FILE = /(^|\/)readme(\.[a-z]+)?$/i
+const CHANGELOG_FILE = /(^|\/)(changelog|changes|history)(\.[a-z]+)?$/i
+
+// Records a bullet's sources and returns the bullet, so it can be cited where it is built
+export type Cite = (bullet: string, ...sources: (Citation | undefined)[]) => string
+
+// Collects citations while bullets are built; `citationsFor` picks out those of one section's bullets
+export function createCitations(): { cite: Cite; citationsFor: (bullets: string[]) => Record<string, Citation[]> } {
+  const citations = new Map<string, Citation[]>()
+  const cite: Cite = (bullet, ...sources) => {
+    const cited = citations.get(bullet) || []
+    sources.forEach(source => {
+      if (source && !cited.some(existing => formatCitation(existing) === formatCitation(source))) cited.push(source)
+    })
+    if (cited.length > 0) citations.set(bullet, cited)
+    return bullet
+  }
+  const citationsFor = (bullets: string[]) => Object.fromEntries(bullets
+    .filter(bullet => citations.has(bullet))
+    .map(bullet => [bullet, citations.get(bullet)!]))
+  return { cite, citationsFor }
+}
+
+// The README bullet or heading with exactly this text; README features are one or the other
+export function readmeCitation(repository: RepositoryData, text: string): Citation | undefined {
+  for (const section of repository.readmeStructure?.sections || []) {
+    const index = section.bullets.indexOf(text)
+    const lines = index >= 0
+      ? section.bulletLines?.[index]
+      : section.heading === text && section.startLine ? { startLine: section.startLine, endLine: section.endLine || section.startLine } : undefined
+    if (lines && lines.startLine > 0) return { kind: 'readme', ref: readmePath(repository), ...lines }
+  }
+  return undefined
+}
+
+// The README as a whole, for claims about the README itself
+export function readmeFileCitation(repository: RepositoryData): Citation | undefined {
+  return repository.readme ? { kind: 'readme', ref: readmePath(repository) } : undefined
+}
+
+// Unreleased entries and shipped versions read from the CHANGELOG
+export function changelogCitation(repository: RepositoryData): Citation | undefined {
+  const changelog = repository.files
+    .filter(file => CHANGELOG_FILE.test(file.path))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0]
+  return changelog && fileCitation(changelog.path)
+}
+
+export function fileCitation(path: string, startLine?: number): Citation {
+  return { kind: 'file', ref: path, ...(startLine ? { startLine, endLine: startLine } : {}) }
+}
+
+export function commitCitation(commit: CommitData): Citation {
+  return { kind: 'commit', ref: commit.sha, detail: commitSubject(commit.message) }
+}
+
+export function dependencyCitation(dependency: Pick<Dependency, 'name' | 'version'>): Citation {
+  return { kind: 'dependency', ref: dependency.name, ...(dependency.version ? { detail: dependency.version } : {}) }
+}
+
+// Declared dependencies by name, so the citations carry the versions
+export function dependencyCitations(repository: RepositoryData, names: string[]): Citation[] {
+  return names.map(name => dependencyCitation(repository.dependencies.find(dependency => dependency.name === name) || { name, version: '' }))
+}
+
+// One line per source: `README.md:12-14`, `src/app.ts`, `1a2b3c4 Add login`, `react ^18.2.0`
+export function formatCitation(citation: Citation): string {
+  switch (citation.kind) {
+    case 'commit':
+      return [citation.ref.slice(0, 7), citation.detail].filter(Boolean).join(' ')
+    case 'dependency':
+      return [citation.ref, citation.detail].filter(Boolean).join(' ')
+    default:
+      if (!citation.startLine) return citation.ref
+      return citation.endLine && citation.endLine !== citation.startLine
+        ? `${citation.ref}:${citation.startLine}-${citation.endLine}`
+        : `${citation.ref}:${citation.startLine}`
+  }
+}
+
+// The shallowest README in the listing
+function readmePath(repository: RepositoryData): string {
+  const readme = repository.files
+    .filter(file => README_FILE.test(file.path))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0]
+  return readme?.path || 'README.md'
+}
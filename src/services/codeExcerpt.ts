@@ -0,0 +1,258 @@
+// Code excerpts for code slides
+// Picks a representative piece of real source: an entry point, a main exported class or the most-imported module
+
+import { CodeSnippet, FileData } from '../types'
+import { detectLanguage } from './fileClassification'
+import { buildImportGraph, countImporters } from './importGraph'
+
+type ExcerptLanguage = 'ja' | 'en' | 'zh'
+
+interface Declaration {
+  line: number
+  name: string
+  kind: 'entry' | 'class' | 'function'
+  exported: boolean
+}
+
+interface Candidate {
+  file: FileData
+  lines: string[]
+  declaration: Declaration | null
+  importers: number
+  entryPoint: boolean
+  score: number
+}
+
+const MAX_EXCERPT_LINES = 18
+const MAX_EXCERPT_FILE_BYTES = 200 * 1024
+
+const ENTRY_POINTS = [
+  /(^|\/)(main|index|app|server|cli)\.(ts|tsx|js|jsx|mjs)$/,
+  /(^|\/)(__main__|main|app|manage|wsgi|asgi)\.py$/,
+  /(^|\/)main\.go$/,
+  /(^|\/)(main|lib)\.rs$/,
+  /(^|\/)Program\.cs$/,
+  /Application\.(java|kt)$/
+]
+
+const EXCLUDED_PATHS = /(^|\/)(test|tests|__tests__|spec|e2e|fixtures|examples?|docs?|scripts|migrations)\/|\.(test|spec|stories|d)\.[jt]sx?$|_test\.(go|py)$|(^|\/)test_[^/]+\.py$|\.min\.js$|\.config\.[cm]?[jt]s$/
+
+// highlight.js language names
+const HIGHLIGHT_LANGUAGES: Record<string, string> = {
+  'TypeScript': 'typescript',
+  'JavaScript': 'javascript',
+  'Python': 'python',
+  'Go': 'go',
+  'Rust': 'rust',
+  'Java': 'java',
+  'Kotlin': 'kotlin',
+  'C#': 'csharp',
+  'C++': 'cpp',
+  'C': 'c',
+  'Ruby': 'ruby',
+  'PHP': 'php',
+  'Swift': 'swift',
+  'Dart': 'dart',
+  'Vue': 'xml',
+  'Svelte': 'xml'
+}
+
+// Declarations worth showing, per language; the first capture group is the name
+const DECLARATIONS: Record<string, { pattern: RegExp; kind: Declaration['kind'] }[]> = {
+  script: [
+    { pattern: /^export\s+(?:default\s+)?(?:abstract\s+)?class\s+(\w+)/, kind: 'class' },
+    { pattern: /^export\s+(?:default\s+)?(?:async\s+)?function\s*\*?\s*(\w+)/, kind: 'function' },
+    { pattern: /^export\s+const\s+(\w+)\s*(?::[^=]+)?=\s*(?:async\s*)?(?:\([^)]*\)|\w+)\s*(?::[^=]+)?=>/, kind: 'function' },
+    { pattern: /^(?:abstract\s+)?class\s+(\w+)/, kind: 'class' },
+    { pattern: /^(?:async\s+)?function\s*\*?\s*(\w+)/, kind: 'function' }
+  ],
+  Python: [
+    { pattern: /^if\s+__name__\s*==\s*['"]__main__['"]\s*:/, kind: 'entry' },
+    { pattern: /^class\s+(\w+)/, kind: 'class' },
+    { pattern: /^(?:async\s+)?def\s+(\w+)/, kind: 'function' }
+  ],
+  Go: [
+    { pattern: /^func\s+(main)\s*\(/, kind: 'entry' },
+    { pattern: /^type\s+(\w+)\s+struct\b/, kind: 'class' },
+    { pattern: /^func\s+(?:\([^)]*\)\s*)?([A-Z]\w*)\s*\(/, kind: 'function' }
+  ],
+  Rust: [
+    { pattern: /^(?:#\[[^\]]+\]\s*)?(?:async\s+)?fn\s+(main)\s*\(/, kind: 'entry' },
+    { pattern: /^pub\s+(?:struct|enum|trait)\s+(\w+)/, kind: 'class' },
+    { pattern: /^pub\s+(?:async\s+)?fn\s+(\w+)/, kind: 'function' },
+    { pattern: /^impl(?:<[^>]*>)?\s+(?:\w+\s+for\s+)?(\w+)/, kind: 'class' }
+  ],
+  jvm: [
+    { pattern: /^\s*(?:public\s+)?static\s+(?:async\s+)?(?:void|int|Task)\s+(Main|main)\s*\(/, kind: 'entry' },
+    { pattern: /^\s*(?:public\s+|internal\s+)?(?:(?:abstract|final|sealed|static|partial|data|open)\s+)*(?:class|interface|record|object)\s+(\w+)/, kind: 'class' }
+  ]
+}
+
+// Hosted providers only list files; these are the ones worth downloading for an excerpt
+export function selectExcerptCandidates(files: FileData[], limit: number): FileData[] {
+  return files
+    .filter(file => isExcerptSource(file) && file.size <= MAX_EXCERPT_FILE_BYTES)
+    .sort((a, b) => rankWithoutContent(b) - rankWithoutContent(a) || a.path.localeCompare(b.path))
+    .slice(0, limit)
+}
+
+export function extractCodeExcerpt(files: FileData[], language: ExcerptLanguage = 'ja'): CodeSnippet | null {
+  const sources = files.filter(file => file.content && isExcerptSource(file))
+  if (sources.length === 0) return null
+
+  const importers = countImporters(buildImportGraph(files))
+  const candidates: Candidate[] = sources.map(file => {
+    const lines = file.content!.replace(/\r\n/g, '\n').split('\n')
+    const declaration = findDeclaration(file.path, lines)
+    const importerCount = importers.get(file.path) || 0
+    const entryPoint = isEntryPoint(file.path)
+    const score = (entryPoint && declaration ? 30 : 0)
+      + Math.min(importerCount, 10) * 3
+      + (declaration?.kind === 'class' ? 8 : declaration ? 4 : -20)
+      + (declaration?.exported ? 4 : 0)
+      + file.importance
+      - file.path.split('/').length
+    return { file, lines, declaration, importers: importerCount, entryPoint, score }
+  })
+
+  const best = candidates.sort((a, b) => b.score - a.score)[0]
+  if (!best.declaration) return null
+
+  const detected = detectLanguage(best.file.path) || ''
+  const { startLine, endLine } = excerptRange(best.lines, best.declaration.line, detected !== 'Python')
+
+  return {
+    language: HIGHLIGHT_LANGUAGES[detected] || detected.toLowerCase() || 'plaintext',
+    code: best.lines.slice(startLine - 1, endLine).join('\n'),
+    explanation: describeExcerpt(best, startLine, language),
+    path: best.file.path,
+    startLine,
+    endLine
+  }
+}
+
+// `src/app.ts:12-29`, shown under code slides so the audience can find the excerpt
+export function formatCodeSource(snippet: CodeSnippet): string {
+  if (!snippet.path) return ''
+  if (!snippet.startLine) return snippet.path
+  return snippet.endLine && snippet.endLine !== snippet.startLine
+    ? `${snippet.path}:${snippet.startLine}-${snippet.endLine}`
+    : `${snippet.path}:${snippet.startLine}`
+}
+
+function isExcerptSource(file: FileData): boolean {
+  return detectLanguage(file.path) !== null && !EXCLUDED_PATHS.test(file.path) && !/\.(css|scss|sass|less|html|sql|sh|bash|ps1)$/i.test(file.path)
+}
+
+function isEntryPoint(path: string): boolean {
+  return ENTRY_POINTS.some(pattern => pattern.test(path))
+}
+
+function rankWithoutContent(file: FileData): number {
+  return (isEntryPoint(file.path) ? 10 : 0) + file.importance - file.path.split('/').length
+}
+
+function declarationRules(path: string) {
+  const language = detectLanguage(path)
+  if (language === 'TypeScript' || language === 'JavaScript') return DECLARATIONS.script
+  if (language === 'Java' || language === 'Kotlin' || language === 'C#') return DECLARATIONS.jvm
+  return DECLARATIONS[language || ''] || []
+}
+
+// Earliest match of the most preferred rule wins, so an exported class beats a helper function
+function findDeclaration(path: string, lines: string[]): Declaration | null {
+  for (const rule of declarationRules(path)) {
+    const line = lines.findIndex(text => rule.pattern.test(text))
+    if (line !== -1) {
+      const match = lines[line].match(rule.pattern)!
+      return {
+        line: line + 1,
+        name: match[1] || '__main__',
+        kind: rule.kind,
+        exported: /^export\b|^pub\b|^\s*public\b/.test(lines[line]) || /^[A-Z]/.test(match[1] || '')
+      }
+    }
+  }
+  return null
+}
+
+// 1-based inclusive range: leading doc comments/decorators, then the declaration up to its end or the line cap
+function excerptRange(lines: string[], declarationLine: number, usesBraces: boolean): { startLine: number; endLine: number } {
+  let startLine = declarationLine
+  while (startLine > 1 && /^\s*(\/\/|\/\*\*?|\*|#(?!!)|@\w|\/\/\/|#\[)/.test(lines[startLine - 2]) && declarationLine - startLine < 8) {
+    startLine--
+  }
+
+  const indent = (line: string) => line.match(/^\s*/)![0].length
+  const declaration = lines[declarationLine - 1]
+  let endLine = declarationLine
+
+  if (usesBraces) {
+    let depth = 0
+    let opened = false
+    for (let line = declarationLine; line <= lines.length; line++) {
+      for (const char of lines[line - 1].replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '')) {
+        if (char === '{') { depth++; opened = true }
+        else if (char === '}') depth--
+      }
+      endLine = line
+      if (opened && depth <= 0) break
+      if (line - startLine + 1 >= MAX_EXCERPT_LINES) break
+    }
+  } else {
+    // Indentation-delimited block (Python)
+    const baseIndent = indent(declaration)
+    for (let line = declarationLine + 1; line <= lines.length; line++) {
+      const text = lines[line - 1]
+      if (text.trim() && indent(text) <= baseIndent) break
+      endLine = line
+      if (line - startLine + 1 >= MAX_EXCERPT_LINES) break
+    }
+  }
+
+  // Trailing blank lines add nothing to a slide
+  while (endLine > declarationLine && !lines[endLine - 1].trim()) endLine--
+  return { startLine, endLine: Math.min(endLine, startLine + MAX_EXCERPT_LINES - 1) }
+}
+
+function describeExcerpt(candidate: Candidate, startLine: number, language: ExcerptLanguage): string {
+  const { file, lines, declaration, importers, entryPoint } = candidate
+  const summary = docCommentSummary(lines, startLine, declaration!.line)
+  const name = declaration!.name
+  const path = file.path
+
+  if (language === 'en') {
+    const role = declaration!.kind === 'entry' || entryPoint
+      ? `Entry point in ${path}: execution starts at \`${name}\`.`
+      : declaration!.kind === 'class'
+        ? `\`${name}\` in ${path}${importers > 0 ? `, used by ${importers} other modules` : ''}.`
+        : `\`${name}\` in ${path}${importers > 0 ? `, imported by ${importers} other modules` : ''}.`
+    return summary ? `${role} ${summary}` : role
+  }
+
+  if (language === 'zh') {
+    const role = declaration!.kind === 'entry' || entryPoint
+      ? `${path} 是程序入口，从 \`${name}\` 开始执行。`
+      : `${path} 中的 \`${name}\`${importers > 0 ? `，被 ${importers} 个模块引用` : ''}。`
+    return summary ? `${role}${summary}` : role
+  }
+
+  const role = declaration!.kind === 'entry' || entryPoint
+    ? `${path} はエントリーポイントで、\`${name}\` から処理が始まります。`
+    : declaration!.kind === 'class'
+      ? `${path} の \`${name}\`${importers > 0 ? `。${importers}個のモジュールから参照される中核部分です` : ''}。`
+      : `${path} の \`${name}\`${importers > 0 ? `。${importers}個のモジュールから利用されています` : ''}。`
+  return summary ? `${role}${summary}` : role
+}
+
+// First sentence of the doc comment above the declaration (or a Python docstring below it)
+function docCommentSummary(lines: string[], startLine: number, declarationLine: number): string {
+  const above = lines.slice(startLine - 1, declarationLine - 1)
+    .filter(line => !/^\s*(@\w|#\[)/.test(line))
+    .map(line => line.replace(/^\s*(\/\*\*?|\*\/|\*|\/\/\/?|#)\s?/, '').replace(/\*\/\s*$/, '').trim())
+    .filter(Boolean)
+  const docstring = lines[declarationLine]?.match(/^\s*(?:"""|''')(.*?)(?:"""|''')?\s*$/)?.[1]
+  const text = (above.length > 0 ? above.join(' ') : docstring || '').trim()
+  const sentence = text.match(/^(.+?[.。!?])(\s|$)/)?.[1] || text
+  return sentence.length > 140 ? `${sentence.slice(0, 137)}...` : sentence
+}
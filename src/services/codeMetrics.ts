@@ -0,0 +1,283 @@
+// Code metrics
+// Lines of code per language, cyclomatic complexity per function (JavaScript, TypeScript, Python)
+// and churn × complexity hotspots, measured from the downloaded file contents
+
+import { CodeHotspot, CodeMetrics, CommitData, FileData, FunctionComplexity, LanguageLines } from '../types'
+import { detectLanguage } from './fileClassification'
+
+interface CommentSyntax {
+  line: string[]
+  block?: [string, string]
+  // Quotes whose contents can't start a comment; single-line quotes end at the line break
+  quotes: string[]
+}
+
+interface FunctionRange {
+  name: string
+  start: number
+  end: number
+  decisions: number
+}
+
+const C_STYLE: CommentSyntax = { line: ['//'], block: ['/*', '*/'], quotes: ['"', '\''] }
+const SCRIPT_STYLE: CommentSyntax = { ...C_STYLE, quotes: ['"', '\'', '`'] }
+const HASH_STYLE: CommentSyntax = { line: ['#'], quotes: ['"', '\''] }
+const DASH_STYLE: CommentSyntax = { line: ['--'], quotes: ['"', '\''] }
+
+// Anything not listed here comments like C
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  TypeScript: SCRIPT_STYLE,
+  JavaScript: SCRIPT_STYLE,
+  Vue: SCRIPT_STYLE,
+  Svelte: SCRIPT_STYLE,
+  Go: { ...C_STYLE, quotes: ['"', '`'] },
+  // Lifetimes and char literals make single quotes unreliable
+  Rust: { ...C_STYLE, quotes: ['"'] },
+  Python: { line: ['#'], quotes: ['"""', '\'\'\'', '"', '\''] },
+  Ruby: HASH_STYLE,
+  Shell: HASH_STYLE,
+  PowerShell: { line: ['#'], block: ['<#', '#>'], quotes: ['"', '\''] },
+  R: HASH_STYLE,
+  Julia: HASH_STYLE,
+  Elixir: HASH_STYLE,
+  SQL: DASH_STYLE,
+  Lua: DASH_STYLE,
+  Haskell: { line: ['--'], block: ['{-', '-}'], quotes: ['"'] },
+  Erlang: { line: ['%'], quotes: ['"'] },
+  CSS: { line: [], block: ['/*', '*/'], quotes: ['"', '\''] },
+  HTML: { line: [], block: ['<!--', '-->'], quotes: [] }
+}
+
+// Each pattern ends at the opening brace of the body; the first pattern to claim a brace names the function.
+// Type annotations are bounded so large object literals don't make the scan quadratic
+const SCRIPT_FUNCTION_PATTERNS: RegExp[] = [
+  /\bfunction\b\s*\*?\s*([\w$]*)\s*(?:<[^>]*>)?\s*\([^)]*\)\s*(?::[^{;]{0,200})?\{/g,
+  /([\w$]+)\s*(?::[^=;{}]{0,200})?=\s*(?:async\s*)?(?:\([^)]*\)|[\w$]+)\s*(?::[^=;{]{0,200})?=>\s*\{/g,
+  /^[ \t]*(?:(?:public|private|protected|static|async|readonly|override|get|set)\s+)*\*?([\w$]+)\s*(?:<[^>]*>)?\s*\([^)]*\)\s*(?::[^{;]{0,200})?\{/gm,
+  /()=>\s*\{/g
+]
+const SCRIPT_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with', 'return', 'function', 'else'])
+// `?` is a ternary only when it isn't part of `?.`, `??` or an optional `?:`
+const SCRIPT_DECISIONS = /\b(?:if|for|while|case|catch)\b|&&|\|\||\?\?|(?<!\?)\?(?![?.:])/g
+
+const PYTHON_FUNCTION = /^([ \t]*)(?:async[ \t]+)?def[ \t]+(\w+)/gm
+const PYTHON_DECISIONS = /\b(?:if|elif|for|while|except|and|or|case)\b/g
+
+const COMPLEX_FUNCTION_LIMIT = 10
+const HOTSPOT_LIMIT = 5
+
+export function analyzeCodeMetrics(files: FileData[], commits: CommitData[]): CodeMetrics | null {
+  const sources = files
+    .map(file => ({ file, language: detectLanguage(file.path) }))
+    .filter((entry): entry is { file: FileData; language: string } => !!entry.language)
+  const measured = sources.filter(({ file }) => file.content !== undefined)
+  if (measured.length === 0) return null
+
+  const byLanguage = new Map<string, { files: number; lines: number; measuredLines: number; measuredBytes: number; unmeasuredBytes: number }>()
+  const functions: FunctionComplexity[] = []
+  sources.forEach(({ file, language }) => {
+    const entry = byLanguage.get(language) || { files: 0, lines: 0, measuredLines: 0, measuredBytes: 0, unmeasuredBytes: 0 }
+    entry.files++
+    if (file.content === undefined) {
+      entry.unmeasuredBytes += file.size
+    } else {
+      const lines = countCodeLines(file.content, language)
+      entry.lines += lines
+      entry.measuredLines += lines
+      entry.measuredBytes += file.content.length
+      functions.push(...measureFunctions(file.path, file.content, language))
+    }
+    byLanguage.set(language, entry)
+  })
+
+  // Files that weren't downloaded get their language's lines per byte, or the overall rate for unsampled languages
+  const totals = Array.from(byLanguage.values())
+  const overallRate = totals.reduce((sum, entry) => sum + entry.measuredLines, 0) /
+    Math.max(totals.reduce((sum, entry) => sum + entry.measuredBytes, 0), 1)
+  const languages: LanguageLines[] = Array.from(byLanguage.entries())
+    .map(([language, entry]) => {
+      const rate = entry.measuredBytes > 0 ? entry.measuredLines / entry.measuredBytes : overallRate
+      return { language, files: entry.files, lines: entry.lines + Math.round(entry.unmeasuredBytes * rate) }
+    })
+    .sort((a, b) => b.lines - a.lines)
+
+  const totalComplexity = functions.reduce((sum, fn) => sum + fn.complexity, 0)
+
+  return {
+    languages,
+    totalFiles: sources.length,
+    totalLines: languages.reduce((sum, entry) => sum + entry.lines, 0),
+    linesEstimated: measured.length < sources.length,
+    functions: functions.length,
+    averageComplexity: functions.length > 0 ? Math.round((totalComplexity / functions.length) * 10) / 10 : 0,
+    complexFunctions: [...functions].sort((a, b) => b.complexity - a.complexity).slice(0, COMPLEX_FUNCTION_LIMIT),
+    hotspots: findHotspots(functions, commits)
+  }
+}
+
+export function countCodeLines(content: string, language: string): number {
+  const syntax = COMMENT_SYNTAX[language] || C_STYLE
+  return stripComments(content, syntax, false)
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .length
+}
+
+// Per function: 1 plus its branches, loops, catches and short-circuit operators; nested functions count separately
+export function measureFunctions(path: string, content: string, language: string): FunctionComplexity[] {
+  const isPython = language === 'Python'
+  if (!isPython && language !== 'JavaScript' && language !== 'TypeScript') return []
+
+  const code = stripComments(content, COMMENT_SYNTAX[language], true)
+  const ranges = isPython ? findPythonFunctions(code) : findScriptFunctions(code)
+  if (ranges.length === 0) return []
+
+  const decisions = Array.from(code.matchAll(isPython ? PYTHON_DECISIONS : SCRIPT_DECISIONS), match => match.index!)
+  attributeDecisions(ranges, decisions)
+
+  const lineStarts = [0, ...Array.from(code.matchAll(/\n/g), match => match.index! + 1)]
+  return ranges.map(range => ({
+    path,
+    name: range.name,
+    line: findLine(lineStarts, range.start),
+    complexity: 1 + range.decisions
+  }))
+}
+
+function findScriptFunctions(code: string): FunctionRange[] {
+  const byBrace = new Map<number, FunctionRange>()
+  SCRIPT_FUNCTION_PATTERNS.forEach(pattern => {
+    for (const match of code.matchAll(pattern)) {
+      const brace = match.index! + match[0].length - 1
+      const name = match[1] || '(anonymous)'
+      if (byBrace.has(brace) || SCRIPT_KEYWORDS.has(name)) continue
+      byBrace.set(brace, { name, start: brace, end: findClosingBrace(code, brace), decisions: 0 })
+    }
+  })
+  return Array.from(byBrace.values()).sort((a, b) => a.start - b.start)
+}
+
+function findPythonFunctions(code: string): FunctionRange[] {
+  return Array.from(code.matchAll(PYTHON_FUNCTION), match => {
+    const indent = match[1].length
+    // The body ends at the first non-blank line indented no deeper than the `def`
+    let end = code.indexOf('\n', match.index!)
+    while (end !== -1) {
+      const next = code.indexOf('\n', end + 1)
+      const line = code.slice(end + 1, next === -1 ? code.length : next)
+      if (line.trim() !== '' && line.length - line.trimStart().length <= indent) break
+      end = next
+    }
+    return { name: match[2], start: match.index!, end: end === -1 ? code.length : end, decisions: 0 }
+  })
+}
+
+// Ranges are sorted by start and nest properly, so a stack of open functions finds the innermost one
+function attributeDecisions(ranges: FunctionRange[], decisions: number[]) {
+  const open: FunctionRange[] = []
+  let next = 0
+  decisions.forEach(position => {
+    while (next < ranges.length && ranges[next].start <= position) {
+      while (open.length > 0 && open[open.length - 1].end <= ranges[next].start) open.pop()
+      open.push(ranges[next++])
+    }
+    while (open.length > 0 && open[open.length - 1].end <= position) open.pop()
+    if (open.length > 0) open[open.length - 1].decisions++
+  })
+}
+
+function findHotspots(functions: FunctionComplexity[], commits: CommitData[]): CodeHotspot[] {
+  const complexityByPath = new Map<string, number>()
+  functions.forEach(fn => complexityByPath.set(fn.path, (complexityByPath.get(fn.path) || 0) + fn.complexity))
+
+  const churnByPath = new Map<string, { changes: number; churn: number }>()
+  commits.forEach(commit => commit.files?.forEach(file => {
+    if (!complexityByPath.has(file.path)) return
+    const entry = churnByPath.get(file.path) || { changes: 0, churn: 0 }
+    entry.changes++
+    entry.churn += file.additions + file.deletions
+    churnByPath.set(file.path, entry)
+  }))
+
+  return Array.from(churnByPath.entries())
+    .map(([path, { changes, churn }]) => {
+      const complexity = complexityByPath.get(path)!
+      return { path, changes, churn, complexity, score: changes * complexity }
+    })
+    .sort((a, b) => b.score - a.score || b.churn - a.churn)
+    .slice(0, HOTSPOT_LIMIT)
+}
+
+// Replaces comments (and optionally string contents) with spaces, keeping line breaks and offsets
+function stripComments(content: string, syntax: CommentSyntax, blankStrings: boolean): string {
+  const parts: string[] = []
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ')
+  let copied = 0
+  let i = 0
+
+  while (i < content.length) {
+    const lineComment = syntax.line.find(marker => content.startsWith(marker, i))
+    const blockComment = syntax.block && content.startsWith(syntax.block[0], i) ? syntax.block : null
+    const quote = lineComment || blockComment ? null : syntax.quotes.find(candidate => content.startsWith(candidate, i))
+    if (!lineComment && !blockComment && !quote) {
+      i++
+      continue
+    }
+
+    parts.push(content.slice(copied, i))
+    if (lineComment) {
+      const end = content.indexOf('\n', i)
+      const stop = end === -1 ? content.length : end
+      parts.push(blank(content.slice(i, stop)))
+      i = stop
+    } else if (blockComment) {
+      const end = content.indexOf(blockComment[1], i + blockComment[0].length)
+      const stop = end === -1 ? content.length : end + blockComment[1].length
+      parts.push(blank(content.slice(i, stop)))
+      i = stop
+    } else if (quote) {
+      const bodyEnd = findStringEnd(content, i + quote.length, quote)
+      const body = content.slice(i + quote.length, bodyEnd)
+      const closed = content.startsWith(quote, bodyEnd)
+      parts.push(quote, blankStrings ? blank(body) : body, closed ? quote : '')
+      i = closed ? bodyEnd + quote.length : bodyEnd
+    }
+    copied = i
+  }
+
+  parts.push(content.slice(copied))
+  return parts.join('')
+}
+
+// Offset of the closing quote; single-line quotes give up at the line break so the rest of the file isn't swallowed
+function findStringEnd(content: string, from: number, quote: string): number {
+  const multiline = quote.length === 3 || quote === '`'
+  for (let i = from; i < content.length; i++) {
+    if (content[i] === '\\') {
+      i++
+    } else if (content.startsWith(quote, i) || (content[i] === '\n' && !multiline)) {
+      return i
+    }
+  }
+  return content.length
+}
+
+function findClosingBrace(code: string, open: number): number {
+  let depth = 0
+  for (let i = open; i < code.length; i++) {
+    if (code[i] === '{') depth++
+    else if (code[i] === '}' && --depth === 0) return i + 1
+  }
+  return code.length
+}
+
+function findLine(lineStarts: number[], offset: number): number {
+  let low = 0
+  let high = lineStarts.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (lineStarts[mid] <= offset) low = mid
+    else high = mid - 1
+  }
+  return low + 1
+}
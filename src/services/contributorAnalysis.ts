@@ -0,0 +1,88 @@
+// Contributor analytics
+// Commits per author, bus factor and weekly commit cadence from the fetched history
+
+import { CommitData, ContributorAnalysis, ContributorStats } from '../types'
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+const BOT_AUTHOR = /\[bot\]$|^(dependabot|renovate|github-actions|greenkeeper|snyk-bot|semantic-release-bot)\b/i
+
+export function analyzeContributors(commits: CommitData[]): ContributorAnalysis | null {
+  const dated = commits.filter(commit => !Number.isNaN(new Date(commit.date).getTime()))
+  if (dated.length === 0) return null
+
+  // The same person often commits under several names from one address, or one name from several machines
+  const byIdentity = new Map<string, ContributorStats>()
+  const identityByName = new Map<string, string>()
+  dated.forEach(commit => {
+    if (isBotAuthor(commit.author)) return
+    const name = commit.author.trim() || 'unknown'
+    const email = commit.authorEmail?.trim().toLowerCase()
+    const date = new Date(commit.date).toISOString()
+    const identity = identityByName.get(name.toLowerCase()) || (email ? `email:${email}` : `name:${name.toLowerCase()}`)
+    identityByName.set(name.toLowerCase(), identity)
+
+    const stats = byIdentity.get(identity) || {
+      name,
+      email,
+      commits: 0,
+      additions: 0,
+      deletions: 0,
+      firstCommit: date,
+      lastCommit: date
+    }
+    stats.commits++
+    stats.additions += commit.additions
+    stats.deletions += commit.deletions
+    if (date < stats.firstCommit) stats.firstCommit = date
+    if (date > stats.lastCommit) stats.lastCommit = date
+    byIdentity.set(identity, stats)
+  })
+
+  const contributors = Array.from(byIdentity.values())
+    .sort((a, b) => b.commits - a.commits || b.additions + b.deletions - (a.additions + a.deletions))
+  const humanCommits = contributors.reduce((sum, contributor) => sum + contributor.commits, 0)
+
+  let busFactor = 0
+  let covered = 0
+  while (busFactor < contributors.length && covered * 2 <= humanCommits) {
+    covered += contributors[busFactor++].commits
+  }
+
+  const dates = dated.map(commit => new Date(commit.date).toISOString()).sort()
+
+  return {
+    contributors,
+    totalCommits: dated.length,
+    busFactor,
+    weeklyCommits: weeklyCommits(dated),
+    firstActivity: dates[0],
+    lastActivity: dates[dates.length - 1]
+  }
+}
+
+export function weeklyCommits(commits: CommitData[]): { week: string; commits: number }[] {
+  const counts = new Map<number, number>()
+  commits.forEach(commit => {
+    const week = startOfWeek(new Date(commit.date))
+    counts.set(week, (counts.get(week) || 0) + 1)
+  })
+
+  const weeks = Array.from(counts.keys())
+  const first = Math.min(...weeks)
+  const last = Math.max(...weeks)
+  const result: { week: string; commits: number }[] = []
+  for (let week = first; week <= last; week += WEEK_MS) {
+    result.push({ week: new Date(week).toISOString().slice(0, 10), commits: counts.get(week) || 0 })
+  }
+  return result
+}
+
+// Monday 00:00 UTC of the date's week, as a timestamp
+function startOfWeek(date: Date): number {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  return day - ((date.getUTCDay() + 6) % 7) * 24 * 60 * 60 * 1000
+}
+
+function isBotAuthor(author: string): boolean {
+  return BOT_AUTHOR.test(author.trim())
+}
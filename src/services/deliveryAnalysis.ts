@@ -0,0 +1,319 @@
+// CI/CD analysis
+// Reads GitHub Actions, GitLab CI, Jenkins and Netlify configs plus Dockerfiles, compose files and Helm charts
+
+import {
+  ContainerImage,
+  DeliveryAnalysis,
+  DeliveryJob,
+  DeliveryPipeline,
+  DeliveryProvider,
+  DiagramData
+} from '../types'
+import { readTomlString, readTomlTable } from './manifestParser'
+import { YamlValue, parseYaml, yamlList, yamlMapping, yamlString } from './yaml'
+
+type ReadFile = (path: string) => Promise<string | null>
+
+export const DELIVERY_PROVIDER_LABELS: Record<DeliveryProvider, string> = {
+  'github-actions': 'GitHub Actions',
+  'gitlab-ci': 'GitLab CI',
+  jenkins: 'Jenkins',
+  netlify: 'Netlify'
+}
+
+const MAX_DELIVERY_FILES = 25
+const MAX_DIAGRAM_PIPELINES = 3
+const MAX_DIAGRAM_JOBS = 8
+
+const DELIVERY_FILES = [
+  /^\.github\/workflows\/[^/]+\.ya?ml$/,
+  /^\.gitlab-ci\.ya?ml$/,
+  /(^|\/)Jenkinsfile$/,
+  /(^|\/)netlify\.toml$/,
+  /(^|\/)(Dockerfile|Dockerfile\.[\w.-]+|[\w.-]+\.Dockerfile)$/,
+  /(^|\/)(docker-)?compose(\.[\w-]+)?\.ya?ml$/,
+  /(^|\/)Chart\.yaml$/,
+  /(^|\/)values\.yaml$/
+]
+
+// Deploy steps recognized in action names (`uses:`) and shell scripts
+const DEPLOY_SIGNATURES: { target: string; pattern: RegExp }[] = [
+  { target: 'GitHub Pages', pattern: /actions\/deploy-pages|peaceiris\/actions-gh-pages|github-pages-deploy-action|\bgh-pages\b/i },
+  { target: 'Netlify', pattern: /netlify\s+deploy|actions-netlify|netlify\/actions/i },
+  { target: 'Vercel', pattern: /\bvercel\b/i },
+  { target: 'Firebase', pattern: /firebase\s+deploy|action-hosting-deploy/i },
+  { target: 'Cloudflare', pattern: /wrangler\s+(deploy|publish|pages)|cloudflare\/(wrangler|pages)-action/i },
+  { target: 'AWS', pattern: /aws-actions\/|aws\s+(s3\s+sync|ecs|lambda|cloudformation|deploy)|\b(sam|cdk|serverless)\s+deploy/i },
+  { target: 'Google Cloud', pattern: /google-github-actions\/deploy|gcloud\s+(app|run|functions)\s+deploy/i },
+  { target: 'Azure', pattern: /azure\/(webapps-deploy|functions-action|static-web-apps-deploy)|\baz\s+webapp/i },
+  { target: 'Heroku', pattern: /heroku-deploy|git\s+push\s+heroku|heroku\s+container:release/i },
+  { target: 'Fly.io', pattern: /flyctl\s+deploy|superfly\/flyctl-actions/i },
+  { target: 'Kubernetes', pattern: /kubectl\s+(apply|set\s+image|rollout)|k8s-deploy|\bhelm\s+(upgrade|install)/i },
+  { target: 'npm', pattern: /\b(npm|pnpm)\s+publish|yarn\s+(npm\s+)?publish|changesets\/action|npm-publish/i },
+  { target: 'PyPI', pattern: /twine\s+upload|gh-action-pypi-publish|(poetry|uv)\s+publish/i },
+  { target: 'crates.io', pattern: /cargo\s+publish/i },
+  { target: 'Container registry', pattern: /docker\/build-push-action|docker\s+push|buildah\s+push|ko\s+publish/i }
+]
+
+// Top-level .gitlab-ci.yml keys that are settings rather than jobs
+const GITLAB_RESERVED_KEYS = new Set([
+  'image', 'services', 'stages', 'variables', 'before_script', 'after_script', 'cache', 'include', 'default', 'workflow'
+])
+
+export function findDeliveryFiles(paths: string[]): string[] {
+  return paths
+    .filter(path => !/(^|\/)(node_modules|vendor|third_party)\//.test(path))
+    .filter(path => DELIVERY_FILES.some(pattern => pattern.test(path)))
+    .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+    .slice(0, MAX_DELIVERY_FILES)
+}
+
+export async function analyzeDelivery(paths: string[], readFile: ReadFile): Promise<DeliveryAnalysis | null> {
+  const pipelines: DeliveryPipeline[] = []
+  const containerImages: ContainerImage[] = []
+  const helmCharts: DeliveryAnalysis['helmCharts'] = []
+  const deployTargets = new Set<string>()
+
+  for (const path of findDeliveryFiles(paths)) {
+    const content = await readFile(path).catch(() => null)
+    if (!content) continue
+    const fileName = path.split('/').pop()!
+
+    try {
+      if (path.startsWith('.github/workflows/')) {
+        pipelines.push(parseGitHubWorkflow(path, content))
+      } else if (/^\.gitlab-ci\.ya?ml$/.test(path)) {
+        pipelines.push(parseGitLabCi(path, content))
+      } else if (fileName === 'Jenkinsfile') {
+        pipelines.push(parseJenkinsfile(path, content))
+      } else if (fileName === 'netlify.toml') {
+        pipelines.push(parseNetlifyToml(path, content))
+      } else if (/Dockerfile/.test(fileName)) {
+        containerImages.push(...parseDockerfile(path, content))
+      } else if (/compose/.test(fileName)) {
+        containerImages.push(...parseComposeFile(path, content))
+      } else if (fileName === 'Chart.yaml') {
+        const chart = yamlMapping(parseYaml(content))
+        helmCharts.push({ name: yamlString(chart.name) || path.split('/').slice(-2, -1)[0] || 'chart', version: yamlString(chart.version), path })
+        deployTargets.add('Kubernetes')
+      } else if (fileName === 'values.yaml') {
+        containerImages.push(...parseHelmValues(path, content))
+      }
+    } catch (error) {
+      console.warn(`Failed to parse ${path}:`, error)
+    }
+  }
+
+  pipelines.forEach(pipeline => pipeline.jobs.forEach(job => {
+    if (job.deploysTo && DEPLOY_SIGNATURES.some(signature => signature.target === job.deploysTo)) deployTargets.add(job.deploysTo)
+  }))
+  // A values.yaml outside a chart directory is probably unrelated configuration
+  const chartDirectories = helmCharts.map(chart => chart.path.replace(/Chart\.yaml$/, ''))
+  const images = containerImages.filter(image =>
+    !image.path.endsWith('values.yaml') || chartDirectories.some(directory => image.path.startsWith(directory)))
+
+  if (pipelines.length === 0 && images.length === 0 && helmCharts.length === 0) return null
+
+  return {
+    pipelines,
+    deployTargets: Array.from(deployTargets),
+    containerImages: images.filter((image, index) => images.findIndex(other => other.image === image.image) === index),
+    helmCharts
+  }
+}
+
+// trigger -> jobs (in `needs` / stage order) -> deploy targets, one subgraph per pipeline
+export function buildPipelineDiagram(delivery: DeliveryAnalysis, title: string): DiagramData | null {
+  // Pipelines that ship something tell the story best
+  const deploys = (pipeline: DeliveryPipeline) => pipeline.jobs.some(job => job.deploysTo) ? 1 : 0
+  const pipelines = delivery.pipelines
+    .filter(pipeline => pipeline.jobs.length > 0)
+    .sort((a, b) => deploys(b) - deploys(a))
+    .slice(0, MAX_DIAGRAM_PIPELINES)
+  if (pipelines.length === 0) return null
+
+  const lines = ['flowchart LR']
+  const targets = new Map<string, string>()
+
+  pipelines.forEach((pipeline, pipelineIndex) => {
+    const jobs = pipeline.jobs.slice(0, MAX_DIAGRAM_JOBS)
+    const jobIds = new Map(jobs.map((job, jobIndex) => [job.name, `p${pipelineIndex}j${jobIndex}`]))
+    const triggerId = `p${pipelineIndex}t`
+
+    lines.push(`  subgraph p${pipelineIndex}["${escapeLabel(pipeline.name)}"]`)
+    lines.push(`    ${triggerId}(["${escapeLabel(pipeline.triggers.slice(0, 3).join(' / ') || 'trigger')}"])`)
+    jobs.forEach(job => lines.push(`    ${jobIds.get(job.name)}["${escapeLabel(job.name)}"]`))
+    lines.push('  end')
+
+    jobs.forEach(job => {
+      const needs = job.needs.filter(need => jobIds.has(need))
+      if (needs.length === 0) lines.push(`  ${triggerId} --> ${jobIds.get(job.name)}`)
+      needs.forEach(need => lines.push(`  ${jobIds.get(need)} --> ${jobIds.get(job.name)}`))
+      if (job.deploysTo) {
+        if (!targets.has(job.deploysTo)) {
+          targets.set(job.deploysTo, `d${targets.size}`)
+          lines.push(`  ${targets.get(job.deploysTo)}{{"${escapeLabel(job.deploysTo)}"}}`)
+        }
+        lines.push(`  ${jobIds.get(job.name)} --> ${targets.get(job.deploysTo)}`)
+      }
+    })
+  })
+
+  return { type: 'mermaid', title, source: lines.join('\n') }
+}
+
+function parseGitHubWorkflow(path: string, content: string): DeliveryPipeline {
+  const workflow = yamlMapping(parseYaml(content))
+  const on = workflow.on
+  const triggers = typeof on === 'string'
+    ? [on]
+    : Array.isArray(on)
+      ? on.map(String)
+      : Object.keys(yamlMapping(on))
+  // Tag pushes are releases in all but name
+  if (yamlList(yamlMapping(yamlMapping(on).push).tags).length > 0) triggers.push('tag')
+
+  const jobs = Object.entries(yamlMapping(workflow.jobs)).map(([id, value]): DeliveryJob => {
+    const job = yamlMapping(value)
+    const steps = yamlList(job.steps).map(step => yamlMapping(step))
+    const commands = steps.map(step => [yamlString(step.uses), yamlString(step.run)].filter(Boolean).join('\n')).join('\n')
+    const container = job.container
+    return {
+      name: yamlString(job.name) || id,
+      needs: yamlList(job.needs).map(String),
+      image: yamlString(container) || yamlString(yamlMapping(container).image),
+      // Reusable workflow calls put `uses:` on the job itself
+      deploysTo: detectDeployTarget(`${commands}\n${yamlString(job.uses) || ''}`)
+        || yamlString(job.environment)
+        || yamlString(yamlMapping(job.environment).name)
+    }
+  })
+
+  // `needs` refers to job ids; map them to the displayed names
+  const names = new Map(Object.entries(yamlMapping(workflow.jobs)).map(([id, value]) => [id, yamlString(yamlMapping(value).name) || id]))
+  jobs.forEach(job => {
+    job.needs = job.needs.map(need => names.get(need) || need)
+  })
+
+  return {
+    provider: 'github-actions',
+    name: yamlString(workflow.name) || path.split('/').pop()!.replace(/\.ya?ml$/, ''),
+    path,
+    triggers,
+    jobs
+  }
+}
+
+function parseGitLabCi(path: string, content: string): DeliveryPipeline {
+  const config = yamlMapping(parseYaml(content))
+  const stages = yamlList(config.stages).map(String)
+  const defaultImage = imageName(config.image) || imageName(yamlMapping(config.default).image)
+
+  const jobs: DeliveryJob[] = Object.entries(config)
+    .filter(([key, value]) => !GITLAB_RESERVED_KEYS.has(key) && !key.startsWith('.') && typeof value === 'object' && value !== null && !Array.isArray(value))
+    .map(([name, value]) => {
+      const job = yamlMapping(value)
+      const script = ['before_script', 'script', 'after_script'].flatMap(key => yamlList(job[key]).map(String)).join('\n')
+      return {
+        name,
+        stage: yamlString(job.stage) || 'test',
+        needs: yamlList(job.needs).map(need => yamlString(need) || yamlString(yamlMapping(need).job) || '').filter(Boolean),
+        image: imageName(job.image) || defaultImage,
+        deploysTo: (name === 'pages' ? 'GitLab Pages' : undefined)
+          || detectDeployTarget(script)
+          || yamlString(job.environment)
+          || yamlString(yamlMapping(job.environment).name)
+      }
+    })
+
+  // Without `needs`, a job waits for every job of the previous stage
+  const stageOrder = stages.length > 0 ? stages : ['build', 'test', 'deploy']
+  jobs.forEach(job => {
+    if (job.needs.length > 0) return
+    const previous = stageOrder.slice(0, stageOrder.indexOf(job.stage!)).reverse()
+      .find(stage => jobs.some(other => other.stage === stage))
+    job.needs = previous ? jobs.filter(other => other.stage === previous).map(other => other.name) : []
+  })
+  jobs.sort((a, b) => stageOrder.indexOf(a.stage!) - stageOrder.indexOf(b.stage!))
+
+  const triggers = ['push']
+  if (/merge_request/.test(content)) triggers.push('merge_request')
+  if (/CI_COMMIT_TAG|^\s*-\s*tags\s*$/m.test(content)) triggers.push('tag')
+  if (/schedule/.test(content)) triggers.push('schedule')
+  if (/when:\s*manual/.test(content)) triggers.push('manual')
+
+  return { provider: 'gitlab-ci', name: 'GitLab CI', path, triggers, jobs }
+}
+
+// Declarative pipelines; stages run in sequence
+function parseJenkinsfile(path: string, content: string): DeliveryPipeline {
+  const stageMatches = Array.from(content.matchAll(/stage\s*\(\s*['"]([^'"]+)['"]\s*\)/g))
+  const jobs: DeliveryJob[] = stageMatches.map((match, index) => {
+    const body = content.slice(match.index!, stageMatches[index + 1]?.index ?? content.length)
+    return {
+      name: match[1],
+      needs: index > 0 ? [stageMatches[index - 1][1]] : [],
+      image: body.match(/image\s+['"]([^'"]+)['"]|docker\.image\(\s*['"]([^'"]+)['"]/)?.slice(1).find(Boolean),
+      deploysTo: detectDeployTarget(body) || (/deploy|release|publish/i.test(match[1]) ? match[1] : undefined)
+    }
+  })
+
+  const triggers: string[] = []
+  if (/cron\s*\(/.test(content)) triggers.push('schedule')
+  if (/pollSCM/.test(content)) triggers.push('poll')
+  if (/githubPush|gitlab\s*\(|GenericTrigger/.test(content)) triggers.push('push')
+
+  return { provider: 'jenkins', name: 'Jenkins', path, triggers: triggers.length > 0 ? triggers : ['push'], jobs }
+}
+
+function parseNetlifyToml(path: string, content: string): DeliveryPipeline {
+  const build = readTomlTable(content, 'build') || ''
+  const command = readTomlString(build, 'command')
+  return {
+    provider: 'netlify',
+    name: 'Netlify',
+    path,
+    triggers: ['push', 'pull_request'],
+    jobs: [{ name: command ? `build: ${command}` : 'build', needs: [], deploysTo: 'Netlify' }]
+  }
+}
+
+function parseDockerfile(path: string, content: string): ContainerImage[] {
+  const stages = new Set<string>()
+  const images: ContainerImage[] = []
+  for (const match of content.matchAll(/^\s*FROM\s+(?:--platform=\S+\s+)?(\S+)(?:\s+AS\s+(\S+))?/gim)) {
+    // Later stages build on earlier ones by name
+    if (!stages.has(match[1].toLowerCase()) && match[1] !== 'scratch') {
+      images.push({ image: match[1], role: 'base', path })
+    }
+    if (match[2]) stages.add(match[2].toLowerCase())
+  }
+  return images
+}
+
+function parseComposeFile(path: string, content: string): ContainerImage[] {
+  return Object.values(yamlMapping(yamlMapping(parseYaml(content)).services))
+    .map(service => yamlString(yamlMapping(service).image))
+    .filter((image): image is string => !!image)
+    .map(image => ({ image, role: 'service' as const, path }))
+}
+
+function parseHelmValues(path: string, content: string): ContainerImage[] {
+  const image = yamlMapping(yamlMapping(parseYaml(content)).image)
+  const repository = yamlString(image.repository)
+  if (!repository) return []
+  const tag = yamlString(image.tag)
+  return [{ image: tag ? `${repository}:${tag}` : repository, role: 'service', path }]
+}
+
+function detectDeployTarget(text: string): string | undefined {
+  return DEPLOY_SIGNATURES.find(signature => signature.pattern.test(text))?.target
+}
+
+function imageName(value: YamlValue | undefined): string | undefined {
+  return yamlString(value) || yamlString(yamlMapping(value).name)
+}
+
+function escapeLabel(text: string): string {
+  return text.replace(/"/g, '#quot;')
+}
@@ -1,9 +1,19 @@
 import jsPDF from 'jspdf'
 import pptxgen from 'pptxgenjs'
-import { SlidePresentation, ExportConfig } from '../types'
+import { SlidePresentation, ExportConfig, ChartData } from '../types'
+import { formatCodeSource } from './codeExcerpt'
+import { RasterizedDiagram, rasterizeDiagram } from './architectureDiagram'
+import { rasterizeImage } from './screenshots'
+
+const SPEAKER_NOTES_LABELS: Record<SlidePresentation['language'], string> = {
+  ja: '講演者ノート:',
+  en: 'Speaker notes:',
+  zh: '演讲者备注:'
+}
 
 export class ExportService {
   async exportToPDF(presentation: SlidePresentation, config: ExportConfig): Promise<Blob> {
+    presentation = await this.withReferences(presentation, config)
     const pdf = new jsPDF({
       orientation: 'landscape',
       unit: 'mm',
@@ -13,6 +23,7 @@ export class ExportService {
     const pageWidth = pdf.internal.pageSize.getWidth()
     const pageHeight = pdf.internal.pageSize.getHeight()
     const margin = 20
+    const diagrams = await this.rasterizeDiagrams(presentation)
 
     for (let i = 0; i < presentation.slides.length; i++) {
       if (i > 0) {
@@ -51,9 +62,52 @@ export class ExportService {
         })
       }
 
+      // Diagram or image
+      const diagram = diagrams.get(slide.id)
+      if (diagram) {
+        yPosition += 5
+        if (yPosition > pageHeight - margin - 40) {
+          pdf.addPage()
+          yPosition = margin + 10
+        }
+        const size = this.fitImage(diagram, pageWidth - (margin * 2), pageHeight - margin - yPosition)
+        pdf.addImage(diagram.dataUrl, 'PNG', (pageWidth - size.width) / 2, yPosition, size.width, size.height)
+        yPosition += size.height + 5
+      } else if (slide.diagram) {
+        // Rendering failed; the Mermaid source still conveys the structure
+        pdf.setFontSize(8)
+        pdf.setFont('courier', 'normal')
+        slide.diagram.source.split('\n').forEach(line => {
+          if (yPosition > pageHeight - margin) {
+            pdf.addPage()
+            yPosition = margin + 10
+          }
+          pdf.text(line, margin, yPosition)
+          yPosition += 4
+        })
+      }
+
+      // Commit timeline
+      if (slide.chart?.type === 'timeline') {
+        const chartHeight = 40
+        yPosition += 5
+        if (yPosition > pageHeight - margin - chartHeight) {
+          pdf.addPage()
+          yPosition = margin + 10
+        }
+        this.drawTimeline(pdf, slide.chart, margin, yPosition, pageWidth - (margin * 2), chartHeight)
+        yPosition += chartHeight + 10
+      }
+
       // Code
       if (slide.code) {
         yPosition += 10
+        if (slide.code.path) {
+          pdf.setFontSize(8)
+          pdf.setFont('courier', 'italic')
+          pdf.text(formatCodeSource(slide.code), margin, yPosition)
+          yPosition += 6
+        }
         pdf.setFontSize(10)
         pdf.setFont('courier', 'normal')
         const codeLines = slide.code.code.split('\n')
@@ -72,7 +126,7 @@ export class ExportService {
         yPosition += 10
         pdf.setFontSize(8)
         pdf.setFont('helvetica', 'italic')
-        pdf.text('講演者ノート:', margin, yPosition)
+        pdf.text(SPEAKER_NOTES_LABELS[presentation.language], margin, yPosition)
         yPosition += 5
         const notesLines = pdf.splitTextToSize(slide.speakerNotes, pageWidth - (margin * 2))
         pdf.text(notesLines, margin, yPosition)
@@ -91,6 +145,7 @@ export class ExportService {
   }
 
   async exportToPowerPoint(presentation: SlidePresentation, config: ExportConfig): Promise<Blob> {
+    presentation = await this.withReferences(presentation, config)
     const pptx = new pptxgen()
 
     // Set presentation properties
@@ -100,8 +155,16 @@ export class ExportService {
 
     // Define layout and theme
     pptx.layout = 'LAYOUT_16x9'
+    const diagrams = await this.rasterizeDiagrams(presentation)
     
-    const theme = presentation.mode === 'ted' ? {
+    // Template decks bring their own colors
+    const templateTheme = presentation.theme && {
+      background: { color: presentation.theme.backgroundColor.slice(1) },
+      titleColor: presentation.theme.primaryColor.slice(1),
+      textColor: presentation.theme.textColor.slice(1),
+      accentColor: presentation.theme.primaryColor.slice(1)
+    }
+    const theme = templateTheme || (presentation.mode === 'ted' ? {
       background: { color: '1F2937' },
       titleColor: 'FFFFFF',
       textColor: 'F3F4F6',
@@ -111,7 +174,7 @@ export class ExportService {
       titleColor: '1F2937',
       textColor: '374151',
       accentColor: '059669'
-    }
+    })
 
     presentation.slides.forEach((slide, index) => {
       const pptxSlide = pptx.addSlide()
@@ -190,6 +253,18 @@ export class ExportService {
           margin: 0.2
         })
         
+        if (slide.code.path) {
+          pptxSlide.addText(formatCodeSource(slide.code), {
+            x: 0.5,
+            y: yPos - 0.4,
+            w: 12,
+            h: 0.4,
+            fontSize: 10,
+            color: theme.textColor,
+            fontFace: 'Courier New'
+          })
+        }
+
         if (slide.code.explanation) {
           pptxSlide.addText(slide.code.explanation, {
             x: 0.5,
@@ -204,8 +279,38 @@ export class ExportService {
         }
       }
 
-      // Chart placeholder
-      if (slide.chart) {
+      // Diagram or image
+      const diagram = diagrams.get(slide.id)
+      if (diagram) {
+        const size = this.fitImage(diagram, 12, Math.max(6.8 - yPos, 2.5))
+        pptxSlide.addImage({
+          data: diagram.dataUrl,
+          x: 0.5 + (12 - size.width) / 2,
+          y: yPos,
+          w: size.width,
+          h: size.height
+        })
+      }
+
+      if (slide.chart?.type === 'timeline') {
+        pptxSlide.addChart(pptx.ChartType.bar, [{
+          name: slide.chart.title,
+          labels: slide.chart.labels,
+          values: slide.chart.data.map(value => Number(value) || 0)
+        }], {
+          x: 0.5,
+          y: yPos,
+          w: 12,
+          h: Math.max(6.8 - yPos, 2.5),
+          chartColors: [theme.accentColor],
+          catAxisLabelColor: theme.textColor,
+          valAxisLabelColor: theme.textColor,
+          showTitle: true,
+          title: slide.chart.title,
+          titleColor: theme.titleColor
+        })
+      } else if (slide.chart) {
+        // Chart placeholder
         pptxSlide.addText(slide.chart.title, {
           x: 0.5,
           y: yPos,
@@ -253,6 +358,53 @@ export class ExportService {
     return new Blob(['PowerPoint export completed'], { type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' })
   }
 
+  // The appendix comes from the slide generator, loaded on demand as for HTML
+  private async withReferences(presentation: SlidePresentation, config: ExportConfig): Promise<SlidePresentation> {
+    if (!config.includeReferences) return presentation
+    const { slideGeneratorService } = await import('./slideGenerator')
+    return slideGeneratorService.appendReferences(presentation)
+  }
+
+  // Slide id -> PNG for diagrams and images; one that fails to render is left out rather than failing the export
+  private async rasterizeDiagrams(presentation: SlidePresentation): Promise<Map<string, RasterizedDiagram>> {
+    const diagrams = new Map<string, RasterizedDiagram>()
+    for (const slide of presentation.slides) {
+      if (!slide.diagram && !slide.image) continue
+      try {
+        diagrams.set(slide.id, slide.diagram ? await rasterizeDiagram(slide.diagram) : await rasterizeImage(slide.image!.url))
+      } catch (error) {
+        console.warn(`Failed to render the ${slide.diagram ? 'diagram' : 'image'} on slide ${slide.id}:`, error)
+      }
+    }
+    return diagrams
+  }
+
+  // Columns scaled to the busiest entry, with the first and last labels underneath
+  private drawTimeline(pdf: jsPDF, chart: ChartData, x: number, y: number, width: number, height: number) {
+    const values = chart.data.map(value => Number(value) || 0)
+    const max = Math.max(1, ...values)
+    const columnWidth = width / Math.max(values.length, 1)
+
+    pdf.setFillColor(59, 130, 246)
+    values.forEach((value, index) => {
+      const barHeight = (value / max) * height
+      if (barHeight > 0) pdf.rect(x + index * columnWidth, y + height - barHeight, Math.max(columnWidth - 0.5, 0.3), barHeight, 'F')
+    })
+    pdf.setDrawColor(156, 163, 175)
+    pdf.line(x, y + height, x + width, y + height)
+
+    pdf.setFontSize(8)
+    pdf.setFont('helvetica', 'normal')
+    pdf.text(chart.labels[0] || '', x, y + height + 5)
+    pdf.text(chart.labels[chart.labels.length - 1] || '', x + width, y + height + 5, { align: 'right' })
+  }
+
+  // Largest size with the diagram's aspect ratio inside maxWidth x maxHeight (any unit)
+  private fitImage(image: RasterizedDiagram, maxWidth: number, maxHeight: number): { width: number; height: number } {
+    const scale = Math.min(maxWidth / image.width, maxHeight / image.height)
+    return { width: image.width * scale, height: image.height * scale }
+  }
+
   async exportToKeynote(presentation: SlidePresentation, config: ExportConfig): Promise<Blob> {
     // Keynote export is implemented as PowerPoint export for compatibility
     // Real Keynote export would require native macOS APIs
@@ -306,11 +458,12 @@ export class ExportService {
           filename = this.generateFileName(presentation, 'key')
           break
         
-        case 'html':
-          const html = await this.exportToHTML(presentation)
+        case 'html': {
+          const html = await this.exportToHTML(await this.withReferences(presentation, config))
           blob = new Blob([html], { type: 'text/html' })
           filename = this.generateFileName(presentation, 'html')
           break
+        }
         
         default:
           throw new Error(`Unsupported export format: ${config.format}`)
@@ -0,0 +1,113 @@
+// Shared file classification helpers used by every ingestion path
+
+const FILE_TYPES: Record<string, string> = {
+  'js': 'javascript',
+  'ts': 'typescript',
+  'jsx': 'react',
+  'tsx': 'react',
+  'py': 'python',
+  'java': 'java',
+  'cpp': 'cpp',
+  'c': 'c',
+  'md': 'markdown',
+  'json': 'json',
+  'yml': 'yaml',
+  'yaml': 'yaml',
+  'css': 'css',
+  'html': 'html',
+  'vue': 'vue',
+  'go': 'go',
+  'rs': 'rust'
+}
+
+// Extension to GitHub linguist language name, used to build `languages` without the API
+const LANGUAGES: Record<string, string> = {
+  'ts': 'TypeScript',
+  'tsx': 'TypeScript',
+  'mts': 'TypeScript',
+  'cts': 'TypeScript',
+  'js': 'JavaScript',
+  'jsx': 'JavaScript',
+  'mjs': 'JavaScript',
+  'cjs': 'JavaScript',
+  'py': 'Python',
+  'go': 'Go',
+  'rs': 'Rust',
+  'java': 'Java',
+  'kt': 'Kotlin',
+  'kts': 'Kotlin',
+  'scala': 'Scala',
+  'rb': 'Ruby',
+  'php': 'PHP',
+  'cs': 'C#',
+  'fs': 'F#',
+  'cpp': 'C++',
+  'cc': 'C++',
+  'cxx': 'C++',
+  'hpp': 'C++',
+  'c': 'C',
+  'h': 'C',
+  'swift': 'Swift',
+  'm': 'Objective-C',
+  'dart': 'Dart',
+  'ex': 'Elixir',
+  'exs': 'Elixir',
+  'erl': 'Erlang',
+  'hs': 'Haskell',
+  'lua': 'Lua',
+  'r': 'R',
+  'jl': 'Julia',
+  'sh': 'Shell',
+  'bash': 'Shell',
+  'ps1': 'PowerShell',
+  'css': 'CSS',
+  'scss': 'SCSS',
+  'sass': 'Sass',
+  'less': 'Less',
+  'html': 'HTML',
+  'vue': 'Vue',
+  'svelte': 'Svelte',
+  'sql': 'SQL'
+}
+
+const TEXT_EXTENSIONS = new Set([
+  ...Object.keys(LANGUAGES),
+  'md', 'mdx', 'txt', 'rst', 'json', 'jsonc', 'yml', 'yaml', 'toml', 'ini', 'cfg', 'conf',
+  'xml', 'gradle', 'properties', 'lock', 'csproj', 'sln', 'env', 'gitignore', 'dockerignore',
+  'editorconfig', 'svg', 'graphql', 'gql', 'proto', 'tf', 'mod', 'sum'
+])
+
+const TEXT_FILENAMES = new Set([
+  'Dockerfile', 'Makefile', 'Jenkinsfile', 'Procfile', 'Gemfile', 'Pipfile', 'Rakefile',
+  'LICENSE', 'README', 'CHANGELOG', 'CODEOWNERS'
+])
+
+export function getExtension(path: string): string {
+  const filename = path.split('/').pop() || ''
+  const dot = filename.lastIndexOf('.')
+  return dot > 0 ? filename.slice(dot + 1).toLowerCase() : filename.startsWith('.') ? filename.slice(1).toLowerCase() : ''
+}
+
+export function getFileType(path: string): string {
+  return FILE_TYPES[getExtension(path)] || 'unknown'
+}
+
+export function detectLanguage(path: string): string | null {
+  return LANGUAGES[getExtension(path)] || null
+}
+
+export function isTextFile(path: string): boolean {
+  const filename = path.split('/').pop() || ''
+  return TEXT_EXTENSIONS.has(getExtension(path)) || TEXT_FILENAMES.has(filename.split('.')[0])
+}
+
+export function calculateFileImportance(path: string): number {
+  // Calculate importance based on file patterns
+  if (path.match(/^(README|readme)/)) return 10
+  if (path.match(/package\.json|requirements\.txt|pyproject\.toml|Pipfile|go\.mod|Gemfile|pom\.xml|build\.gradle|composer\.json|\.csproj$|Cargo\.toml/)) return 9
+  if (path.match(/src\/|lib\/|app\//)) return 8
+  if (path.match(/test\/|spec\/|__tests__\//)) return 7
+  if (path.match(/\.config\.|\.env|Dockerfile/)) return 6
+  if (path.match(/docs\/|documentation\//)) return 5
+  return 3
+}
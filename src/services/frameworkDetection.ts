@@ -0,0 +1,112 @@
+// Framework recognition from dependency names across ecosystems
+// Shared by the Netlify analysis (FrameworkAnalysis) and the story generator
+
+import { Dependency, DependencyEcosystem } from '../types'
+
+export type FrameworkCategory = 'frontend' | 'backend' | 'database' | 'testing' | 'buildTools'
+
+interface FrameworkSignature {
+  name: string
+  category: FrameworkCategory
+  // Exact (lowercased) package names, or patterns for families such as `org.springframework.boot:*`
+  packages: (string | RegExp)[]
+  // Restricts matching when a name is ambiguous across registries
+  ecosystem?: DependencyEcosystem
+}
+
+export interface DetectedFramework {
+  name: string
+  category: FrameworkCategory
+  // The dependencies it was recognized by, as declared
+  packages: string[]
+}
+
+const FRAMEWORK_SIGNATURES: FrameworkSignature[] = [
+  // Frontend
+  { name: 'React', category: 'frontend', packages: ['react'] },
+  { name: 'Vue.js', category: 'frontend', packages: ['vue'] },
+  { name: 'Angular', category: 'frontend', packages: ['angular', '@angular/core'] },
+  { name: 'Svelte', category: 'frontend', packages: ['svelte'] },
+  { name: 'Next.js', category: 'frontend', packages: ['next'] },
+  { name: 'Nuxt.js', category: 'frontend', packages: ['nuxt'] },
+  { name: 'Blazor', category: 'frontend', packages: [/^microsoft\.aspnetcore\.components\.webassembly/] },
+  { name: 'Yew', category: 'frontend', packages: ['yew'], ecosystem: 'cargo' },
+  { name: 'Leptos', category: 'frontend', packages: ['leptos'], ecosystem: 'cargo' },
+
+  // Backend
+  { name: 'Express.js', category: 'backend', packages: ['express'] },
+  { name: 'Fastify', category: 'backend', packages: ['fastify'] },
+  { name: 'Koa.js', category: 'backend', packages: ['koa'] },
+  { name: 'NestJS', category: 'backend', packages: ['@nestjs/core'] },
+  { name: 'Django', category: 'backend', packages: ['django'] },
+  { name: 'Flask', category: 'backend', packages: ['flask'] },
+  { name: 'FastAPI', category: 'backend', packages: ['fastapi'] },
+  { name: 'Spring Boot', category: 'backend', packages: ['spring', /^org\.springframework\.boot:/] },
+  { name: 'Spring', category: 'backend', packages: [/^org\.springframework:/] },
+  { name: 'Quarkus', category: 'backend', packages: [/^io\.quarkus:/] },
+  { name: 'Ktor', category: 'backend', packages: [/^io\.ktor:ktor-server/] },
+  { name: 'Ruby on Rails', category: 'backend', packages: ['rails'], ecosystem: 'rubygems' },
+  { name: 'Sinatra', category: 'backend', packages: ['sinatra'], ecosystem: 'rubygems' },
+  { name: 'Gin', category: 'backend', packages: ['github.com/gin-gonic/gin'] },
+  { name: 'Echo', category: 'backend', packages: [/^github\.com\/labstack\/echo(\/v\d+)?$/] },
+  { name: 'Fiber', category: 'backend', packages: [/^github\.com\/gofiber\/fiber(\/v\d+)?$/] },
+  { name: 'Actix Web', category: 'backend', packages: ['actix-web'] },
+  { name: 'Axum', category: 'backend', packages: ['axum'] },
+  { name: 'Rocket', category: 'backend', packages: ['rocket'], ecosystem: 'cargo' },
+  { name: 'Laravel', category: 'backend', packages: ['laravel/framework'] },
+  { name: 'Symfony', category: 'backend', packages: ['symfony/framework-bundle'] },
+  { name: 'ASP.NET Core', category: 'backend', packages: [/^microsoft\.aspnetcore\.(?!components\.webassembly)/] },
+
+  // Database
+  { name: 'MongoDB', category: 'database', packages: ['mongoose', 'mongodb', 'pymongo', 'go.mongodb.org/mongo-driver'] },
+  { name: 'Prisma', category: 'database', packages: ['prisma', '@prisma/client'] },
+  { name: 'Sequelize', category: 'database', packages: ['sequelize'] },
+  { name: 'TypeORM', category: 'database', packages: ['typeorm'] },
+  { name: 'SQLAlchemy', category: 'database', packages: ['sqlalchemy'] },
+  { name: 'Active Record', category: 'database', packages: ['activerecord'] },
+  { name: 'GORM', category: 'database', packages: ['gorm.io/gorm'] },
+  { name: 'Diesel', category: 'database', packages: ['diesel'] },
+  { name: 'SQLx', category: 'database', packages: ['sqlx'], ecosystem: 'cargo' },
+  { name: 'Hibernate', category: 'database', packages: [/^org\.hibernate(\.orm)?:/] },
+  { name: 'Entity Framework Core', category: 'database', packages: [/^microsoft\.entityframeworkcore/] },
+  { name: 'Doctrine', category: 'database', packages: ['doctrine/orm'] },
+
+  // Testing
+  { name: 'Jest', category: 'testing', packages: ['jest'] },
+  { name: 'Mocha', category: 'testing', packages: ['mocha'] },
+  { name: 'Vitest', category: 'testing', packages: ['vitest'] },
+  { name: 'Cypress', category: 'testing', packages: ['cypress'] },
+  { name: 'Playwright', category: 'testing', packages: ['playwright', '@playwright/test'] },
+  { name: 'pytest', category: 'testing', packages: ['pytest'] },
+  { name: 'RSpec', category: 'testing', packages: ['rspec', 'rspec-rails'] },
+  { name: 'JUnit', category: 'testing', packages: ['junit:junit', /^org\.junit\.jupiter:/] },
+  { name: 'Testify', category: 'testing', packages: ['github.com/stretchr/testify'] },
+  { name: 'PHPUnit', category: 'testing', packages: ['phpunit/phpunit'] },
+  { name: 'xUnit', category: 'testing', packages: ['xunit'] },
+  { name: 'NUnit', category: 'testing', packages: ['nunit'] },
+
+  // Build tools
+  { name: 'Webpack', category: 'buildTools', packages: ['webpack'] },
+  { name: 'Vite', category: 'buildTools', packages: ['vite'] },
+  { name: 'Rollup', category: 'buildTools', packages: ['rollup'] }
+]
+
+export function detectFrameworks(dependencies: Dependency[]): DetectedFramework[] {
+  const detected: DetectedFramework[] = []
+
+  FRAMEWORK_SIGNATURES.forEach(signature => {
+    const matches = dependencies.filter(dependency => {
+      if (signature.ecosystem && dependency.ecosystem && dependency.ecosystem !== signature.ecosystem) return false
+      const name = dependency.name.toLowerCase()
+      return signature.packages.some(pattern => typeof pattern === 'string' ? pattern === name : pattern.test(name))
+    })
+    if (matches.length > 0) {
+      detected.push({ name: signature.name, category: signature.category, packages: matches.map(dependency => dependency.name) })
+    }
+  })
+
+  // A Spring Boot project also pulls in Spring itself; naming both is noise
+  return detected.some(framework => framework.name === 'Spring Boot')
+    ? detected.filter(framework => framework.name !== 'Spring')
+    : detected
+}
@@ -0,0 +1,964 @@
+// Git Repository Reader
+// Pure TypeScript reader for .git directories (loose objects, packfiles, refs) and git bundles.
+// Produces real commit history with per-commit line stats without any network access.
+
+import { Inflate, inflate } from 'pako'
+import { CommitData, CommitFileChange } from '../types'
+
+export type GitObjectType = 'commit' | 'tree' | 'blob' | 'tag'
+
+export interface GitObject {
+  type: GitObjectType
+  data: Uint8Array
+}
+
+export interface GitRef {
+  name: string
+  sha: string
+}
+
+export interface GitTreeEntry {
+  mode: string
+  name: string
+  sha: string
+}
+
+export interface GitFileEntry {
+  path: string
+  sha: string
+  mode: string
+}
+
+export interface ParsedCommit {
+  sha: string
+  tree: string
+  parents: string[]
+  author: GitSignature
+  committer: GitSignature
+  message: string
+}
+
+export interface GitSignature {
+  name: string
+  email: string
+  timestamp: number
+}
+
+// Random access to files inside a .git directory, relative to the .git root
+export interface GitFileSource {
+  readFile(path: string): Promise<Uint8Array | null>
+  listFiles(directory: string): Promise<string[]>
+}
+
+export interface GitHistoryOptions {
+  ref?: string
+  limit?: number
+  withStats?: boolean
+}
+
+export interface GitRange {
+  fromSha: string | null
+  toSha: string
+  commits: CommitData[]
+  files: CommitFileChange[]
+}
+
+interface PackedObject {
+  type: number
+  data: Uint8Array
+}
+
+interface ObjectStore {
+  has(sha: string): Promise<boolean>
+  read(sha: string): Promise<GitObject | null>
+}
+
+const OBJECT_TYPES: Record<number, GitObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' }
+const OFS_DELTA = 6
+const REF_DELTA = 7
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+const MAX_PACK_BYTES = 512 * 1024 * 1024
+const MAX_DIFF_BLOB_BYTES = 1024 * 1024
+const OBJECT_CACHE_LIMIT = 4000
+
+const textDecoder = new TextDecoder('utf-8')
+const textEncoder = new TextEncoder()
+
+export class GitRepositoryReader {
+  private stores: ObjectStore[] = []
+  private storesLoaded = false
+  private objectCache = new Map<string, GitObject>()
+  private bundleRefs: GitRef[] | null = null
+
+  constructor(private source: GitFileSource | null) {}
+
+  static fromBundle(bundle: Uint8Array): GitRepositoryReader {
+    const reader = new GitRepositoryReader(null)
+    const { refs, pack } = parseBundle(bundle)
+    reader.bundleRefs = refs
+    reader.stores = [new ScannedPackStore(pack)]
+    reader.storesLoaded = true
+    return reader
+  }
+
+  // Refs
+
+  async listRefs(): Promise<GitRef[]> {
+    if (this.bundleRefs) return this.bundleRefs
+    if (!this.source) return []
+
+    const refs = new Map<string, string>()
+
+    const packed = await this.source.readFile('packed-refs')
+    if (packed) {
+      for (const line of textDecoder.decode(packed).split('\n')) {
+        const match = line.match(/^([0-9a-f]{40}) (refs\/\S+)$/)
+        if (match) refs.set(match[2], match[1])
+      }
+    }
+
+    for (const directory of ['refs/heads', 'refs/tags', 'refs/remotes']) {
+      for (const path of await this.source.listFiles(directory)) {
+        const content = await this.source.readFile(`${directory}/${path}`)
+        const sha = content ? textDecoder.decode(content).trim() : ''
+        if (/^[0-9a-f]{40}$/.test(sha)) refs.set(`${directory}/${path}`, sha)
+      }
+    }
+
+    return Array.from(refs.entries()).map(([name, sha]) => ({ name, sha }))
+  }
+
+  async resolveRef(ref: string = 'HEAD'): Promise<string | null> {
+    if (/^[0-9a-f]{40}$/.test(ref)) return ref
+
+    // First-parent ancestry such as `HEAD~2` or `v2.3^`
+    const ancestry = ref.match(/^(.+?)((?:~\d*|\^)+)$/)
+    if (ancestry) {
+      let sha = await this.resolveCommit(ancestry[1])
+      for (const [, count] of ancestry[2].matchAll(/[~^](\d*)/g)) {
+        for (let i = 0; i < (count ? parseInt(count, 10) : 1) && sha; i++) {
+          sha = (await this.readCommit(sha))?.parents[0] || null
+        }
+      }
+      return sha
+    }
+
+    const refs = await this.listRefs()
+    const candidates = [ref, `refs/heads/${ref}`, `refs/tags/${ref}`, `refs/remotes/${ref}`]
+
+    if (ref === 'HEAD') {
+      if (this.bundleRefs) {
+        const head = refs.find(r => r.name === 'HEAD') || refs.find(r => /refs\/heads\/(main|master)$/.test(r.name)) || refs[0]
+        return head ? head.sha : null
+      }
+      const head = await this.source?.readFile('HEAD')
+      if (!head) return null
+      const content = textDecoder.decode(head).trim()
+      if (!content.startsWith('ref: ')) return /^[0-9a-f]{40}$/.test(content) ? content : null
+      candidates.unshift(content.slice(5))
+    }
+
+    for (const candidate of candidates) {
+      const match = refs.find(r => r.name === candidate)
+      if (match) return match.sha
+    }
+
+    // Abbreviated SHA
+    if (/^[0-9a-f]{4,39}$/.test(ref)) {
+      return this.expandShortSha(ref)
+    }
+
+    return null
+  }
+
+  async resolveCommit(ref: string = 'HEAD'): Promise<string | null> {
+    let sha = await this.resolveRef(ref)
+
+    // Peel annotated tags down to the commit they point at
+    for (let depth = 0; sha && depth < 10; depth++) {
+      const object = await this.readObject(sha)
+      if (!object) return null
+      if (object.type === 'commit') return sha
+      if (object.type !== 'tag') return null
+      const match = textDecoder.decode(object.data).match(/^object ([0-9a-f]{40})/m)
+      sha = match ? match[1] : null
+    }
+
+    return null
+  }
+
+  // Objects
+
+  async readObject(sha: string): Promise<GitObject | null> {
+    const cached = this.objectCache.get(sha)
+    if (cached) return cached
+
+    await this.loadStores()
+
+    for (const store of this.stores) {
+      const object = await store.read(sha)
+      if (object) {
+        if (this.objectCache.size > OBJECT_CACHE_LIMIT) this.objectCache.clear()
+        this.objectCache.set(sha, object)
+        return object
+      }
+    }
+
+    return null
+  }
+
+  async readCommit(sha: string): Promise<ParsedCommit | null> {
+    const object = await this.readObject(sha)
+    if (!object || object.type !== 'commit') return null
+    return parseCommit(sha, textDecoder.decode(object.data))
+  }
+
+  async readTree(sha: string): Promise<GitTreeEntry[]> {
+    if (sha === EMPTY_TREE) return []
+    const object = await this.readObject(sha)
+    if (!object || object.type !== 'tree') return []
+    return parseTree(object.data)
+  }
+
+  async listTreeFiles(treeSha: string, prefix: string = ''): Promise<GitFileEntry[]> {
+    const files: GitFileEntry[] = []
+
+    for (const entry of await this.readTree(treeSha)) {
+      const path = `${prefix}${entry.name}`
+      if (entry.mode === '40000') {
+        files.push(...await this.listTreeFiles(entry.sha, `${path}/`))
+      } else if (entry.mode !== '160000') {
+        // 160000 entries are submodule commits, which live in another repository
+        files.push({ path, sha: entry.sha, mode: entry.mode })
+      }
+    }
+
+    return files
+  }
+
+  async readBlob(sha: string): Promise<Uint8Array | null> {
+    const object = await this.readObject(sha)
+    return object && object.type === 'blob' ? object.data : null
+  }
+
+  // History
+
+  async readHistory(options: GitHistoryOptions = {}): Promise<CommitData[]> {
+    const { ref = 'HEAD', limit = 200, withStats = true } = options
+
+    const start = await this.resolveCommit(ref)
+    if (!start) {
+      throw new Error(`Git ref not found: ${ref}`)
+    }
+
+    const commits = await this.walkCommits([start], new Set(), limit)
+    const result: CommitData[] = []
+    for (const commit of commits) {
+      result.push(await this.toCommitData(commit, withStats))
+    }
+    return result
+  }
+
+  // Commits reachable from `include` but not from `exclude`, newest first (git log exclude..include)
+  async walkCommits(include: string[], exclude: Set<string>, limit: number): Promise<ParsedCommit[]> {
+    const result: ParsedCommit[] = []
+    const seen = new Set<string>(exclude)
+    const queue: ParsedCommit[] = []
+
+    for (const sha of include) {
+      if (seen.has(sha)) continue
+      seen.add(sha)
+      const commit = await this.readCommit(sha)
+      if (commit) queue.push(commit)
+    }
+
+    while (queue.length > 0 && result.length < limit) {
+      // Reverse chronological order by committer date, like `git log`
+      queue.sort((a, b) => b.committer.timestamp - a.committer.timestamp)
+      const commit = queue.shift()!
+      result.push(commit)
+
+      for (const parent of commit.parents) {
+        if (seen.has(parent)) continue
+        seen.add(parent)
+        const parentCommit = await this.readCommit(parent)
+        // Missing parents are expected in shallow clones and bundles with prerequisites
+        if (parentCommit) queue.push(parentCommit)
+      }
+    }
+
+    return result
+  }
+
+  async collectAncestors(sha: string, limit: number = 100000): Promise<Set<string>> {
+    const ancestors = new Set<string>()
+    const stack = [sha]
+
+    while (stack.length > 0 && ancestors.size < limit) {
+      const current = stack.pop()!
+      if (ancestors.has(current)) continue
+      ancestors.add(current)
+      const commit = await this.readCommit(current)
+      if (commit) stack.push(...commit.parents)
+    }
+
+    return ancestors
+  }
+
+  async diffCommit(commit: ParsedCommit): Promise<CommitFileChange[]> {
+    const parentTree = commit.parents.length > 0
+      ? (await this.readCommit(commit.parents[0]))?.tree
+      : EMPTY_TREE
+
+    // The parent is not available (shallow history), so line stats cannot be computed
+    if (!parentTree) return []
+
+    const changes: CommitFileChange[] = []
+    await this.diffTrees(parentTree, commit.tree, '', changes)
+    return changes
+  }
+
+  // Commits in `from..to` plus the net file changes between the two snapshots (git diff --numstat from to)
+  async readRange(from: string | null, to: string, limit: number = 500): Promise<GitRange> {
+    const toSha = await this.resolveCommit(to)
+    if (!toSha) {
+      throw new Error(`Git ref not found: ${to}`)
+    }
+
+    const fromSha = from ? await this.resolveCommit(from) : null
+    if (from && !fromSha) {
+      throw new Error(`Git ref not found: ${from}`)
+    }
+
+    const exclude = fromSha ? await this.collectAncestors(fromSha) : new Set<string>()
+    const walked = await this.walkCommits([toSha], exclude, limit)
+    const commits: CommitData[] = []
+    for (const commit of walked) {
+      commits.push(await this.toCommitData(commit, true))
+    }
+
+    const files: CommitFileChange[] = []
+    const toTree = (await this.readCommit(toSha))!.tree
+    const fromTree = fromSha ? (await this.readCommit(fromSha))?.tree || null : EMPTY_TREE
+    await this.diffTrees(fromTree, toTree, '', files)
+
+    return { fromSha, toSha, commits, files }
+  }
+
+  async readFileAt(commitSha: string, path: string): Promise<Uint8Array | null> {
+    const commit = await this.readCommit(commitSha)
+    if (!commit) return null
+
+    let treeSha = commit.tree
+    const segments = path.split('/')
+    for (let i = 0; i < segments.length; i++) {
+      const entry = (await this.readTree(treeSha)).find(item => item.name === segments[i])
+      if (!entry) return null
+      if (i === segments.length - 1) return this.readBlob(entry.sha)
+      if (entry.mode !== '40000') return null
+      treeSha = entry.sha
+    }
+    return null
+  }
+
+  private async toCommitData(commit: ParsedCommit, withStats: boolean): Promise<CommitData> {
+    let additions = 0
+    let deletions = 0
+    let files: CommitData['files']
+
+    if (withStats) {
+      files = await this.diffCommit(commit)
+      for (const file of files) {
+        additions += file.additions
+        deletions += file.deletions
+      }
+    }
+
+    return {
+      sha: commit.sha,
+      message: commit.message.trim(),
+      author: commit.author.name,
+      authorEmail: commit.author.email,
+      date: new Date(commit.author.timestamp * 1000).toISOString(),
+      additions,
+      deletions,
+      files
+    }
+  }
+
+  private async diffTrees(
+    oldTree: string | null,
+    newTree: string | null,
+    prefix: string,
+    changes: CommitFileChange[]
+  ): Promise<void> {
+    if (oldTree === newTree) return
+
+    const oldEntries = new Map((oldTree ? await this.readTree(oldTree) : []).map(entry => [entry.name, entry]))
+    const newEntries = new Map((newTree ? await this.readTree(newTree) : []).map(entry => [entry.name, entry]))
+    const names = new Set([...oldEntries.keys(), ...newEntries.keys()])
+
+    for (const name of names) {
+      const before = oldEntries.get(name)
+      const after = newEntries.get(name)
+      if (before && after && before.sha === after.sha) continue
+
+      const path = `${prefix}${name}`
+      const beforeIsTree = before?.mode === '40000'
+      const afterIsTree = after?.mode === '40000'
+
+      if (beforeIsTree || afterIsTree) {
+        await this.diffTrees(beforeIsTree ? before!.sha : null, afterIsTree ? after!.sha : null, `${path}/`, changes)
+        // A file replaced by a directory (or vice versa) also removes/adds the file itself
+        if (before && !beforeIsTree) changes.push({ path, status: 'removed', ...await this.diffBlobs(before.sha, null) })
+        if (after && !afterIsTree) changes.push({ path, status: 'added', ...await this.diffBlobs(null, after.sha) })
+        continue
+      }
+
+      if (before?.mode === '160000' || after?.mode === '160000') continue
+      const status = !before ? 'added' : !after ? 'removed' : 'modified'
+      changes.push({ path, status, ...await this.diffBlobs(before?.sha || null, after?.sha || null) })
+    }
+  }
+
+  private async diffBlobs(oldSha: string | null, newSha: string | null): Promise<{ additions: number; deletions: number }> {
+    const oldData = oldSha ? await this.readBlob(oldSha) : new Uint8Array(0)
+    const newData = newSha ? await this.readBlob(newSha) : new Uint8Array(0)
+
+    // Binary or unavailable blobs are reported without line counts, like `git diff --numstat` shows "-"
+    if (!oldData || !newData || isBinary(oldData) || isBinary(newData)) {
+      return { additions: 0, deletions: 0 }
+    }
+    if (oldData.length > MAX_DIFF_BLOB_BYTES || newData.length > MAX_DIFF_BLOB_BYTES) {
+      return { additions: 0, deletions: 0 }
+    }
+
+    return countLineChanges(splitLines(textDecoder.decode(oldData)), splitLines(textDecoder.decode(newData)))
+  }
+
+  private async expandShortSha(prefix: string): Promise<string | null> {
+    await this.loadStores()
+    for (const store of this.stores) {
+      if (store instanceof PackIndexStore || store instanceof ScannedPackStore) {
+        const match = store.findByPrefix(prefix)
+        if (match) return match
+      }
+    }
+
+    if (this.source) {
+      for (const name of await this.source.listFiles(`objects/${prefix.slice(0, 2)}`)) {
+        const sha = `${prefix.slice(0, 2)}${name}`
+        if (sha.startsWith(prefix)) return sha
+      }
+    }
+
+    return null
+  }
+
+  private async loadStores(): Promise<void> {
+    if (this.storesLoaded || !this.source) return
+    this.storesLoaded = true
+
+    const source = this.source
+    this.stores.push(new LooseObjectStore(source))
+
+    const packFiles = (await source.listFiles('objects/pack')).filter(name => name.endsWith('.idx'))
+    for (const indexName of packFiles) {
+      const packName = indexName.replace(/\.idx$/, '.pack')
+      const [index, pack] = await Promise.all([
+        source.readFile(`objects/pack/${indexName}`),
+        source.readFile(`objects/pack/${packName}`)
+      ])
+      if (!index || !pack) continue
+      if (pack.length > MAX_PACK_BYTES) {
+        console.warn(`Skipping oversized packfile ${packName}`)
+        continue
+      }
+      this.stores.push(new PackIndexStore(index, pack, sha => this.readObject(sha)))
+    }
+  }
+}
+
+// Object stores
+
+class LooseObjectStore implements ObjectStore {
+  constructor(private source: GitFileSource) {}
+
+  async has(sha: string): Promise<boolean> {
+    return (await this.source.readFile(this.pathFor(sha))) !== null
+  }
+
+  async read(sha: string): Promise<GitObject | null> {
+    const compressed = await this.source.readFile(this.pathFor(sha))
+    if (!compressed) return null
+
+    const raw = inflate(compressed)
+    const headerEnd = raw.indexOf(0)
+    const [type] = textDecoder.decode(raw.subarray(0, headerEnd)).split(' ')
+    if (!['commit', 'tree', 'blob', 'tag'].includes(type)) return null
+
+    return { type: type as GitObjectType, data: raw.subarray(headerEnd + 1) }
+  }
+
+  private pathFor(sha: string): string {
+    return `objects/${sha.slice(0, 2)}/${sha.slice(2)}`
+  }
+}
+
+// Packfile with a .idx index: objects are located by offset and inflated lazily
+class PackIndexStore implements ObjectStore {
+  private offsets = new Map<string, number>()
+  private resolved = new Map<number, PackedObject>()
+
+  constructor(
+    index: Uint8Array,
+    private pack: Uint8Array,
+    private readExternal: (sha: string) => Promise<GitObject | null>
+  ) {
+    this.parseIndex(index)
+  }
+
+  async has(sha: string): Promise<boolean> {
+    return this.offsets.has(sha)
+  }
+
+  async read(sha: string): Promise<GitObject | null> {
+    const offset = this.offsets.get(sha)
+    if (offset === undefined) return null
+    const object = await this.readAt(offset)
+    return object ? toGitObject(object) : null
+  }
+
+  findByPrefix(prefix: string): string | null {
+    for (const sha of this.offsets.keys()) {
+      if (sha.startsWith(prefix)) return sha
+    }
+    return null
+  }
+
+  private async readAt(offset: number): Promise<PackedObject | null> {
+    const cached = this.resolved.get(offset)
+    if (cached) return cached
+
+    const entry = readPackEntry(this.pack, offset)
+    let object: PackedObject | null = null
+
+    if (entry.type === OFS_DELTA) {
+      const base = await this.readAt(entry.baseOffset!)
+      object = base ? { type: base.type, data: applyDelta(base.data, entry.data) } : null
+    } else if (entry.type === REF_DELTA) {
+      const baseOffset = this.offsets.get(entry.baseSha!)
+      const base = baseOffset !== undefined
+        ? await this.readAt(baseOffset)
+        : fromGitObject(await this.readExternal(entry.baseSha!))
+      object = base ? { type: base.type, data: applyDelta(base.data, entry.data) } : null
+    } else {
+      object = { type: entry.type, data: entry.data }
+    }
+
+    if (object && object.type !== 3) {
+      // Blobs are large and rarely re-read; commits and trees are delta bases for each other
+      this.resolved.set(offset, object)
+    }
+    return object
+  }
+
+  private parseIndex(index: Uint8Array): void {
+    const view = new DataView(index.buffer, index.byteOffset, index.byteLength)
+    const isV2 = view.getUint32(0) === 0xff744f63
+
+    if (isV2) {
+      const count = view.getUint32(8 + 255 * 4)
+      const shaStart = 8 + 256 * 4
+      const offsetStart = shaStart + count * 20 + count * 4
+      const largeOffsetStart = offsetStart + count * 4
+
+      for (let i = 0; i < count; i++) {
+        const sha = toHex(index.subarray(shaStart + i * 20, shaStart + (i + 1) * 20))
+        let offset = view.getUint32(offsetStart + i * 4)
+        if (offset & 0x80000000) {
+          const largeIndex = offset & 0x7fffffff
+          offset = Number(view.getBigUint64(largeOffsetStart + largeIndex * 8))
+        }
+        this.offsets.set(sha, offset)
+      }
+    } else {
+      const count = view.getUint32(255 * 4)
+      const entryStart = 256 * 4
+      for (let i = 0; i < count; i++) {
+        const base = entryStart + i * 24
+        this.offsets.set(toHex(index.subarray(base + 4, base + 24)), view.getUint32(base))
+      }
+    }
+  }
+}
+
+// Packfile without an index (git bundles): every object is inflated and hashed up front
+class ScannedPackStore implements ObjectStore {
+  private objects = new Map<string, PackedObject>()
+  private pending: Promise<void> | null = null
+
+  constructor(private pack: Uint8Array) {}
+
+  async has(sha: string): Promise<boolean> {
+    await this.scan()
+    return this.objects.has(sha)
+  }
+
+  async read(sha: string): Promise<GitObject | null> {
+    await this.scan()
+    const object = this.objects.get(sha)
+    return object ? toGitObject(object) : null
+  }
+
+  findByPrefix(prefix: string): string | null {
+    for (const sha of this.objects.keys()) {
+      if (sha.startsWith(prefix)) return sha
+    }
+    return null
+  }
+
+  private scan(): Promise<void> {
+    if (!this.pending) this.pending = this.scanPack()
+    return this.pending
+  }
+
+  private async scanPack(): Promise<void> {
+    const view = new DataView(this.pack.buffer, this.pack.byteOffset, this.pack.byteLength)
+    if (textDecoder.decode(this.pack.subarray(0, 4)) !== 'PACK') {
+      throw new Error('Invalid git bundle: packfile signature not found')
+    }
+
+    const count = view.getUint32(8)
+    const entries = new Map<number, ReturnType<typeof readPackEntry>>()
+    const order: number[] = []
+    let offset = 12
+
+    for (let i = 0; i < count; i++) {
+      const entry = readPackEntry(this.pack, offset)
+      entries.set(offset, entry)
+      order.push(offset)
+      offset = entry.end
+    }
+
+    const resolvedByOffset = new Map<number, PackedObject>()
+    const unresolved: number[] = []
+
+    const resolve = (entryOffset: number): PackedObject | null => {
+      const cached = resolvedByOffset.get(entryOffset)
+      if (cached) return cached
+      const entry = entries.get(entryOffset)
+      if (!entry) return null
+
+      let base: PackedObject | null | undefined = null
+      if (entry.type === OFS_DELTA) {
+        base = resolve(entry.baseOffset!)
+      } else if (entry.type === REF_DELTA) {
+        base = this.objects.get(entry.baseSha!)
+      } else {
+        const object = { type: entry.type, data: entry.data }
+        resolvedByOffset.set(entryOffset, object)
+        return object
+      }
+
+      if (!base) return null
+      const object = { type: base.type, data: applyDelta(base.data, entry.data) }
+      resolvedByOffset.set(entryOffset, object)
+      return object
+    }
+
+    // REF_DELTA bases may appear later in the pack, so keep resolving until no progress is made
+    let remaining = order
+    while (remaining.length > 0) {
+      unresolved.length = 0
+      for (const entryOffset of remaining) {
+        const object = resolve(entryOffset)
+        if (!object) {
+          unresolved.push(entryOffset)
+          continue
+        }
+        const sha = await hashObject(object)
+        this.objects.set(sha, object)
+      }
+      if (unresolved.length === remaining.length) break
+      remaining = [...unresolved]
+    }
+
+    if (unresolved.length > 0) {
+      // Thin bundles reference prerequisite objects that are not included
+      console.warn(`${unresolved.length} bundle objects depend on prerequisites that are not included`)
+    }
+  }
+}
+
+// Parsing helpers
+
+function parseBundle(bundle: Uint8Array): { refs: GitRef[]; pack: Uint8Array } {
+  let offset = 0
+  const readLine = (): string => {
+    const end = bundle.indexOf(0x0a, offset)
+    if (end < 0) throw new Error('Invalid git bundle: truncated header')
+    const line = textDecoder.decode(bundle.subarray(offset, end))
+    offset = end + 1
+    return line
+  }
+
+  const signature = readLine()
+  if (signature !== '# v2 git bundle' && signature !== '# v3 git bundle') {
+    throw new Error('Invalid git bundle: unsupported signature')
+  }
+
+  const refs: GitRef[] = []
+  for (let line = readLine(); line !== ''; line = readLine()) {
+    // "@capability" lines (v3) and "-<sha>" prerequisite lines carry no refs
+    if (line.startsWith('@') || line.startsWith('-')) continue
+    const match = line.match(/^([0-9a-f]{40}) (\S+)$/)
+    if (match) refs.push({ sha: match[1], name: match[2] })
+  }
+
+  return { refs, pack: bundle.subarray(offset) }
+}
+
+function readPackEntry(pack: Uint8Array, offset: number): {
+  type: number
+  data: Uint8Array
+  end: number
+  baseOffset?: number
+  baseSha?: string
+} {
+  let position = offset
+  let byte = pack[position++]
+  const type = (byte >> 4) & 0x07
+  let size = byte & 0x0f
+  let shift = 4
+
+  while (byte & 0x80) {
+    byte = pack[position++]
+    size += (byte & 0x7f) * Math.pow(2, shift)
+    shift += 7
+  }
+
+  let baseOffset: number | undefined
+  let baseSha: string | undefined
+
+  if (type === OFS_DELTA) {
+    byte = pack[position++]
+    let distance = byte & 0x7f
+    while (byte & 0x80) {
+      byte = pack[position++]
+      distance = ((distance + 1) * 128) + (byte & 0x7f)
+    }
+    baseOffset = offset - distance
+  } else if (type === REF_DELTA) {
+    baseSha = toHex(pack.subarray(position, position + 20))
+    position += 20
+  }
+
+  const inflator = new Inflate({ chunkSize: Math.max(size, 1024) })
+  inflator.push(pack.subarray(position), true)
+  if (inflator.err) {
+    throw new Error(`Corrupt packfile object at offset ${offset}: ${inflator.msg}`)
+  }
+
+  // pako stops at the end of the zlib stream, so next_in tells where the next object starts
+  const consumed = (inflator as unknown as { strm: { next_in: number } }).strm.next_in
+  const data = inflator.result instanceof Uint8Array ? inflator.result : new Uint8Array(0)
+
+  return { type, data, end: position + consumed, baseOffset, baseSha }
+}
+
+function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let position = 0
+
+  const readSize = (): number => {
+    let value = 0
+    let shift = 0
+    let byte: number
+    do {
+      byte = delta[position++]
+      value += (byte & 0x7f) * Math.pow(2, shift)
+      shift += 7
+    } while (byte & 0x80)
+    return value
+  }
+
+  readSize() // source size
+  const targetSize = readSize()
+  const target = new Uint8Array(targetSize)
+  let written = 0
+
+  while (position < delta.length) {
+    const opcode = delta[position++]
+
+    if (opcode & 0x80) {
+      let copyOffset = 0
+      let copySize = 0
+      for (let i = 0; i < 4; i++) {
+        if (opcode & (1 << i)) copyOffset |= delta[position++] << (i * 8)
+      }
+      for (let i = 0; i < 3; i++) {
+        if (opcode & (1 << (4 + i))) copySize |= delta[position++] << (i * 8)
+      }
+      if (copySize === 0) copySize = 0x10000
+      copyOffset >>>= 0
+      target.set(base.subarray(copyOffset, copyOffset + copySize), written)
+      written += copySize
+    } else if (opcode > 0) {
+      target.set(delta.subarray(position, position + opcode), written)
+      position += opcode
+      written += opcode
+    } else {
+      throw new Error('Invalid delta instruction')
+    }
+  }
+
+  return target
+}
+
+function parseCommit(sha: string, text: string): ParsedCommit {
+  const separator = text.indexOf('\n\n')
+  const header = separator >= 0 ? text.slice(0, separator) : text
+  const message = separator >= 0 ? text.slice(separator + 2) : ''
+
+  let tree = ''
+  const parents: string[] = []
+  let author: GitSignature = { name: 'Unknown', email: '', timestamp: 0 }
+  let committer: GitSignature = author
+
+  for (const line of header.split('\n')) {
+    // Continuation lines belong to multi-line headers such as gpgsig
+    if (line.startsWith(' ')) continue
+    const space = line.indexOf(' ')
+    const key = line.slice(0, space)
+    const value = line.slice(space + 1)
+
+    if (key === 'tree') tree = value
+    else if (key === 'parent') parents.push(value)
+    else if (key === 'author') author = parseSignature(value)
+    else if (key === 'committer') committer = parseSignature(value)
+  }
+
+  return { sha, tree, parents, author, committer, message }
+}
+
+function parseSignature(value: string): GitSignature {
+  const match = value.match(/^(.*) <([^>]*)> (\d+) [+-]\d{4}$/)
+  if (!match) return { name: value, email: '', timestamp: 0 }
+  return { name: match[1], email: match[2], timestamp: parseInt(match[3], 10) }
+}
+
+function parseTree(data: Uint8Array): GitTreeEntry[] {
+  const entries: GitTreeEntry[] = []
+  let position = 0
+
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position)
+    const nul = data.indexOf(0, space)
+    const mode = textDecoder.decode(data.subarray(position, space))
+    const name = textDecoder.decode(data.subarray(space + 1, nul))
+    const sha = toHex(data.subarray(nul + 1, nul + 21))
+    entries.push({ mode, name, sha })
+    position = nul + 21
+  }
+
+  return entries
+}
+
+async function hashObject(object: PackedObject): Promise<string> {
+  const header = textEncoder.encode(`${OBJECT_TYPES[object.type]} ${object.data.length}\0`)
+  const buffer = new Uint8Array(header.length + object.data.length)
+  buffer.set(header)
+  buffer.set(object.data, header.length)
+  const digest = await crypto.subtle.digest('SHA-1', buffer)
+  return toHex(new Uint8Array(digest))
+}
+
+function toGitObject(object: PackedObject): GitObject | null {
+  const type = OBJECT_TYPES[object.type]
+  return type ? { type, data: object.data } : null
+}
+
+function fromGitObject(object: GitObject | null): PackedObject | null {
+  if (!object) return null
+  const type = Object.entries(OBJECT_TYPES).find(([, name]) => name === object.type)?.[0]
+  return type ? { type: Number(type), data: object.data } : null
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = ''
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+function isBinary(data: Uint8Array): boolean {
+  return data.subarray(0, 8000).includes(0)
+}
+
+function splitLines(text: string): string[] {
+  if (text.length === 0) return []
+  const lines = text.split('\n')
+  if (text.endsWith('\n')) {
+    lines.pop()
+  } else {
+    // A missing trailing newline makes the last line differ, as in git's "\ No newline at end of file"
+    lines[lines.length - 1] += '\\ No newline at end of file'
+  }
+  return lines
+}
+
+// Line-level additions/deletions between two versions, using the Myers O(ND) edit distance
+export function countLineChanges(before: string[], after: string[]): { additions: number; deletions: number } {
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) start++
+
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--
+    endAfter--
+  }
+
+  const a = before.slice(start, endBefore)
+  const b = after.slice(start, endAfter)
+  const n = a.length
+  const m = b.length
+
+  if (n === 0 || m === 0) return { additions: m, deletions: n }
+
+  const max = n + m
+  const limit = Math.min(max, 4000)
+  const v = new Int32Array(2 * limit + 2)
+  const offset = limit + 1
+
+  for (let d = 0; d <= limit; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        return { additions: (d + m - n) / 2, deletions: (d - m + n) / 2 }
+      }
+    }
+  }
+
+  // Pathologically different files: fall back to counting lines that do not appear on the other side
+  const counts = new Map<string, number>()
+  a.forEach(line => counts.set(line, (counts.get(line) || 0) + 1))
+  let common = 0
+  b.forEach(line => {
+    const count = counts.get(line) || 0
+    if (count > 0) {
+      counts.set(line, count - 1)
+      common++
+    }
+  })
+  return { additions: m - common, deletions: n - common }
+}
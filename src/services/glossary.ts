@@ -0,0 +1,156 @@
+// Jargon glossary for general audiences
+// The terms a deck about this repository is likely to use: its language, frameworks and tooling, explained in plain words
+
+import { GlossaryEntry, RepositoryData } from '../types'
+import { FrameworkCategory, detectFrameworks } from './frameworkDetection'
+
+type Localized = Record<'ja' | 'en' | 'zh', string>
+
+interface GlossaryConcept {
+  term: Localized
+  definition: Localized
+  applies: (repository: RepositoryData) => boolean
+}
+
+const LANGUAGE_DEFINITION: Localized = {
+  ja: 'このプロジェクトのプログラムの大部分を書くのに使われている言語',
+  en: 'the programming language most of this project is written in',
+  zh: '本项目大部分程序所使用的编程语言'
+}
+
+// Frameworks are explained by what their kind of framework does
+const CATEGORY_DEFINITIONS: Record<FrameworkCategory, Localized> = {
+  frontend: {
+    ja: 'ユーザーが見て操作する画面を作るための部品集',
+    en: 'a toolkit for building the screens people see and click',
+    zh: '用来构建用户看到和操作的界面的工具包'
+  },
+  backend: {
+    ja: '画面の裏側でデータを受け取り、処理して返すサーバーを作るための部品集',
+    en: 'a toolkit for the server: the part behind the screens that receives, processes and returns data',
+    zh: '用来构建服务器的工具包，服务器在界面背后接收、处理并返回数据'
+  },
+  database: {
+    ja: 'データを整理して保管しておく倉庫',
+    en: 'an organized warehouse where the data is kept',
+    zh: '整理并保存数据的仓库'
+  },
+  testing: {
+    ja: 'プログラムが正しく動くかを自動で確かめる道具',
+    en: 'a tool that checks automatically that the program still works',
+    zh: '自动检查程序是否正常工作的工具'
+  },
+  buildTools: {
+    ja: '書いたプログラムを配布できる形にまとめる道具',
+    en: 'a tool that packages the code so it can be shipped',
+    zh: '把代码打包成可以发布的形式的工具'
+  }
+}
+
+// In roughly the order a deck brings them up
+const CONCEPTS: GlossaryConcept[] = [
+  {
+    term: { ja: 'リポジトリ', en: 'Repository', zh: '仓库' },
+    definition: {
+      ja: 'プロジェクトのファイルと、これまでの変更の記録をまとめて保管している場所',
+      en: "the place where a project's files and the full history of its changes are kept",
+      zh: '保存项目文件及其全部修改记录的地方'
+    },
+    applies: () => true
+  },
+  {
+    term: { ja: 'コミット', en: 'Commit', zh: '提交' },
+    definition: {
+      ja: '変更をひとまとまりにして記録したもの。ゲームのセーブポイントのようなもの',
+      en: 'one recorded set of changes, like a save point in a game',
+      zh: '一次记录下来的修改，就像游戏里的存档点'
+    },
+    applies: repository => repository.commits.length > 0
+  },
+  {
+    term: { ja: '依存関係', en: 'Dependency', zh: '依赖' },
+    definition: {
+      ja: '自分たちで作らずに取り入れている、既製のプログラム部品',
+      en: 'a ready-made piece of software the project uses instead of building it',
+      zh: '项目直接使用而不是自己编写的现成软件组件'
+    },
+    applies: repository => repository.dependencies.length > 0
+  },
+  {
+    term: { ja: 'API', en: 'API', zh: 'API' },
+    definition: {
+      ja: 'ほかのプログラムがこのプログラムを利用するための窓口。レストランのメニューのように、頼めることが決まっている',
+      en: 'how other programs use this one; like a restaurant menu, it lists what you can ask for',
+      zh: '其他程序使用本程序的窗口；就像餐厅的菜单，列出了可以点的内容'
+    },
+    applies: repository => !!repository.apiSurface
+  },
+  {
+    term: { ja: '自動テスト', en: 'Automated test', zh: '自动化测试' },
+    definition: {
+      ja: 'プログラムが期待どおりに動くかを自動で確かめる小さなプログラム',
+      en: 'a small program that checks automatically that the code still does what it should',
+      zh: '自动检查代码是否仍按预期工作的小程序'
+    },
+    applies: repository => !!repository.testing && repository.testing.testFiles > 0
+  },
+  {
+    term: { ja: 'CI/CD', en: 'CI/CD', zh: 'CI/CD' },
+    definition: {
+      ja: '変更のたびにテストと公開を自動で行う仕組み。工場の検品ラインのようなもの',
+      en: 'an automated line that tests and ships every change, like quality control in a factory',
+      zh: '每次修改都会自动测试和发布的机制，就像工厂里的质检流水线'
+    },
+    applies: repository => !!repository.deliveryAnalysis && repository.deliveryAnalysis.pipelines.length > 0
+  },
+  {
+    term: { ja: 'コンテナ', en: 'Container', zh: '容器' },
+    definition: {
+      ja: 'アプリと動かすのに必要なもの一式を詰めた箱。どこに運んでも同じように動く',
+      en: 'a sealed box holding an app and everything it needs, so it runs the same anywhere',
+      zh: '装有应用及其运行所需一切的箱子，放到哪里都能同样运行'
+    },
+    applies: repository => !!repository.deliveryAnalysis && repository.deliveryAnalysis.containerImages.length > 0
+  },
+  {
+    term: { ja: 'モノレポ', en: 'Monorepo', zh: 'Monorepo' },
+    definition: {
+      ja: '関連する複数のパッケージを一つのリポジトリでまとめて管理するやり方',
+      en: 'a single repository holding several related packages',
+      zh: '在一个仓库中统一管理多个相关包的方式'
+    },
+    applies: repository => !!repository.workspace
+  },
+  {
+    term: { ja: 'フォーク', en: 'Fork', zh: 'Fork' },
+    definition: {
+      ja: 'ほかの人がプロジェクトを複製して、独自に手を加えられるようにしたもの',
+      en: 'a copy of the project someone made so they can build on it',
+      zh: '他人复制项目以便在其基础上自行修改的副本'
+    },
+    applies: repository => repository.forks > 0
+  }
+]
+
+// The project's own stack first, then the general concepts
+export function buildGlossary(repository: RepositoryData, language: 'ja' | 'en' | 'zh', limit = 8): GlossaryEntry[] {
+  const entries: GlossaryEntry[] = [
+    ...(repository.language ? [{ term: repository.language, definition: LANGUAGE_DEFINITION[language] }] : []),
+    ...detectFrameworks(repository.dependencies)
+      .slice(0, 3)
+      .map(framework => ({ term: framework.name, definition: CATEGORY_DEFINITIONS[framework.category][language] })),
+    ...CONCEPTS
+      .filter(concept => concept.applies(repository))
+      .map(concept => ({ term: concept.term[language], definition: concept.definition[language] }))
+  ]
+
+  const seen = new Set<string>()
+  return entries
+    .filter(entry => {
+      const key = entry.term.toLowerCase()
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .slice(0, limit)
+}
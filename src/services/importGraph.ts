@@ -0,0 +1,144 @@
+// Module import graph
+// Resolves imports between repository files from their contents (JavaScript/TypeScript and Python)
+
+import { FileData } from '../types'
+import { getExtension } from './fileClassification'
+
+// path -> paths of repository files it imports
+export type ImportGraph = Map<string, Set<string>>
+
+// Files grouped by directory, with the imports between groups counted
+export interface ClusteredImportGraph {
+  clusters: { directory: string; files: string[] }[]
+  edges: { from: string; to: string; count: number }[]
+}
+
+const SCRIPT_EXTENSIONS = ['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'mts', 'cts', 'vue', 'svelte']
+const RESOLVE_SUFFIXES = [
+  '', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte',
+  '/index.ts', '/index.tsx', '/index.js', '/index.jsx'
+]
+
+const SCRIPT_IMPORT = /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|import\s*\(?\s*['"]([^'"]+)['"]|require\(\s*['"]([^'"]+)['"]\s*\)/g
+const PYTHON_IMPORT = /^[ \t]*(?:from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[\w*, \t]+)|import[ \t]+([\w.]+(?:[ \t]*,[ \t]*[\w.]+)*))/gm
+
+export function buildImportGraph(files: FileData[]): ImportGraph {
+  const paths = new Set(files.map(file => file.path))
+  const graph: ImportGraph = new Map()
+
+  files.forEach(file => {
+    if (!file.content) return
+    const extension = getExtension(file.path)
+    const imports = SCRIPT_EXTENSIONS.includes(extension)
+      ? resolveScriptImports(file.path, file.content, paths)
+      : extension === 'py'
+        ? resolvePythonImports(file.path, file.content, paths)
+        : []
+    graph.set(file.path, new Set(imports.filter(target => target !== file.path)))
+  })
+
+  return graph
+}
+
+// How many files import each file
+export function countImporters(graph: ImportGraph): Map<string, number> {
+  const counts = new Map<string, number>()
+  graph.forEach(targets => targets.forEach(target => counts.set(target, (counts.get(target) || 0) + 1)))
+  return counts
+}
+
+// `depth` leading directory segments form a cluster (`src/services/providers/github.ts` -> `src/services`)
+export function clusterImportGraph(graph: ImportGraph, depth = 2): ClusteredImportGraph {
+  const clusterOf = (path: string) => path.split('/').slice(0, -1).slice(0, depth).join('/') || '.'
+  const clusters = new Map<string, Set<string>>()
+  const edges = new Map<string, { from: string; to: string; count: number }>()
+
+  graph.forEach((targets, source) => {
+    targets.forEach(target => {
+      const from = clusterOf(source)
+      const to = clusterOf(target)
+      clusters.set(from, (clusters.get(from) || new Set()).add(source))
+      clusters.set(to, (clusters.get(to) || new Set()).add(target))
+      if (from === to) return
+      const key = `${from}\n${to}`
+      const edge = edges.get(key) || { from, to, count: 0 }
+      edge.count++
+      edges.set(key, edge)
+    })
+  })
+
+  return {
+    clusters: Array.from(clusters.entries())
+      .map(([directory, files]) => ({ directory, files: Array.from(files).sort() }))
+      .sort((a, b) => a.directory.localeCompare(b.directory)),
+    edges: Array.from(edges.values()).sort((a, b) => b.count - a.count)
+  }
+}
+
+function resolveScriptImports(path: string, content: string, paths: Set<string>): string[] {
+  const directory = path.split('/').slice(0, -1)
+  const resolved: string[] = []
+
+  for (const match of content.matchAll(SCRIPT_IMPORT)) {
+    const specifier = match[1] || match[2] || match[3]
+    // Bare specifiers are packages; only relative imports point into the repository
+    if (!specifier || !specifier.startsWith('.')) continue
+
+    const base = normalizePath([...directory, ...specifier.split('/')])
+    // TypeScript sources are imported with the `.js` extension they compile to under NodeNext
+    const withoutExtension = base.replace(/\.(js|jsx|mjs|cjs)$/, '')
+    const target = [base, withoutExtension]
+      .flatMap(candidate => RESOLVE_SUFFIXES.map(suffix => `${candidate}${suffix}`))
+      .find(candidate => paths.has(candidate))
+    if (target) resolved.push(target)
+  }
+
+  return resolved
+}
+
+function resolvePythonImports(path: string, content: string, paths: Set<string>): string[] {
+  const packageDirectory = path.split('/').slice(0, -1)
+  const resolved: string[] = []
+
+  const resolveModule = (module: string) => {
+    const relative = module.match(/^(\.+)(.*)$/)
+    const segments = relative
+      ? [...packageDirectory.slice(0, packageDirectory.length - (relative[1].length - 1)), ...relative[2].split('.').filter(Boolean)]
+      : module.split('.')
+    const modulePath = segments.join('/')
+    if (!modulePath) return null
+
+    const candidates = [`${modulePath}.py`, `${modulePath}/__init__.py`]
+    // Absolute imports are relative to a source root (`src/`, the repository root, ...), so match by suffix
+    return candidates.find(candidate => paths.has(candidate))
+      || (!relative && Array.from(paths).find(known => candidates.some(candidate => known.endsWith(`/${candidate}`))))
+      || null
+  }
+
+  for (const match of content.matchAll(PYTHON_IMPORT)) {
+    if (match[1] === undefined) {
+      match[3].split(',').map(module => resolveModule(module.trim())).forEach(target => target && resolved.push(target))
+      continue
+    }
+
+    // `from pkg import name` may name submodules rather than attributes; fall back to the package itself
+    const submodules = match[2].replace(/[()]/g, '').split(',')
+      .map(name => name.trim())
+      .filter(name => name && name !== '*')
+      .map(name => resolveModule(match[1].endsWith('.') ? `${match[1]}${name}` : `${match[1]}.${name}`))
+      .filter((target): target is string => !!target)
+    const target = submodules.length > 0 ? null : resolveModule(match[1])
+    resolved.push(...submodules, ...(target ? [target] : []))
+  }
+
+  return Array.from(new Set(resolved))
+}
+
+function normalizePath(segments: string[]): string {
+  const normalized: string[] = []
+  segments.forEach(segment => {
+    if (segment === '..') normalized.pop()
+    else if (segment && segment !== '.') normalized.push(segment)
+  })
+  return normalized.join('/')
+}
@@ -0,0 +1,56 @@
+// Incident review helpers
+// Reconstructs an incident from the fix history: when the fixes landed, what they touched and which code they kept coming back to
+
+import { CodeHotspot, CommitData, CommitFileChange, RepositoryData } from '../types'
+import { categorizeCommit, mergeCommitFiles, summarizeChangedAreas } from './releaseAnalysis'
+import { weeklyCommits } from './contributorAnalysis'
+
+export interface IncidentSummary {
+  // Oldest first
+  commits: CommitData[]
+  start?: string
+  end?: string
+  // Calendar days from the first fix to the last, inclusive
+  days: number
+  reverts: number
+  files: CommitFileChange[]
+  areas: { area: string; files: number; lines: number }[]
+  // Complexity hotspots the fixes had to touch
+  hotspots: CodeHotspot[]
+  weeklyFixes: { week: string; commits: number }[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const REVERT = /^revert\b|^roll ?back\b|^切り戻し/i
+const INCIDENT = /\b(hotfix|incident|outage|regression|crash|rollback)\b|障害|緊急/i
+
+export function isIncidentCommit(message: string): boolean {
+  const subject = message.split('\n')[0].trim()
+  return categorizeCommit(message) === 'fix' || REVERT.test(subject) || INCIDENT.test(subject)
+}
+
+export function analyzeIncident(repository: RepositoryData): IncidentSummary {
+  const commits = repository.commits
+    .filter(commit => !Number.isNaN(new Date(commit.date).getTime()) && isIncidentCommit(commit.message))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+  const files = mergeCommitFiles(commits)
+  const touched = new Set(files.map(file => file.path))
+
+  const start = commits[0]?.date
+  const end = commits[commits.length - 1]?.date
+  const days = start && end
+    ? Math.floor((new Date(end).getTime() - new Date(start).getTime()) / DAY_MS) + 1
+    : 0
+
+  return {
+    commits,
+    start,
+    end,
+    days,
+    reverts: commits.filter(commit => REVERT.test(commit.message.trim())).length,
+    files,
+    areas: summarizeChangedAreas(files, files.length),
+    hotspots: (repository.codeMetrics?.hotspots || []).filter(hotspot => touched.has(hotspot.path)),
+    weeklyFixes: weeklyCommits(commits)
+  }
+}
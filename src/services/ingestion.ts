@@ -0,0 +1,73 @@
+// Repository ingestion pipeline
+// Every way of reading a repository is a stage; stages are tried in order until one succeeds
+
+import { AnalysisStepEvent, RepositoryData } from '../types'
+import { RepositoryProvider } from './providers/repositoryProvider'
+import { canScrapeRepository, scrapeGitHubRepository } from './providers/githubScraper'
+
+export interface IngestionStage {
+  name: string
+  run(): Promise<RepositoryData>
+}
+
+export interface IngestionFailure {
+  stage: string
+  error: unknown
+}
+
+export interface RemoteIngestionRequest {
+  from?: string
+  to?: string
+  packagePath?: string
+  onProgress?: (event: AnalysisStepEvent) => void
+  // Browsers can't read github.com pages cross-origin, so only servers scrape
+  scrape?: boolean
+}
+
+export class IngestionError extends Error {
+  constructor(message: string, readonly failures: IngestionFailure[]) {
+    super(message)
+    this.name = 'IngestionError'
+  }
+}
+
+export async function runIngestionChain(
+  stages: IngestionStage[],
+  onProgress?: (event: AnalysisStepEvent) => void
+): Promise<RepositoryData> {
+  const failures: IngestionFailure[] = []
+  for (const stage of stages) {
+    onProgress?.({ step: 'ingestion', status: 'started', detail: stage.name })
+    try {
+      const repository = await stage.run()
+      onProgress?.({ step: 'ingestion', status: 'completed', detail: stage.name })
+      return repository
+    } catch (error) {
+      console.warn(`Ingestion stage "${stage.name}" failed:`, error)
+      failures.push({ stage: stage.name, error })
+      onProgress?.({ step: 'ingestion', status: 'failed', detail: stage.name, error: describeError(error) })
+    }
+  }
+  const reasons = failures.map(failure => `${failure.stage}: ${describeError(failure.error)}`)
+  throw new IngestionError(`Repository ingestion failed (${reasons.join('; ')})`, failures)
+}
+
+// Host API first; github.com pages can still be scraped for the default branch of the whole repository
+export function ingestRemoteRepository(provider: RepositoryProvider, request: RemoteIngestionRequest = {}): Promise<RepositoryData> {
+  const { from, to, packagePath, onProgress, scrape = true } = request
+  const stages: IngestionStage[] = [{
+    name: `${provider.kind} API`,
+    // `from` turns the request into a release range; `to` alone picks a branch, tag or commit
+    run: () => from
+      ? provider.analyzeRange(from, to || 'HEAD', packagePath)
+      : provider.analyzeRepository(to, packagePath)
+  }]
+  if (scrape && canScrapeRepository(provider) && !from && !to && !packagePath) {
+    stages.push({ name: 'GitHub page', run: () => scrapeGitHubRepository(provider) })
+  }
+  return runIngestionChain(stages, onProgress)
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,555 @@
+// Local Repository Ingestion
+// Builds RepositoryData from a dropped/picked directory (File System Access API) or a .zip archive,
+// entirely in the browser, so private code without a public remote can be presented.
+
+import { RepositoryData, FileData, CommitData, Milestone } from '../types'
+import { readZipArchive } from './zipArchive'
+import { getFileType, detectLanguage, isTextFile, calculateFileImportance } from './fileClassification'
+import { GitRepositoryReader, GitFileSource } from './gitReader'
+import { findManifestPaths, parseManifests } from './manifestParser'
+import { RefSpec, diffDependencies } from './releaseAnalysis'
+import { detectWorkspace, findPackageReadme, mergeWorkspaceDependencies, scopeToPackage } from './workspace'
+import { extractApiSurface } from './apiSurface'
+import { analyzeTests } from './testAnalysis'
+import { analyzeDelivery } from './deliveryAnalysis'
+import { analyzeContributors } from './contributorAnalysis'
+import { analyzeCodeMetrics } from './codeMetrics'
+import { buildReleaseHistory, findChangelogPath, milestoneFromRelease } from './changelog'
+import { collectScreenshots, imageMimeType } from './screenshots'
+import { fillProvenance, recordProvenance } from './provenance'
+
+export type LocalRepositorySource =
+  | { kind: 'directory'; handle: FileSystemDirectoryHandle }
+  | { kind: 'zip'; file: File }
+  | { kind: 'bundle'; file: File }
+
+export interface LocalFileEntry {
+  path: string
+  size: number
+  lastModified: number
+  read(): Promise<Uint8Array>
+}
+
+// `values()` and `showDirectoryPicker` are not part of the DOM lib shipped with TypeScript yet
+interface IterableDirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>
+}
+
+interface DirectoryPickerWindow extends Window {
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>
+}
+
+interface HandleDataTransferItem extends DataTransferItem {
+  getAsFileSystemHandle?: () => Promise<FileSystemHandle | null>
+}
+
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules', '.git', 'dist', 'build', 'out', '.next', '.nuxt', 'coverage', 'vendor',
+  'target', '__pycache__', '.venv', 'venv', '.idea', '.vscode', '.cache', '.turbo', '.netlify'
+])
+const MAX_FILES = 5000
+const MAX_FILE_CONTENT_BYTES = 256 * 1024
+const MAX_TOTAL_CONTENT_BYTES = 16 * 1024 * 1024
+const MAX_HISTORY_COMMITS = 200
+// Each tag costs a commit read for its date
+const MAX_TAGS = 200
+
+export class LocalRepositoryService {
+  isDirectoryPickerSupported(): boolean {
+    return typeof window !== 'undefined' && typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function'
+  }
+
+  async pickDirectory(): Promise<FileSystemDirectoryHandle> {
+    const picker = (window as DirectoryPickerWindow).showDirectoryPicker
+    if (!picker) {
+      throw new Error('このブラウザはフォルダ選択 (File System Access API) に対応していません。ZIPファイルを使用してください。')
+    }
+    return picker({ mode: 'read' })
+  }
+
+  // Must be called synchronously from the drop handler: DataTransfer items expire after the event
+  resolveDroppedItems(dataTransfer: DataTransfer): Promise<LocalRepositorySource | null> {
+    const item = Array.from(dataTransfer.items).find(entry => entry.kind === 'file') as HandleDataTransferItem | undefined
+    if (!item) return Promise.resolve(null)
+
+    const file = item.getAsFile()
+    const handlePromise = item.getAsFileSystemHandle?.() ?? Promise.resolve(null)
+
+    return handlePromise.then(handle => {
+      if (handle && handle.kind === 'directory') {
+        return { kind: 'directory', handle: handle as FileSystemDirectoryHandle }
+      }
+      if (file && this.isZipFile(file)) {
+        return { kind: 'zip', file }
+      }
+      if (file && this.isBundleFile(file)) {
+        return { kind: 'bundle', file }
+      }
+      return null
+    })
+  }
+
+  isZipFile(file: File): boolean {
+    return file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip' || file.type === 'application/x-zip-compressed'
+  }
+
+  isBundleFile(file: File): boolean {
+    return /\.(bundle|bdl)$/i.test(file.name)
+  }
+
+  // `refSpec` selects a branch, tag or `from..to` range and requires git history in the source;
+  // `packagePath` limits the analysis to one workspace package directory
+  async analyze(
+    source: LocalRepositorySource,
+    refSpec: RefSpec | null = null,
+    packagePath: string | null = null
+  ): Promise<RepositoryData> {
+    switch (source.kind) {
+      case 'directory':
+        return this.analyzeDirectory(source.handle, refSpec, packagePath)
+      case 'zip':
+        return this.analyzeZip(source.file, refSpec, packagePath)
+      case 'bundle':
+        return this.analyzeBundle(source.file, refSpec, packagePath)
+    }
+  }
+
+  async analyzeDirectory(
+    handle: FileSystemDirectoryHandle,
+    refSpec: RefSpec | null = null,
+    packagePath: string | null = null
+  ): Promise<RepositoryData> {
+    console.log('Analyzing local directory:', handle.name)
+
+    // A bare repository (or a dropped .git folder) has no working tree, so files come from HEAD
+    if (await this.isGitDirectory(handle)) {
+      const name = handle.name === '.git' ? 'repository' : handle.name.replace(/\.git$/, '')
+      return this.analyzeGitRepository(name, new GitRepositoryReader(this.createDirectoryGitSource(handle)), refSpec, packagePath)
+    }
+
+    const gitHandle = await handle.getDirectoryHandle('.git').catch(() => null)
+    const git = gitHandle ? new GitRepositoryReader(this.createDirectoryGitSource(gitHandle)) : null
+
+    // A specific ref is read from git objects instead of the (possibly different) working tree
+    if (refSpec) {
+      return this.analyzeGitRepository(handle.name, this.requireGit(git), refSpec, packagePath)
+    }
+
+    const entries: LocalFileEntry[] = []
+    await this.collectDirectoryEntries(handle, '', entries)
+
+    return git
+      ? this.buildRepositoryData(handle.name, entries, await this.readCommitHistory(git), packagePath, await this.readTagMilestones(git))
+      : this.buildRepositoryData(handle.name, entries, [], packagePath)
+  }
+
+  async analyzeBundle(file: File, refSpec: RefSpec | null = null, packagePath: string | null = null): Promise<RepositoryData> {
+    console.log('Analyzing git bundle:', file.name)
+
+    const reader = GitRepositoryReader.fromBundle(new Uint8Array(await file.arrayBuffer()))
+    return this.analyzeGitRepository(file.name.replace(/\.(bundle|bdl)$/i, ''), reader, refSpec, packagePath)
+  }
+
+  async analyzeGitRepository(
+    name: string,
+    reader: GitRepositoryReader,
+    refSpec: RefSpec | null = null,
+    packagePath: string | null = null
+  ): Promise<RepositoryData> {
+    const target = refSpec?.to || 'HEAD'
+    const head = await reader.resolveCommit(target)
+    const commit = head ? await reader.readCommit(head) : null
+    if (!commit) {
+      throw new Error(`Gitのrefが見つかりません: ${target}`)
+    }
+
+    const treeFiles = (await reader.listTreeFiles(commit.tree))
+      .filter(file => !this.isIgnoredPath(file.path))
+      .slice(0, MAX_FILES)
+
+    const entries: LocalFileEntry[] = []
+    for (const file of treeFiles) {
+      const blob = await reader.readBlob(file.sha)
+      if (!blob) continue
+      entries.push({
+        path: file.path,
+        size: blob.length,
+        lastModified: commit.committer.timestamp * 1000,
+        read: async () => blob
+      })
+    }
+
+    if (!refSpec?.from) {
+      const repository = await this.buildRepositoryData(
+        name, entries, await this.readCommitHistory(reader, target), packagePath, await this.readTagMilestones(reader)
+      )
+      return refSpec ? { ...repository, ref: refSpec.to } : repository
+    }
+
+    const range = await reader.readRange(refSpec.from, target, MAX_HISTORY_COMMITS)
+    const repository = await this.buildRepositoryData(name, entries, range.commits, null, await this.readTagMilestones(reader))
+    // Compare like with like: the root (or package) manifests only, not the merged workspace dependencies
+    const manifestPaths = findManifestPaths(treeFiles.map(file => file.path), packagePath || '')
+    const previousManifests = await this.readManifestsAt(reader, range.fromSha!, manifestPaths)
+    const currentManifests = await this.readManifestsAt(reader, range.toSha, manifestPaths)
+
+    const ranged: RepositoryData = {
+      ...repository,
+      ref: refSpec.to,
+      release: {
+        from: refSpec.from,
+        to: refSpec.to,
+        filesChanged: range.files,
+        dependencyChanges: diffDependencies(parseManifests(previousManifests), parseManifests(currentManifests))
+      }
+    }
+    recordProvenance(ranged, ['release'], 'api')
+    return packagePath ? this.scopeToPackage(ranged, packagePath, new Map(entries.map(entry => [entry.path, entry]))) : ranged
+  }
+
+  async analyzeZip(file: File, refSpec: RefSpec | null = null, packagePath: string | null = null): Promise<RepositoryData> {
+    console.log('Analyzing ZIP archive:', file.name)
+
+    const archive = readZipArchive(await file.arrayBuffer())
+    const fileEntries = archive.filter(entry => !entry.isDirectory)
+    const root = this.findCommonRoot(fileEntries.map(entry => entry.path))
+
+    // Archives of a checkout may include the .git directory, which gives us real history
+    const gitEntries = new Map<string, () => Uint8Array>()
+    fileEntries
+      .filter(entry => entry.path.startsWith(`${root}.git/`))
+      .forEach(entry => gitEntries.set(entry.path.slice(root.length + 5), entry.read))
+    const git = gitEntries.size > 0 ? new GitRepositoryReader(this.createArchiveGitSource(gitEntries)) : null
+    const name = root ? root.replace(/\/$/, '') : file.name.replace(/\.zip$/i, '')
+
+    if (refSpec) {
+      return this.analyzeGitRepository(name, this.requireGit(git), refSpec, packagePath)
+    }
+
+    const entries: LocalFileEntry[] = fileEntries
+      .map(entry => ({
+        path: entry.path.slice(root.length),
+        size: entry.size,
+        lastModified: entry.lastModified,
+        read: async () => entry.read()
+      }))
+      .filter(entry => !this.isIgnoredPath(entry.path))
+      .slice(0, MAX_FILES)
+
+    return git
+      ? this.buildRepositoryData(name, entries, await this.readCommitHistory(git), packagePath, await this.readTagMilestones(git))
+      : this.buildRepositoryData(name, entries, [], packagePath)
+  }
+
+  async buildRepositoryData(
+    name: string,
+    entries: LocalFileEntry[],
+    commits: CommitData[] = [],
+    packagePath: string | null = null,
+    tags: Milestone[] = []
+  ): Promise<RepositoryData> {
+    const decoder = new TextDecoder('utf-8')
+    const contents = new Map<string, string>()
+    const languages: Record<string, number> = {}
+    let totalContentBytes = 0
+
+    const sortedEntries = [...entries].sort((a, b) => a.path.localeCompare(b.path))
+
+    for (const entry of sortedEntries) {
+      const language = detectLanguage(entry.path)
+      if (language) {
+        languages[language] = (languages[language] || 0) + entry.size
+      }
+
+      if (!isTextFile(entry.path) || entry.size > MAX_FILE_CONTENT_BYTES) continue
+      if (totalContentBytes + entry.size > MAX_TOTAL_CONTENT_BYTES) continue
+
+      try {
+        const data = await entry.read()
+        if (this.looksBinary(data)) continue
+        contents.set(entry.path, decoder.decode(data))
+        totalContentBytes += entry.size
+      } catch (error) {
+        console.warn(`Failed to read ${entry.path}:`, error)
+      }
+    }
+
+    const files: FileData[] = sortedEntries.map(entry => ({
+      path: entry.path,
+      type: getFileType(entry.path),
+      size: entry.size,
+      content: contents.get(entry.path),
+      importance: calculateFileImportance(entry.path)
+    }))
+
+    const readmePath = files
+      .map(file => file.path)
+      .filter(path => /^readme(\.[a-z]+)?$/i.test(path))
+      .sort((a, b) => Number(b.toLowerCase().endsWith('.md')) - Number(a.toLowerCase().endsWith('.md')))[0]
+
+    // Commit dates are more reliable than file timestamps, which reflect checkout/extraction time
+    const timestamps = commits.length > 0
+      ? commits.map(commit => new Date(commit.date).getTime())
+      : entries.map(entry => entry.lastModified).filter(time => time > 0)
+    const createdAt = timestamps.length > 0 ? new Date(Math.min(...timestamps)) : new Date()
+    const updatedAt = timestamps.length > 0 ? new Date(Math.max(...timestamps)) : new Date()
+
+    const primaryLanguage = Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0] || 'Unknown'
+
+    // Manifests outside the content budget are still read on demand
+    const entriesByPath = new Map(entries.map(entry => [entry.path, entry]))
+    const readFile = async (path: string) => {
+      const entry = entriesByPath.get(path)
+      return contents.get(path) ?? (entry ? decoder.decode(await entry.read()) : null)
+    }
+    const workspace = await detectWorkspace(files.map(file => file.path), readFile)
+    const apiSurface = await extractApiSurface(files.map(file => file.path), readFile, packagePath || '').catch(error => {
+      console.warn('Failed to extract the API surface:', error)
+      return null
+    })
+    const deliveryAnalysis = await analyzeDelivery(files.map(file => file.path), readFile).catch(error => {
+      console.warn('Failed to analyze the CI/CD configuration:', error)
+      return null
+    })
+    const changelogPath = findChangelogPath(files.map(file => file.path), packagePath || undefined)
+    const changelog = changelogPath ? await readFile(changelogPath) : null
+    const readme = readmePath ? contents.get(readmePath) || '' : ''
+    const screenshots = await collectScreenshots(readme, readmePath || 'README.md', files.map(file => file.path), this.createImageResolver(entriesByPath))
+      .catch(error => {
+        console.warn('Failed to collect screenshots:', error)
+        return []
+      })
+
+    const rootManifests = new Map(
+      findManifestPaths(files.map(file => file.path))
+        .filter(path => contents.has(path))
+        .map(path => [path, contents.get(path)!])
+    )
+
+    const dependencies = mergeWorkspaceDependencies(parseManifests(rootManifests), workspace)
+
+    const repository: RepositoryData = {
+      url: `local://${name}`,
+      name,
+      description: '',
+      language: primaryLanguage,
+      languages,
+      dependencies,
+      commits,
+      files,
+      readme,
+      screenshots,
+      createdAt: createdAt.toISOString(),
+      updatedAt: updatedAt.toISOString(),
+      stars: 0,
+      forks: 0,
+      workspace: workspace || undefined,
+      apiSurface: apiSurface || undefined,
+      testing: analyzeTests(files, dependencies),
+      deliveryAnalysis: deliveryAnalysis || undefined,
+      contributors: analyzeContributors(commits) || undefined,
+      codeMetrics: analyzeCodeMetrics(files, commits) || undefined,
+      releaseHistory: buildReleaseHistory(changelog, tags) || undefined
+    }
+
+    // Stars and forks only exist on a hosting service
+    recordProvenance(repository, ['stars', 'forks'], 'fallback', 'low', 'ローカルリポジトリ')
+    if (commits.length === 0) {
+      recordProvenance(repository, ['createdAt', 'updatedAt'], 'inferred', 'low', 'ファイルの更新日時から推定')
+    }
+    fillProvenance(repository, 'api')
+
+    return packagePath ? this.scopeToPackage(repository, packagePath, entriesByPath) : repository
+  }
+
+  private async scopeToPackage(
+    repository: RepositoryData,
+    packagePath: string,
+    entriesByPath: Map<string, LocalFileEntry>
+  ): Promise<RepositoryData> {
+    const readmePath = findPackageReadme(repository.files.map(file => file.path), packagePath)
+    const readme = readmePath ? repository.files.find(file => file.path === readmePath)?.content || null : null
+    const scoped = scopeToPackage(repository, packagePath, readme)
+    // Package READMEs reference images relative to the package directory
+    if (readmePath && readme) {
+      scoped.screenshots = await collectScreenshots(readme, readmePath, repository.files.map(file => file.path), this.createImageResolver(entriesByPath))
+        .catch(() => repository.screenshots)
+    }
+    return scoped
+  }
+
+  // Archive and directory entries have no URL of their own, so images are handed to the browser as object URLs
+  private createImageResolver(entriesByPath: Map<string, LocalFileEntry>): (path: string) => Promise<string | null> {
+    return async path => {
+      const entry = entriesByPath.get(path)
+      if (!entry) return null
+      // Copied so the Blob gets a plain ArrayBuffer rather than a view into the archive
+      const data = new Uint8Array(await entry.read())
+      return URL.createObjectURL(new Blob([data], { type: imageMimeType(path) }))
+    }
+  }
+
+  private async readCommitHistory(git: GitRepositoryReader, ref: string = 'HEAD'): Promise<CommitData[]> {
+    try {
+      return await git.readHistory({ ref, limit: MAX_HISTORY_COMMITS })
+    } catch (error) {
+      console.warn('Failed to read git history:', error)
+      return []
+    }
+  }
+
+  // Tags stand in for releases; annotated tag messages serve as release notes
+  private async readTagMilestones(git: GitRepositoryReader): Promise<Milestone[]> {
+    try {
+      const tags = (await git.listRefs()).filter(ref => ref.name.startsWith('refs/tags/')).slice(0, MAX_TAGS)
+      const milestones: { milestone: Milestone; timestamp: number }[] = []
+      for (const tag of tags) {
+        const object = await git.readObject(tag.sha)
+        const commitSha = await git.resolveCommit(tag.sha)
+        const commit = commitSha ? await git.readCommit(commitSha) : null
+        if (!commit) continue
+        const message = object?.type === 'tag'
+          ? new TextDecoder('utf-8').decode(object.data).split('\n\n').slice(1).join('\n\n').split('-----BEGIN PGP SIGNATURE-----')[0]
+          : ''
+        milestones.push({
+          milestone: milestoneFromRelease({
+            tag: tag.name.slice('refs/tags/'.length),
+            body: message,
+            date: new Date(commit.committer.timestamp * 1000).toISOString()
+          }, 'tag'),
+          timestamp: commit.committer.timestamp
+        })
+      }
+      return milestones.sort((a, b) => b.timestamp - a.timestamp).map(entry => entry.milestone)
+    } catch (error) {
+      console.warn('Failed to read git tags:', error)
+      return []
+    }
+  }
+
+  private requireGit(git: GitRepositoryReader | null): GitRepositoryReader {
+    if (!git) {
+      throw new Error('ブランチ・タグ・範囲を指定するには、.git を含むフォルダ・ZIP、またはGitバンドルが必要です')
+    }
+    return git
+  }
+
+  // Keyed by file name, as parseManifests expects
+  private async readManifestsAt(git: GitRepositoryReader, commitSha: string, paths: string[]): Promise<Map<string, string>> {
+    const decoder = new TextDecoder('utf-8')
+    const contents = new Map<string, string>()
+    for (const path of paths) {
+      const data = await git.readFileAt(commitSha, path)
+      if (data) contents.set(path.split('/').pop()!, decoder.decode(data))
+    }
+    return contents
+  }
+
+  private async isGitDirectory(handle: FileSystemDirectoryHandle): Promise<boolean> {
+    try {
+      await handle.getFileHandle('HEAD')
+      await handle.getDirectoryHandle('objects')
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private createDirectoryGitSource(root: FileSystemDirectoryHandle): GitFileSource {
+    const resolveDirectory = async (segments: string[]): Promise<FileSystemDirectoryHandle> => {
+      let directory = root
+      for (const segment of segments) {
+        directory = await directory.getDirectoryHandle(segment)
+      }
+      return directory
+    }
+
+    const listRecursive = async (directory: FileSystemDirectoryHandle, prefix: string, paths: string[]) => {
+      for await (const child of (directory as IterableDirectoryHandle).values()) {
+        if (child.kind === 'directory') {
+          await listRecursive(child, `${prefix}${child.name}/`, paths)
+        } else {
+          paths.push(`${prefix}${child.name}`)
+        }
+      }
+    }
+
+    return {
+      readFile: async (path) => {
+        const segments = path.split('/')
+        try {
+          const directory = await resolveDirectory(segments.slice(0, -1))
+          const file = await (await directory.getFileHandle(segments[segments.length - 1])).getFile()
+          return new Uint8Array(await file.arrayBuffer())
+        } catch {
+          return null
+        }
+      },
+      listFiles: async (directory) => {
+        const paths: string[] = []
+        try {
+          await listRecursive(await resolveDirectory(directory.split('/')), '', paths)
+        } catch {
+          // Missing directories simply have no files
+        }
+        return paths
+      }
+    }
+  }
+
+  private createArchiveGitSource(entries: Map<string, () => Uint8Array>): GitFileSource {
+    return {
+      readFile: async (path) => entries.get(path)?.() ?? null,
+      listFiles: async (directory) => {
+        const prefix = `${directory}/`
+        return Array.from(entries.keys())
+          .filter(path => path.startsWith(prefix))
+          .map(path => path.slice(prefix.length))
+      }
+    }
+  }
+
+  private async collectDirectoryEntries(
+    handle: FileSystemDirectoryHandle,
+    prefix: string,
+    entries: LocalFileEntry[]
+  ): Promise<void> {
+    for await (const child of (handle as IterableDirectoryHandle).values()) {
+      if (entries.length >= MAX_FILES) return
+
+      const path = `${prefix}${child.name}`
+      if (child.kind === 'directory') {
+        if (IGNORED_DIRECTORIES.has(child.name)) continue
+        await this.collectDirectoryEntries(child, `${path}/`, entries)
+      } else {
+        const file = await child.getFile()
+        entries.push({
+          path,
+          size: file.size,
+          lastModified: file.lastModified,
+          read: async () => new Uint8Array(await file.arrayBuffer())
+        })
+      }
+    }
+  }
+
+  private findCommonRoot(paths: string[]): string {
+    // Archives such as GitHub's "Download ZIP" wrap everything in a single "repo-main/" folder
+    if (paths.length === 0) return ''
+    const first = paths[0].split('/')[0]
+    if (!paths[0].includes('/')) return ''
+    return paths.every(path => path.startsWith(`${first}/`)) ? `${first}/` : ''
+  }
+
+  private isIgnoredPath(path: string): boolean {
+    return path.length === 0 || path.split('/').slice(0, -1).some(segment => IGNORED_DIRECTORIES.has(segment))
+  }
+
+  private looksBinary(data: Uint8Array): boolean {
+    const sample = data.subarray(0, 8000)
+    return sample.includes(0)
+  }
+}
+
+// Export singleton instance
+export const localRepositoryService = new LocalRepositoryService()
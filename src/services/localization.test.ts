@@ -0,0 +1,61 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { Audience, PresentationMode, RepositoryData, SlidePresentation, StoryStructure } from '../types'
+import { loadFixtureRepository } from './__fixtures__/repository'
+import { storyGenerator } from './storyGenerator'
+import { slideGeneratorService } from './slideGenerator'
+import { EXAMPLE_TEMPLATE } from './templateRegistry'
+
+const MODES: PresentationMode[] = ['ted', 'imrad', 'release', 'pitch', 'sprint_demo', 'postmortem', 'onboarding', 'lightning']
+const AUDIENCES: (Audience | undefined)[] = [undefined, 'technical', 'business', 'general']
+
+const KANA = /[぀-ヿ]+/g
+const KANJI = /[㐀-䶿一-鿿]+/g
+
+// Every string in the story, the slides (references appendix included) and the HTML export
+function deckText(story: StoryStructure, presentation: SlidePresentation): string {
+  const strings: string[] = []
+  const collect = (value: unknown) => {
+    if (typeof value === 'string') strings.push(value)
+    else if (Array.isArray(value)) value.forEach(collect)
+    else if (value && typeof value === 'object') Object.values(value).forEach(collect)
+  }
+  const withReferences = slideGeneratorService.appendReferences(presentation)
+  collect(story)
+  collect(withReferences)
+  strings.push(slideGeneratorService.renderSlides(withReferences))
+  return strings.join('\n')
+}
+
+// The fixture is an English repository, so any Japanese on its slides comes from the generators
+describe('non-Japanese decks', () => {
+  let repository: RepositoryData
+
+  beforeAll(async () => {
+    repository = await loadFixtureRepository()
+  })
+
+  describe.each(MODES)('%s mode', mode => {
+    it.each(AUDIENCES)('has no Japanese in English decks (audience: %s)', async audience => {
+      const story = await storyGenerator.generateStory(repository, mode, 'en', audience)
+      const presentation = slideGeneratorService.generatePresentation(repository, story, mode, 5, 'en', audience)
+
+      const text = deckText(story, presentation)
+      expect(text.match(KANA) || []).toEqual([])
+      expect(text.match(KANJI) || []).toEqual([])
+    })
+
+    it.each(AUDIENCES)('has no kana in Chinese decks (audience: %s)', async audience => {
+      const story = await storyGenerator.generateStory(repository, mode, 'zh', audience)
+      const presentation = slideGeneratorService.generatePresentation(repository, story, mode, 5, 'zh', audience)
+
+      expect(deckText(story, presentation).match(KANA) || []).toEqual([])
+    })
+  })
+
+  it.each(['en', 'zh'] as const)('keeps template decks in %s', async language => {
+    const story = await storyGenerator.generateStory(repository, EXAMPLE_TEMPLATE.mode, language)
+    const presentation = slideGeneratorService.generateFromTemplate(EXAMPLE_TEMPLATE, repository, story, 5, language)
+
+    expect(deckText(story, presentation).match(KANA) || []).toEqual([])
+  })
+})
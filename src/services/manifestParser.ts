@@ -0,0 +1,383 @@
+// Dependency manifest parsing shared by local and hosted ingestion
+
+import { Dependency, DependencyEcosystem } from '../types'
+
+type ManifestParser = (content: string) => Dependency[]
+
+// Root-level manifests we know how to read, in the order they are merged. `*.csproj` files are
+// matched by extension on top of these
+export const MANIFEST_FILES = [
+  'package.json',
+  'requirements.txt',
+  'pyproject.toml',
+  'Pipfile',
+  'go.mod',
+  'Cargo.toml',
+  'Gemfile',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'composer.json'
+]
+
+const CSPROJ_PATTERN = /\.csproj$/i
+const CARGO_DEPENDENCY_TABLE = /^(?:target\..+\.)?(dependencies|dev-dependencies|build-dependencies)(?:\.(.+))?$/
+const GRADLE_CONFIGURATIONS = /^(implementation|api|compile|compileOnly|runtimeOnly|runtime|kapt|ksp|annotationProcessor|testImplementation|testCompile|testCompileOnly|testRuntimeOnly|androidTestImplementation|debugImplementation)$/
+const PEP_508_NAME = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(\[[^\]]*\])?\s*(.*)$/
+
+const PARSERS: Record<string, ManifestParser> = {
+  'package.json': parsePackageJson,
+  'requirements.txt': parseRequirements,
+  'pyproject.toml': parsePyproject,
+  'Pipfile': parsePipfile,
+  'go.mod': parseGoMod,
+  'Cargo.toml': parseCargoDependencies,
+  'Gemfile': parseGemfile,
+  'pom.xml': parsePom,
+  'build.gradle': parseGradle,
+  'build.gradle.kts': parseGradle,
+  'composer.json': parseComposerJson
+}
+
+export function isManifestFile(filename: string): boolean {
+  return filename in PARSERS || CSPROJ_PATTERN.test(filename)
+}
+
+// Manifests directly inside `directory` (the repository root by default)
+export function findManifestPaths(paths: string[], directory: string = ''): string[] {
+  const prefix = directory ? `${directory}/` : ''
+  return paths.filter(path => {
+    if (!path.startsWith(prefix)) return false
+    const filename = path.slice(prefix.length)
+    return !filename.includes('/') && isManifestFile(filename)
+  })
+}
+
+// `contents` is keyed by file name; each manifest is parsed by its own ecosystem parser
+export function parseManifests(contents: Map<string, string>): Dependency[] {
+  const order = (filename: string) => {
+    const index = MANIFEST_FILES.indexOf(filename)
+    return index === -1 ? MANIFEST_FILES.length : index
+  }
+
+  return Array.from(contents.entries())
+    .sort((a, b) => order(a[0]) - order(b[0]) || a[0].localeCompare(b[0]))
+    .flatMap(([filename, content]) => {
+      const parser = PARSERS[filename] || (CSPROJ_PATTERN.test(filename) ? parseCsproj : null)
+      if (!parser) return []
+      try {
+        return parser(content)
+      } catch (error) {
+        console.warn(`Failed to parse ${filename}:`, error)
+        return []
+      }
+    })
+}
+
+function parsePackageJson(content: string): Dependency[] {
+  const parsed = JSON.parse(content)
+  return [
+    ...fromRecord(parsed.dependencies, 'dependency', 'npm'),
+    ...fromRecord(parsed.devDependencies, 'devDependency', 'npm')
+  ]
+}
+
+function parseComposerJson(content: string): Dependency[] {
+  const parsed = JSON.parse(content)
+  // `php` and `ext-*` entries are platform requirements, not packages
+  const isPackage = (dependency: Dependency) => dependency.name.includes('/')
+  return [
+    ...fromRecord(parsed.require, 'dependency', 'composer'),
+    ...fromRecord(parsed['require-dev'], 'devDependency', 'composer')
+  ].filter(isPackage)
+}
+
+function parseRequirements(content: string): Dependency[] {
+  const dependencies: Dependency[] = []
+  content.split('\n').forEach(line => {
+    const trimmed = line.replace(/\s+#.*$/, '').trim()
+    // Skip comments, options such as `-r base.txt` / `--hash`, and direct URLs
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('-') || /^\w+\+?\w*:\/\//.test(trimmed)) return
+    const dependency = parsePep508(trimmed, 'dependency')
+    if (dependency) dependencies.push(dependency)
+  })
+  return dependencies
+}
+
+// PEP 621 `[project]` tables and Poetry's `[tool.poetry.*]` tables
+function parsePyproject(content: string): Dependency[] {
+  const dependencies: Dependency[] = []
+
+  const project = readTomlTable(content, 'project')
+  if (project) {
+    readTomlStringArray(project, 'dependencies').forEach(requirement => {
+      const dependency = parsePep508(requirement, 'dependency')
+      if (dependency) dependencies.push(dependency)
+    })
+  }
+
+  const optional = readTomlTable(content, 'project.optional-dependencies')
+  if (optional) {
+    Array.from(optional.matchAll(/^\s*[\w.-]+\s*=\s*\[[\s\S]*?\]/gm)).forEach(([group]) => {
+      readTomlStringArray(group, '[\\w.-]+').forEach(requirement => {
+        const dependency = parsePep508(requirement, 'devDependency')
+        if (dependency) dependencies.push(dependency)
+      })
+    })
+  }
+
+  listTomlTables(content).forEach(table => {
+    const poetry = table.match(/^tool\.poetry\.(dependencies|dev-dependencies|group\.[\w-]+\.dependencies)$/)
+    if (!poetry) return
+    const type = poetry[1] === 'dependencies' ? 'dependency' : 'devDependency'
+    readTomlKeyValues(readTomlTable(content, table) || '')
+      .filter(([name]) => name.toLowerCase() !== 'python')
+      .forEach(([name, value]) => dependencies.push({ name, version: tomlVersion(value, 'latest'), type, ecosystem: 'pypi' }))
+  })
+
+  return dependencies
+}
+
+function parsePipfile(content: string): Dependency[] {
+  const read = (table: string, type: Dependency['type']): Dependency[] =>
+    readTomlKeyValues(readTomlTable(content, table) || '').map(([name, value]) => {
+      const version = tomlVersion(value, '*')
+      return { name, version: version === '*' ? 'latest' : version, type, ecosystem: 'pypi' as const }
+    })
+  return [...read('packages', 'dependency'), ...read('dev-packages', 'devDependency')]
+}
+
+function parseGoMod(content: string): Dependency[] {
+  const dependencies: Dependency[] = []
+  let inRequireBlock = false
+
+  content.split('\n').forEach(line => {
+    const trimmed = line.trim()
+    if (/^require\s*\($/.test(trimmed)) {
+      inRequireBlock = true
+      return
+    }
+    if (inRequireBlock && trimmed === ')') {
+      inRequireBlock = false
+      return
+    }
+
+    const requirement = inRequireBlock ? trimmed : trimmed.match(/^require\s+(.+)$/)?.[1]
+    // Indirect requirements are transitive dependencies pinned by the module graph
+    if (!requirement || requirement.startsWith('//') || /\/\/\s*indirect/.test(requirement)) return
+
+    const [name, version] = requirement.split(/\s+/)
+    if (name && version) dependencies.push({ name, version, type: 'dependency', ecosystem: 'go' })
+  })
+
+  return dependencies
+}
+
+// Handles both `name = "1.0"` / inline tables and `[dependencies.name]` sub-tables
+function parseCargoDependencies(content: string): Dependency[] {
+  const dependencies = new Map<string, Dependency>()
+  let table: { kind: string; name?: string } | null = null
+
+  for (const line of stripTomlComments(content).split('\n')) {
+    const header = line.trim().match(/^\[([^[\]]+)\]$/)
+    if (header) {
+      const match = header[1].trim().match(CARGO_DEPENDENCY_TABLE)
+      table = match ? { kind: match[1], name: match[2] } : null
+      continue
+    }
+    if (!table) continue
+
+    const entry = line.match(/^\s*([\w-]+)(\.workspace)?\s*=\s*(.+)$/)
+    if (!entry) continue
+
+    const type = table.kind === 'dependencies' ? 'dependency' : 'devDependency'
+    if (table.name) {
+      // Inside `[dependencies.name]`, only the version key matters
+      if (entry[1] === 'version') {
+        dependencies.set(table.name, { name: table.name, version: unquote(entry[3]), type, ecosystem: 'cargo' })
+      } else if (!dependencies.has(table.name)) {
+        dependencies.set(table.name, { name: table.name, version: 'workspace', type, ecosystem: 'cargo' })
+      }
+      continue
+    }
+
+    const version = entry[2] ? 'workspace' : tomlVersion(entry[3], 'workspace')
+    dependencies.set(entry[1], { name: entry[1], version, type, ecosystem: 'cargo' })
+  }
+
+  return Array.from(dependencies.values())
+}
+
+function parseGemfile(content: string): Dependency[] {
+  const dependencies: Dependency[] = []
+  const groups: boolean[] = []
+
+  content.split('\n').forEach(line => {
+    const trimmed = line.replace(/#.*$/, '').trim()
+    const group = trimmed.match(/^group\s+(.+?)\s+do\b/)
+    if (group) {
+      groups.push(/:(development|test)\b|["'](development|test)["']/.test(group[1]))
+      return
+    }
+    if (trimmed === 'end') {
+      groups.pop()
+      return
+    }
+
+    const gem = trimmed.match(/^gem\s+["']([^"']+)["'](?:\s*,\s*["']([^"']+)["'])?(?:\s*,\s*["']([^"']+)["'])?(.*)$/)
+    if (!gem) return
+    const development = groups.some(Boolean) || /(group|groups):\s*\[?[^\]]*:(development|test)\b/.test(gem[4])
+    dependencies.push({
+      name: gem[1],
+      version: [gem[2], gem[3]].filter(Boolean).join(', ') || 'latest',
+      type: development ? 'devDependency' : 'dependency',
+      ecosystem: 'rubygems'
+    })
+  })
+
+  return dependencies
+}
+
+function parsePom(content: string): Dependency[] {
+  const properties = new Map<string, string>()
+  const propertiesBlock = content.match(/<properties>([\s\S]*?)<\/properties>/)?.[1] || ''
+  Array.from(propertiesBlock.matchAll(/<([\w.-]+)>([^<]*)<\/\1>/g)).forEach(([, key, value]) => properties.set(key, value.trim()))
+  const projectVersion = content.replace(/<parent>[\s\S]*?<\/parent>/, '').match(/<version>([^<]*)<\/version>/)?.[1]
+  if (projectVersion) properties.set('project.version', projectVersion.trim())
+
+  // Managed versions and build plugins aren't dependencies of the project itself
+  const body = content
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+    .replace(/<build>[\s\S]*?<\/build>/g, '')
+
+  return Array.from(body.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)).map(([, dependency]) => {
+    const field = (name: string) => dependency.match(new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`))?.[1]
+    const version = (field('version') || 'managed').replace(/\$\{([^}]+)\}/g, (placeholder, key) => properties.get(key) || placeholder)
+    const scope = field('scope')
+    return {
+      name: `${field('groupId') || ''}:${field('artifactId') || ''}`,
+      version,
+      type: scope === 'test' || scope === 'provided' ? 'devDependency' as const : 'dependency' as const,
+      ecosystem: 'maven' as const
+    }
+  })
+}
+
+// Groovy and Kotlin DSL: `implementation 'g:a:v'`, `implementation("g:a:v")` and the map notation
+function parseGradle(content: string): Dependency[] {
+  const dependencies: Dependency[] = []
+
+  content.split('\n').forEach(line => {
+    const configuration = line.match(/^\s*(\w+)\s*\(?/)?.[1]
+    if (!configuration || !GRADLE_CONFIGURATIONS.test(configuration)) return
+    const type = /^(test|androidTest|debug)/.test(configuration) ? 'devDependency' : 'dependency'
+
+    const coordinates = line.match(/["']([^"':\s]+):([^"':\s]+)(?::([^"'\s]+))?["']/)
+    if (coordinates) {
+      dependencies.push({
+        name: `${coordinates[1]}:${coordinates[2]}`,
+        version: coordinates[3] || 'managed',
+        type,
+        ecosystem: 'maven'
+      })
+      return
+    }
+
+    const group = line.match(/group\s*[:=]\s*["']([^"']+)["']/)?.[1]
+    const name = line.match(/name\s*[:=]\s*["']([^"']+)["']/)?.[1]
+    if (group && name) {
+      const version = line.match(/version\s*[:=]\s*["']([^"']+)["']/)?.[1]
+      dependencies.push({ name: `${group}:${name}`, version: version || 'managed', type, ecosystem: 'maven' })
+    }
+  })
+
+  return dependencies
+}
+
+function parseCsproj(content: string): Dependency[] {
+  return Array.from(content.matchAll(/<PackageReference\b([^>]*?)(?:\/>|>([\s\S]*?)<\/PackageReference>)/g)).flatMap(([, attributes, body]) => {
+    const name = attributes.match(/\bInclude\s*=\s*"([^"]+)"/)?.[1]
+    if (!name) return []
+    const version = attributes.match(/\bVersion\s*=\s*"([^"]+)"/)?.[1] || body?.match(/<Version>([^<]+)<\/Version>/)?.[1]
+    // Analyzers and build-time tooling are marked as private assets
+    const privateAssets = /PrivateAssets\s*=\s*"all"/i.test(attributes) || /<PrivateAssets>\s*all\s*<\/PrivateAssets>/i.test(body || '')
+    return [{
+      name,
+      version: version || 'managed',
+      type: privateAssets ? 'devDependency' as const : 'dependency' as const,
+      ecosystem: 'nuget' as const
+    }]
+  })
+}
+
+function fromRecord(record: unknown, type: Dependency['type'], ecosystem: DependencyEcosystem): Dependency[] {
+  if (!record || typeof record !== 'object') return []
+  return Object.entries(record).map(([name, version]) => ({ name, version: String(version), type, ecosystem }))
+}
+
+function parsePep508(requirement: string, type: Dependency['type']): Dependency | null {
+  const match = requirement.split(';')[0].match(PEP_508_NAME)
+  if (!match) return null
+  const specifier = match[3].trim().replace(/^\(|\)$/g, '')
+  const version = specifier.startsWith('==') ? specifier.slice(2).trim() : specifier
+  return { name: match[1], version: version || 'latest', type, ecosystem: 'pypi' }
+}
+
+// Minimal TOML access for the flat manifests we care about (Cargo.toml, pyproject.toml, Pipfile)
+export function readTomlTable(content: string, table: string): string | null {
+  const lines = stripTomlComments(content).split('\n')
+  const start = lines.findIndex(line => line.trim() === `[${table}]`)
+  if (start === -1) return null
+
+  const end = lines.findIndex((line, index) => index > start && /^\s*\[[^\]]/.test(line) && !/^\s*\["/.test(line))
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n')
+}
+
+export function readTomlString(body: string, key: string): string | undefined {
+  const match = body.match(new RegExp(`^\\s*${key}\\s*=\\s*("[^"]*"|'[^']*')`, 'm'))
+  return match ? unquote(match[1]) : undefined
+}
+
+export function readTomlStringArray(body: string, key: string): string[] {
+  const match = body.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]\\s*$`, 'm'))
+  if (!match) return []
+  return Array.from(match[1].matchAll(/"([^"]*)"|'([^']*)'/g)).map(item => item[1] ?? item[2])
+}
+
+function listTomlTables(content: string): string[] {
+  return Array.from(stripTomlComments(content).matchAll(/^\s*\[([^[\]]+)\]\s*$/gm)).map(match => match[1].trim())
+}
+
+// Top-level `key = value` pairs of a table body; values are returned unparsed
+function readTomlKeyValues(body: string): [string, string][] {
+  return Array.from(body.matchAll(/^\s*["']?([\w.-]+)["']?\s*=\s*(.+)$/gm)).map(match => [match[1], match[2].trim()])
+}
+
+// `"1.0"` or an inline table with a `version` key; anything else (path/git sources) gets the fallback
+function tomlVersion(value: string, fallback: string): string {
+  const trimmed = value.trim()
+  if (trimmed.startsWith('{')) return trimmed.match(/version\s*=\s*["']([^"']*)["']/)?.[1] || fallback
+  return /^["']/.test(trimmed) ? unquote(trimmed) : fallback
+}
+
+function stripTomlComments(content: string): string {
+  return content.split('\n').map(line => {
+    let quote: string | null = null
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      if (quote) {
+        if (char === quote) quote = null
+      } else if (char === '"' || char === "'") {
+        quote = char
+      } else if (char === '#') {
+        return line.slice(0, i)
+      }
+    }
+    return line
+  }).join('\n')
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2')
+}
@@ -0,0 +1,61 @@
+// Field provenance
+// Records where each RepositoryData field came from and how far it can be trusted
+
+import { DataConfidence, DataSource, FieldProvenance, RepositoryData } from '../types'
+
+const DEFAULT_CONFIDENCE: Record<DataSource, DataConfidence> = {
+  api: 'high',
+  scraped: 'medium',
+  inferred: 'medium',
+  fallback: 'low'
+}
+
+// Fields every deck is built from; a guess in any of them ends up on the slides
+const CORE_FIELDS: (keyof RepositoryData)[] = ['description', 'language', 'languages', 'dependencies', 'commits', 'files', 'readme']
+
+export const DATA_SOURCE_LABELS: Record<DataSource, string> = {
+  api: 'API',
+  scraped: 'Webページから取得',
+  inferred: '推定',
+  fallback: '仮の値'
+}
+
+export const FIELD_LABELS: Partial<Record<keyof RepositoryData, string>> = {
+  description: '説明',
+  language: '主要言語',
+  languages: '言語構成',
+  dependencies: '依存関係',
+  commits: 'コミット履歴',
+  files: 'ファイル一覧',
+  readme: 'README'
+}
+
+export function recordProvenance(
+  repository: RepositoryData,
+  fields: (keyof RepositoryData)[],
+  source: DataSource,
+  confidence: DataConfidence = DEFAULT_CONFIDENCE[source],
+  note?: string
+): RepositoryData {
+  const provenance = repository.provenance || {}
+  fields.forEach(field => {
+    provenance[field] = note ? { source, confidence, note } : { source, confidence }
+  })
+  repository.provenance = provenance
+  return repository
+}
+
+// Stamps every populated field that doesn't have a provenance yet, so stages only record their exceptions
+export function fillProvenance(repository: RepositoryData, source: DataSource): RepositoryData {
+  const missing = (Object.keys(repository) as (keyof RepositoryData)[])
+    .filter(field => field !== 'provenance' && repository[field] !== undefined && !repository.provenance?.[field])
+  return recordProvenance(repository, missing, source)
+}
+
+// Core fields that are placeholders or low-confidence guesses; data without provenance is trusted as before
+export function findGuessedFields(repository: RepositoryData): { field: keyof RepositoryData; provenance: FieldProvenance }[] {
+  return CORE_FIELDS
+    .map(field => ({ field, provenance: repository.provenance?.[field] }))
+    .filter((entry): entry is { field: keyof RepositoryData; provenance: FieldProvenance } =>
+      !!entry.provenance && (entry.provenance.source === 'fallback' || entry.provenance.confidence === 'low'))
+}
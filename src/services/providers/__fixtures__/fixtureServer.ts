@@ -0,0 +1,116 @@
+// Local HTTP server replaying recorded hosting API responses
+// Providers point `apiBaseUrl` at it; tests can put handlers in front of the recording to inject
+// rate limits and failures, and read the request log to check paging and conditional requests
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http'
+import { AddressInfo } from 'node:net'
+
+export interface RecordedInteraction {
+  // Path with the query parameters the request must carry, e.g. `/repos/acme/widgets/commits?page=2`
+  path: string
+  status?: number
+  // Partial so imported JSON recordings, whose entries differ in headers, type-check
+  headers?: Partial<Record<string, string>>
+  // Objects are sent as JSON, strings as they are
+  body: unknown
+}
+
+export interface Recording {
+  interactions: RecordedInteraction[]
+}
+
+export interface LoggedRequest {
+  path: string
+  status: number
+  headers: IncomingMessage['headers']
+}
+
+interface HandlerReply {
+  status: number
+  headers?: Partial<Record<string, string>>
+  body?: unknown
+}
+
+// Returns a reply to answer the request, or undefined to fall through to the recording
+export type FixtureHandler = (path: string, request: IncomingMessage) => HandlerReply | undefined
+
+export class FixtureServer {
+  readonly requests: LoggedRequest[] = []
+  private handlers: FixtureHandler[] = []
+  private server: Server
+
+  private constructor(private readonly recording: Recording) {
+    this.server = createServer((request, response) => this.handle(request, response))
+  }
+
+  static async start(recording: Recording): Promise<FixtureServer> {
+    const fixtureServer = new FixtureServer(recording)
+    await new Promise<void>(resolve => fixtureServer.server.listen(0, '127.0.0.1', resolve))
+    return fixtureServer
+  }
+
+  get origin(): string {
+    const { port } = this.server.address() as AddressInfo
+    return `http://127.0.0.1:${port}`
+  }
+
+  use(handler: FixtureHandler) {
+    this.handlers.push(handler)
+  }
+
+  reset() {
+    this.handlers = []
+    this.requests.length = 0
+  }
+
+  // Requests whose path starts with the given prefix, in arrival order
+  requestsTo(prefix: string): LoggedRequest[] {
+    return this.requests.filter(request => request.path.startsWith(prefix))
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => this.server.close(error => (error ? reject(error) : resolve())))
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse) {
+    const path = request.url || '/'
+    const reply = this.reply(path, request)
+    this.requests.push({ path, status: reply.status, headers: request.headers })
+
+    // Recorded next-page links point at the host; `{origin}` stands in for this server
+    const withOrigin = (text: string) => text.split('{origin}').join(this.origin)
+    const headers = Object.fromEntries(Object.entries(reply.headers || {})
+      .filter((header): header is [string, string] => header[1] !== undefined)
+      .map(([name, value]) => [name, withOrigin(value)]))
+    response.writeHead(reply.status, {
+      'content-type': typeof reply.body === 'string' ? 'text/plain; charset=utf-8' : 'application/json; charset=utf-8',
+      ...headers
+    })
+    response.end(withOrigin(typeof reply.body === 'string' ? reply.body : reply.body === undefined ? '' : JSON.stringify(reply.body)))
+  }
+
+  private reply(path: string, request: IncomingMessage): HandlerReply {
+    for (const handler of this.handlers) {
+      const reply = handler(path, request)
+      if (reply) return reply
+    }
+
+    const interaction = this.recording.interactions.find(candidate => matches(candidate.path, path))
+    if (!interaction) return { status: 404, body: { message: 'Not Found' } }
+
+    // Hosts answer a matching `If-None-Match` with an empty 304
+    const etag = interaction.headers?.etag
+    if (etag && request.headers['if-none-match'] === etag) {
+      return { status: 304, headers: { etag } }
+    }
+    return { status: interaction.status || 200, headers: interaction.headers, body: interaction.body }
+  }
+}
+
+// Same path, and every recorded query parameter present with the same value
+function matches(recorded: string, actual: string): boolean {
+  const expected = new URL(recorded, 'http://fixture')
+  const received = new URL(actual, 'http://fixture')
+  if (expected.pathname !== received.pathname) return false
+  return Array.from(expected.searchParams).every(([name, value]) => received.searchParams.get(name) === value)
+}
@@ -0,0 +1,180 @@
+import { CommitData, CommitFileChange, Milestone } from '../../types'
+import { milestoneFromRelease } from '../changelog'
+import { BaseRepositoryProvider, ProviderTreeEntry, RefComparison, RepositoryMetadata, encodePath } from './repositoryProvider'
+
+interface BitbucketRepository {
+  name: string
+  description: string
+  language: string
+  mainbranch?: { name: string }
+  created_on: string
+  updated_on: string
+}
+
+interface BitbucketPage<T> {
+  values: T[]
+  next?: string
+  size?: number
+}
+
+interface BitbucketCommit {
+  hash: string
+  message: string
+  date: string
+  author: { raw: string; user?: { display_name: string } }
+}
+
+interface BitbucketDiffStat {
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'merge conflict' | 'local deleted' | 'remote deleted'
+  lines_added: number
+  lines_removed: number
+  old: { path: string } | null
+  new: { path: string } | null
+}
+
+interface BitbucketTag {
+  name: string
+  message?: string | null
+  target?: { date?: string }
+}
+
+interface BitbucketTreeItem {
+  type: 'commit_file' | 'commit_directory'
+  path: string
+  size?: number
+}
+
+const MAX_TREE_PAGES = 50
+const MAX_TREE_DEPTH = 20
+
+// Bitbucket Cloud only: Bitbucket Data Center exposes an unrelated REST API
+export class BitbucketProvider extends BaseRepositoryProvider {
+  readonly kind = 'bitbucket' as const
+
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
+    return this.requestText(`${this.repositoryPath()}/src/${encodeURIComponent(this.resolveRef(ref))}/${encodePath(path)}`)
+  }
+
+  getRawFileUrl(path: string, ref?: string): string {
+    return `${this.location.origin}/${this.location.fullPath}/raw/${encodeURIComponent(this.resolveRef(ref))}/${encodePath(path)}`
+  }
+
+  protected getDefaultApiBaseUrl(): string {
+    return 'https://api.bitbucket.org/2.0'
+  }
+
+  // App passwords are given as `username:password`; anything else is a repository/workspace access token
+  protected getAuthHeaders(): Record<string, string> {
+    const token = this.options.token
+    if (!token) return {}
+    return token.includes(':') ? { Authorization: `Basic ${btoa(token)}` } : { Authorization: `Bearer ${token}` }
+  }
+
+  protected async fetchMetadata(): Promise<RepositoryMetadata> {
+    const repository = await this.requestJson<BitbucketRepository>(this.repositoryPath())
+    const forks = await this.requestJson<BitbucketPage<unknown>>(`${this.repositoryPath()}/forks?pagelen=1`)
+      .then(page => page.size || 0)
+      .catch(() => 0)
+
+    return {
+      name: repository.name,
+      description: repository.description || '',
+      // Bitbucket reports a lowercase slug such as "typescript"; prefer the derived linguist name
+      language: null,
+      defaultBranch: repository.mainbranch?.name || 'main',
+      createdAt: repository.created_on,
+      updatedAt: repository.updated_on,
+      stars: 0, // Bitbucket has no stars
+      forks
+    }
+  }
+
+  // There is no language breakdown endpoint; the base class derives one from the file tree
+  protected async fetchLanguages(): Promise<Record<string, number>> {
+    return {}
+  }
+
+  protected async fetchCommits(ref: string, limit: number, path?: string): Promise<CommitData[]> {
+    const commits: CommitData[] = []
+    const query = new URLSearchParams({ pagelen: String(Math.min(limit, 100)) })
+    if (path) query.set('path', path)
+    let next: string | undefined = `${this.repositoryPath()}/commits/${encodeURIComponent(ref)}?${query}`
+
+    while (next && commits.length < limit) {
+      const page: BitbucketPage<BitbucketCommit> = await this.requestJson(next)
+      commits.push(...page.values.map(commit => this.toCommitData(commit)))
+      next = page.next
+    }
+
+    return commits.slice(0, limit)
+  }
+
+  protected async fetchTree(ref: string): Promise<ProviderTreeEntry[]> {
+    const entries: ProviderTreeEntry[] = []
+    let next: string | undefined =
+      `${this.repositoryPath()}/src/${encodeURIComponent(ref)}/?max_depth=${MAX_TREE_DEPTH}&pagelen=100`
+
+    for (let i = 0; i < MAX_TREE_PAGES && next; i++) {
+      const page: BitbucketPage<BitbucketTreeItem> = await this.requestJson(next)
+      page.values
+        .filter(item => item.type === 'commit_file')
+        .forEach(item => entries.push({ path: item.path, size: item.size || 0 }))
+      next = page.next
+    }
+
+    return entries
+  }
+
+  protected async compareRefs(from: string, to: string, limit: number): Promise<RefComparison> {
+    const query = new URLSearchParams({ exclude: from, pagelen: String(Math.min(limit, 100)) })
+    const page = await this.requestJson<BitbucketPage<BitbucketCommit>>(
+      `${this.repositoryPath()}/commits/${encodeURIComponent(to)}?${query}`
+    )
+
+    // Bitbucket specs read `source..destination`: the changes `to` introduces on top of `from`
+    const files: CommitFileChange[] = []
+    let next: string | undefined =
+      `${this.repositoryPath()}/diffstat/${encodeURIComponent(to)}..${encodeURIComponent(from)}?pagelen=500`
+
+    for (let i = 0; i < MAX_TREE_PAGES && next; i++) {
+      const diffstat: BitbucketPage<BitbucketDiffStat> = await this.requestJson(next)
+      diffstat.values.forEach(entry => {
+        files.push({
+          path: entry.new?.path || entry.old?.path || '',
+          previousPath: entry.status === 'renamed' ? entry.old?.path : undefined,
+          status: entry.status === 'added' || entry.status === 'removed' || entry.status === 'renamed' ? entry.status : 'modified',
+          additions: entry.lines_added,
+          deletions: entry.lines_removed
+        })
+      })
+      next = diffstat.next
+    }
+
+    return { commits: page.values.map(commit => this.toCommitData(commit)), files }
+  }
+
+  // Bitbucket has no releases; annotated tag messages stand in for release notes
+  protected async fetchReleases(limit: number): Promise<Milestone[]> {
+    const query = new URLSearchParams({ pagelen: String(Math.min(limit, 100)), sort: '-target.date' })
+    const page = await this.requestJson<BitbucketPage<BitbucketTag>>(`${this.repositoryPath()}/refs/tags?${query}`)
+    return page.values.map(tag => milestoneFromRelease({ tag: tag.name, body: tag.message, date: tag.target?.date }, 'tag'))
+  }
+
+  private toCommitData(commit: BitbucketCommit): CommitData {
+    // `raw` is the git signature, e.g. "Jane Doe <jane@example.com>"
+    const signature = commit.author.raw.match(/^(.*?)\s*<([^>]*)>$/)
+    return {
+      sha: commit.hash,
+      message: commit.message,
+      author: commit.author.user?.display_name || (signature ? signature[1] : commit.author.raw) || 'Unknown',
+      authorEmail: signature?.[2] || undefined,
+      date: commit.date,
+      additions: 0, // Per-commit stats need a diffstat request per commit
+      deletions: 0
+    }
+  }
+
+  private repositoryPath(): string {
+    return `/repositories/${encodeURIComponent(this.location.owner)}/${encodeURIComponent(this.location.repo)}`
+  }
+}
@@ -0,0 +1,192 @@
+import { CommitData, CommitFileChange, Milestone } from '../../types'
+import { milestoneFromRelease } from '../changelog'
+import { BaseRepositoryProvider, ProviderTreeEntry, RefComparison, RepositoryMetadata, encodePath } from './repositoryProvider'
+
+interface GiteaRepository {
+  name: string
+  description: string
+  language?: string
+  default_branch: string
+  created_at: string
+  updated_at: string
+  stars_count: number
+  forks_count: number
+  open_issues_count: number
+}
+
+interface GiteaCommit {
+  sha: string
+  commit: {
+    message: string
+    author: { name: string; email: string; date: string }
+  }
+  stats?: { additions: number; deletions: number }
+  files?: { filename: string; status: string }[]
+}
+
+interface GiteaComparison {
+  commits: GiteaCommit[]
+}
+
+interface GiteaRelease {
+  tag_name: string
+  name: string
+  body: string
+  published_at: string
+  draft: boolean
+  prerelease: boolean
+  html_url: string
+}
+
+interface GiteaTag {
+  name: string
+  commit?: { created?: string }
+}
+
+interface GiteaTree {
+  tree: { path: string; type: 'blob' | 'tree' | 'commit'; size: number }[]
+  truncated: boolean
+}
+
+const TREE_PAGE_SIZE = 1000
+const MAX_TREE_PAGES = 10
+
+// Also covers Forgejo (e.g. Codeberg), which keeps the Gitea API
+export class GiteaProvider extends BaseRepositoryProvider {
+  readonly kind = 'gitea' as const
+
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
+    const query = new URLSearchParams({ ref: this.resolveRef(ref) })
+    return this.requestText(`${this.repositoryPath()}/raw/${encodePath(path)}?${query}`)
+  }
+
+  getRawFileUrl(path: string, ref?: string): string {
+    return `${this.location.origin}/${this.location.fullPath}/raw/branch/${encodeURIComponent(this.resolveRef(ref))}/${encodePath(path)}`
+  }
+
+  protected getDefaultApiBaseUrl(): string {
+    return `${this.location.origin}/api/v1`
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.options.token ? { Authorization: `token ${this.options.token}` } : {}
+  }
+
+  protected async fetchMetadata(): Promise<RepositoryMetadata> {
+    const repository = await this.requestJson<GiteaRepository>(this.repositoryPath())
+    return {
+      name: repository.name,
+      description: repository.description || '',
+      language: repository.language || null,
+      defaultBranch: repository.default_branch || 'main',
+      createdAt: repository.created_at,
+      updatedAt: repository.updated_at,
+      stars: repository.stars_count,
+      forks: repository.forks_count,
+      openIssues: repository.open_issues_count
+    }
+  }
+
+  protected async fetchLanguages(): Promise<Record<string, number>> {
+    return this.requestJson<Record<string, number>>(`${this.repositoryPath()}/languages`)
+  }
+
+  protected async fetchCommits(ref: string, limit: number, path?: string): Promise<CommitData[]> {
+    const commits: CommitData[] = []
+
+    for (let page = 1; commits.length < limit; page++) {
+      const query = new URLSearchParams({ sha: ref, limit: String(Math.min(limit, 100)), stat: 'true', page: String(page) })
+      if (path) query.set('path', path)
+      const response = await this.request(`${this.repositoryPath()}/commits?${query}`)
+      const items: GiteaCommit[] = await response.json()
+      commits.push(...items.map(commit => this.toCommitData(commit)))
+
+      // Servers cap the page size below the requested limit, so the header, not a short page, says whether more follow
+      if (response.headers.get('x-hasmore') !== 'true') break
+    }
+
+    return commits.slice(0, limit)
+  }
+
+  protected async fetchTree(ref: string): Promise<ProviderTreeEntry[]> {
+    const entries: ProviderTreeEntry[] = []
+
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+      const query = new URLSearchParams({ recursive: 'true', per_page: String(TREE_PAGE_SIZE), page: String(page) })
+      const tree = await this.requestJson<GiteaTree>(
+        `${this.repositoryPath()}/git/trees/${encodeURIComponent(ref)}?${query}`
+      )
+
+      tree.tree
+        .filter(item => item.type === 'blob')
+        .forEach(item => entries.push({ path: item.path, size: item.size || 0 }))
+
+      if (!tree.truncated) break
+    }
+
+    return entries
+  }
+
+  // Requires Gitea 1.17+ / Forgejo. The response has no aggregate diff, so touched files are the union
+  // of the per-commit file lists and carry no line counts
+  protected async compareRefs(from: string, to: string, limit: number): Promise<RefComparison> {
+    const comparison = await this.requestJson<GiteaComparison>(
+      `${this.repositoryPath()}/compare/${encodeURIComponent(from)}...${encodeURIComponent(to)}`
+    )
+
+    const files = new Map<string, CommitFileChange>()
+    comparison.commits.forEach(commit => {
+      commit.files?.forEach(file => {
+        const previous = files.get(file.filename)
+        const status = file.status === 'added' || file.status === 'removed' ? file.status : 'modified'
+        // A file added within the range stays "added" even if later commits modify it
+        files.set(file.filename, {
+          path: file.filename,
+          status: previous?.status === 'added' && status !== 'removed' ? 'added' : status,
+          additions: 0,
+          deletions: 0
+        })
+      })
+    })
+
+    return {
+      commits: comparison.commits.slice(0, limit).map(commit => this.toCommitData(commit)),
+      files: Array.from(files.values())
+    }
+  }
+
+  protected async fetchReleases(limit: number): Promise<Milestone[]> {
+    const query = new URLSearchParams({ limit: String(Math.min(limit, 50)) })
+    const releases = (await this.requestJson<GiteaRelease[]>(`${this.repositoryPath()}/releases?${query}`))
+      .filter(release => !release.draft)
+    if (releases.length > 0) {
+      return releases.map(release => milestoneFromRelease({
+        tag: release.tag_name,
+        name: release.name,
+        body: release.body,
+        date: release.published_at,
+        prerelease: release.prerelease,
+        url: release.html_url
+      }))
+    }
+
+    const tags = await this.requestJson<GiteaTag[]>(`${this.repositoryPath()}/tags?${query}`)
+    return tags.map(tag => milestoneFromRelease({ tag: tag.name, date: tag.commit?.created }, 'tag'))
+  }
+
+  private toCommitData(commit: GiteaCommit): CommitData {
+    return {
+      sha: commit.sha,
+      message: commit.commit.message,
+      author: commit.commit.author.name || 'Unknown',
+      authorEmail: commit.commit.author.email || undefined,
+      date: commit.commit.author.date,
+      additions: commit.stats?.additions || 0,
+      deletions: commit.stats?.deletions || 0
+    }
+  }
+
+  private repositoryPath(): string {
+    return `/repos/${encodeURIComponent(this.location.owner)}/${encodeURIComponent(this.location.repo)}`
+  }
+}
@@ -0,0 +1,171 @@
+import { Octokit } from 'octokit'
+import { CommitData, CommitFileChange, Milestone } from '../../types'
+import { milestoneFromRelease } from '../changelog'
+import {
+  BaseRepositoryProvider,
+  ProviderOptions,
+  ProviderTreeEntry,
+  RefComparison,
+  RepositoryMetadata,
+  decodeBase64,
+  encodePath
+} from './repositoryProvider'
+import { RepositoryLocation } from './repositoryUrl'
+
+// The subset shared by the list-commits and compare responses
+interface GitHubCommit {
+  sha: string
+  commit: {
+    message: string
+    author: { name?: string; email?: string; date?: string } | null
+  }
+}
+
+export class GitHubProvider extends BaseRepositoryProvider {
+  readonly kind = 'github' as const
+  private octokit: Octokit
+
+  constructor(location: RepositoryLocation, options: ProviderOptions = {}) {
+    super(location, options)
+    this.octokit = new Octokit({
+      auth: options.token,
+      baseUrl: this.apiBaseUrl,
+      // Retries, rate limits and ETags are handled by the shared HTTP layer
+      request: { fetch: this.http.fetch },
+      throttle: { enabled: false },
+      retry: { enabled: false }
+    })
+  }
+
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
+    try {
+      const { data } = await this.octokit.rest.repos.getContent({
+        ...this.repoParams(),
+        path,
+        ref: this.resolveRef(ref)
+      })
+      return 'content' in data ? decodeBase64(data.content) : null
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) return null
+      throw error
+    }
+  }
+
+  getRawFileUrl(path: string, ref?: string): string {
+    const branch = encodeURIComponent(this.resolveRef(ref))
+    return this.location.host === 'github.com'
+      ? `https://raw.githubusercontent.com/${this.location.fullPath}/${branch}/${encodePath(path)}`
+      : `${this.location.origin}/${this.location.fullPath}/raw/${branch}/${encodePath(path)}`
+  }
+
+  protected getDefaultApiBaseUrl(): string {
+    // GitHub Enterprise Server serves the REST API under /api/v3 on the instance host
+    return this.location.host === 'github.com' ? 'https://api.github.com' : `${this.location.origin}/api/v3`
+  }
+
+  protected async fetchMetadata(): Promise<RepositoryMetadata> {
+    const { data } = await this.octokit.rest.repos.get(this.repoParams())
+    return {
+      name: data.name,
+      description: data.description || '',
+      language: data.language || null,
+      defaultBranch: data.default_branch,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+      stars: data.stargazers_count,
+      forks: data.forks_count,
+      openIssues: data.open_issues_count
+    }
+  }
+
+  protected async fetchLanguages(): Promise<Record<string, number>> {
+    const { data } = await this.octokit.rest.repos.listLanguages(this.repoParams())
+    return data
+  }
+
+  protected async fetchCommits(ref: string, limit: number, path?: string): Promise<CommitData[]> {
+    const commits: CommitData[] = []
+
+    for (let page = 1; commits.length < limit; page++) {
+      const { data, headers } = await this.octokit.rest.repos.listCommits({
+        ...this.repoParams(),
+        sha: ref,
+        path,
+        per_page: Math.min(limit, 100),
+        page
+      })
+      commits.push(...data.map(commit => this.toCommitData(commit)))
+
+      if (!headers.link?.includes('rel="next"')) break
+    }
+
+    return commits.slice(0, limit)
+  }
+
+  protected async fetchTree(ref: string): Promise<ProviderTreeEntry[]> {
+    const { data } = await this.octokit.rest.git.getTree({
+      ...this.repoParams(),
+      tree_sha: ref,
+      recursive: 'true'
+    })
+
+    return data.tree
+      .filter(item => item.type === 'blob' && item.path)
+      .map(item => ({ path: item.path || '', size: item.size || 0 }))
+  }
+
+  protected async compareRefs(from: string, to: string, limit: number): Promise<RefComparison> {
+    const { data } = await this.octokit.rest.repos.compareCommitsWithBasehead({
+      ...this.repoParams(),
+      basehead: `${from}...${to}`,
+      per_page: Math.min(limit, 100)
+    })
+
+    const commits = data.commits.map(commit => this.toCommitData(commit))
+
+    const files: CommitFileChange[] = (data.files || []).map(file => ({
+      path: file.filename,
+      previousPath: file.previous_filename,
+      status: file.status === 'added' || file.status === 'removed' || file.status === 'renamed' ? file.status : 'modified',
+      additions: file.additions,
+      deletions: file.deletions
+    }))
+
+    return { commits, files }
+  }
+
+  protected async fetchReleases(limit: number): Promise<Milestone[]> {
+    const { data } = await this.octokit.rest.repos.listReleases({ ...this.repoParams(), per_page: Math.min(limit, 100) })
+    const published = data.filter(release => !release.draft)
+    if (published.length > 0) {
+      return published.map(release => milestoneFromRelease({
+        tag: release.tag_name,
+        name: release.name,
+        body: release.body,
+        date: release.published_at,
+        prerelease: release.prerelease,
+        url: release.html_url
+      }))
+    }
+
+    // The tags endpoint carries no dates; the CHANGELOG may fill them in
+    const { data: tags } = await this.octokit.rest.repos.listTags({ ...this.repoParams(), per_page: Math.min(limit, 100) })
+    return tags.map(tag => milestoneFromRelease({ tag: tag.name }, 'tag'))
+  }
+
+  private toCommitData(commit: GitHubCommit): CommitData {
+    return {
+      sha: commit.sha,
+      message: commit.commit.message,
+      author: commit.commit.author?.name || 'Unknown',
+      authorEmail: commit.commit.author?.email || undefined,
+      date: commit.commit.author?.date || '',
+      additions: 0, // List endpoints have no stats; they would need one request per commit
+      deletions: 0
+    }
+  }
+
+  private repoParams() {
+    return { owner: this.location.owner, repo: this.location.repo }
+  }
+}
@@ -0,0 +1,125 @@
+// GitHub page scraping
+// Last resort for github.com repositories when the API is unavailable (rate limits, outages);
+// only the default branch can be read, and most fields are partial or estimated
+
+import { CommitData, FileData, RepositoryData } from '../../types'
+import { calculateFileImportance, getFileType } from '../fileClassification'
+import { recordProvenance } from '../provenance'
+import { ProviderRequestError, RepositoryProvider } from './repositoryProvider'
+
+const MAX_SCRAPED_FILES = 50
+const MAX_SCRAPED_COMMITS = 10
+const README_NAMES = ['README.md', 'readme.md', 'README.txt', 'readme.txt']
+
+export function canScrapeRepository(provider: RepositoryProvider): boolean {
+  return provider.kind === 'github' && provider.location.host === 'github.com'
+}
+
+export async function scrapeGitHubRepository(provider: RepositoryProvider): Promise<RepositoryData> {
+  const { owner, repo, url } = provider.location
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new ProviderRequestError(`GitHub page request failed (${response.status}): ${url}`, response.status)
+  }
+
+  const html = await response.text()
+  const language = extractPrimaryLanguage(html)
+  const now = new Date().toISOString()
+
+  const repository: RepositoryData = {
+    url,
+    name: repo,
+    description: extractDescription(html),
+    language,
+    // Only the primary language is visible without rendering the page
+    languages: language !== 'Unknown' ? { [language]: 100 } : {},
+    dependencies: [],
+    commits: await extractRecentCommits(owner, repo),
+    files: await extractFileList(owner, repo),
+    readme: await extractReadme(provider),
+    screenshots: [],
+    createdAt: now,
+    updatedAt: now,
+    stars: extractCount(html, 'star'),
+    forks: extractCount(html, 'fork')
+  }
+
+  recordProvenance(repository, ['url', 'name', 'description', 'language', 'stars', 'forks'], 'scraped')
+  recordProvenance(repository, ['readme'], 'scraped', 'high')
+  recordProvenance(repository, ['languages'], 'inferred', 'low', '主要言語のみ')
+  recordProvenance(repository, ['files'], 'scraped', 'low', 'ルートディレクトリのみ・サイズ不明')
+  recordProvenance(repository, ['commits'], 'scraped', 'low', '日付と作者は推定')
+  recordProvenance(repository, ['dependencies', 'screenshots', 'createdAt', 'updatedAt'], 'fallback')
+  return repository
+}
+
+function extractDescription(html: string): string {
+  // Extract description from meta tags or repository about section
+  const metaDescMatch = html.match(/<meta name="description" content="([^"]+)"/)
+  if (metaDescMatch) return metaDescMatch[1]
+
+  const aboutMatch = html.match(/<p[^>]*class="[^"]*repository-content[^"]*"[^>]*>([^<]+)<\/p>/)
+  if (aboutMatch) return aboutMatch[1].trim()
+
+  return ''
+}
+
+function extractPrimaryLanguage(html: string): string {
+  const langMatch = html.match(/<span[^>]*class="[^"]*color-fg-default[^"]*"[^>]*>([^<]+)<\/span>/)
+  return langMatch ? langMatch[1].trim() : 'Unknown'
+}
+
+function extractCount(html: string, label: 'star' | 'fork'): number {
+  const match = html.match(new RegExp(`(\\d+)\\s*</span>\\s*<span[^>]*>\\s*${label}`, 'i'))
+  return match ? parseInt(match[1]) : 0
+}
+
+async function extractFileList(owner: string, repo: string): Promise<FileData[]> {
+  try {
+    const response = await fetch(`https://github.com/${owner}/${repo}/tree/main`)
+    const html = await response.text()
+
+    // Extract file list from repository tree page
+    const files: FileData[] = []
+    for (const [, path] of html.matchAll(/<a[^>]*href="\/[^"]*\/blob\/[^/"]+\/([^"]+)"[^>]*>[^<]+<\/a>/g)) {
+      if (files.some(file => file.path === path)) continue
+      files.push({ path, type: getFileType(path), size: 0, importance: calculateFileImportance(path) })
+    }
+    return files.slice(0, MAX_SCRAPED_FILES)
+  } catch {
+    return []
+  }
+}
+
+async function extractReadme(provider: RepositoryProvider): Promise<string> {
+  for (const filename of README_NAMES) {
+    try {
+      const response = await fetch(provider.getRawFileUrl(filename, 'main'))
+      if (response.ok) return await response.text()
+    } catch {
+      // Try the next name
+    }
+  }
+  return ''
+}
+
+async function extractRecentCommits(owner: string, repo: string): Promise<CommitData[]> {
+  try {
+    const response = await fetch(`https://github.com/${owner}/${repo}/commits`)
+    const html = await response.text()
+
+    // The commits page shows messages; dates and authors need the API, so they are placeholders
+    return Array.from(html.matchAll(/<a[^>]*class="[^"]*Link--primary[^"]*"[^>]*>([^<]+)<\/a>/g))
+      .slice(0, MAX_SCRAPED_COMMITS)
+      .map((match, index) => ({
+        sha: `commit_${index}`,
+        message: match[1].trim(),
+        author: owner,
+        date: new Date(Date.now() - index * 24 * 60 * 60 * 1000).toISOString(),
+        additions: 0,
+        deletions: 0
+      }))
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,196 @@
+import { CommitData, CommitFileChange, Milestone } from '../../types'
+import { milestoneFromRelease } from '../changelog'
+import {
+  BaseRepositoryProvider,
+  ProviderTreeEntry,
+  RefComparison,
+  RepositoryMetadata,
+  countDiffLines,
+  encodePath
+} from './repositoryProvider'
+
+interface GitLabProject {
+  name: string
+  description: string | null
+  default_branch: string | null
+  created_at: string
+  last_activity_at: string
+  star_count: number
+  forks_count: number
+  // Absent when the project has issues disabled
+  open_issues_count?: number
+}
+
+interface GitLabCommit {
+  id: string
+  message: string
+  author_name: string
+  author_email: string
+  authored_date: string
+  stats?: { additions: number; deletions: number }
+}
+
+interface GitLabComparison {
+  commits: GitLabCommit[]
+  diffs: {
+    old_path: string
+    new_path: string
+    new_file: boolean
+    renamed_file: boolean
+    deleted_file: boolean
+    diff: string
+  }[]
+}
+
+interface GitLabRelease {
+  tag_name: string
+  name: string | null
+  description: string | null
+  released_at: string
+  upcoming_release?: boolean
+  _links?: { self?: string }
+}
+
+interface GitLabTag {
+  name: string
+  commit: { created_at: string }
+}
+
+interface GitLabTreeItem {
+  path: string
+  type: 'blob' | 'tree' | 'commit'
+}
+
+const TREE_PAGE_SIZE = 100
+const MAX_TREE_PAGES = 50
+
+export class GitLabProvider extends BaseRepositoryProvider {
+  readonly kind = 'gitlab' as const
+
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
+    const query = new URLSearchParams({ ref: this.resolveRef(ref) })
+    return this.requestText(`${this.projectPath()}/repository/files/${encodeURIComponent(path)}/raw?${query}`)
+  }
+
+  getRawFileUrl(path: string, ref?: string): string {
+    return `${this.location.origin}/${this.location.fullPath}/-/raw/${encodeURIComponent(this.resolveRef(ref))}/${encodePath(path)}`
+  }
+
+  protected getDefaultApiBaseUrl(): string {
+    return `${this.location.origin}/api/v4`
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.options.token ? { 'PRIVATE-TOKEN': this.options.token } : {}
+  }
+
+  protected async fetchMetadata(): Promise<RepositoryMetadata> {
+    const project = await this.requestJson<GitLabProject>(this.projectPath())
+    return {
+      name: project.name,
+      description: project.description || '',
+      language: null, // Derived from the languages endpoint
+      defaultBranch: project.default_branch || 'main',
+      createdAt: project.created_at,
+      updatedAt: project.last_activity_at,
+      stars: project.star_count,
+      forks: project.forks_count,
+      openIssues: project.open_issues_count
+    }
+  }
+
+  // GitLab reports percentages rather than bytes; only the relative weights matter downstream
+  protected async fetchLanguages(): Promise<Record<string, number>> {
+    return this.requestJson<Record<string, number>>(`${this.projectPath()}/languages`)
+  }
+
+  protected async fetchCommits(ref: string, limit: number, path?: string): Promise<CommitData[]> {
+    const commits: CommitData[] = []
+    let page = '1'
+
+    while (page && commits.length < limit) {
+      const query = new URLSearchParams({
+        ref_name: ref,
+        per_page: String(Math.min(limit, 100)),
+        with_stats: 'true',
+        page
+      })
+      if (path) query.set('path', path)
+      const response = await this.request(`${this.projectPath()}/repository/commits?${query}`)
+      const items: GitLabCommit[] = await response.json()
+      commits.push(...items.map(commit => this.toCommitData(commit)))
+
+      page = response.headers.get('x-next-page') || ''
+    }
+
+    return commits.slice(0, limit)
+  }
+
+  protected async fetchTree(ref: string): Promise<ProviderTreeEntry[]> {
+    const entries: ProviderTreeEntry[] = []
+    let page = '1'
+
+    for (let i = 0; i < MAX_TREE_PAGES && page; i++) {
+      const query = new URLSearchParams({ ref, recursive: 'true', per_page: String(TREE_PAGE_SIZE), page })
+      const response = await this.request(`${this.projectPath()}/repository/tree?${query}`)
+      const items: GitLabTreeItem[] = await response.json()
+
+      // The tree endpoint doesn't report blob sizes
+      items
+        .filter(item => item.type === 'blob')
+        .forEach(item => entries.push({ path: item.path, size: 0 }))
+
+      page = response.headers.get('x-next-page') || ''
+    }
+
+    return entries
+  }
+
+  protected async compareRefs(from: string, to: string, limit: number): Promise<RefComparison> {
+    const query = new URLSearchParams({ from, to })
+    const comparison = await this.requestJson<GitLabComparison>(`${this.projectPath()}/repository/compare?${query}`)
+
+    const files: CommitFileChange[] = comparison.diffs.map(diff => ({
+      path: diff.new_path,
+      previousPath: diff.renamed_file ? diff.old_path : undefined,
+      status: diff.new_file ? 'added' : diff.deleted_file ? 'removed' : diff.renamed_file ? 'renamed' : 'modified',
+      ...countDiffLines(diff.diff)
+    }))
+
+    return { commits: comparison.commits.slice(-limit).map(commit => this.toCommitData(commit)), files }
+  }
+
+  protected async fetchReleases(limit: number): Promise<Milestone[]> {
+    const perPage = String(Math.min(limit, 100))
+    const releases = await this.requestJson<GitLabRelease[]>(`${this.projectPath()}/releases?per_page=${perPage}`)
+    if (releases.length > 0) {
+      return releases.map(release => milestoneFromRelease({
+        tag: release.tag_name,
+        name: release.name,
+        body: release.description,
+        date: release.released_at,
+        prerelease: release.upcoming_release,
+        url: release._links?.self
+      }))
+    }
+
+    const tags = await this.requestJson<GitLabTag[]>(`${this.projectPath()}/repository/tags?per_page=${perPage}`)
+    return tags.map(tag => milestoneFromRelease({ tag: tag.name, date: tag.commit.created_at }, 'tag'))
+  }
+
+  private toCommitData(commit: GitLabCommit): CommitData {
+    return {
+      sha: commit.id,
+      message: commit.message,
+      author: commit.author_name || 'Unknown',
+      authorEmail: commit.author_email || undefined,
+      date: commit.authored_date,
+      additions: commit.stats?.additions || 0,
+      deletions: commit.stats?.deletions || 0
+    }
+  }
+
+  private projectPath(): string {
+    return `/projects/${encodeURIComponent(this.location.fullPath)}`
+  }
+}
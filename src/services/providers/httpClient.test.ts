@@ -0,0 +1,226 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { FixtureServer } from './__fixtures__/fixtureServer'
+import { HttpClient, MemoryHttpCache, RateLimitError, parseQuota } from './httpClient'
+
+const LAST_MODIFIED = 'Wed, 01 May 2024 12:00:00 GMT'
+
+describe('HttpClient', () => {
+  let server: FixtureServer
+
+  beforeAll(async () => {
+    server = await FixtureServer.start({
+      interactions: [
+        {
+          path: '/items',
+          headers: { etag: '"items-1"', link: '<{origin}/items?page=2>; rel="next"' },
+          body: [{ id: 1 }, { id: 2 }]
+        },
+        { path: '/plain', body: { cached: false } }
+      ]
+    })
+  })
+  afterAll(() => server.close())
+  beforeEach(() => server.reset())
+
+  const url = (path: string) => `${server.origin}${path}`
+  const statuses = (path: string) => server.requestsTo(path).map(request => request.status)
+
+  // Answers the first `count` requests to `path` with the given reply
+  const failFirst = (path: string, count: number, reply: { status: number; headers?: Record<string, string>; body?: unknown }) => {
+    let failures = 0
+    server.use(requested => {
+      if (requested !== path || failures >= count) return undefined
+      failures++
+      return reply
+    })
+  }
+
+  describe('retries', () => {
+    it('backs off and retries server errors', async () => {
+      failFirst('/plain', 1, { status: 503, body: { message: 'Service Unavailable' } })
+
+      const response = await new HttpClient().fetch(url('/plain'))
+
+      expect(response.status).toBe(200)
+      expect(statuses('/plain')).toEqual([503, 200])
+    })
+
+    it('hands a server error back once the retries run out', async () => {
+      failFirst('/plain', 1, { status: 502, body: { message: 'Bad Gateway' } })
+
+      const response = await new HttpClient({ maxRetries: 0 }).fetch(url('/plain'))
+
+      expect(response.status).toBe(502)
+    })
+
+    it('does not retry client errors', async () => {
+      const response = await new HttpClient().fetch(url('/missing'))
+
+      expect(response.status).toBe(404)
+      expect(statuses('/missing')).toEqual([404])
+    })
+
+    it('backs off after network failures and rethrows the last one', async () => {
+      const closed = await FixtureServer.start({ interactions: [] })
+      const origin = closed.origin
+      await closed.close()
+
+      await expect(new HttpClient({ maxRetries: 1 }).fetch(`${origin}/plain`)).rejects.toThrow()
+    })
+  })
+
+  describe('rate limits', () => {
+    it('waits for Retry-After on a 429', async () => {
+      failFirst('/plain', 1, { status: 429, headers: { 'retry-after': '1' } })
+      const startedAt = Date.now()
+
+      const response = await new HttpClient().fetch(url('/plain'))
+
+      expect(response.status).toBe(200)
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000)
+    })
+
+    it('throws a RateLimitError when the primary quota resets too late', async () => {
+      const reset = Math.floor(Date.now() / 1000) + 3600
+      failFirst('/plain', 1, {
+        status: 403,
+        headers: { 'x-ratelimit-limit': '60', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) },
+        body: { message: 'API rate limit exceeded' }
+      })
+
+      const error = await new HttpClient().fetch(url('/plain')).catch(caught => caught)
+
+      expect(error).toBeInstanceOf(RateLimitError)
+      expect(error).toMatchObject({ status: 403, resetAt: new Date(reset * 1000).toISOString() })
+    })
+
+    it('recognizes secondary rate limits from the body', async () => {
+      failFirst('/plain', 1, { status: 403, body: { message: 'You have exceeded a secondary rate limit' } })
+
+      await expect(new HttpClient({ maxWaitMs: 1000 }).fetch(url('/plain'))).rejects.toBeInstanceOf(RateLimitError)
+    })
+
+    it('passes other 403s through', async () => {
+      failFirst('/plain', 1, { status: 403, body: { message: 'Resource not accessible by integration' } })
+
+      const response = await new HttpClient().fetch(url('/plain'))
+
+      expect(response.status).toBe(403)
+    })
+
+    it('reports the quota of every response', async () => {
+      failFirst('/plain', 1, {
+        status: 200,
+        headers: { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '4999', 'x-ratelimit-reset': '1893456000', 'x-ratelimit-resource': 'search' },
+        body: {}
+      })
+      const quotas: unknown[] = []
+
+      await new HttpClient({ onQuota: quota => quotas.push(quota) }).fetch(url('/plain'))
+
+      expect(quotas).toEqual([{
+        host: new URL(server.origin).host,
+        resource: 'search',
+        limit: 5000,
+        remaining: 4999,
+        resetAt: '2030-01-01T00:00:00.000Z'
+      }])
+    })
+  })
+
+  describe('conditional requests', () => {
+    it('replays a cached body and its headers on 304', async () => {
+      const client = new HttpClient({ cache: new MemoryHttpCache() })
+      const first = await client.fetch(url('/items'))
+      const firstBody = await first.json()
+
+      const second = await client.fetch(url('/items'))
+
+      expect(server.requestsTo('/items').map(request => [request.status, request.headers['if-none-match']])).toEqual([
+        [200, undefined],
+        [304, '"items-1"']
+      ])
+      expect(second.status).toBe(200)
+      expect(await second.json()).toEqual(firstBody)
+      expect(second.headers.get('link')).toBe(`<${server.origin}/items?page=2>; rel="next"`)
+    })
+
+    it('falls back to If-Modified-Since without an ETag', async () => {
+      server.use((path, request) => {
+        if (path !== '/dated') return undefined
+        return request.headers['if-modified-since'] === LAST_MODIFIED
+          ? { status: 304 }
+          : { status: 200, headers: { 'last-modified': LAST_MODIFIED }, body: { dated: true } }
+      })
+      const client = new HttpClient({ cache: new MemoryHttpCache() })
+
+      await client.fetch(url('/dated'))
+      const second = await client.fetch(url('/dated'))
+
+      expect(statuses('/dated')).toEqual([200, 304])
+      expect(await second.json()).toEqual({ dated: true })
+    })
+
+    it('keys the cache by credentials without storing the token', async () => {
+      const memory = new MemoryHttpCache()
+      const keys: string[] = []
+      const client = new HttpClient({
+        cache: {
+          getHttpCacheEntry: key => {
+            keys.push(key)
+            return memory.getHttpCacheEntry(key)
+          },
+          putHttpCacheEntry: entry => memory.putHttpCacheEntry(entry)
+        }
+      })
+
+      await client.fetch(url('/items'), { headers: { Authorization: 'Bearer first-token' } })
+      await client.fetch(url('/items'), { headers: { Authorization: 'Bearer first-token' } })
+      await client.fetch(url('/items'), { headers: { Authorization: 'Bearer second-token' } })
+
+      expect(statuses('/items')).toEqual([200, 304, 200])
+      expect(new Set(keys).size).toBe(2)
+      expect(keys.some(key => key.includes('token'))).toBe(false)
+    })
+
+    it('only caches GET responses that carry a validator', async () => {
+      const cache = new MemoryHttpCache()
+      const client = new HttpClient({ cache })
+
+      await client.fetch(url('/plain'))
+      await client.fetch(url('/plain'))
+      await client.fetch(url('/items'), { method: 'POST' })
+      await client.fetch(url('/items'), { method: 'POST' })
+
+      expect(server.requests.map(request => request.status)).toEqual([200, 200, 200, 200])
+      expect(server.requests.some(request => request.headers['if-none-match'])).toBe(false)
+    })
+  })
+})
+
+describe('MemoryHttpCache', () => {
+  it('evicts the least recently stored entries past its limit', async () => {
+    const cache = new MemoryHttpCache()
+    const entry = (key: string) => ({ key, status: 200, headers: {}, body: '', etag: '"e"', storedAt: new Date().toISOString() })
+
+    for (let i = 0; i < 501; i++) await cache.putHttpCacheEntry(entry(`key-${i}`))
+
+    expect(await cache.getHttpCacheEntry('key-0')).toBeUndefined()
+    expect(await cache.getHttpCacheEntry('key-1')).toBeDefined()
+    expect(await cache.getHttpCacheEntry('key-500')).toBeDefined()
+  })
+})
+
+describe('parseQuota', () => {
+  it('reads the draft standard headers, where the reset is relative', () => {
+    const before = Date.now()
+    const quota = parseQuota('gitlab.com', new Headers({ 'ratelimit-limit': '2000', 'ratelimit-remaining': '10', 'ratelimit-reset': '60' }))
+
+    expect(quota).toMatchObject({ host: 'gitlab.com', resource: 'core', limit: 2000, remaining: 10 })
+    expect(new Date(quota!.resetAt).getTime()).toBeGreaterThanOrEqual(before + 59000)
+  })
+
+  it('ignores responses without quota headers', () => {
+    expect(parseQuota('gitea.com', new Headers())).toBeNull()
+  })
+})
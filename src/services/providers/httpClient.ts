@@ -0,0 +1,219 @@
+// Provider HTTP layer
+// Every hosting API request goes through here: retries with backoff, rate limit waits, quota tracking
+// and ETag revalidation, so repeating an analysis mostly costs 304s (which GitHub doesn't count)
+
+import { RateLimitQuota } from '../../types'
+
+export interface HttpCacheEntry {
+  key: string
+  etag?: string
+  lastModified?: string
+  status: number
+  headers: Record<string, string>
+  body: string
+  storedAt: string
+}
+
+// StorageService keeps entries in IndexedDB; functions fall back to memory, which lives as long as a warm instance
+export interface HttpCacheStore {
+  getHttpCacheEntry(key: string): Promise<HttpCacheEntry | undefined>
+  putHttpCacheEntry(entry: HttpCacheEntry): Promise<void>
+}
+
+export interface HttpClientOptions {
+  cache?: HttpCacheStore
+  onQuota?: (quota: RateLimitQuota) => void
+  maxRetries?: number
+  // Longest single wait for a rate limit or backoff; anything longer fails right away
+  maxWaitMs?: number
+}
+
+export class RateLimitError extends Error {
+  constructor(message: string, readonly status: number, readonly resetAt: string) {
+    super(message)
+    this.name = 'RateLimitError'
+  }
+}
+
+const DEFAULT_MAX_RETRIES = 3
+// Functions time out after a few seconds more than this
+const DEFAULT_MAX_WAIT_MS = 15000
+const BASE_BACKOFF_MS = 500
+// GitHub asks for at least a minute when a secondary rate limit comes without `retry-after`
+const SECONDARY_RATE_LIMIT_WAIT_MS = 60000
+const RETRYABLE_STATUSES = [500, 502, 503, 504]
+const MAX_CACHED_BODY_LENGTH = 5_000_000
+const MEMORY_CACHE_LIMIT = 500
+// Headers Octokit and the providers read back from a replayed response, paging signals included
+const REPLAYED_HEADERS = ['content-type', 'link', 'etag', 'last-modified', 'x-next-page', 'x-hasmore']
+
+export class MemoryHttpCache implements HttpCacheStore {
+  private entries = new Map<string, HttpCacheEntry>()
+
+  async getHttpCacheEntry(key: string): Promise<HttpCacheEntry | undefined> {
+    return this.entries.get(key)
+  }
+
+  async putHttpCacheEntry(entry: HttpCacheEntry): Promise<void> {
+    // Maps keep insertion order, so re-inserting marks the entry as the newest
+    this.entries.delete(entry.key)
+    this.entries.set(entry.key, entry)
+    const oldest = this.entries.keys().next().value
+    if (this.entries.size > MEMORY_CACHE_LIMIT && oldest !== undefined) {
+      this.entries.delete(oldest)
+    }
+  }
+}
+
+export const memoryHttpCache = new MemoryHttpCache()
+
+export class HttpClient {
+  constructor(private readonly options: HttpClientOptions = {}) {}
+
+  // Same shape as fetch, so it can also serve as Octokit's `request.fetch`
+  fetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const { cache } = this.options
+    const headers = new Headers(init.headers)
+    const cacheKey = cache && (init.method || 'GET').toUpperCase() === 'GET' ? this.getCacheKey(url, headers) : null
+    const cached = cache && cacheKey ? await cache.getHttpCacheEntry(cacheKey).catch(() => undefined) : undefined
+    if (cached?.etag) {
+      headers.set('If-None-Match', cached.etag)
+    } else if (cached?.lastModified) {
+      headers.set('If-Modified-Since', cached.lastModified)
+    }
+
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES
+    for (let attempt = 0; ; attempt++) {
+      let response: Response
+      try {
+        response = await fetch(url, { ...init, headers })
+      } catch (error) {
+        // Network failures get the same backoff as server errors
+        if (attempt >= maxRetries) throw error
+        await sleep(backoff(attempt))
+        continue
+      }
+      this.trackQuota(url, response)
+
+      if (response.status === 304 && cache && cached) {
+        // Touch the entry so cleanup and the memory cache treat it as recently used
+        cache.putHttpCacheEntry({ ...cached, storedAt: new Date().toISOString() })
+          .catch(error => console.warn('Failed to cache response:', error))
+        return replay(cached)
+      }
+
+      const delay = await this.getRetryDelay(url, response, attempt, maxRetries)
+      if (delay === null) {
+        if (response.ok && cache && cacheKey) await this.store(cache, cacheKey, response)
+        return response
+      }
+      await sleep(delay)
+    }
+  }
+
+  // Null hands the response back to the caller; a rate limit that can't be waited out throws
+  private async getRetryDelay(url: string, response: Response, attempt: number, maxRetries: number): Promise<number | null> {
+    const rateLimited = await isRateLimited(response)
+    if (!rateLimited && !RETRYABLE_STATUSES.includes(response.status)) return null
+
+    const delay = rateLimited ? getRateLimitDelay(response.headers) : backoff(attempt)
+    if (attempt < maxRetries && delay <= (this.options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS)) return delay
+    if (!rateLimited) return null
+
+    const resetAt = new Date(Date.now() + delay).toISOString()
+    throw new RateLimitError(`Rate limit exceeded for ${new URL(url).host} (resets at ${resetAt})`, response.status, resetAt)
+  }
+
+  private trackQuota(url: string, response: Response) {
+    const quota = parseQuota(new URL(url).host, response.headers)
+    if (quota) this.options.onQuota?.(quota)
+  }
+
+  private async store(cache: HttpCacheStore, key: string, response: Response) {
+    const etag = response.headers.get('etag') || undefined
+    const lastModified = response.headers.get('last-modified') || undefined
+    if (!etag && !lastModified) return
+
+    const body = await response.clone().text()
+    if (body.length > MAX_CACHED_BODY_LENGTH) return
+
+    const headers: Record<string, string> = {}
+    REPLAYED_HEADERS.forEach(name => {
+      const value = response.headers.get(name)
+      if (value) headers[name] = value
+    })
+    await cache.putHttpCacheEntry({ key, etag, lastModified, status: response.status, headers, body, storedAt: new Date().toISOString() })
+      .catch(error => console.warn('Failed to cache response:', error))
+  }
+
+  // Responses differ by media type and by who is asking (private repositories), never by the token itself
+  private getCacheKey(url: string, headers: Headers): string {
+    const authorization = headers.get('authorization')
+    return [url, headers.get('accept') || '', authorization ? fingerprint(authorization) : 'anonymous'].join(' ')
+  }
+}
+
+export function parseQuota(host: string, headers: Headers): RateLimitQuota | null {
+  // GitHub, Gitea and Bitbucket use `x-ratelimit-*`, GitLab the draft standard `ratelimit-*`
+  const read = (name: string) => headers.get(`x-ratelimit-${name}`) ?? headers.get(`ratelimit-${name}`)
+  const limit = Number(read('limit'))
+  const remaining = Number(read('remaining'))
+  if (!read('limit') || !read('remaining') || isNaN(limit) || isNaN(remaining)) return null
+
+  return {
+    host,
+    resource: headers.get('x-ratelimit-resource') || 'core',
+    limit,
+    remaining,
+    resetAt: new Date(parseReset(read('reset')) ?? Date.now()).toISOString()
+  }
+}
+
+async function isRateLimited(response: Response): Promise<boolean> {
+  if (response.status === 429) return true
+  if (response.status !== 403) return false
+  if (response.headers.get('retry-after') || response.headers.get('x-ratelimit-remaining') === '0') return true
+  // Secondary rate limits only say so in the body
+  const body = await response.clone().text().catch(() => '')
+  return /rate limit/i.test(body)
+}
+
+function getRateLimitDelay(headers: Headers): number {
+  const retryAfter = Number(headers.get('retry-after'))
+  if (retryAfter > 0) return retryAfter * 1000
+
+  const reset = parseReset(headers.get('x-ratelimit-reset') ?? headers.get('ratelimit-reset'))
+  if (reset !== null && headers.get('x-ratelimit-remaining') === '0') {
+    return Math.max(reset - Date.now(), 0)
+  }
+  return SECONDARY_RATE_LIMIT_WAIT_MS
+}
+
+// Epoch seconds, or seconds from now for small values (the draft `ratelimit-reset`)
+function parseReset(value: string | null): number | null {
+  const seconds = Number(value)
+  if (!value || isNaN(seconds)) return null
+  return seconds > 1e9 ? seconds * 1000 : Date.now() + seconds * 1000
+}
+
+function replay(entry: HttpCacheEntry): Response {
+  return new Response(entry.body, { status: entry.status, headers: entry.headers })
+}
+
+function backoff(attempt: number): number {
+  return BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// FNV-1a; keeps tokens out of the cache keys stored in IndexedDB
+function fingerprint(value: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
@@ -0,0 +1,122 @@
+// Repository provider selection
+// Picks the hosting service implementation for a repository URL, including self-hosted instances
+
+import { RepositoryProvider, ProviderOptions } from './repositoryProvider'
+import { GitHubProvider } from './github'
+import { GitLabProvider } from './gitlab'
+import { BitbucketProvider } from './bitbucket'
+import { GiteaProvider } from './gitea'
+import { KNOWN_PROVIDER_HOSTS, ProviderKind, RepositoryLocation, parseRepositoryUrl } from './repositoryUrl'
+
+export * from './repositoryProvider'
+export * from './repositoryUrl'
+export * from './httpClient'
+
+export interface ProviderResolutionOptions extends ProviderOptions {
+  // Forces a provider, skipping host detection
+  provider?: ProviderKind
+  // Self-hosted instances, keyed by host (e.g. `git.example.com`)
+  hosts?: Record<string, ProviderKind>
+  // Per-provider tokens, used when `token` is not given
+  tokens?: Partial<Record<ProviderKind, string>>
+}
+
+const PROVIDER_KINDS: ProviderKind[] = ['github', 'gitlab', 'bitbucket', 'gitea']
+const PROBE_TIMEOUT_MS = 5000
+
+export function createRepositoryProvider(
+  kind: ProviderKind,
+  location: RepositoryLocation,
+  options: ProviderOptions = {}
+): RepositoryProvider {
+  switch (kind) {
+    case 'github':
+      return new GitHubProvider(location, options)
+    case 'gitlab':
+      return new GitLabProvider(location, options)
+    case 'bitbucket':
+      return new BitbucketProvider(location, options)
+    case 'gitea':
+      return new GiteaProvider(location, options)
+  }
+}
+
+export async function resolveRepositoryProvider(
+  url: string,
+  options: ProviderResolutionOptions = {}
+): Promise<RepositoryProvider> {
+  const location = parseRepositoryUrl(url)
+  const kind = options.provider
+    || detectProviderKind(location, options.hosts)
+    || await probeProviderKind(location)
+
+  if (!kind) {
+    throw new Error(`Unsupported repository host: ${location.host}`)
+  }
+
+  return createRepositoryProvider(kind, location, {
+    token: options.token || options.tokens?.[kind],
+    apiBaseUrl: options.apiBaseUrl,
+    commitLimit: options.commitLimit,
+    onProgress: options.onProgress,
+    httpCache: options.httpCache,
+    onQuota: options.onQuota
+  })
+}
+
+export function detectProviderKind(
+  location: RepositoryLocation,
+  hosts: Record<string, ProviderKind> = {}
+): ProviderKind | null {
+  // Configured hosts may omit the port
+  const hostname = location.host.replace(/:\d+$/, '')
+  const configured = hosts[location.host] || hosts[hostname] || KNOWN_PROVIDER_HOSTS[location.host]
+  if (configured) return configured
+
+  // Self-hosted instances are commonly named after the software (gitlab.example.com, gitea.example.org)
+  if (/(^|[.-])gitlab([.-]|$)/.test(location.host)) return 'gitlab'
+  if (/(^|[.-])(gitea|forgejo)([.-]|$)/.test(location.host)) return 'gitea'
+  if (/(^|[.-])github([.-]|$)/.test(location.host)) return 'github'
+
+  return null
+}
+
+// Asks the host which API it speaks; each check hits an endpoint that answers without authentication
+export async function probeProviderKind(location: RepositoryLocation): Promise<ProviderKind | null> {
+  const probes: [ProviderKind, string][] = [
+    ['gitea', `${location.origin}/api/v1/version`],
+    ['gitlab', `${location.origin}/api/v4/projects?per_page=1`],
+    ['github', `${location.origin}/api/v3/meta`]
+  ]
+
+  for (const [kind, url] of probes) {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS)
+    try {
+      const response = await fetch(url, { signal: controller.signal, headers: { Accept: 'application/json' } })
+      if (response.ok && (response.headers.get('content-type') || '').includes('json')) {
+        return kind
+      }
+    } catch {
+      // Unreachable or not this provider; try the next one
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+
+  return null
+}
+
+// Parses `host=kind` pairs, e.g. the REPOSITORY_PROVIDER_HOSTS environment variable
+export function parseProviderHosts(value: string | undefined): Record<string, ProviderKind> {
+  const hosts: Record<string, ProviderKind> = {}
+
+  for (const pair of (value || '').split(',')) {
+    const [host, kind] = pair.split('=').map(part => part.trim().toLowerCase())
+    if (host && PROVIDER_KINDS.includes(kind as ProviderKind)) {
+      hosts[host] = kind as ProviderKind
+    }
+  }
+
+  return hosts
+}
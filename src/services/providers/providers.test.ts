@@ -0,0 +1,209 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { RateLimitQuota } from '../../types'
+import { FixtureServer, Recording } from './__fixtures__/fixtureServer'
+import github from './__fixtures__/github.json'
+import gitlab from './__fixtures__/gitlab.json'
+import bitbucket from './__fixtures__/bitbucket.json'
+import gitea from './__fixtures__/gitea.json'
+import { MemoryHttpCache, createRepositoryProvider, parseRepositoryUrl } from '.'
+import { ProviderKind } from './repositoryUrl'
+import { ProviderOptions } from './repositoryProvider'
+
+interface ProviderCase {
+  kind: ProviderKind
+  url: string
+  recording: Recording
+  metadataPath: string
+  commitsPath: string
+  treePath: string
+  treePages: number
+  stars: number
+  openIssues?: number
+}
+
+const CASES: ProviderCase[] = [
+  {
+    kind: 'github',
+    url: 'https://github.com/acme/widgets',
+    recording: github,
+    metadataPath: '/repos/acme/widgets',
+    commitsPath: '/repos/acme/widgets/commits',
+    treePath: '/repos/acme/widgets/git/trees/',
+    // The recursive tree comes in one response
+    treePages: 1,
+    stars: 42,
+    openIssues: 3
+  },
+  {
+    kind: 'gitlab',
+    url: 'https://gitlab.com/acme/widgets',
+    recording: gitlab,
+    metadataPath: '/projects/acme%2Fwidgets',
+    commitsPath: '/projects/acme%2Fwidgets/repository/commits',
+    treePath: '/projects/acme%2Fwidgets/repository/tree',
+    treePages: 2,
+    stars: 42,
+    openIssues: 3
+  },
+  {
+    kind: 'bitbucket',
+    url: 'https://bitbucket.org/acme/widgets',
+    recording: bitbucket,
+    metadataPath: '/repositories/acme/widgets',
+    commitsPath: '/repositories/acme/widgets/commits/',
+    treePath: '/repositories/acme/widgets/src/main/?',
+    treePages: 2,
+    stars: 0,
+    // Bitbucket's repository endpoint has no issue count
+    openIssues: undefined
+  },
+  {
+    kind: 'gitea',
+    url: 'https://gitea.com/acme/widgets',
+    recording: gitea,
+    metadataPath: '/repos/acme/widgets',
+    commitsPath: '/repos/acme/widgets/commits',
+    treePath: '/repos/acme/widgets/git/trees/',
+    treePages: 2,
+    stars: 42,
+    openIssues: 3
+  }
+]
+
+describe.each(CASES)('$kind provider', ({ kind, url, recording, metadataPath, commitsPath, treePath, treePages, stars, openIssues }) => {
+  let server: FixtureServer
+
+  beforeAll(async () => {
+    server = await FixtureServer.start(recording)
+  })
+  afterAll(() => server.close())
+  beforeEach(() => server.reset())
+
+  const createProvider = (options: ProviderOptions = {}) => createRepositoryProvider(kind, parseRepositoryUrl(url), {
+    apiBaseUrl: server.origin,
+    httpCache: new MemoryHttpCache(),
+    ...options
+  })
+  const isMetadataRequest = (path: string) => path.split('?')[0] === metadataPath
+
+  it('maps the recorded responses onto RepositoryData', async () => {
+    const repository = await createProvider().analyzeRepository()
+
+    expect(repository).toMatchObject({ name: 'widgets', description: 'A small widget toolkit', stars, forks: 7 })
+    expect(repository.openIssues).toBe(openIssues)
+    expect(repository.commits.map(commit => [commit.author, commit.authorEmail])).toEqual([
+      ['Alice Example', 'alice@example.com'],
+      ['Bob Example', 'bob@example.com']
+    ])
+    expect(repository.commits[0].message.trim()).toBe('Add typed widget API')
+    expect(repository.readme).toContain('- Fast rendering')
+    expect(repository.dependencies.map(dependency => dependency.name)).toContain('react')
+    expect(repository.releaseHistory?.milestones[0]?.version).toBe('v1.0.0')
+    expect(repository.language).toBe('TypeScript')
+  })
+
+  it('follows the tree listing across pages', async () => {
+    const repository = await createProvider().analyzeRepository()
+
+    expect(repository.files.map(file => file.path).sort()).toEqual(['README.md', 'package.json', 'src/index.ts'])
+    expect(server.requestsTo(treePath)).toHaveLength(treePages)
+  })
+
+  it('follows the commit history across pages', async () => {
+    const repository = await createProvider().analyzeRepository()
+
+    expect(repository.commits.map(commit => commit.sha)).toEqual([
+      'c2f1e0d9b8a7c6d5e4f3a2b1c0d9e8f7a6b5c4d3',
+      'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678'
+    ])
+    expect(server.requestsTo(commitsPath)).toHaveLength(2)
+  })
+
+  it('stops paging at the commit limit', async () => {
+    const repository = await createProvider({ commitLimit: 1 }).analyzeRepository()
+
+    expect(repository.commits).toHaveLength(1)
+    expect(server.requestsTo(commitsPath)).toHaveLength(1)
+  })
+
+  it('revalidates cached responses with their ETags', async () => {
+    const httpCache = new MemoryHttpCache()
+    const first = await createProvider({ httpCache }).analyzeRepository()
+    server.reset()
+    const second = await createProvider({ httpCache }).analyzeRepository()
+
+    const metadata = server.requests.filter(request => isMetadataRequest(request.path))
+    expect(metadata).toHaveLength(1)
+    expect(metadata[0].headers['if-none-match']).toBeTruthy()
+    expect(metadata[0].status).toBe(304)
+    expect(second.name).toBe(first.name)
+    expect(second.commits).toEqual(first.commits)
+    expect(second.readme).toBe(first.readme)
+  })
+
+  it('waits out a 429 with Retry-After and retries', async () => {
+    let limited = false
+    server.use(path => {
+      if (!isMetadataRequest(path) || limited) return undefined
+      limited = true
+      return { status: 429, headers: { 'retry-after': '1' }, body: { message: 'Too Many Requests' } }
+    })
+
+    const repository = await createProvider().analyzeRepository()
+
+    expect(repository.name).toBe('widgets')
+    expect(server.requests.filter(request => isMetadataRequest(request.path)).map(request => request.status)).toEqual([429, 200])
+  })
+
+  it('fails fast when the Retry-After is longer than it may wait', async () => {
+    server.use(path => (isMetadataRequest(path)
+      ? { status: 429, headers: { 'retry-after': '3600' }, body: { message: 'Too Many Requests' } }
+      : undefined))
+
+    // Octokit wraps the RateLimitError in its own HttpError, keeping the message
+    await expect(createProvider().analyzeRepository()).rejects.toThrow(/Rate limit exceeded/)
+    expect(server.requests.filter(request => isMetadataRequest(request.path))).toHaveLength(1)
+  })
+
+  it('rejects when the repository does not exist', async () => {
+    server.use(path => (isMetadataRequest(path) ? { status: 404, body: { message: 'Not Found' } } : undefined))
+
+    await expect(createProvider().analyzeRepository()).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('degrades to empty history when the commits endpoint fails', async () => {
+    server.use(path => (path.startsWith(commitsPath) ? { status: 403, body: { message: 'Forbidden' } } : undefined))
+    const steps: string[] = []
+
+    const repository = await createProvider({
+      onProgress: event => steps.push(`${event.step}:${event.status}`)
+    }).analyzeRepository()
+
+    expect(repository.commits).toEqual([])
+    expect(repository.files.length).toBeGreaterThan(0)
+    expect(repository.provenance?.commits?.source).toBe('fallback')
+    expect(steps).toContain('history:failed')
+  })
+})
+
+describe('quota tracking', () => {
+  it.each([
+    ['github', github, 4990],
+    ['gitlab', gitlab, 1995]
+  ] as const)('reads the %s rate limit headers', async (kind, recording, remaining) => {
+    const server = await FixtureServer.start(recording)
+    const host = new URL(server.origin).host
+    const quotas: RateLimitQuota[] = []
+    try {
+      await createRepositoryProvider(kind, parseRepositoryUrl(`https://${kind}.com/acme/widgets`), {
+        apiBaseUrl: server.origin,
+        httpCache: new MemoryHttpCache(),
+        onQuota: quota => quotas.push(quota)
+      }).analyzeRepository()
+    } finally {
+      await server.close()
+    }
+
+    expect(quotas[0]).toMatchObject({ host, remaining, resetAt: '2030-01-01T00:00:00.000Z' })
+  })
+})
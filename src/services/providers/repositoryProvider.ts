@@ -0,0 +1,409 @@
+// Repository provider abstraction
+// Each hosting service maps its own API onto the same RepositoryData shape
+
+import { AnalysisStepEvent, RateLimitQuota, RepositoryData, CommitData, CommitFileChange, FileData, ImageData, Milestone } from '../../types'
+import { getFileType, detectLanguage, calculateFileImportance } from '../fileClassification'
+import { MANIFEST_FILES, findManifestPaths, parseManifests } from '../manifestParser'
+import { diffDependencies } from '../releaseAnalysis'
+import { selectExcerptCandidates } from '../codeExcerpt'
+import { extractApiSurface } from '../apiSurface'
+import { analyzeTests, isTestFile } from '../testAnalysis'
+import { analyzeDelivery } from '../deliveryAnalysis'
+import { analyzeContributors } from '../contributorAnalysis'
+import { analyzeCodeMetrics } from '../codeMetrics'
+import { buildReleaseHistory, findChangelogPath } from '../changelog'
+import { collectScreenshots } from '../screenshots'
+import { fillProvenance, recordProvenance } from '../provenance'
+import { detectWorkspace, findPackageReadme, mergeWorkspaceDependencies, scopeToPackage } from '../workspace'
+import { ProviderKind, RepositoryLocation } from './repositoryUrl'
+import { HttpCacheStore, HttpClient, memoryHttpCache } from './httpClient'
+
+export interface ProviderOptions {
+  token?: string
+  // Overrides the API root, e.g. for a proxy or a server replaying recorded responses
+  apiBaseUrl?: string
+  commitLimit?: number
+  // Called as each part of the analysis starts, finishes or degrades
+  onProgress?: (event: AnalysisStepEvent) => void
+  // ETag store for conditional requests; defaults to an in-memory cache
+  httpCache?: HttpCacheStore
+  onQuota?: (quota: RateLimitQuota) => void
+}
+
+export interface RepositoryMetadata {
+  name: string
+  description: string
+  language: string | null
+  defaultBranch: string
+  createdAt: string
+  updatedAt: string
+  stars: number
+  forks: number
+  openIssues?: number
+}
+
+export interface ProviderTreeEntry {
+  path: string
+  size: number
+}
+
+export interface RefComparison {
+  commits: CommitData[]
+  files: CommitFileChange[]
+}
+
+export interface RepositoryProvider {
+  readonly kind: ProviderKind
+  readonly location: RepositoryLocation
+  // `packagePath` limits the analysis to one workspace package directory
+  analyzeRepository(ref?: string, packagePath?: string): Promise<RepositoryData>
+  analyzeRange(from: string, to: string, packagePath?: string): Promise<RepositoryData>
+  getFileContent(path: string, ref?: string): Promise<string | null>
+  getRawFileUrl(path: string, ref?: string): string
+}
+
+export class ProviderRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = 'ProviderRequestError'
+  }
+}
+
+// Enough history for contributor shares and weekly activity to cover more than the last few weeks; providers page through it
+const DEFAULT_COMMIT_LIMIT = 500
+const RANGE_COMMIT_LIMIT = 250
+// Source files downloaded for code excerpts and the import graph, test files for counting test cases
+const SOURCE_CONTENT_LIMIT = 30
+const TEST_CONTENT_LIMIT = 15
+const RELEASE_LIMIT = 30
+const README_PATTERN = /^readme(\.(md|markdown|mdx|rst|txt))?$/i
+
+export abstract class BaseRepositoryProvider implements RepositoryProvider {
+  abstract readonly kind: ProviderKind
+  protected readonly apiBaseUrl: string
+  protected readonly http: HttpClient
+  protected defaultBranch: string | null = null
+
+  constructor(readonly location: RepositoryLocation, protected readonly options: ProviderOptions = {}) {
+    this.apiBaseUrl = (options.apiBaseUrl || this.getDefaultApiBaseUrl()).replace(/\/$/, '')
+    this.http = new HttpClient({ cache: options.httpCache || memoryHttpCache, onQuota: options.onQuota })
+  }
+
+  async analyzeRepository(ref?: string, packagePath?: string): Promise<RepositoryData> {
+    const { repository, tree } = await this.analyzeSnapshot(ref, packagePath)
+    return packagePath ? this.scopeToPackage(repository, tree, packagePath) : repository
+  }
+
+  // Snapshot at `to`, with history, files touched and dependency changes limited to `from..to`
+  async analyzeRange(from: string, to: string, packagePath?: string): Promise<RepositoryData> {
+    const { repository, tree } = await this.analyzeSnapshot(to)
+    // `HEAD` is resolved to the default branch by the snapshot
+    const target = repository.ref || to
+    this.report({ step: 'release', status: 'started', detail: `${from}..${target}` })
+    // Compare endpoints can't filter by path; scoping narrows the changed files but keeps every commit
+    const comparison = await this.compareRefs(from, target, RANGE_COMMIT_LIMIT)
+
+    // The old tree is unknown, so today's manifests are probed at `from`. Root (or package) manifests
+    // only, so the merged workspace dependencies don't show up as additions
+    const previousDependencies = parseManifests(await this.fetchManifests(tree, from, packagePath))
+    const currentDependencies = parseManifests(await this.fetchManifests(tree, target, packagePath))
+
+    const ranged: RepositoryData = {
+      ...repository,
+      // Compare endpoints disagree on ordering, so normalize to newest first like the history views
+      commits: [...comparison.commits]
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+        .slice(0, RANGE_COMMIT_LIMIT),
+      release: {
+        from,
+        to: target,
+        filesChanged: comparison.files,
+        dependencyChanges: diffDependencies(previousDependencies, currentDependencies)
+      }
+    }
+    recordProvenance(ranged, ['commits', 'release'], 'api')
+    this.report({ step: 'release', status: 'completed', partial: { release: ranged.release } })
+    return packagePath ? this.scopeToPackage(ranged, tree, packagePath) : ranged
+  }
+
+  private async analyzeSnapshot(
+    requestedRef?: string,
+    historyPath?: string
+  ): Promise<{ repository: RepositoryData; tree: ProviderTreeEntry[] }> {
+    this.report({ step: 'metadata', status: 'started' })
+    const metadata = await this.fetchMetadata()
+    this.defaultBranch = metadata.defaultBranch
+    const ref = requestedRef && requestedRef !== 'HEAD' ? requestedRef : metadata.defaultBranch
+    this.report({
+      step: 'metadata',
+      status: 'completed',
+      partial: {
+        name: metadata.name,
+        description: metadata.description,
+        language: metadata.language || undefined,
+        stars: metadata.stars,
+        forks: metadata.forks
+      }
+    })
+
+    // Only the metadata call is fatal; the rest degrades to empty data so one failing endpoint
+    // doesn't take down the whole analysis. Degraded fields are recorded in the provenance
+    const failed = new Map<string, string>()
+    const degrade = <T>(what: string, fallback: T) => (error: unknown) => {
+      failed.set(what, error instanceof Error ? error.message : String(error))
+      return this.warnAndDefault(what, error, fallback)
+    }
+    this.report({ step: 'tree', status: 'started' })
+    this.report({ step: 'history', status: 'started' })
+    const [languages, commits, tree, releases] = await Promise.all([
+      this.fetchLanguages().catch(degrade('languages', {} as Record<string, number>)),
+      this.fetchCommits(ref, this.options.commitLimit || DEFAULT_COMMIT_LIMIT, historyPath)
+        .catch(degrade('commits', [] as CommitData[])),
+      this.fetchTree(ref).catch(degrade('file tree', [] as ProviderTreeEntry[])),
+      this.fetchReleases(RELEASE_LIMIT).catch(degrade('releases', [] as Milestone[]))
+    ])
+
+    const languageBreakdown = Object.keys(languages).length > 0 ? languages : this.deriveLanguages(tree)
+    this.reportFetched('tree', failed, ['file tree', 'languages'], { languages: languageBreakdown })
+    this.reportFetched('history', failed, ['commits', 'releases'], { commits })
+
+    this.report({ step: 'readme', status: 'started' })
+    const readme = await this.fetchReadme(tree, ref)
+    this.report({ step: 'readme', status: 'completed', partial: { readme: readme.content } })
+    const screenshots = await collectScreenshots(readme.content, readme.path, tree.map(entry => entry.path), async path => this.getRawFileUrl(path, ref))
+      .catch(error => this.warnAndDefault('screenshots', error, [] as ImageData[]))
+    this.report({ step: 'dependencies', status: 'started' })
+    const workspace = await detectWorkspace(tree.map(entry => entry.path), path => this.getFileContent(path, ref))
+    const dependencies = mergeWorkspaceDependencies(parseManifests(await this.fetchManifests(tree, ref)), workspace)
+    this.report({ step: 'dependencies', status: 'completed', partial: { dependencies, workspace: workspace || undefined } })
+
+    this.report({ step: 'sources', status: 'started' })
+    const apiSurface = await extractApiSurface(tree.map(entry => entry.path), path => this.getFileContent(path, ref), historyPath)
+      .catch(error => this.warnAndDefault('API surface', error, null))
+    const deliveryAnalysis = await analyzeDelivery(tree.map(entry => entry.path), path => this.getFileContent(path, ref))
+      .catch(error => this.warnAndDefault('CI/CD configuration', error, null))
+    const changelogPath = findChangelogPath(tree.map(entry => entry.path), historyPath)
+    const changelog = changelogPath ? await this.getFileContent(changelogPath, ref).catch(() => null) : null
+
+    const files: FileData[] = tree.map(entry => ({
+      path: entry.path,
+      type: getFileType(entry.path),
+      size: entry.size,
+      importance: calculateFileImportance(entry.path)
+    }))
+    await this.fetchSourceContents(files, ref, historyPath)
+    this.report({ step: 'sources', status: 'completed' })
+
+    const primaryLanguage = Object.entries(languageBreakdown).sort((a, b) => b[1] - a[1])[0]?.[0]
+
+    const repository: RepositoryData = {
+      url: this.location.url,
+      name: metadata.name,
+      description: metadata.description,
+      language: metadata.language || primaryLanguage || 'Unknown',
+      languages: languageBreakdown,
+      dependencies,
+      commits,
+      files,
+      readme: readme.content,
+      screenshots,
+      createdAt: metadata.createdAt,
+      updatedAt: metadata.updatedAt,
+      stars: metadata.stars,
+      forks: metadata.forks,
+      openIssues: metadata.openIssues,
+      ref: requestedRef ? ref : undefined,
+      workspace: workspace || undefined,
+      apiSurface: apiSurface || undefined,
+      testing: analyzeTests(files, dependencies),
+      deliveryAnalysis: deliveryAnalysis || undefined,
+      contributors: analyzeContributors(commits) || undefined,
+      codeMetrics: analyzeCodeMetrics(files, commits) || undefined,
+      releaseHistory: buildReleaseHistory(changelog, releases) || undefined
+    }
+
+    if (Object.keys(languages).length === 0) {
+      recordProvenance(repository, ['languages'], 'inferred', 'medium', 'ファイル拡張子から推定')
+    }
+    if (failed.has('commits')) recordProvenance(repository, ['commits', 'contributors'], 'fallback')
+    if (failed.has('file tree')) recordProvenance(repository, ['files'], 'fallback')
+    fillProvenance(repository, 'api')
+
+    return { repository, tree }
+  }
+
+  private async scopeToPackage(
+    repository: RepositoryData,
+    tree: ProviderTreeEntry[],
+    packagePath: string
+  ): Promise<RepositoryData> {
+    const readmePath = findPackageReadme(tree.map(entry => entry.path), packagePath)
+    const readme = readmePath ? await this.getFileContent(readmePath, repository.ref).catch(() => null) : null
+    const scoped = scopeToPackage(repository, packagePath, readme)
+    if (readmePath && readme) {
+      const ref = repository.ref
+      scoped.screenshots = await collectScreenshots(readme, readmePath, tree.map(entry => entry.path), async path => this.getRawFileUrl(path, ref))
+        .catch(error => this.warnAndDefault('screenshots', error, repository.screenshots))
+    }
+    return scoped
+  }
+
+  abstract getFileContent(path: string, ref?: string): Promise<string | null>
+  abstract getRawFileUrl(path: string, ref?: string): string
+
+  protected abstract getDefaultApiBaseUrl(): string
+  protected abstract fetchMetadata(): Promise<RepositoryMetadata>
+  protected abstract fetchLanguages(): Promise<Record<string, number>>
+  // `path` restricts history to commits touching that directory
+  protected abstract fetchCommits(ref: string, limit: number, path?: string): Promise<CommitData[]>
+  protected abstract fetchTree(ref: string): Promise<ProviderTreeEntry[]>
+  protected abstract compareRefs(from: string, to: string, limit: number): Promise<RefComparison>
+  // Newest first; hosts without releases fall back to tags
+  protected abstract fetchReleases(limit: number): Promise<Milestone[]>
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.options.token ? { Authorization: `Bearer ${this.options.token}` } : {}
+  }
+
+  protected resolveRef(ref?: string): string {
+    return ref || this.defaultBranch || 'HEAD'
+  }
+
+  protected async request(pathOrUrl: string, accept = 'application/json'): Promise<Response> {
+    const url = /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${this.apiBaseUrl}${pathOrUrl}`
+    const response = await this.http.fetch(url, {
+      headers: { Accept: accept, ...this.getAuthHeaders() }
+    })
+
+    if (!response.ok) {
+      throw new ProviderRequestError(`${this.kind} API request failed (${response.status}): ${url}`, response.status)
+    }
+
+    return response
+  }
+
+  protected async requestJson<T>(pathOrUrl: string): Promise<T> {
+    const response = await this.request(pathOrUrl)
+    return response.json() as Promise<T>
+  }
+
+  // Resolves to null for missing files so callers can probe optional paths
+  protected async requestText(pathOrUrl: string): Promise<string | null> {
+    try {
+      const response = await this.request(pathOrUrl, 'text/plain')
+      return await response.text()
+    } catch (error) {
+      if (error instanceof ProviderRequestError && error.status === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  private async fetchReadme(tree: ProviderTreeEntry[], ref: string): Promise<{ path: string; content: string }> {
+    const candidates = tree
+      .map(entry => entry.path)
+      .filter(path => README_PATTERN.test(path))
+      .sort((a, b) => Number(!/\.md$/i.test(a)) - Number(!/\.md$/i.test(b)))
+
+    // An empty tree usually means the listing failed, so still try the conventional name
+    for (const path of candidates.length > 0 ? candidates : ['README.md']) {
+      const content = await this.getFileContent(path, ref).catch(() => null)
+      if (content) return { path, content }
+    }
+
+    console.warn('README not found')
+    return { path: 'README.md', content: '' }
+  }
+
+  private async fetchManifests(tree: ProviderTreeEntry[], ref: string, directory?: string): Promise<Map<string, string>> {
+    const prefix = directory ? `${directory}/` : ''
+    // Without a tree listing, fall back to probing the conventional names (`*.csproj` can't be guessed)
+    const paths = tree.length > 0
+      ? findManifestPaths(tree.map(entry => entry.path), directory)
+      : MANIFEST_FILES.map(manifest => `${prefix}${manifest}`)
+    const contents = new Map<string, string>()
+
+    for (const path of paths) {
+      const content = await this.getFileContent(path, ref).catch(() => null)
+      if (content) contents.set(path.slice(prefix.length), content)
+    }
+
+    return contents
+  }
+
+  // Trees carry no contents; download the central source files for code slides and the architecture diagram
+  private async fetchSourceContents(files: FileData[], ref: string, directory?: string): Promise<void> {
+    const scoped = directory ? files.filter(file => file.path.startsWith(`${directory}/`)) : files
+    // Test cases are extrapolated from a sample spread over the suite
+    const tests = scoped.filter(file => isTestFile(file.path))
+    const testSample = tests.filter((_, index) => index % Math.ceil(tests.length / TEST_CONTENT_LIMIT) === 0)
+    for (const file of [...selectExcerptCandidates(scoped, SOURCE_CONTENT_LIMIT), ...testSample]) {
+      const content = await this.getFileContent(file.path, ref).catch(() => null)
+      if (content) file.content = content
+    }
+  }
+
+  // Some hosts have no language endpoint; approximate it from file sizes like linguist does
+  private deriveLanguages(tree: ProviderTreeEntry[]): Record<string, number> {
+    const languages: Record<string, number> = {}
+    tree.forEach(entry => {
+      const language = detectLanguage(entry.path)
+      if (language) {
+        languages[language] = (languages[language] || 0) + Math.max(entry.size, 1)
+      }
+    })
+    return languages
+  }
+
+  private report(event: AnalysisStepEvent) {
+    this.options.onProgress?.(event)
+  }
+
+  // The step fails with its first (primary) endpoint; other failed endpoints are passed along as errors
+  private reportFetched(
+    step: AnalysisStepEvent['step'],
+    failed: Map<string, string>,
+    endpoints: string[],
+    partial: Partial<RepositoryData>
+  ) {
+    const failures = endpoints.filter(endpoint => failed.has(endpoint))
+    if (failures.length === 0) {
+      this.report({ step, status: 'completed', partial })
+      return
+    }
+    this.report({
+      step,
+      status: failed.has(endpoints[0]) ? 'failed' : 'completed',
+      detail: failures.join(', '),
+      error: failures.map(endpoint => `${endpoint}: ${failed.get(endpoint)}`).join('; '),
+      partial
+    })
+  }
+
+  private warnAndDefault<T>(what: string, error: unknown, fallback: T): T {
+    console.warn(`Failed to fetch ${what} from ${this.kind}:`, error)
+    return fallback
+  }
+}
+
+export function decodeBase64(content: string): string {
+  const binary = atob(content.replace(/\s/g, ''))
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0))
+  return new TextDecoder('utf-8').decode(bytes)
+}
+
+// Line counts from a unified diff body, for APIs that return patches without numstat
+export function countDiffLines(diff: string): { additions: number; deletions: number } {
+  let additions = 0
+  let deletions = 0
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) additions++
+    else if (line.startsWith('-') && !line.startsWith('---')) deletions++
+  }
+  return { additions, deletions }
+}
+
+export function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/')
+}
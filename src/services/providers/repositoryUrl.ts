@@ -0,0 +1,91 @@
+// Host-agnostic repository URL parsing
+// Kept free of provider SDK imports so the browser bundle can validate URLs cheaply
+
+export type ProviderKind = 'github' | 'gitlab' | 'bitbucket' | 'gitea'
+
+export interface RepositoryLocation {
+  url: string
+  host: string
+  origin: string
+  owner: string
+  repo: string
+  // `owner/repo`, or `group/subgroup/project` for nested GitLab namespaces
+  fullPath: string
+}
+
+// Well-known public instances; anything else is treated as self-hosted
+export const KNOWN_PROVIDER_HOSTS: Record<string, ProviderKind> = {
+  'github.com': 'github',
+  'www.github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'www.gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+  'www.bitbucket.org': 'bitbucket',
+  'gitea.com': 'gitea',
+  'codeberg.org': 'gitea'
+}
+
+// Path segments that start a sub-page (tree, commit list, ...) rather than part of the repository path
+const ROUTE_SEGMENTS = new Set([
+  '-', 'tree', 'blob', 'src', 'raw', 'commits', 'commit', 'branches', 'tags', 'releases',
+  'issues', 'pulls', 'pull', 'pull-requests', 'merge_requests', 'wiki', 'wikis', 'actions',
+  'pipelines', 'downloads', 'activity', 'settings'
+])
+
+export function parseRepositoryUrl(input: string): RepositoryLocation {
+  const url = normalizeRepositoryUrl(input)
+
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new Error(`Invalid repository URL: ${input}`)
+  }
+
+  const segments = parsed.pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  const host = parsed.host.toLowerCase()
+  const kind = KNOWN_PROVIDER_HOSTS[host]
+
+  // Only GitLab allows nested namespaces, so other known hosts always use the first two segments
+  let end = kind && kind !== 'gitlab' ? 2 : segments.length
+  for (let i = 2; i < end; i++) {
+    if (ROUTE_SEGMENTS.has(segments[i])) {
+      end = i
+      break
+    }
+  }
+
+  const pathSegments = segments.slice(0, end)
+  if (pathSegments.length < 2) {
+    throw new Error(`Invalid repository URL: ${input}`)
+  }
+
+  pathSegments[pathSegments.length - 1] = pathSegments[pathSegments.length - 1].replace(/\.git$/, '')
+  const fullPath = pathSegments.join('/')
+
+  return {
+    url: `${parsed.protocol}//${parsed.host}/${fullPath}`,
+    host,
+    origin: `${parsed.protocol}//${parsed.host}`,
+    owner: pathSegments.slice(0, -1).join('/'),
+    repo: pathSegments[pathSegments.length - 1],
+    fullPath
+  }
+}
+
+function normalizeRepositoryUrl(input: string): string {
+  const trimmed = input.trim()
+
+  // scp-like SSH remotes: git@host:owner/repo.git
+  const sshMatch = trimmed.match(/^[\w.-]+@([^:/]+):(.+)$/)
+  if (sshMatch) {
+    return `https://${sshMatch[1]}/${sshMatch[2]}`
+  }
+
+  if (trimmed.startsWith('ssh://') || trimmed.startsWith('git://')) {
+    // The SSH port says nothing about where the web UI lives
+    return trimmed.replace(/^(ssh|git):\/\/([^@/]+@)?/, 'https://').replace(/^(https:\/\/[^/:]+):\d+\//, '$1/')
+  }
+
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+}
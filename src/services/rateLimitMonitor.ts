@@ -0,0 +1,31 @@
+// API quota monitor
+// Collects the latest quota per host and resource, whether the request ran in a function or in the browser
+
+import { RateLimitQuota } from '../types'
+
+type QuotaListener = (quotas: RateLimitQuota[]) => void
+
+export class RateLimitMonitor {
+  private quotas = new Map<string, RateLimitQuota>()
+  private listeners = new Set<QuotaListener>()
+
+  update(quota: RateLimitQuota) {
+    this.quotas.set(`${quota.host} ${quota.resource}`, quota)
+    const quotas = this.getQuotas()
+    this.listeners.forEach(listener => listener(quotas))
+  }
+
+  getQuotas(): RateLimitQuota[] {
+    return Array.from(this.quotas.values())
+  }
+
+  // Returns the unsubscribe function, ready for a useEffect cleanup
+  subscribe(listener: QuotaListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
+
+export const rateLimitMonitor = new RateLimitMonitor()
@@ -0,0 +1,239 @@
+// README structure
+// Parses the README's Markdown syntax tree into sections, the feature list, quickstart commands, images and badges
+
+import { fromMarkdown } from 'mdast-util-from-markdown'
+import { toString } from 'mdast-util-to-string'
+import type { Content, Root } from 'mdast'
+import {
+  ReadmeBadge,
+  ReadmeBadgeKind,
+  ReadmeCodeBlock,
+  ReadmeSection,
+  ReadmeSectionKind,
+  ReadmeStructure
+} from '../types'
+
+type MarkdownNode = Root | Content
+
+// The first matching heading pattern decides the kind
+const SECTION_KINDS: { kind: ReadmeSectionKind; pattern: RegExp }[] = [
+  { kind: 'installation', pattern: /install|setup|set up|getting started|quick ?start|requirements|prerequisites|インストール|導入|セットアップ|はじめ|始め方|环境|安装|快速开始/i },
+  { kind: 'usage', pattern: /usage|examples?|how to use|cli|commands|使い方|使用方法|利用方法|使用|用法|示例/i },
+  { kind: 'features', pattern: /features?|highlights|capabilities|what it does|機能|特徴|特長|功能|特性/i },
+  { kind: 'motivation', pattern: /why|motivation|background|problem|rationale|背景|動機|課題|なぜ|目的|动机/i },
+  { kind: 'architecture', pattern: /architecture|design|how it works|internals|structure|構成|アーキテクチャ|設計|仕組み|架构|设计/i },
+  { kind: 'roadmap', pattern: /roadmap|todo|to-do|future|planned|plans|next steps|ロードマップ|今後|予定|路线图|计划/i },
+  { kind: 'contributing', pattern: /contribut|development|貢献|開発に参加|贡献/i },
+  { kind: 'license', pattern: /licen[sc]e|ライセンス|许可/i },
+  { kind: 'overview', pattern: /about|overview|introduction|description|what is|概要|について|紹介|简介|概述/i }
+]
+
+const BADGE_URL = /img\.shields\.io|badgen\.net|badge\.fury\.io|\/badge\.svg|\/badges?\/|travis-ci\.(org|com)\/.+\.svg|circleci\.com\/.+\.svg|codecov\.io\/.+badge|coveralls\.io\/repos\/.+badge|deploy-status|readthedocs\.org\/projects\/.+\/badge|pepy\.tech\/badge/i
+
+// Checked in order against the badge URL and alt text; CI is last because "status" is common in other badges
+const BADGE_KINDS: { kind: ReadmeBadgeKind; pattern: RegExp }[] = [
+  { kind: 'coverage', pattern: /coverage|codecov|coveralls/i },
+  { kind: 'license', pattern: /licen[sc]e/i },
+  { kind: 'downloads', pattern: /downloads|\/d[mwty]\/|pepy/i },
+  { kind: 'version', pattern: /version|release|\/v\/|npm\/v|pypi\/v|crates\/v|gem\/v|badge\.fury/i },
+  { kind: 'ci', pattern: /actions|workflow|build|travis|circleci|pipeline|\bci\b|tests?\b|deploy-status/i }
+]
+
+const QUICKSTART_LANGUAGES = /^(sh|bash|shell|zsh|console|powershell|ps1|cmd|bat)$/i
+const MAX_FEATURES = 10
+const MAX_QUICKSTART = 3
+
+export function parseReadme(markdown: string): ReadmeStructure {
+  const tree = fromMarkdown(markdown)
+  const definitions = new Map<string, string>()
+  tree.children.forEach(node => {
+    if (node.type === 'definition') definitions.set(node.identifier, node.url)
+  })
+
+  const structure: ReadmeStructure = { sections: [], features: [], quickstart: [], images: [], badges: [] }
+  const codeBlocks: ReadmeCodeBlock[] = []
+  let section: ReadmeSection | null = null
+
+  for (const node of tree.children) {
+    if (node.type === 'heading') {
+      const heading = plainText(node)
+      if (node.depth === 1 && !structure.title && structure.sections.length === 0) {
+        structure.title = heading
+      }
+      section = {
+        heading,
+        depth: node.depth,
+        kind: classifySection(heading),
+        text: '',
+        bullets: [],
+        ...lineRange(node),
+        bulletLines: []
+      }
+      structure.sections.push(section)
+      collectImages(node, section, definitions, structure)
+      continue
+    }
+
+    collectImages(node, section, definitions, structure)
+    if (section && node.position) section.endLine = node.position.end.line
+
+    if (node.type === 'paragraph') {
+      const text = plainText(node)
+      if (!text) continue
+      if (section) section.text = section.text ? `${section.text}\n${text}` : text
+      // The pitch usually sits right under the title, before any install instructions
+      if (!structure.summary && text.length >= 20 && (!section || ['overview', 'motivation', 'features', 'other'].includes(section.kind))) {
+        structure.summary = text
+      }
+    } else if (node.type === 'list' && section) {
+      for (const item of node.children) {
+        // Without the GFM extension, task list checkboxes stay in the text
+        const bullet = plainText(item.children[0] || item).replace(/^\[[ xX]\]\s+/, '')
+        if (!bullet) continue
+        section.bullets.push(bullet)
+        section.bulletLines?.push(lineRange(item))
+      }
+    } else if (node.type === 'code') {
+      codeBlocks.push({ language: node.lang || undefined, code: node.value, section: section?.heading || '' })
+    }
+  }
+
+  structure.features = extractFeatures(structure.sections)
+  structure.quickstart = selectQuickstart(codeBlocks, structure.sections)
+  return structure
+}
+
+export function findReadmeSection(structure: ReadmeStructure | undefined, ...kinds: ReadmeSectionKind[]): ReadmeSection | undefined {
+  if (!structure) return undefined
+  for (const kind of kinds) {
+    const section = structure.sections.find(candidate => candidate.kind === kind && (candidate.text || candidate.bullets.length > 0))
+    if (section) return section
+  }
+  return undefined
+}
+
+function lineRange(node: MarkdownNode): { startLine: number; endLine: number } {
+  return { startLine: node.position?.start.line || 0, endLine: node.position?.end.line || 0 }
+}
+
+function classifySection(heading: string): ReadmeSectionKind {
+  return SECTION_KINDS.find(entry => entry.pattern.test(heading))?.kind || 'other'
+}
+
+// Bullets of the features section, or its sub-headings when each feature gets its own heading
+function extractFeatures(sections: ReadmeSection[]): string[] {
+  const index = sections.findIndex(section => section.kind === 'features')
+  if (index < 0) return []
+  const features = sections[index]
+  if (features.bullets.length > 0) return features.bullets.slice(0, MAX_FEATURES)
+
+  const subsections: string[] = []
+  for (const section of sections.slice(index + 1)) {
+    if (section.depth <= features.depth) break
+    subsections.push(section.heading)
+  }
+  return subsections.slice(0, MAX_FEATURES)
+}
+
+// Install steps first, then usage, then shell commands elsewhere in the README
+function selectQuickstart(blocks: ReadmeCodeBlock[], sections: ReadmeSection[]): ReadmeCodeBlock[] {
+  const kindOf = (block: ReadmeCodeBlock) => sections.find(section => section.heading === block.section)?.kind
+  const rank = (block: ReadmeCodeBlock) => {
+    const kind = kindOf(block)
+    if (kind === 'installation') return 0
+    if (kind === 'usage') return 1
+    return QUICKSTART_LANGUAGES.test(block.language || '') ? 2 : 3
+  }
+  return blocks
+    .map((block, index) => ({ block, index, rank: rank(block) }))
+    .filter(entry => entry.rank < 3)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .slice(0, MAX_QUICKSTART)
+    .map(entry => entry.block)
+}
+
+function collectImages(
+  node: MarkdownNode,
+  section: ReadmeSection | null,
+  definitions: Map<string, string>,
+  structure: ReadmeStructure,
+  link?: string
+) {
+  if (node.type === 'image') {
+    addImage(node.url, node.alt || '', link, section, structure)
+  } else if (node.type === 'imageReference') {
+    const url = definitions.get(node.identifier)
+    if (url) addImage(url, node.alt || '', link, section, structure)
+  } else if (node.type === 'html') {
+    collectHtmlImages(node.value, section, structure)
+  }
+
+  if ('children' in node) {
+    const childLink = node.type === 'link' ? node.url
+      : node.type === 'linkReference' ? definitions.get(node.identifier)
+      : link
+    node.children.forEach(child => collectImages(child as Content, section, definitions, structure, childLink))
+  }
+}
+
+// Centered headers and badge rows are often raw HTML: <a href="..."><img src="..." alt="..."></a>
+function collectHtmlImages(html: string, section: ReadmeSection | null, structure: ReadmeStructure) {
+  for (const match of html.matchAll(/<img\s[^>]*>/gi)) {
+    const tag = match[0]
+    const src = tag.match(/\ssrc=["']([^"']+)["']/i)?.[1]
+    if (!src) continue
+    const before = html.slice(0, match.index)
+    const anchorStart = before.lastIndexOf('<a ')
+    const link = anchorStart > before.lastIndexOf('</a>') ? before.slice(anchorStart).match(/href=["']([^"']+)["']/i)?.[1] : undefined
+    addImage(src, tag.match(/\salt=["']([^"']*)["']/i)?.[1] || '', link, section, structure)
+  }
+}
+
+function addImage(url: string, alt: string, link: string | undefined, section: ReadmeSection | null, structure: ReadmeStructure) {
+  if (BADGE_URL.test(url)) {
+    if (!structure.badges.some(badge => badge.imageUrl === url)) structure.badges.push(toBadge(url, alt, link))
+    return
+  }
+  if (!structure.images.some(image => image.url === url)) {
+    structure.images.push({ url, alt, animated: /\.gif(\?|#|$)/i.test(url), section: section?.heading })
+  }
+}
+
+function toBadge(imageUrl: string, alt: string, link?: string): ReadmeBadge {
+  const kind = BADGE_KINDS.find(entry => entry.pattern.test(`${imageUrl} ${alt}`))?.kind || 'other'
+  const fixed = staticBadge(imageUrl)
+  return {
+    kind,
+    label: alt || fixed?.label || kind,
+    value: fixed?.value,
+    imageUrl,
+    link
+  }
+}
+
+// shields.io static badges: /badge/<label>-<message>-<color> or /static/v1?label=..&message=..
+function staticBadge(imageUrl: string): { label?: string; value: string } | null {
+  try {
+    const url = new URL(imageUrl)
+    if (!/shields\.io$/.test(url.hostname)) return null
+    if (url.pathname.startsWith('/static/')) {
+      const value = url.searchParams.get('message')
+      return value ? { label: url.searchParams.get('label') || undefined, value } : null
+    }
+    const path = url.pathname.match(/^\/badge\/(.+?)(\.(svg|png|json))?$/)?.[1]
+    if (!path) return null
+    // `--` is a literal dash and `__` a literal underscore; single underscores are spaces
+    const parts = decodeURIComponent(path)
+      .replace(/--/g, '\uE000')
+      .split('-')
+      .map(part => part.replace(/\uE000/g, '-').replace(/__/g, '\uE001').replace(/_/g, ' ').replace(/\uE001/g, '_'))
+    if (parts.length >= 3) return { label: parts[0], value: parts[1] }
+    return parts.length === 2 ? { value: parts[0] } : null
+  } catch {
+    return null
+  }
+}
+
+function plainText(node: MarkdownNode): string {
+  return toString(node, { includeImageAlt: false }).replace(/\s+/g, ' ').trim()
+}
@@ -0,0 +1,189 @@
+// Release range helpers
+// Describe what changed between two refs; used by ingestion (providers, local git) and the release story
+
+import { CommitData, CommitFileChange, Dependency, DependencyChange, RepositoryData } from '../types'
+
+export interface RefSpec {
+  from?: string
+  to: string
+}
+
+export type ChangeCategory = 'feature' | 'fix' | 'performance' | 'refactor' | 'docs' | 'test' | 'chore' | 'breaking' | 'other'
+
+// Conventional commit types (plus common free-form verbs) mapped to release-note categories
+const CATEGORY_PATTERNS: [ChangeCategory, RegExp][] = [
+  ['feature', /^(feat|feature)(\(.+\))?!?:|^add(s|ed)?\b|^implement|^introduce|^追加|^新機能/i],
+  ['fix', /^(fix|bugfix|hotfix)(\(.+\))?!?:|^fix(es|ed)?\b|^修正|^バグ/i],
+  ['performance', /^perf(\(.+\))?!?:|^(improve|speed up|optimi[sz]e)/i],
+  ['refactor', /^refactor(\(.+\))?!?:|^(refactor|clean ?up|rename|move)\b|^リファクタ/i],
+  ['docs', /^docs?(\(.+\))?!?:|^(update|add)?\s*(readme|docs|documentation)\b/i],
+  ['test', /^tests?(\(.+\))?!?:|^add(ed)? tests?\b/i],
+  ['chore', /^(chore|build|ci|style|revert|deps)(\(.+\))?!?:|^(bump|merge|release|version)\b/i]
+]
+
+// Accepts `v2.3`, `v2.2..v2.3` and `v2.2...v2.3`; an empty side means the default branch
+export function parseRefSpec(spec: string): RefSpec | null {
+  const trimmed = spec.trim()
+  if (!trimmed) return null
+
+  const match = trimmed.match(/^(.*?)\.{2,3}(.*)$/)
+  if (!match) return { to: trimmed }
+
+  const from = match[1].trim()
+  const to = match[2].trim() || 'HEAD'
+  return from ? { from, to } : { to }
+}
+
+export function formatRefSpec(spec: RefSpec): string {
+  return spec.from ? `${spec.from}..${spec.to}` : spec.to
+}
+
+export function diffDependencies(before: Dependency[], after: Dependency[]): DependencyChange[] {
+  const key = (dependency: Dependency) => `${dependency.ecosystem}:${dependency.type}:${dependency.name}`
+  const previous = new Map(before.map(dependency => [key(dependency), dependency]))
+  const current = new Map(after.map(dependency => [key(dependency), dependency]))
+  const changes: DependencyChange[] = []
+  const describe = ({ name, type, ecosystem }: Dependency) => ({ name, type, ecosystem })
+
+  current.forEach((dependency, id) => {
+    const old = previous.get(id)
+    if (!old) {
+      changes.push({ ...describe(dependency), change: 'added', toVersion: dependency.version })
+    } else if (old.version !== dependency.version) {
+      changes.push({
+        ...describe(dependency),
+        change: 'updated',
+        fromVersion: old.version,
+        toVersion: dependency.version
+      })
+    }
+  })
+
+  previous.forEach((dependency, id) => {
+    if (!current.has(id)) {
+      changes.push({ ...describe(dependency), change: 'removed', fromVersion: dependency.version })
+    }
+  })
+
+  return changes.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function categorizeCommit(message: string): ChangeCategory {
+  const subject = message.split('\n')[0].trim()
+  if (/^\w+(\(.+\))?!:/.test(subject) || /BREAKING[ -]CHANGE/.test(message)) return 'breaking'
+
+  const match = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(subject))
+  return match ? match[0] : 'other'
+}
+
+export function groupCommitsByCategory(commits: CommitData[]): Map<ChangeCategory, CommitData[]> {
+  const groups = new Map<ChangeCategory, CommitData[]>()
+  commits.forEach(commit => {
+    const category = categorizeCommit(commit.message)
+    groups.set(category, [...(groups.get(category) || []), commit])
+  })
+  return groups
+}
+
+// First line without the conventional commit prefix, for use as a bullet
+export function commitSubject(message: string): string {
+  return message.split('\n')[0].replace(/^\w+(\([^)]*\))?!?:\s*/, '').trim()
+}
+
+export const CHANGE_CATEGORY_LABELS: Record<'ja' | 'en' | 'zh', Record<ChangeCategory, string>> = {
+  ja: {
+    feature: '新機能', fix: '不具合修正', performance: '性能改善', refactor: 'リファクタリング', docs: 'ドキュメント',
+    test: 'テスト', chore: '保守', breaking: '破壊的変更', other: 'その他'
+  },
+  en: {
+    feature: 'Features', fix: 'Fixes', performance: 'Performance', refactor: 'Refactoring', docs: 'Docs',
+    test: 'Tests', chore: 'Maintenance', breaking: 'Breaking changes', other: 'Other'
+  },
+  zh: {
+    feature: '新功能', fix: '问题修复', performance: '性能优化', refactor: '重构', docs: '文档',
+    test: '测试', chore: '维护', breaking: '破坏性变更', other: '其他'
+  }
+}
+
+export interface ReleaseSummary {
+  from?: string
+  to: string
+  commits: CommitData[]
+  groups: Map<ChangeCategory, CommitData[]>
+  filesChanged: CommitFileChange[]
+  additions: number
+  deletions: number
+  contributors: string[]
+  dependencyChanges: DependencyChange[]
+}
+
+// Without an explicit range the recent history stands in for "the release"
+export function summarizeRelease(repository: RepositoryData): ReleaseSummary {
+  const { release, commits } = repository
+
+  const filesChanged = release?.filesChanged || mergeCommitFiles(commits)
+  const additions = filesChanged.reduce((sum, file) => sum + file.additions, 0)
+  const deletions = filesChanged.reduce((sum, file) => sum + file.deletions, 0)
+
+  const authorCounts = new Map<string, number>()
+  commits.forEach(commit => authorCounts.set(commit.author, (authorCounts.get(commit.author) || 0) + 1))
+  const contributors = Array.from(authorCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([author]) => author)
+
+  return {
+    from: release?.from,
+    to: release?.to || repository.ref || 'HEAD',
+    commits,
+    groups: groupCommitsByCategory(commits),
+    filesChanged,
+    additions,
+    deletions,
+    contributors,
+    dependencyChanges: release?.dependencyChanges || []
+  }
+}
+
+const SPRINT_DAYS = 14
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The sprint is the two weeks up to the latest commit; an explicit release range already bounds the history
+export function selectSprint(repository: RepositoryData): RepositoryData {
+  if (repository.release) return repository
+  const times = repository.commits.map(commit => new Date(commit.date).getTime()).filter(time => !Number.isNaN(time))
+  if (times.length === 0) return repository
+
+  const start = Math.max(...times) - SPRINT_DAYS * DAY_MS
+  return { ...repository, commits: repository.commits.filter(commit => new Date(commit.date).getTime() >= start) }
+}
+
+// Top-level directories ranked by changed lines (or file count when line stats are unavailable)
+export function summarizeChangedAreas(files: CommitFileChange[], limit: number = 5): { area: string; files: number; lines: number }[] {
+  const areas = new Map<string, { files: number; lines: number }>()
+  files.forEach(file => {
+    const segments = file.path.split('/')
+    const area = segments.length > 1 ? `${segments[0]}/` : file.path
+    const current = areas.get(area) || { files: 0, lines: 0 }
+    areas.set(area, { files: current.files + 1, lines: current.lines + file.additions + file.deletions })
+  })
+
+  return Array.from(areas.entries())
+    .map(([area, stats]) => ({ area, ...stats }))
+    .sort((a, b) => b.lines - a.lines || b.files - a.files)
+    .slice(0, limit)
+}
+
+export function mergeCommitFiles(commits: CommitData[]): CommitFileChange[] {
+  const files = new Map<string, CommitFileChange>()
+  commits.forEach(commit => {
+    commit.files?.forEach(file => {
+      const current = files.get(file.path)
+      files.set(file.path, {
+        path: file.path,
+        additions: (current?.additions || 0) + file.additions,
+        deletions: (current?.deletions || 0) + file.deletions
+      })
+    })
+  })
+  return Array.from(files.values())
+}
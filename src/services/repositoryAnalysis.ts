@@ -1,50 +1,171 @@
-import { RepositoryData, Dependency } from '../types'
+import { AnalysisStepEvent, RepositoryData, Dependency, ImageData } from '../types'
+import { localRepositoryService, LocalRepositorySource } from './localRepository'
+import { parseRepositoryUrl } from './providers/repositoryUrl'
+import { RefSpec, formatRefSpec } from './releaseAnalysis'
+import { parseReadme } from './readmeParser'
+import { ocrService } from './ocr'
+import { ingestRemoteRepository, runIngestionChain } from './ingestion'
+import { fillProvenance, recordProvenance } from './provenance'
+import { ANALYSIS_STREAM_CONTENT_TYPE, readAnalysisStream } from './analysisStream'
+import { resolveRepositoryProvider } from './providers'
+import { storageService } from './storage'
+import { rateLimitMonitor } from './rateLimitMonitor'
+
+// Tesseract takes seconds per image, so only the first few images are read
+const MAX_OCR_IMAGES = 4
 
 export class RepositoryAnalysisEngine {
-  async analyzeRepository(githubUrl: string): Promise<RepositoryData> {
-    console.log('Analyzing repository:', githubUrl)
+  async analyzeRepository(
+    repositoryUrl: string,
+    refSpec: RefSpec | null = null,
+    packagePath: string | null = null,
+    onProgress: (event: AnalysisStepEvent) => void = () => {}
+  ): Promise<RepositoryData> {
+    console.log('Analyzing repository:', repositoryUrl, refSpec ? formatRefSpec(refSpec) : '', packagePath || '')
     
-    // Validate GitHub URL
-    const match = githubUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/)
-    if (!match) {
-      throw new Error('Invalid GitHub URL format. Please provide a valid GitHub repository URL.')
+    // Validate repository URL (GitHub, GitLab, Bitbucket, Gitea or a self-hosted instance)
+    let owner: string
+    let repo: string
+    try {
+      ({ owner, repo } = parseRepositoryUrl(repositoryUrl))
+    } catch {
+      throw new Error('Invalid repository URL format. Please provide a valid repository URL such as https://github.com/owner/repo.')
     }
     
-    const [, owner, repo] = match.map(s => s.replace(/\.git$/, ''))
-    
-    try {
-      // Use Netlify Function for repository analysis
-      const response = await fetch('/.netlify/functions/analyzeRepository', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ repoUrl: githubUrl })
-      })
-      
-      if (!response.ok) {
-        throw new Error(`Failed to analyze repository: ${response.status}`)
+    const repositoryData = await runIngestionChain([
+      // The Netlify Function runs the provider API and scraping stages server-side
+      { name: 'analyze-repo function', run: () => this.fetchRepositoryData(repositoryUrl, refSpec, packagePath, onProgress) },
+      // Without the function (plain `vite` dev server, outages) the browser asks the host API itself
+      { name: 'browser API', run: () => this.fetchRepositoryDataInBrowser(repositoryUrl, refSpec, packagePath, onProgress) },
+      // Nothing could be read: placeholder data that the UI flags as guessed
+      {
+        name: 'placeholder',
+        run: async () => fillProvenance(
+          recordProvenance(this.createFallbackRepositoryData(repositoryUrl, owner, repo), ['url', 'name'], 'inferred', 'high'),
+          'fallback'
+        )
       }
-      
-      const repositoryData: RepositoryData = await response.json()
-      
-      // Enhance data with additional analysis
-      repositoryData.description = repositoryData.description || this.generateSmartDescription(repositoryData)
-      repositoryData.dependencies = await this.analyzeDependencies(repositoryData)
-      
-      console.log('Repository analysis complete:', repositoryData)
-      return repositoryData
-      
-    } catch (error) {
-      console.error('Repository analysis failed:', error)
-      
-      // Fallback: Create basic repository data from URL analysis
-      return this.createFallbackRepositoryData(githubUrl, owner, repo)
+    ], onProgress)
+
+    // Enhance data with additional analysis
+    if (repositoryData.readme) repositoryData.readmeStructure = parseReadme(repositoryData.readme)
+    this.describeRepository(repositoryData)
+    const hadDependencies = repositoryData.dependencies.length > 0
+    repositoryData.dependencies = await this.analyzeDependencies(repositoryData)
+    if (!hadDependencies && repositoryData.dependencies.length > 0) {
+      recordProvenance(repositoryData, ['dependencies'], 'inferred', 'low', 'ファイル構成から推定')
+    }
+    repositoryData.screenshots = await this.recognizeScreenshots(repositoryData.screenshots || [])
+
+    console.log('Repository analysis complete:', repositoryData)
+    return repositoryData
+  }
+
+  async analyzeLocalRepository(
+    source: LocalRepositorySource,
+    refSpec: RefSpec | null = null,
+    packagePath: string | null = null
+  ): Promise<RepositoryData> {
+    const repositoryData = await localRepositoryService.analyze(source, refSpec, packagePath)
+
+    // Local data is read directly from disk, so only the README structure, description and image text need to be derived
+    if (repositoryData.readme) repositoryData.readmeStructure = parseReadme(repositoryData.readme)
+    this.describeRepository(repositoryData)
+    repositoryData.screenshots = await this.recognizeScreenshots(repositoryData.screenshots)
+
+    console.log('Local repository analysis complete:', repositoryData)
+    return repositoryData
+  }
+
+  private async fetchRepositoryData(
+    repositoryUrl: string,
+    refSpec: RefSpec | null,
+    packagePath: string | null,
+    onProgress: (event: AnalysisStepEvent) => void
+  ): Promise<RepositoryData> {
+    const response = await fetch('/.netlify/functions/analyze-repo', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: ANALYSIS_STREAM_CONTENT_TYPE
+      },
+      body: JSON.stringify({ url: repositoryUrl, from: refSpec?.from, to: refSpec?.to, packagePath })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to analyze repository: ${response.status}`)
+    }
+
+    // The function streams its progress; the result is the last event
+    return readAnalysisStream(response, onProgress)
+  }
+
+  // Conditional requests against the IndexedDB cache keep repeated runs within the anonymous quota
+  private async fetchRepositoryDataInBrowser(
+    repositoryUrl: string,
+    refSpec: RefSpec | null,
+    packagePath: string | null,
+    onProgress: (event: AnalysisStepEvent) => void
+  ): Promise<RepositoryData> {
+    const { githubToken } = await storageService.getSettings()
+    const provider = await resolveRepositoryProvider(repositoryUrl, {
+      tokens: { github: githubToken },
+      httpCache: storageService,
+      onProgress,
+      onQuota: quota => rateLimitMonitor.update(quota)
+    })
+    return ingestRemoteRepository(provider, {
+      from: refSpec?.from,
+      to: refSpec?.to,
+      packagePath: packagePath || undefined,
+      onProgress,
+      scrape: false
+    })
+  }
+
+  // Fills in a missing description with the README's own words, which read the same in any deck language.
+  // Without one the description stays empty and the slides use their localized placeholder
+  private describeRepository(repositoryData: RepositoryData) {
+    if (repositoryData.description) return
+    const description = this.summarizeReadme(repositoryData)
+    if (!description) return
+    repositoryData.description = description
+    recordProvenance(repositoryData, ['description'], 'inferred', repositoryData.readmeStructure?.summary ? 'high' : 'medium')
+  }
+
+  // Adds the text visible in screenshots and diagrams; the README's alt text stays the caption when there is one
+  private async recognizeScreenshots(screenshots: ImageData[]): Promise<ImageData[]> {
+    // Tesseract reads raster images only
+    const targets = screenshots
+      .filter(image => image.type !== 'other' && !/\.svg(\?|#|$)/i.test(image.path || image.url))
+      .slice(0, MAX_OCR_IMAGES)
+    if (targets.length === 0) return screenshots
+
+    const recognized: ImageData[] = []
+    for (const image of screenshots) {
+      if (!targets.includes(image)) {
+        recognized.push(image)
+        continue
+      }
+      const result = await ocrService.processImageFromUrl(image.url)
+      recognized.push(result.ocrText
+        ? { ...image, ocrText: result.ocrText, caption: image.caption || result.caption }
+        : image)
     }
+
+    // The worker holds the language models in memory
+    await ocrService.terminate()
+    return recognized
   }
 
-  private generateSmartDescription(repo: RepositoryData): string {
-    const { name, language, readme } = repo
+  private summarizeReadme(repo: RepositoryData): string | null {
+    const { readme, readmeStructure } = repo
+
+    // The paragraph under the README title is the project's own pitch
+    if (readmeStructure?.summary) {
+      const summary = readmeStructure.summary
+      return summary.substring(0, 200) + (summary.length > 200 ? '...' : '')
+    }
     
     // If README exists and has content, extract description
     if (readme && readme.length > 50) {
@@ -58,117 +179,8 @@ export class RepositoryAnalysisEngine {
         }
       }
     }
-    
-    // Generate description based on repository name and language
-    const repoName = name.toLowerCase()
-    const insights = this.analyzeRepositoryInsights(repo)
-    
-    if (repoName.includes('notenkyo') || repoName.includes('toeic') || repoName.includes('adhd')) {
-      return `ADHD・うつ傾向対応のTOEIC学習PWAアプリ。${insights.purpose}を提供し、${language}技術を活用して${insights.features.slice(0, 2).join('、')}などの機能を実装。`
-    }
-    
-    if (repoName.includes('api') || repoName.includes('server')) {
-      return `${language}で構築されたAPIサーバー。${insights.purpose}のためのバックエンドサービス。`
-    }
-    
-    if (repoName.includes('app') || repoName.includes('client')) {
-      return `${language}で開発されたアプリケーション。${insights.purpose}を目的とした${insights.techStack}アプリ。`
-    }
-    
-    return `${language}で開発されたプロジェクト。${insights.purpose}を実現するための${insights.techStack}実装。`
-  }
 
-  private analyzeRepositoryInsights(repo: RepositoryData): {
-    purpose: string
-    features: string[]
-    techStack: string
-    architecture: string
-    challenges: string[]
-  } {
-    const { name, files, dependencies } = repo
-    const repoName = name.toLowerCase()
-    
-    // Analyze tech stack
-    const techStack = this.analyzeTechStack(repo)
-    
-    // Determine purpose based on name and content
-    let purpose = 'ユーザー体験の向上'
-    let features: string[] = []
-    let architecture = 'モノリシック'
-    let challenges: string[] = []
-    
-    if (repoName.includes('notenkyo')) {
-      purpose = 'ADHD・うつ傾向ユーザーの学習支援とメンタルヘルス管理'
-      features = [
-        '体調チェックイン機能',
-        'TOEIC語彙学習システム',
-        '天気連動うつスコア算出',
-        'ワーキングメモリトレーニング',
-        'オフライン対応PWA'
-      ]
-      architecture = 'PWA + クラウド連携'
-      challenges = [
-        'ユーザーの認知負荷軽減',
-        'セキュアなメンタルヘルスデータ管理',
-        'オフライン時のデータ同期'
-      ]
-    } else if (repoName.includes('api') || repoName.includes('server')) {
-      purpose = 'スケーラブルなAPIサービスの提供'
-      features = ['RESTful API', 'データ処理', '認証・認可']
-      architecture = 'マイクロサービス'
-      challenges = ['高可用性', 'データ整合性', 'セキュリティ']
-    } else if (repoName.includes('app') || repoName.includes('client')) {
-      purpose = 'ユーザーフレンドリーなアプリケーション体験'
-      features = ['ユーザーインターフェース', 'データ表示', 'インタラクティブ機能']
-      architecture = 'フロントエンド'
-      challenges = ['レスポンシブデザイン', 'パフォーマンス最適化', 'アクセシビリティ']
-    }
-    
-    // Analyze files for additional insights
-    const hasReact = files.some(f => f.path.includes('jsx') || f.path.includes('tsx')) || 
-                    dependencies.some(d => d.name.includes('react'))
-    const hasNext = dependencies.some(d => d.name.includes('next'))
-    const hasPWA = dependencies.some(d => d.name.includes('pwa')) || 
-                  files.some(f => f.path.includes('manifest.json'))
-    const hasSupabase = dependencies.some(d => d.name.includes('supabase'))
-    
-    if (hasNext && hasReact) {
-      architecture = 'Next.js フルスタック'
-      if (hasPWA) architecture += ' + PWA'
-      if (hasSupabase) architecture += ' + Supabase'
-    }
-    
-    return { purpose, features, techStack, architecture, challenges }
-  }
-
-  private analyzeTechStack(repo: RepositoryData): string {
-    const { language, dependencies, files } = repo
-    const stack: string[] = [language]
-    
-    // Frontend frameworks
-    if (dependencies.some(d => d.name.includes('react'))) stack.push('React')
-    if (dependencies.some(d => d.name.includes('next'))) stack.push('Next.js')
-    if (dependencies.some(d => d.name.includes('vue'))) stack.push('Vue.js')
-    if (dependencies.some(d => d.name.includes('angular'))) stack.push('Angular')
-    
-    // Backend frameworks
-    if (dependencies.some(d => d.name.includes('express'))) stack.push('Express')
-    if (dependencies.some(d => d.name.includes('fastify'))) stack.push('Fastify')
-    if (dependencies.some(d => d.name.includes('django'))) stack.push('Django')
-    if (dependencies.some(d => d.name.includes('flask'))) stack.push('Flask')
-    
-    // Databases
-    if (dependencies.some(d => d.name.includes('supabase'))) stack.push('Supabase')
-    if (dependencies.some(d => d.name.includes('prisma'))) stack.push('Prisma')
-    if (dependencies.some(d => d.name.includes('mongodb'))) stack.push('MongoDB')
-    if (dependencies.some(d => d.name.includes('postgres'))) stack.push('PostgreSQL')
-    
-    // Additional technologies
-    if (dependencies.some(d => d.name.includes('pwa'))) stack.push('PWA')
-    if (files.some(f => f.path.includes('docker'))) stack.push('Docker')
-    if (files.some(f => f.path.includes('kubernetes'))) stack.push('Kubernetes')
-    
-    return stack.slice(0, 4).join(' + ')
+    return null
   }
 
   private async analyzeDependencies(repo: RepositoryData): Promise<Dependency[]> {
@@ -209,14 +221,14 @@ export class RepositoryAnalysisEngine {
     return smartDependencies
   }
 
-  private createFallbackRepositoryData(githubUrl: string, owner: string, repo: string): RepositoryData {
+  private createFallbackRepositoryData(repositoryUrl: string, owner: string, repo: string): RepositoryData {
     // Create enhanced fallback data
     const isNotenkyoRepo = repo.toLowerCase().includes('notenkyo')
     
     if (isNotenkyoRepo) {
       // Special handling for notenkyo repository
       const repositoryData: RepositoryData = {
-        url: githubUrl,
+        url: repositoryUrl,
         name: repo,
         description: 'ADHD・うつ傾向対応TOEIC学習PWAアプリ。体調管理と学習支援を統合したメンタルヘルス配慮型学習システム。',
         language: 'TypeScript',
@@ -280,7 +292,7 @@ export class RepositoryAnalysisEngine {
     
     // Default fallback for other repositories
     const repositoryData: RepositoryData = {
-      url: githubUrl,
+      url: repositoryUrl,
       name: repo,
       description: `${repo}プロジェクト - 革新的なソリューションを提供するソフトウェア`,
       language: 'TypeScript',
@@ -0,0 +1,70 @@
+// Repository re-analysis diff
+// Compares two analyses of the same repository and maps the differences to the slides they affect
+
+import { RepositoryChangeSummary, RepositoryData, SlideSection } from '../types'
+import { diffDependencies } from './releaseAnalysis'
+
+type ChangeKind = 'commits' | 'files' | 'dependencies' | 'popularity'
+
+// Slides whose content is derived from each kind of change; story sections built from the README are left alone
+const AFFECTED_SECTIONS: Record<ChangeKind, SlideSection[]> = {
+  commits: [
+    'results', 'next', 'analysis', 'discussion', 'conclusion',
+    'highlights', 'change_breakdown', 'features', 'fixes', 'upgrade_notes',
+    'complexity', 'milestones', 'activity', 'acknowledgments',
+    'traction', 'team', 'ask', 'demo', 'impact', 'timeline', 'root_causes', 'action_items'
+  ],
+  files: [
+    'approach', 'architecture', 'methods', 'implementation', 'discussion',
+    'workspace', 'api_overview', 'metrics', 'complexity', 'quality', 'delivery', 'screenshots',
+    'demo', 'impact', 'root_causes', 'action_items', 'codebase_tour', 'workflow', 'glossary'
+  ],
+  dependencies: ['methods', 'discussion', 'dependency_changes', 'workspace', 'quality', 'workflow', 'glossary'],
+  popularity: ['title', 'results', 'analysis', 'traction']
+}
+
+export function diffRepositories(previous: RepositoryData, current: RepositoryData, since: string): RepositoryChangeSummary {
+  const knownCommits = new Set(previous.commits.map(commit => commit.sha))
+  const previousSizes = new Map(previous.files.map(file => [file.path, file.size]))
+  const currentPaths = new Set(current.files.map(file => file.path))
+
+  return {
+    since,
+    newCommits: current.commits.filter(commit => !knownCommits.has(commit.sha)),
+    addedFiles: current.files.filter(file => !previousSizes.has(file.path)).map(file => file.path),
+    removedFiles: previous.files.filter(file => !currentPaths.has(file.path)).map(file => file.path),
+    // Sizes are all the listings have; an edit that keeps the size is missed
+    modifiedFiles: current.files
+      .filter(file => previousSizes.has(file.path) && previousSizes.get(file.path) !== file.size)
+      .map(file => file.path),
+    dependencyChanges: diffDependencies(previous.dependencies, current.dependencies),
+    starsDelta: current.stars - previous.stars,
+    forksDelta: current.forks - previous.forks
+  }
+}
+
+export function hasRepositoryChanges(changes: RepositoryChangeSummary): boolean {
+  return findChangeKinds(changes).length > 0
+}
+
+export function findAffectedSections(changes: RepositoryChangeSummary): Set<SlideSection> {
+  return new Set(findChangeKinds(changes).flatMap(kind => AFFECTED_SECTIONS[kind]))
+}
+
+// Diffs only make sense between analyses of the same ref, package and release range
+export function isSameAnalysisTarget(a: RepositoryData, b: RepositoryData): boolean {
+  return a.url === b.url
+    && a.ref === b.ref
+    && a.scope === b.scope
+    && a.release?.from === b.release?.from
+    && a.release?.to === b.release?.to
+}
+
+function findChangeKinds(changes: RepositoryChangeSummary): ChangeKind[] {
+  const kinds: ChangeKind[] = []
+  if (changes.newCommits.length > 0) kinds.push('commits')
+  if (changes.addedFiles.length + changes.removedFiles.length + changes.modifiedFiles.length > 0) kinds.push('files')
+  if (changes.dependencyChanges.length > 0) kinds.push('dependencies')
+  if (changes.starsDelta !== 0 || changes.forksDelta !== 0) kinds.push('popularity')
+  return kinds
+}
@@ -0,0 +1,136 @@
+// README and docs images
+// Resolves image references to fetchable URLs and classifies them as screenshots, diagrams or other images
+
+import { ImageData, ReadmeSectionKind } from '../types'
+import { RasterizedDiagram } from './architectureDiagram'
+import { parseReadme } from './readmeParser'
+
+const IMAGE_FILE = /\.(png|jpe?g|gif|webp|svg)$/i
+const DOCS_DIRECTORY = /(^|\/)(docs?|screenshots?|images?|img|assets|media|\.github)\//i
+const LOGO = /logo|icon|favicon|banner|avatar|sponsor|badge|emoji|mascot/i
+const DIAGRAM = /diagram|architecture|arch[-_.]|flow|uml|sequence|erd|schema|topology|構成|設計図/i
+const SCREENSHOT = /screen|capture|demo|preview|dashboard|example|ui[-_.]|スクリーンショット|画面/i
+const MAX_SCREENSHOTS = 6
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+}
+
+// `resolveUrl` turns a repository path into something the browser can fetch:
+// a raw file URL for hosted repositories, an object URL for local archives
+export async function collectScreenshots(
+  readme: string,
+  readmePath: string,
+  paths: string[],
+  resolveUrl: (path: string) => Promise<string | null>
+): Promise<ImageData[]> {
+  const known = new Set(paths)
+  const images: ImageData[] = []
+  const add = (image: Omit<ImageData, 'url'>, url: string | null) => {
+    if (!url || images.some(existing => existing.url === url || (image.path && existing.path === image.path))) return
+    images.push({ url, ...image })
+  }
+
+  const structure = readme ? parseReadme(readme) : null
+  for (const image of structure?.images || []) {
+    if (images.length >= MAX_SCREENSHOTS) break
+    const kind = structure!.sections.find(section => section.heading === image.section)?.kind
+    const path = resolveRepositoryPath(image.url, readmePath)
+    // An empty listing means the tree fetch failed, so unknown paths are still worth a try
+    if (path && known.size > 0 && !known.has(path)) continue
+    const url = path ? await resolveUrl(path) : resolveExternalUrl(image.url)
+    add({
+      caption: image.alt || undefined,
+      type: classifyImage(path || image.url, image.alt, kind, image.animated),
+      path: path || undefined,
+      section: kind,
+      animated: image.animated || undefined
+    }, url)
+  }
+
+  // Screenshots and diagrams checked into docs folders, even when the README doesn't embed them
+  const docsImages = paths
+    .filter(path => IMAGE_FILE.test(path) && DOCS_DIRECTORY.test(path) && !LOGO.test(path))
+    .filter(path => SCREENSHOT.test(path.split('/').pop()!) || DIAGRAM.test(path.split('/').pop()!))
+  for (const path of docsImages) {
+    if (images.length >= MAX_SCREENSHOTS) break
+    const animated = /\.gif$/i.test(path)
+    add({
+      type: classifyImage(path, '', undefined, animated),
+      path,
+      animated: animated || undefined
+    }, await resolveUrl(path))
+  }
+
+  return images
+}
+
+export function classifyImage(
+  location: string,
+  alt: string,
+  section: ReadmeSectionKind | undefined,
+  animated: boolean
+): ImageData['type'] {
+  const name = `${location.split(/[?#]/)[0].split('/').pop()} ${alt}`
+  if (LOGO.test(name)) return 'other'
+  if (DIAGRAM.test(name) || section === 'architecture') return 'diagram'
+  if (SCREENSHOT.test(name) || animated) return 'screenshot'
+  // A plain image under features or usage is almost always the product itself
+  return section === 'features' || section === 'usage' || section === 'overview' ? 'screenshot' : 'other'
+}
+
+export function imageMimeType(path: string): string {
+  return MIME_TYPES[path.split('.').pop()!.toLowerCase()] || 'application/octet-stream'
+}
+
+// PNG copy for PDF/PPTX export; the host must allow cross-origin reads for the canvas to stay exportable
+export async function rasterizeImage(url: string, maxWidth = 1600): Promise<RasterizedDiagram> {
+  const image = new Image()
+  image.crossOrigin = 'anonymous'
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve()
+    image.onerror = () => reject(new Error(`Failed to load the image: ${url}`))
+    image.src = url
+  })
+
+  const width = Math.min(image.naturalWidth || maxWidth, maxWidth)
+  const height = Math.max(1, Math.round(width * ((image.naturalHeight || 1) / (image.naturalWidth || 1))))
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas 2D context is not available')
+  context.fillStyle = '#FFFFFF'
+  context.fillRect(0, 0, width, height)
+  context.drawImage(image, 0, 0, width, height)
+
+  return { dataUrl: canvas.toDataURL('image/png'), width, height }
+}
+
+// Relative references resolve against the README's directory; a leading slash means the repository root
+function resolveRepositoryPath(reference: string, readmePath: string): string | null {
+  if (/^([a-z][a-z\d+.-]*:|\/\/)/i.test(reference)) return null
+  const segments = reference.startsWith('/') ? [] : readmePath.split('/').slice(0, -1)
+  try {
+    for (const part of decodeURIComponent(reference.split(/[?#]/)[0]).split('/')) {
+      if (!part || part === '.') continue
+      if (part === '..') segments.pop()
+      else segments.push(part)
+    }
+  } catch {
+    return null
+  }
+  return segments.length > 0 ? segments.join('/') : null
+}
+
+// GitHub `blob` pages are HTML; the raw host serves the image itself with CORS headers
+function resolveExternalUrl(url: string): string | null {
+  if (!/^https?:\/\//i.test(url)) return null
+  const blob = url.match(/^https?:\/\/github\.com\/([^/]+\/[^/]+)\/(?:blob|raw)\/(.+?)(\?raw=true)?$/i)
+  return blob ? `https://raw.githubusercontent.com/${blob[1]}/${blob[2]}` : url
+}
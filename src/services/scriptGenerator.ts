@@ -1,14 +1,14 @@
 // Presentation Script Generation Engine
 // プレゼンテーション原稿自動生成システム
 
-import { StorySection, RepositoryData } from '../types'
+import { Audience, StorySection, RepositoryData } from '../types'
 
 export interface PresentationScript {
   slideId: string
   sections: ScriptSection[]
   totalDuration: number
   difficulty: 'beginner' | 'intermediate' | 'advanced'
-  audience: 'technical' | 'business' | 'general'
+  audience: Audience
 }
 
 export interface ScriptSection {
@@ -66,7 +66,7 @@ class PresentationScriptGenerator {
     storyData: { why: StorySection; approach: StorySection; result: StorySection; next: StorySection },
     repoData: RepositoryData,
     _duration: 3 | 5,
-    _audience: 'technical' | 'business' | 'general'
+    _audience: Audience
   ): PresentationScript {
     const sections = [
       this.generateOpeningScript(storyData.why, repoData, _audience),
@@ -1,25 +1,204 @@
 // import Reveal from 'reveal.js'
-import { SlidePresentation, Slide, StoryStructure, RepositoryData } from '../types'
+import { SlidePresentation, Slide, StoryStructure, RepositoryData, PresentationMode, RepositoryChangeSummary, SlideSection, SlideTemplate, TemplateBinding, TemplateSection, ThemeConfig, StorySection, Audience, GlossaryEntry, Citation } from '../types'
+import { CHANGE_CATEGORY_LABELS, selectSprint, summarizeRelease } from './releaseAnalysis'
+import { extractCodeExcerpt, formatCodeSource } from './codeExcerpt'
+import { selectKeySymbols } from './apiSurface'
+import { buildArchitectureDiagram } from './architectureDiagram'
+import { DELIVERY_PROVIDER_LABELS, buildPipelineDiagram } from './deliveryAnalysis'
+import { buildMilestoneTimeline } from './changelog'
+import { findAffectedSections } from './repositoryDiff'
+import { analyzeIncident } from './incidentAnalysis'
+import { findReadmeSection } from './readmeParser'
+import { formatCitation } from './citations'
+import { STORY_CATALOG } from './storyCatalog'
+
+// Audiences that want the deep dives: workspace, API, metrics, quality, delivery, milestones and activity
+const DEEP_DIVE_MODES: PresentationMode[] = ['ted', 'imrad', 'onboarding']
+// Decks that show the product running get the README's screenshots and diagrams
+const SHOWCASE_MODES: PresentationMode[] = ['ted', 'imrad', 'onboarding', 'pitch', 'sprint_demo']
+// Pitches have a team slide, postmortems name no one and lightning talks have no time for credits
+const UNCREDITED_MODES: PresentationMode[] = ['pitch', 'postmortem', 'lightning']
+// Business decks leave out how the project is built and what it depends on
+const BUSINESS_HIDDEN_SECTIONS: SlideSection[] = ['architecture', 'implementation', 'dependency_changes', 'workspace', 'api_overview', 'complexity', 'delivery']
+// General decks skip the jargon-heavy deep dives; the glossary covers the terms that remain
+const GENERAL_HIDDEN_SECTIONS: SlideSection[] = ['api_overview', 'workspace', 'complexity', 'dependency_changes']
+// Technical decks open with these and the code, right after the title
+const TECHNICAL_LEAD_SECTIONS: SlideSection[] = ['architecture', 'implementation', 'workspace', 'api_overview']
+const REFERENCES_PER_SLIDE = 10
+// Slide sections with their own speaker notes; the rest get a generic line
+const NOTE_TYPES = ['title', 'why', 'problem', 'approach', 'results', 'next'] as const
+type NoteType = typeof NOTE_TYPES[number]
+// reveal.js slide sizes for the template layouts
+const TEMPLATE_SLIDE_SIZES: Record<ThemeConfig['layout'], { width: number; height: number }> = {
+  standard: { width: 960, height: 700 },
+  wide: { width: 1280, height: 720 },
+  compact: { width: 800, height: 600 }
+}
+// Section and default title of the slides each template binding produces
+const TEMPLATE_BINDING_SLIDES: Record<TemplateBinding, { section: SlideSection; title: string }> = {
+  'story.why': { section: 'why', title: 'why' },
+  'story.problem': { section: 'problem', title: 'challenge' },
+  'story.approach': { section: 'approach', title: 'approach' },
+  'story.result': { section: 'results', title: 'results' },
+  'story.next': { section: 'next', title: 'next' },
+  'story.apiOverview': { section: 'api_overview', title: 'api_overview' },
+  'story.glossary': { section: 'glossary', title: 'glossary' },
+  'repository.overview': { section: 'title', title: 'project_overview' },
+  'repository.architecture': { section: 'architecture', title: 'architecture' },
+  'repository.code': { section: 'implementation', title: 'implementation' },
+  'repository.workspace': { section: 'workspace', title: 'workspace_overview' },
+  'repository.api': { section: 'api_overview', title: 'api_overview' },
+  'repository.metrics': { section: 'metrics', title: 'by_the_numbers' },
+  'repository.complexity': { section: 'complexity', title: 'complexity_hotspots' },
+  'repository.testing': { section: 'quality', title: 'quality_testing' },
+  'repository.delivery': { section: 'delivery', title: 'how_we_ship' },
+  'repository.releases': { section: 'milestones', title: 'milestones' },
+  'repository.changes': { section: 'change_breakdown', title: 'change_breakdown' },
+  'repository.activity': { section: 'activity', title: 'activity' },
+  'repository.contributors': { section: 'acknowledgments', title: 'acknowledgments' },
+  'repository.screenshots': { section: 'screenshots', title: 'in_action' },
+  'repository.url': { section: 'conclusion', title: 'thanks' }
+}
 
 export class SlideGeneratorService {
   generatePresentation(
     repository: RepositoryData, 
     story: StoryStructure, 
-    mode: 'ted' | 'imrad',
+    mode: PresentationMode,
     duration: 3 | 5,
-    language: 'ja' | 'en' | 'zh'
+    language: 'ja' | 'en' | 'zh',
+    audience?: Audience
   ): SlidePresentation {
-    const slides = mode === 'ted' 
-      ? this.generateTEDSlides(repository, story, duration, language)
-      : this.generateIMRADSlides(repository, story, duration, language)
+    const slides = this.generateModeSlides(repository, story, mode, duration, language)
+
+    // Release, sprint, postmortem, pitch and lightning decks stay focused on their own story
+    const deepDive = DEEP_DIVE_MODES.includes(mode)
+    if (repository.workspace && deepDive) {
+      this.insertWorkspaceOverview(slides, repository, duration, language)
+    }
+
+    if (story.apiOverview && repository.apiSurface && deepDive) {
+      this.insertApiOverview(slides, repository, story, duration, language)
+    }
+
+    if (repository.codeMetrics && deepDive) {
+      this.insertMetricsSlide(slides, repository, duration, language)
+      if (repository.codeMetrics.functions > 0) {
+        this.insertComplexitySlide(slides, repository, duration, language)
+      }
+    }
+
+    if (repository.testing && repository.testing.testFiles > 0 && deepDive) {
+      this.insertQualitySlide(slides, repository, duration, language)
+    }
+
+    if (repository.deliveryAnalysis && deepDive) {
+      this.insertDeliverySlide(slides, repository, duration, language)
+    }
+
+    if (repository.releaseHistory && deepDive) {
+      this.insertMilestoneSlide(slides, repository, duration, language)
+    }
+
+    if (repository.contributors && repository.contributors.weeklyCommits.length > 1 && deepDive) {
+      this.insertActivitySlide(slides, repository, duration, language)
+    }
+
+    if (SHOWCASE_MODES.includes(mode)) {
+      this.insertImageSlides(slides, story, duration, language)
+    }
+
+    // Release decks credit their contributors too
+    if (repository.contributors && repository.contributors.contributors.length > 0 && !UNCREDITED_MODES.includes(mode)) {
+      this.insertAcknowledgmentsSlide(slides, repository, duration, language)
+    }
 
     return {
       id: this.generateId(),
       title: repository.name,
       mode,
+      ...(audience ? { audience } : {}),
+      language,
+      duration,
+      slides: this.citeSlides(audience ? this.adaptToAudience(slides, repository, story, mode, duration, language, audience) : slides, story),
+      story,
+      repository,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }
+  }
+
+  // Regenerates a saved deck from a new analysis but keeps the slides the changes don't touch, edits included
+  updatePresentation(
+    existing: SlidePresentation,
+    repository: RepositoryData,
+    story: StoryStructure,
+    changes: RepositoryChangeSummary,
+    template?: SlideTemplate,
+    audience?: Audience
+  ): { presentation: SlidePresentation; updatedSlides: number } {
+    const regenerated = template
+      ? this.generateFromTemplate(template, repository, story, existing.duration, existing.language, audience)
+      : this.generatePresentation(repository, story, existing.mode, existing.duration, existing.language, audience)
+    const base = { ...regenerated, id: existing.id, title: existing.title, createdAt: existing.createdAt }
+
+    // Decks saved before slides carried a section can't be matched slide by slide, and a new
+    // audience changes the wording of every slide
+    if (existing.slides.some(slide => !slide.section) || existing.audience !== audience) {
+      return { presentation: base, updatedSlides: regenerated.slides.length }
+    }
+
+    const affected = findAffectedSections(changes)
+    const previousKeys = this.getSectionKeys(existing.slides)
+    const previousSlides = new Map(existing.slides.map((slide, index) => [previousKeys[index], slide]))
+    const keys = this.getSectionKeys(regenerated.slides)
+    let updatedSlides = 0
+    const slides = regenerated.slides.map((slide, index) => {
+      const previous = previousSlides.get(keys[index])
+      if (previous && slide.section && !affected.has(slide.section)) {
+        // Position and timing follow the new deck, which may have gained or lost slides
+        return { ...previous, id: slide.id, duration: slide.duration }
+      }
+      updatedSlides++
+      return slide
+    })
+
+    return { presentation: { ...base, slides }, updatedSlides }
+  }
+
+  // Decks from a user template: the sections in the template's order, each bound to a story section or part of the analysis
+  generateFromTemplate(
+    template: SlideTemplate,
+    repository: RepositoryData,
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh',
+    audience?: Audience
+  ): SlidePresentation {
+    const sections = this.getTemplateStructure(template, story, audience)
+      .map(section => ({ section, slides: this.buildTemplateSection(section, repository, story, duration, language, audience) }))
+      .filter(entry => entry.slides.length > 0)
+
+    // Estimated durations are weights: the sections that made it into the deck share the whole talk
+    const weight = sections.reduce((sum, entry) => sum + entry.section.estimatedDuration, 0)
+    const slides = sections.flatMap(entry => entry.slides.map(slide => ({
+      ...slide,
+      duration: (duration * 60 * entry.section.estimatedDuration) / weight / entry.slides.length
+    })))
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+    })
+
+    return {
+      id: this.generateId(),
+      title: repository.name,
+      mode: template.mode,
+      ...(audience ? { audience } : {}),
+      templateId: template.id,
+      theme: template.theme,
       language,
       duration,
-      slides,
+      slides: this.citeSlides(slides, story),
       story,
       repository,
       createdAt: new Date().toISOString(),
@@ -27,6 +206,267 @@ export class SlideGeneratorService {
     }
   }
 
+  // General audiences get the glossary before the closing section when the template has no place for it.
+  // The template's order is kept otherwise, so technical decks aren't reordered the way built-in ones are
+  private getTemplateStructure(template: SlideTemplate, story: StoryStructure, audience?: Audience): TemplateSection[] {
+    const structure = template.structure
+    if (audience !== 'general' || !story.glossary || story.glossary.length === 0) return structure
+    if (structure.some(section => section.binding === 'story.glossary')) return structure
+
+    const glossary: TemplateSection = {
+      type: 'content',
+      binding: 'story.glossary',
+      title: '',
+      estimatedDuration: Math.min(...structure.map(section => section.estimatedDuration)),
+      required: false
+    }
+    const closing = Math.max(structure.length - 1, 1)
+    return [...structure.slice(0, closing), glossary, ...structure.slice(closing)]
+  }
+
+  private buildTemplateSection(
+    section: TemplateSection,
+    repository: RepositoryData,
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh',
+    audience?: Audience
+  ): Slide[] {
+    const slides = section.binding.startsWith('story.')
+      ? this.buildStoryBindingSlides(section, repository, story, language, audience)
+      : this.buildRepositoryBindingSlides(section, repository, story, duration, language, audience)
+
+    // Left out for the audience rather than missing from the repository, so no placeholder either
+    if (slides.length === 0 && this.isHiddenFor(section, audience)) return []
+
+    if (slides.length === 0) {
+      if (!section.required) return []
+      const { section: slideSection, title } = TEMPLATE_BINDING_SLIDES[section.binding]
+      return [{
+        id: '',
+        type: 'content',
+        section: slideSection,
+        title: section.title || this.getLocalizedTitle(title, language),
+        content: this.getLocalizedContent('no_template_data', language),
+        speakerNotes: {
+          ja: 'このセクションはテンプレートで必須ですが、リポジトリから内容を取得できませんでした。口頭で補足してください。',
+          en: 'The template requires this section, but the repository had nothing for it. Fill it in when you speak.',
+          zh: '模板要求此部分，但仓库中没有相关内容，请在演讲时口头补充。'
+        }[language],
+        duration: 0
+      }]
+    }
+
+    // A custom title replaces the first slide's; follow-up slides such as API signatures keep their own
+    return section.title
+      ? slides.map((slide, index) => index === 0 ? { ...slide, title: section.title } : slide)
+      : slides
+  }
+
+  // The section's slide type picks the visual paired with the story, when the repository has one
+  private buildStoryBindingSlides(
+    section: TemplateSection,
+    repository: RepositoryData,
+    story: StoryStructure,
+    language: 'ja' | 'en' | 'zh',
+    audience?: Audience
+  ): Slide[] {
+    if (this.isHiddenFor(section, audience)) return []
+    // The glossary is only in stories for general audiences
+    if (section.binding === 'story.glossary') {
+      return story.glossary && story.glossary.length > 0 ? [this.buildGlossarySlide(story.glossary, language)] : []
+    }
+
+    const storySections: Partial<Record<TemplateBinding, StorySection>> = {
+      'story.why': story.why,
+      'story.problem': story.problem,
+      'story.approach': story.approach,
+      'story.result': story.result,
+      'story.next': story.next,
+      'story.apiOverview': story.apiOverview
+    }
+    const storySection = storySections[section.binding]
+    if (!storySection || (!storySection.content && storySection.bullets.length === 0)) return []
+
+    const { section: slideSection, title } = TEMPLATE_BINDING_SLIDES[section.binding]
+    // Visuals the audience's built-in decks leave out fall back to the bullets
+    const hidden = this.getHiddenSections(audience)
+    const base = {
+      id: '',
+      section: slideSection,
+      title: this.getLocalizedTitle(title, language),
+      content: storySection.content,
+      speakerNotes: this.generateSpeakerNotes(slideSection === 'api_overview' ? 'approach' : slideSection, storySection, language),
+      duration: 0
+    }
+
+    switch (section.type) {
+      case 'title':
+      case 'conclusion':
+        return [{ ...base, type: section.type }]
+      case 'code': {
+        const code = hidden.includes('implementation') ? null : storySection.code?.[0] || this.generateCodeSnippet(repository, language)
+        if (code) return [{ ...base, type: 'code', code }]
+        break
+      }
+      case 'diagram': {
+        const diagram = hidden.includes('architecture') ? null : this.generateArchitectureDiagram(repository, language)
+        if (diagram) return [{ ...base, type: 'diagram', diagram }]
+        break
+      }
+      case 'chart':
+        if (hidden.includes('architecture')) break
+        return [{ ...base, type: 'chart', chart: this.generateArchitectureChart(repository, language) }]
+      case 'image': {
+        const image = storySection.images?.[0]
+        if (image) return [{ ...base, type: 'image', content: image.caption || storySection.content, image }]
+        break
+      }
+    }
+
+    return [{ ...base, type: 'content', bullets: storySection.bullets.slice(0, 5) }]
+  }
+
+  // Repository bindings reuse the slides the built-in modes produce, so their layout is fixed; no data, no slides
+  private buildRepositoryBindingSlides(
+    section: TemplateSection,
+    repository: RepositoryData,
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh',
+    audience?: Audience
+  ): Slide[] {
+    if (this.isHiddenFor(section, audience)) return []
+    const slides: Slide[] = []
+
+    switch (section.binding) {
+      case 'repository.overview':
+        slides.push({
+          id: '',
+          type: 'title',
+          section: 'title',
+          title: repository.name,
+          content: this.formatDescription(repository.description, language),
+          speakerNotes: this.generateSpeakerNotes('title', repository, language),
+          duration: 0
+        })
+        break
+      case 'repository.architecture': {
+        const diagram = this.generateArchitectureDiagram(repository, language)
+        slides.push({
+          id: '',
+          type: diagram ? 'diagram' : 'chart',
+          section: 'architecture',
+          title: this.getLocalizedTitle('architecture', language),
+          content: this.getLocalizedContent('tech_stack', language),
+          ...(diagram ? { diagram } : { chart: this.generateArchitectureChart(repository, language) }),
+          speakerNotes: this.generateArchitectureNotes(repository, language),
+          duration: 0
+        })
+        break
+      }
+      case 'repository.code': {
+        const code = this.generateCodeSnippet(repository, language)
+        if (code) {
+          slides.push({
+            id: '',
+            type: 'code',
+            section: 'implementation',
+            title: this.getLocalizedTitle('implementation', language),
+            content: this.getLocalizedContent('implementation_approach', language),
+            code,
+            speakerNotes: this.generateImplementationNotes(repository, language),
+            duration: 0
+          })
+        }
+        break
+      }
+      // The insert helpers place their slides into an empty deck here
+      case 'repository.workspace':
+        if (repository.workspace) this.insertWorkspaceOverview(slides, repository, duration, language)
+        break
+      case 'repository.api':
+        if (story.apiOverview && repository.apiSurface) this.insertApiOverview(slides, repository, story, duration, language)
+        break
+      case 'repository.metrics':
+        if (repository.codeMetrics) this.insertMetricsSlide(slides, repository, duration, language)
+        break
+      case 'repository.complexity':
+        if (repository.codeMetrics && repository.codeMetrics.functions > 0) this.insertComplexitySlide(slides, repository, duration, language)
+        break
+      case 'repository.testing':
+        if (repository.testing && repository.testing.testFiles > 0) this.insertQualitySlide(slides, repository, duration, language)
+        break
+      case 'repository.delivery':
+        if (repository.deliveryAnalysis) this.insertDeliverySlide(slides, repository, duration, language)
+        break
+      case 'repository.releases':
+        if (repository.releaseHistory) this.insertMilestoneSlide(slides, repository, duration, language)
+        break
+      case 'repository.changes': {
+        const summary = summarizeRelease(repository)
+        if (summary.commits.length > 0) {
+          slides.push({
+            id: '',
+            type: 'chart',
+            section: 'change_breakdown',
+            title: this.getLocalizedTitle('change_breakdown', language),
+            content: summary.from ? `${summary.from} → ${summary.to}` : summary.to,
+            chart: this.generateChangeBreakdownChart(repository, language),
+            speakerNotes: {
+              ja: `変更の内訳です。${summary.commits.length}件のコミットを種類別に分類しています。`,
+              en: `This is the breakdown of the ${summary.commits.length} commits by kind of change.`,
+              zh: `这是变更构成，${summary.commits.length} 个提交按类型进行了分类。`
+            }[language],
+            duration: 0
+          })
+        }
+        break
+      }
+      case 'repository.activity':
+        if (repository.contributors && repository.contributors.weeklyCommits.length > 1) this.insertActivitySlide(slides, repository, duration, language)
+        break
+      case 'repository.contributors':
+        if (repository.contributors && repository.contributors.contributors.length > 0) this.insertAcknowledgmentsSlide(slides, repository, duration, language)
+        break
+      case 'repository.screenshots':
+        this.insertImageSlides(slides, story, duration, language)
+        break
+      case 'repository.url':
+        slides.push({
+          id: '',
+          type: 'conclusion',
+          section: 'conclusion',
+          title: this.getLocalizedTitle('thanks', language),
+          content: `${repository.name}\n\n${this.getLocalizedContent('repository_url', language)}\n${repository.url}`,
+          speakerNotes: this.generateConclusionNotes(repository, language),
+          duration: 0
+        })
+        break
+    }
+
+    return slides
+  }
+
+  private generateModeSlides(
+    repository: RepositoryData,
+    story: StoryStructure,
+    mode: PresentationMode,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ): Slide[] {
+    switch (mode) {
+      case 'imrad': return this.generateIMRADSlides(repository, story, duration, language)
+      case 'release': return this.generateReleaseSlides(repository, story, duration, language)
+      case 'pitch': return this.generatePitchSlides(repository, story, duration, language)
+      case 'sprint_demo': return this.generateSprintDemoSlides(repository, story, duration, language)
+      case 'postmortem': return this.generatePostmortemSlides(repository, story, duration, language)
+      case 'onboarding': return this.generateOnboardingSlides(repository, story, duration, language)
+      case 'lightning': return this.generateLightningSlides(repository, story, duration, language)
+      default: return this.generateTEDSlides(repository, story, duration, language)
+    }
+  }
+
   generateTEDSlides(
     repository: RepositoryData, 
     story: StoryStructure, 
@@ -42,6 +482,7 @@ export class SlideGeneratorService {
     slides.push({
       id: '1',
       type: 'title',
+      section: 'title',
       title: repository.name,
       content: this.formatDescription(repository.description, language),
       speakerNotes: this.generateSpeakerNotes('title', repository, language),
@@ -52,6 +493,7 @@ export class SlideGeneratorService {
     slides.push({
       id: '2',
       type: 'content',
+      section: 'why',
       title: this.getLocalizedTitle('why', language),
       content: story.why.content,
       bullets: story.why.bullets.slice(0, 3), // Keep it concise
@@ -63,6 +505,7 @@ export class SlideGeneratorService {
     slides.push({
       id: '3',
       type: 'content',
+      section: 'problem',
       title: this.getLocalizedTitle('challenge', language),
       content: story.problem.content,
       bullets: story.problem.bullets.slice(0, 3),
@@ -72,24 +515,28 @@ export class SlideGeneratorService {
 
     // 4. Our Approach (Visual/Code)
     if (duration === 5) {
+      const code = this.generateCodeSnippet(repository, language)
       slides.push({
         id: '4',
-        type: 'code',
+        type: code ? 'code' : 'content',
+        section: 'approach',
         title: this.getLocalizedTitle('approach', language),
         content: story.approach.content,
-        code: this.generateCodeSnippet(repository),
+        ...(code ? { code } : { bullets: story.approach.bullets.slice(0, 3) }),
         speakerNotes: this.generateSpeakerNotes('approach', story.approach, language),
         duration: timePerSlide
       })
     }
 
     // 5. Architecture/Diagram
+    const diagram = this.generateArchitectureDiagram(repository, language)
     slides.push({
       id: duration === 5 ? '5' : '4',
-      type: 'chart',
+      type: diagram ? 'diagram' : 'chart',
+      section: 'architecture',
       title: this.getLocalizedTitle('architecture', language),
-      content: 'プロジェクトの技術構成',
-      chart: this.generateArchitectureChart(repository),
+      content: this.getLocalizedContent('tech_stack', language),
+      ...(diagram ? { diagram } : { chart: this.generateArchitectureChart(repository, language) }),
       speakerNotes: this.generateArchitectureNotes(repository, language),
       duration: timePerSlide
     })
@@ -98,9 +545,10 @@ export class SlideGeneratorService {
     slides.push({
       id: duration === 5 ? '6' : '5',
       type: 'content',
+      section: 'results',
       title: this.getLocalizedTitle('results', language),
       content: story.result.content,
-      bullets: this.formatResultBullets(story.result.bullets, repository),
+      bullets: this.formatResultBullets(story.result.bullets, repository, language),
       speakerNotes: this.generateSpeakerNotes('results', story.result, language),
       duration: timePerSlide
     })
@@ -110,6 +558,7 @@ export class SlideGeneratorService {
       slides.push({
         id: '7',
         type: 'content',
+        section: 'next',
         title: this.getLocalizedTitle('next', language),
         content: story.next.content,
         bullets: story.next.bullets.slice(0, 3),
@@ -122,8 +571,9 @@ export class SlideGeneratorService {
     slides.push({
       id: duration === 5 ? '8' : '6',
       type: 'conclusion',
+      section: 'conclusion',
       title: this.getLocalizedTitle('thanks', language),
-      content: `${repository.name}\n\n${this.getLocalizedContent('github_url', language)}\n${repository.url}`,
+      content: `${repository.name}\n\n${this.getLocalizedContent('repository_url', language)}\n${repository.url}`,
       speakerNotes: this.generateConclusionNotes(repository, language),
       duration: timePerSlide
     })
@@ -138,106 +588,810 @@ export class SlideGeneratorService {
     language: 'ja' | 'en' | 'zh'
   ): Slide[] {
     const slides: Slide[] = []
-    const timePerSlide = (duration * 60) / (duration === 3 ? 6 : 8)
+    const timePerSlide = (duration * 60) / (duration === 3 ? 6 : 8)
+
+    // 1. Title
+    slides.push({
+      id: '1',
+      type: 'title',
+      section: 'title',
+      title: repository.name,
+      content: `${this.formatDescription(repository.description, language)}\n\n${repository.language} | ${repository.stars}⭐`,
+      speakerNotes: this.generateSpeakerNotes('title', repository, language),
+      duration: timePerSlide
+    })
+
+    // 2. Introduction
+    slides.push({
+      id: '2',
+      type: 'content',
+      section: 'introduction',
+      title: this.getLocalizedTitle('introduction', language),
+      content: story.why.content,
+      bullets: [
+        `${this.getLocalizedContent('purpose', language)}: ${this.formatDescription(repository.description, language)}`,
+        `${this.getLocalizedContent('technology', language)}: ${repository.language}`,
+        `${this.getLocalizedContent('started', language)}: ${this.formatYear(new Date(repository.createdAt).getFullYear(), language)}`
+      ],
+      speakerNotes: this.generateSpeakerNotes('introduction', story.why, language),
+      duration: timePerSlide
+    })
+
+    // 3. Methods
+    const methodsDiagram = this.generateArchitectureDiagram(repository, language)
+    slides.push({
+      id: '3',
+      type: methodsDiagram ? 'diagram' : 'content',
+      section: 'methods',
+      title: this.getLocalizedTitle('methods', language),
+      content: story.approach.content,
+      bullets: this.generateMethodsBullets(repository, language),
+      ...(methodsDiagram ? { diagram: methodsDiagram } : {}),
+      speakerNotes: this.generateSpeakerNotes('methods', story.approach, language),
+      duration: timePerSlide
+    })
+
+    // 4. Implementation
+    if (duration === 5) {
+      const code = this.generateCodeSnippet(repository, language)
+      slides.push({
+        id: '4',
+        type: code ? 'code' : 'content',
+        section: 'implementation',
+        title: this.getLocalizedTitle('implementation', language),
+        content: this.getLocalizedContent('implementation_approach', language),
+        ...(code ? { code } : { bullets: story.approach.bullets.slice(0, 3) }),
+        speakerNotes: this.generateImplementationNotes(repository, language),
+        duration: timePerSlide
+      })
+    }
+
+    // 5. Results
+    slides.push({
+      id: duration === 5 ? '5' : '4',
+      type: 'content',
+      section: 'results',
+      title: this.getLocalizedTitle('imrad_results', language),
+      content: story.result.content,
+      bullets: this.formatResultBullets(story.result.bullets, repository, language),
+      speakerNotes: this.generateSpeakerNotes('results', story.result, language),
+      duration: timePerSlide
+    })
+
+    // 6. Analysis
+    slides.push({
+      id: duration === 5 ? '6' : '5',
+      type: 'chart',
+      section: 'analysis',
+      title: this.getLocalizedTitle('analysis', language),
+      content: this.getLocalizedContent('analysis_results', language),
+      chart: this.generateAnalysisChart(repository, language),
+      speakerNotes: this.generateAnalysisNotes(repository, language),
+      duration: timePerSlide
+    })
+
+    // 7. Discussion
+    if (duration === 5) {
+      slides.push({
+        id: '7',
+        type: 'content',
+        section: 'discussion',
+        title: this.getLocalizedTitle('discussion', language),
+        content: story.next.content,
+        bullets: [
+          `${this.getLocalizedContent('limitations', language)}: ${this.identifyLimitations(repository, language)}`,
+          // Stories without release, roadmap or issue data have no next steps to discuss
+          ...story.next.bullets.slice(0, 1).map(bullet => `${this.getLocalizedContent('open_issues', language)}: ${bullet}`),
+          `${this.getLocalizedContent('applications', language)}: ${this.identifyApplications(repository, language)}`
+        ],
+        speakerNotes: this.generateDiscussionNotes(repository, language),
+        duration: timePerSlide
+      })
+    }
+
+    // 8. Conclusion
+    slides.push({
+      id: duration === 5 ? '8' : '6',
+      type: 'conclusion',
+      section: 'conclusion',
+      title: this.getLocalizedTitle('conclusion', language),
+      content: this.formatConclusion(repository, language),
+      speakerNotes: this.generateConclusionNotes(repository, language),
+      duration: timePerSlide
+    })
+
+    return slides
+  }
+
+  generateReleaseSlides(
+    repository: RepositoryData,
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ): Slide[] {
+    const slides: Slide[] = []
+    const timePerSlide = (duration * 60) / (duration === 3 ? 6 : 8)
+    const summary = summarizeRelease(repository)
+    const rangeLabel = summary.from ? `${summary.from} → ${summary.to}` : summary.to
+
+    // 1. Title
+    slides.push({
+      id: '1',
+      type: 'title',
+      section: 'title',
+      title: `${this.getLocalizedTitle('whats_new', language)}: ${repository.name} ${summary.to}`,
+      content: `${rangeLabel}\n\n${summary.commits.length} commits | ${summary.filesChanged.length} files | +${summary.additions} / −${summary.deletions}`,
+      speakerNotes: {
+        ja: `${repository.name} の ${rangeLabel} での変更点を紹介します。`,
+        en: `Here is what changed in ${repository.name} ${rangeLabel}.`,
+        zh: `介绍 ${repository.name} 在 ${rangeLabel} 中的变更。`
+      }[language],
+      duration: timePerSlide
+    })
+
+    // 2. Highlights
+    slides.push({
+      id: '2',
+      type: 'content',
+      section: 'highlights',
+      title: this.getLocalizedTitle('highlights', language),
+      content: story.why.content,
+      bullets: story.why.bullets.slice(0, 3),
+      speakerNotes: this.generateSpeakerNotes('why', story.why, language),
+      duration: timePerSlide
+    })
+
+    // 3. Change breakdown
+    slides.push({
+      id: '3',
+      type: 'chart',
+      section: 'change_breakdown',
+      title: this.getLocalizedTitle('change_breakdown', language),
+      content: rangeLabel,
+      chart: this.generateChangeBreakdownChart(repository, language),
+      speakerNotes: {
+        ja: `変更の内訳です。${summary.commits.length}件のコミットを種類別に分類しています。`,
+        en: `This is the breakdown of the ${summary.commits.length} commits by kind of change.`,
+        zh: `这是变更构成，${summary.commits.length} 个提交按类型进行了分类。`
+      }[language],
+      duration: timePerSlide
+    })
+
+    // 4. Features
+    slides.push({
+      id: '4',
+      type: 'content',
+      section: 'features',
+      title: this.getLocalizedTitle('new_features', language),
+      content: story.approach.content,
+      bullets: story.approach.bullets.slice(0, 5),
+      speakerNotes: this.generateSpeakerNotes('approach', story.approach, language),
+      duration: timePerSlide
+    })
+
+    // 5. Fixes
+    slides.push({
+      id: '5',
+      type: 'content',
+      section: 'fixes',
+      title: this.getLocalizedTitle('fixes', language),
+      content: story.problem.content,
+      bullets: story.problem.bullets.slice(0, 5),
+      speakerNotes: this.generateSpeakerNotes('problem', story.problem, language),
+      duration: timePerSlide
+    })
+
+    if (duration === 5) {
+      // 6. Dependencies
+      slides.push({
+        id: '6',
+        type: 'content',
+        section: 'dependency_changes',
+        title: this.getLocalizedTitle('dependency_changes', language),
+        content: story.result.content,
+        bullets: story.result.bullets.slice(0, 6),
+        speakerNotes: this.generateSpeakerNotes('results', story.result, language),
+        duration: timePerSlide
+      })
+
+      // 7. Upgrade notes
+      slides.push({
+        id: '7',
+        type: 'content',
+        section: 'upgrade_notes',
+        title: this.getLocalizedTitle('upgrade_notes', language),
+        content: story.next.content,
+        bullets: story.next.bullets.slice(0, 5),
+        speakerNotes: this.generateSpeakerNotes('next', story.next, language),
+        duration: timePerSlide
+      })
+    }
+
+    // Final slide
+    slides.push({
+      id: duration === 5 ? '8' : '6',
+      type: 'conclusion',
+      section: 'conclusion',
+      title: this.getLocalizedTitle('thanks', language),
+      content: summary.contributors.length > 0
+        ? `${summary.contributors.slice(0, 8).join(', ')}\n\n${this.getLocalizedContent('repository_url', language)}\n${repository.url}`
+        : `${repository.name}\n\n${this.getLocalizedContent('repository_url', language)}\n${repository.url}`,
+      speakerNotes: this.generateConclusionNotes(repository, language),
+      duration: timePerSlide
+    })
+
+    return slides
+  }
+
+  // Startup pitch: problem, solution, rationale, traction, team and the ask
+  generatePitchSlides(
+    repository: RepositoryData,
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ): Slide[] {
+    const slides: Slide[] = []
+    const label = (key: string) => this.getLocalizedContent(key, language)
+    const description = this.formatDescription(repository.description, language)
+    const contributors = repository.contributors?.contributors || []
+    const features = repository.readmeStructure?.features || []
+
+    slides.push({
+      id: '',
+      type: 'title',
+      section: 'title',
+      title: repository.name,
+      content: description,
+      speakerNotes: this.generateModeNotes('pitch_open', description, language),
+      duration: 0
+    })
+
+    slides.push({
+      id: '',
+      type: 'content',
+      section: 'problem',
+      title: this.getLocalizedTitle('the_problem', language),
+      content: story.problem.content,
+      bullets: story.problem.bullets.slice(0, 3),
+      speakerNotes: this.generateModeNotes('pitch_problem', story.problem.content, language),
+      duration: 0
+    })
+
+    slides.push({
+      id: '',
+      type: 'content',
+      section: 'approach',
+      title: this.getLocalizedTitle('solution', language),
+      content: story.approach.content,
+      bullets: features.length > 0 ? features.slice(0, 3) : story.approach.bullets.slice(0, 3),
+      speakerNotes: this.generateModeNotes('solution', story.approach.content, language),
+      duration: 0
+    })
+
+    // The story knows why the project exists, not who buys it, so the longer pitch makes that case
+    if (duration === 5) {
+      slides.push({
+        id: '',
+        type: 'content',
+        section: 'why',
+        title: this.getLocalizedTitle('why', language),
+        content: story.why.content,
+        bullets: story.why.bullets.slice(0, 3),
+        speakerNotes: this.generateModeNotes('rationale', story.why.content, language),
+        duration: 0
+      })
+    }
+
+    const traction = `${label('stars')}: ${repository.stars} / ${label('forks')}: ${repository.forks}`
+    slides.push({
+      id: '',
+      type: 'chart',
+      section: 'traction',
+      title: this.getLocalizedTitle('traction', language),
+      content: traction,
+      bullets: this.formatResultBullets(story.result.bullets, repository, language),
+      chart: {
+        type: 'bar',
+        title: this.getLocalizedTitle('traction', language),
+        data: [repository.stars, repository.forks, contributors.length, repository.commits.length],
+        labels: [label('stars'), label('forks'), label('contributors'), label('commits')]
+      },
+      speakerNotes: this.generateModeNotes('traction', traction, language),
+      duration: 0
+    })
+
+    if (duration === 5 && contributors.length > 0) {
+      slides.push({
+        id: '',
+        type: 'content',
+        section: 'team',
+        title: this.getLocalizedTitle('team', language),
+        content: `${contributors.length} ${label('contributors')}`,
+        bullets: contributors.slice(0, 4).map(contributor => `${contributor.name}: ${contributor.commits} ${label('commits')}`),
+        speakerNotes: this.generateModeNotes('team', '', language),
+        duration: 0
+      })
+    }
+
+    slides.push({
+      id: '',
+      type: 'conclusion',
+      section: 'ask',
+      title: this.getLocalizedTitle('the_ask', language),
+      // As bullets, the next steps keep their citations
+      content: `${this.getLocalizedContent('repository_url', language)}\n${repository.url}`,
+      bullets: story.next.bullets.slice(0, 3),
+      speakerNotes: this.generateModeNotes('ask', story.next.bullets.slice(0, 3).join(' / '), language),
+      duration: 0
+    })
+
+    this.renumberSlides(slides, duration)
+    return slides
+  }
+
+  // Sprint demo: what the last two weeks shipped, shown running, then what the next sprint picks up
+  generateSprintDemoSlides(
+    repository: RepositoryData,
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ): Slide[] {
+    const slides: Slide[] = []
+    const label = (key: string) => this.getLocalizedContent(key, language)
+    const sprint = selectSprint(repository)
+    const summary = summarizeRelease(sprint)
+    const dates = sprint.commits.map(commit => commit.date.slice(0, 10)).sort()
+    const period = dates.length > 0 ? `${dates[0]} – ${dates[dates.length - 1]}` : summary.to
+
+    slides.push({
+      id: '',
+      type: 'title',
+      section: 'title',
+      title: `${this.getLocalizedTitle('sprint_review', language)}: ${repository.name}`,
+      content: `${period}\n\n${summary.commits.length} ${label('commits')} | ${summary.filesChanged.length} ${label('files')}`,
+      speakerNotes: this.generateModeNotes('sprint_open', period, language),
+      duration: 0
+    })
+
+    slides.push({
+      id: '',
+      type: 'content',
+      section: 'highlights',
+      title: this.getLocalizedTitle('sprint_goal', language),
+      content: story.why.content,
+      bullets: story.why.bullets.slice(0, 3),
+      speakerNotes: this.generateModeNotes('sprint_goal', story.why.content, language),
+      duration: 0
+    })
+
+    slides.push({
+      id: '',
+      type: 'content',
+      section: 'features',
+      title: this.getLocalizedTitle('shipped', language),
+      content: story.approach.content,
+      bullets: story.approach.bullets.slice(0, 5),
+      speakerNotes: this.generateModeNotes('shipped', story.approach.bullets.slice(0, 3).join(' / '), language),
+      duration: 0
+    })
+
+    const code = duration === 5 ? this.generateCodeSnippet(repository, language) : null
+    if (code) {
+      slides.push({
+        id: '',
+        type: 'code',
+        section: 'demo',
+        title: this.getLocalizedTitle('demo', language),
+        content: code.explanation,
+        code,
+        speakerNotes: this.generateModeNotes('demo', code.explanation, language),
+        duration: 0
+      })
+    }
+
+    if (duration === 5) {
+      slides.push({
+        id: '',
+        type: 'content',
+        section: 'fixes',
+        title: this.getLocalizedTitle('fixes', language),
+        content: story.problem.content,
+        bullets: story.problem.bullets.slice(0, 5),
+        speakerNotes: this.generateModeNotes('sprint_fixes', story.problem.content, language),
+        duration: 0
+      })
+
+      slides.push({
+        id: '',
+        type: 'chart',
+        section: 'change_breakdown',
+        title: this.getLocalizedTitle('sprint_numbers', language),
+        content: period,
+        chart: this.generateChangeBreakdownChart(sprint, language),
+        speakerNotes: this.generateModeNotes('sprint_numbers', `${summary.commits.length} ${label('commits')}`, language),
+        duration: 0
+      })
+    }
+
+    slides.push({
+      id: '',
+      type: 'content',
+      section: 'next',
+      title: this.getLocalizedTitle('next_sprint', language),
+      content: story.next.content,
+      bullets: story.next.bullets.slice(0, 5),
+      speakerNotes: this.generateModeNotes('next_sprint', story.next.bullets.slice(0, 3).join(' / '), language),
+      duration: 0
+    })
+
+    this.renumberSlides(slides, duration)
+    return slides
+  }
+
+  // Blameless incident postmortem: summary, impact, timeline, root causes and action items
+  generatePostmortemSlides(
+    repository: RepositoryData,
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ): Slide[] {
+    const slides: Slide[] = []
+    const incident = analyzeIncident(repository)
+    const period = incident.start && incident.end
+      ? `${incident.start.slice(0, 10)} – ${incident.end.slice(0, 10)}`
+      : repository.name
+
+    slides.push({
+      id: '',
+      type: 'title',
+      section: 'title',
+      title: `${this.getLocalizedTitle('incident_review', language)}: ${repository.name}`,
+      content: period,
+      speakerNotes: this.generateModeNotes('incident_open', '', language),
+      duration: 0
+    })
+
+    slides.push({
+      id: '',
+      type: 'content',
+      section: 'highlights',
+      title: this.getLocalizedTitle('incident_summary', language),
+      content: story.why.content,
+      bullets: story.why.bullets.slice(0, 3),
+      speakerNotes: this.generateModeNotes('incident_summary', story.why.content, language),
+      duration: 0
+    })
+
+    if (duration === 5) {
+      slides.push({
+        id: '',
+        type: 'content',
+        section: 'impact',
+        title: this.getLocalizedTitle('impact', language),
+        content: story.problem.content,
+        bullets: story.problem.bullets.slice(0, 5),
+        speakerNotes: this.generateModeNotes('impact', story.problem.content, language),
+        duration: 0
+      })
+    }
+
+    const weeks = incident.weeklyFixes.slice(-12)
+    slides.push({
+      id: '',
+      type: weeks.length > 1 ? 'chart' : 'content',
+      section: 'timeline',
+      title: this.getLocalizedTitle('timeline', language),
+      content: story.approach.content,
+      bullets: story.approach.bullets.slice(duration === 3 ? -4 : -6),
+      ...(weeks.length > 1 ? {
+        chart: {
+          type: 'timeline' as const,
+          title: this.getLocalizedContent('fixes_per_week', language),
+          data: weeks.map(week => week.commits),
+          labels: weeks.map(week => week.week)
+        }
+      } : {}),
+      speakerNotes: this.generateModeNotes('timeline', story.approach.content, language),
+      duration: 0
+    })
+
+    slides.push({
+      id: '',
+      type: 'content',
+      section: 'root_causes',
+      title: this.getLocalizedTitle('root_causes', language),
+      content: story.result.content,
+      bullets: story.result.bullets.slice(0, 4),
+      speakerNotes: this.generateModeNotes('root_causes', story.result.bullets.slice(0, 2).join(' / '), language),
+      duration: 0
+    })
+
+    slides.push({
+      id: '',
+      type: 'content',
+      section: 'action_items',
+      title: this.getLocalizedTitle('action_items', language),
+      content: story.next.content,
+      bullets: story.next.bullets.slice(0, 5),
+      speakerNotes: this.generateModeNotes('action_items', story.next.bullets.slice(0, 3).join(' / '), language),
+      duration: 0
+    })
+
+    slides.push({
+      id: '',
+      type: 'conclusion',
+      section: 'conclusion',
+      title: this.getLocalizedTitle('lessons_learned', language),
+      content: `${repository.name}\n\n${this.getLocalizedContent('repository_url', language)}\n${repository.url}`,
+      speakerNotes: this.generateModeNotes('lessons', '', language),
+      duration: 0
+    })
+
+    this.renumberSlides(slides, duration)
+    return slides
+  }
+
+  // Onboarding walkthrough for new contributors: what it is, how to run it, where the code lives and how changes ship
+  generateOnboardingSlides(
+    repository: RepositoryData,
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ): Slide[] {
+    const slides: Slide[] = []
+    const label = (key: string) => this.getLocalizedContent(key, language)
+    const readme = repository.readmeStructure
+    const description = this.formatDescription(repository.description, language)
+
+    slides.push({
+      id: '',
+      type: 'title',
+      section: 'title',
+      title: repository.name,
+      content: `${label('welcome_aboard')}\n\n${description}`,
+      speakerNotes: this.generateModeNotes('onboarding_open', description, language),
+      duration: 0
+    })
+
+    slides.push({
+      id: '',
+      type: 'content',
+      section: 'why',
+      title: this.getLocalizedTitle('project_overview', language),
+      content: story.why.content,
+      bullets: story.why.bullets.slice(0, 3),
+      speakerNotes: this.generateModeNotes('overview', story.why.content, language),
+      duration: 0
+    })
+
+    if (duration === 5) {
+      const diagram = this.generateArchitectureDiagram(repository, language)
+      slides.push({
+        id: '',
+        type: diagram ? 'diagram' : 'chart',
+        section: 'architecture',
+        title: this.getLocalizedTitle('architecture', language),
+        content: this.getLocalizedContent('tech_stack', language),
+        ...(diagram ? { diagram } : { chart: this.generateArchitectureChart(repository, language) }),
+        speakerNotes: this.generateArchitectureNotes(repository, language),
+        duration: 0
+      })
+    }
+
+    // The README's own install instructions, runnable as shown
+    const quickstart = readme?.quickstart[0]
+    const setup = findReadmeSection(readme, 'installation', 'usage')
+    slides.push({
+      id: '',
+      type: quickstart ? 'code' : 'content',
+      section: 'getting_started',
+      title: this.getLocalizedTitle('getting_started', language),
+      content: setup?.text || label('see_readme'),
+      ...(quickstart
+        ? { code: { language: quickstart.language || 'bash', code: quickstart.code, explanation: quickstart.section } }
+        : { bullets: setup?.bullets.slice(0, 4) || [] }),
+      speakerNotes: this.generateModeNotes('getting_started', setup?.heading || '', language),
+      duration: 0
+    })
+
+    const directories = new Map<string, number>()
+    repository.files.forEach(file => {
+      const segments = file.path.split('/')
+      const directory = segments.length > 1 ? `${segments[0]}/` : file.path
+      directories.set(directory, (directories.get(directory) || 0) + 1)
+    })
+    const keyFiles = [...repository.files].sort((a, b) => b.importance - a.importance).slice(0, 3).map(file => file.path)
+    slides.push({
+      id: '',
+      type: 'content',
+      section: 'codebase_tour',
+      title: this.getLocalizedTitle('codebase_tour', language),
+      content: `${repository.files.length} ${label('files')}`,
+      bullets: [
+        ...Array.from(directories.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 5)
+          .map(([directory, count]) => `${directory} (${count} ${label('files')})`),
+        ...(keyFiles.length > 0 ? [`${label('key_files')}: ${keyFiles.join(', ')}`] : [])
+      ],
+      speakerNotes: this.generateModeNotes('codebase_tour', keyFiles.join(', '), language),
+      duration: 0
+    })
+
+    if (duration === 5) {
+      const { testing, deliveryAnalysis } = repository
+      const providers = Array.from(new Set(deliveryAnalysis?.pipelines.map(pipeline => DELIVERY_PROVIDER_LABELS[pipeline.provider]) || []))
+      const contributing = findReadmeSection(readme, 'contributing')
+      const bullets = [
+        ...(testing && testing.frameworks.length > 0 ? [`${label('test_frameworks')}: ${testing.frameworks.join(', ')}`] : []),
+        ...(providers.length > 0 ? [`CI/CD: ${providers.join(', ')}`] : []),
+        ...(deliveryAnalysis && deliveryAnalysis.deployTargets.length > 0 ? [`${label('deploy_targets')}: ${deliveryAnalysis.deployTargets.join(', ')}`] : []),
+        ...(contributing?.bullets.slice(0, 3) || [])
+      ]
+      slides.push({
+        id: '',
+        type: 'content',
+        section: 'workflow',
+        title: this.getLocalizedTitle('dev_workflow', language),
+        content: contributing?.text || (bullets.length > 0 ? '' : label('see_readme')),
+        bullets,
+        speakerNotes: this.generateModeNotes('workflow', bullets.slice(0, 2).join(' / '), language),
+        duration: 0
+      })
+    }
+
+    slides.push({
+      id: '',
+      type: 'conclusion',
+      section: 'next',
+      title: this.getLocalizedTitle('where_to_start', language),
+      content: `${story.next.bullets.slice(0, 3).join('\n')}\n\n${this.getLocalizedContent('repository_url', language)}\n${repository.url}`,
+      speakerNotes: this.generateModeNotes('where_to_start', story.next.bullets.slice(0, 3).join(' / '), language),
+      duration: 0
+    })
+
+    this.renumberSlides(slides, duration)
+    return slides
+  }
+
+  // Conference lightning talk: one idea, few words per slide, nothing the clock can't afford
+  generateLightningSlides(
+    repository: RepositoryData,
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ): Slide[] {
+    const slides: Slide[] = []
+    const description = this.formatDescription(repository.description, language)
+    // First paragraph of prose, skipping the bold lead-in questions and headings
+    const lead = (content: string) => content.split(/\n\s*\n/)
+      .map(paragraph => paragraph.split('\n').filter(line => !/^\*\*.*\*\*$/.test(line.trim())).join('\n').trim())
+      .find(Boolean) || ''
 
-    // 1. Title
     slides.push({
-      id: '1',
+      id: '',
       type: 'title',
+      section: 'title',
       title: repository.name,
-      content: `${this.formatDescription(repository.description, language)}\n\n${repository.language} | ${repository.stars}⭐`,
-      speakerNotes: this.generateSpeakerNotes('title', repository, language),
-      duration: timePerSlide
-    })
-
-    // 2. Introduction
-    slides.push({
-      id: '2',
-      type: 'content',
-      title: 'Introduction',
-      content: story.why.content,
-      bullets: [`目的: ${repository.description}`, `技術: ${repository.language}`, `開始: ${new Date(repository.createdAt).getFullYear()}年`],
-      speakerNotes: this.generateSpeakerNotes('introduction', story.why, language),
-      duration: timePerSlide
+      content: description,
+      speakerNotes: this.generateModeNotes('lightning_open', '', language),
+      duration: 0
     })
 
-    // 3. Methods
     slides.push({
-      id: '3',
+      id: '',
       type: 'content',
-      title: 'Methods',
-      content: story.approach.content,
-      bullets: this.generateMethodsBullets(repository),
-      speakerNotes: this.generateSpeakerNotes('methods', story.approach, language),
-      duration: timePerSlide
+      section: 'why',
+      title: this.getLocalizedTitle('hook', language),
+      content: lead(story.why.content),
+      bullets: story.why.bullets.slice(0, 1),
+      speakerNotes: this.generateModeNotes('hook', lead(story.why.content), language),
+      duration: 0
     })
 
-    // 4. Implementation
     if (duration === 5) {
       slides.push({
-        id: '4',
-        type: 'code',
-        title: 'Implementation',
-        content: '主要な実装アプローチ',
-        code: this.generateCodeSnippet(repository),
-        speakerNotes: this.generateImplementationNotes(repository, language),
-        duration: timePerSlide
+        id: '',
+        type: 'content',
+        section: 'problem',
+        title: this.getLocalizedTitle('the_problem', language),
+        content: lead(story.problem.content),
+        bullets: story.problem.bullets.slice(0, 2),
+        speakerNotes: this.generateModeNotes('lightning_problem', lead(story.problem.content), language),
+        duration: 0
       })
     }
 
-    // 5. Results
-    slides.push({
-      id: duration === 5 ? '5' : '4',
-      type: 'content',
-      title: 'Results',
-      content: story.result.content,
-      bullets: this.formatResultBullets(story.result.bullets, repository),
-      speakerNotes: this.generateSpeakerNotes('results', story.result, language),
-      duration: timePerSlide
-    })
-
-    // 6. Analysis
+    const code = this.generateCodeSnippet(repository, language)
     slides.push({
-      id: duration === 5 ? '6' : '5',
-      type: 'chart',
-      title: 'Analysis',
-      content: 'プロジェクト分析結果',
-      chart: this.generateAnalysisChart(repository),
-      speakerNotes: this.generateAnalysisNotes(repository, language),
-      duration: timePerSlide
+      id: '',
+      type: code ? 'code' : 'content',
+      section: 'approach',
+      title: this.getLocalizedTitle('big_idea', language),
+      content: lead(story.approach.content),
+      ...(code ? { code } : { bullets: story.approach.bullets.slice(0, 2) }),
+      speakerNotes: this.generateModeNotes('big_idea', lead(story.approach.content), language),
+      duration: 0
     })
 
-    // 7. Discussion
     if (duration === 5) {
       slides.push({
-        id: '7',
+        id: '',
         type: 'content',
-        title: 'Discussion',
-        content: story.next.content,
-        bullets: [`制約: ${this.identifyLimitations(repository)}`, `今後の課題: ${story.next.bullets[0]}`, `応用可能性: ${this.identifyApplications(repository)}`],
-        speakerNotes: this.generateDiscussionNotes(repository, language),
-        duration: timePerSlide
+        section: 'results',
+        title: this.getLocalizedTitle('results', language),
+        content: '',
+        bullets: this.formatResultBullets(story.result.bullets, repository, language).slice(0, 2),
+        speakerNotes: this.generateModeNotes('lightning_result', '', language),
+        duration: 0
       })
     }
 
-    // 8. Conclusion
     slides.push({
-      id: duration === 5 ? '8' : '6',
+      id: '',
       type: 'conclusion',
-      title: 'Conclusion',
-      content: `✓ ${repository.name}の開発完了\n✓ ${Object.keys(repository.languages).length}つの技術を統合\n✓ ${repository.commits.length}回のイテレーション\n\n今後の発展に期待`,
-      speakerNotes: this.generateConclusionNotes(repository, language),
-      duration: timePerSlide
+      section: 'conclusion',
+      title: this.getLocalizedTitle('takeaway', language),
+      content: `${description}\n\n${repository.url}`,
+      speakerNotes: this.generateModeNotes('takeaway', description, language),
+      duration: 0
     })
 
+    this.renumberSlides(slides, duration)
     return slides
   }
 
+  // Export-only appendix: the bullets get numbered markers and closing slides list the sources they point to
+  appendReferences(presentation: SlidePresentation): SlidePresentation {
+    const numbers = new Map<string, number>()
+    const slides = presentation.slides.map(slide => {
+      if (!slide.bullets || !slide.citations) return slide
+      const citations = slide.citations
+      return {
+        ...slide,
+        bullets: slide.bullets.map(bullet => {
+          const markers = (citations[bullet] || []).map(citation => {
+            const source = formatCitation(citation)
+            if (!numbers.has(source)) numbers.set(source, numbers.size + 1)
+            return numbers.get(source)
+          })
+          return markers.length > 0 ? `${bullet} [${markers.join(', ')}]` : bullet
+        })
+      }
+    })
+    if (numbers.size === 0) return presentation
+
+    const { language } = presentation
+    const sources = Array.from(numbers.keys()).map((source, index) => `[${index + 1}] ${source}`)
+    const pages = Math.ceil(sources.length / REFERENCES_PER_SLIDE)
+    const appendix: Slide[] = Array.from({ length: pages }, (_, page) => ({
+      id: String(slides.length + page + 1),
+      type: 'content',
+      section: 'references',
+      title: pages > 1
+        ? `${this.getLocalizedTitle('references', language)} (${page + 1}/${pages})`
+        : this.getLocalizedTitle('references', language),
+      content: this.getLocalizedContent('references_intro', language),
+      bullets: sources.slice(page * REFERENCES_PER_SLIDE, (page + 1) * REFERENCES_PER_SLIDE),
+      speakerNotes: {
+        ja: '付録です。発表では使わず、主張の根拠を確認したい方のために残しています。',
+        en: 'Appendix, not presented. It is here for anyone who wants to check where a claim came from.',
+        zh: '附录，演讲时不展示，供想核实内容出处的听众查阅。'
+      }[language],
+      // Not part of the timed talk
+      duration: 0
+    }))
+
+    return { ...presentation, slides: [...slides, ...appendix] }
+  }
+
   renderSlides(presentation: SlidePresentation): string {
     const theme = presentation.mode === 'ted' ? 'black' : 'white'
     const transition = presentation.mode === 'ted' ? 'slide' : 'fade'
+    const slideSize = presentation.theme && TEMPLATE_SLIDE_SIZES[presentation.theme.layout]
 
     const slidesHtml = presentation.slides.map(slide => this.renderSlide(slide)).join('')
+    const hasDiagrams = presentation.slides.some(slide => slide.diagram)
 
     return `
 <!DOCTYPE html>
@@ -280,6 +1434,22 @@ export class SlideGeneratorService {
             font-size: 0.9em;
             line-height: 1.6;
         }
+        .reveal .diagram-container {
+            display: flex;
+            justify-content: center;
+            max-height: 480px;
+        }
+        .reveal .diagram-container svg {
+            max-height: 480px;
+        }
+        .reveal .image-container {
+            display: flex;
+            justify-content: center;
+        }
+        .reveal .image-container img {
+            max-height: 440px;
+            border-radius: 8px;
+        }
         .reveal .chart-container {
             display: flex;
             justify-content: center;
@@ -290,6 +1460,7 @@ export class SlideGeneratorService {
             font-size: 0.8em;
             color: #666;
         }
+        ${presentation.theme ? this.renderThemeStyles(presentation.theme) : ''}
     </style>
 </head>
 <body>
@@ -301,9 +1472,13 @@ export class SlideGeneratorService {
     <script src="https://cdn.jsdelivr.net/npm/reveal.js@5.0.4/dist/reveal.js"></script>
     <script src="https://cdn.jsdelivr.net/npm/reveal.js@5.0.4/plugin/highlight/highlight.js"></script>
     <script src="https://cdn.jsdelivr.net/npm/reveal.js@5.0.4/plugin/notes/notes.js"></script>
+    ${hasDiagrams ? `<script src="https://cdn.jsdelivr.net/npm/mermaid@10.9.4/dist/mermaid.min.js"></script>
+    <script>mermaid.initialize({ startOnLoad: true, securityLevel: 'strict', theme: '${presentation.mode === 'ted' ? 'dark' : 'default'}' });</script>` : ''}
     <script>
         Reveal.initialize({
             hash: true,
+            ${slideSize ? `width: ${slideSize.width},
+            height: ${slideSize.height},` : ''}
             transition: '${transition}',
             transitionSpeed: 'default',
             backgroundTransition: 'fade',
@@ -314,6 +1489,25 @@ export class SlideGeneratorService {
 </html>`
   }
 
+  // Template themes are layered over the reveal.js theme; title and closing slides keep their gradients
+  private renderThemeStyles(theme: ThemeConfig): string {
+    return `
+        .reveal-viewport {
+            background: ${theme.backgroundColor};
+        }
+        .reveal {
+            color: ${theme.textColor};
+            font-family: ${theme.fontFamily};
+        }
+        .reveal h1, .reveal h2, .reveal h3 {
+            color: ${theme.primaryColor};
+            font-family: ${theme.fontFamily};
+        }
+        .reveal a {
+            color: ${theme.primaryColor};
+        }`
+  }
+
   private renderSlide(slide: Slide): string {
     const slideClass = slide.type === 'title' ? 'title-slide' : 
                       slide.type === 'conclusion' ? 'conclusion-slide' :
@@ -343,19 +1537,54 @@ export class SlideGeneratorService {
       
       if (slide.code) {
         content += `
-          <pre><code class="${slide.code.language}" data-trim data-noescape>
-${slide.code.code}
+          <pre><code class="${slide.code.language}" data-trim>
+${this.escapeHtml(slide.code.code)}
           </code></pre>
-          <p style="font-size: 0.8em; margin-top: 1rem;">${slide.code.explanation}</p>
+          ${slide.code.path ? `<p style="font-size: 0.6em; opacity: 0.7;">${this.escapeHtml(formatCodeSource(slide.code))}</p>` : ''}
+          <p style="font-size: 0.8em; margin-top: 1rem;">${this.escapeHtml(slide.code.explanation)}</p>
         `
       }
       
-      if (slide.chart) {
+      if (slide.image) {
+        content += `
+          <div class="image-container">
+            <img src="${this.escapeHtml(slide.image.url)}" alt="${this.escapeHtml(slide.image.caption || '')}">
+          </div>
+        `
+      }
+
+      if (slide.diagram) {
+        content += `
+          <div class="diagram-container">
+            <div class="mermaid">
+${this.escapeHtml(slide.diagram.source)}
+            </div>
+          </div>
+        `
+      }
+
+      if (slide.chart?.type === 'timeline') {
+        const values = slide.chart.data.map(value => Number(value) || 0)
+        const max = Math.max(1, ...values)
+        content += `
+          <div class="chart-container">
+            <div style="width: 100%;">
+              <h3>${this.escapeHtml(slide.chart.title)}</h3>
+              <div style="display: flex; align-items: flex-end; gap: 2px; height: 200px;">
+                ${values.map((value, index) => `<div title="${this.escapeHtml(slide.chart!.labels[index] || '')}: ${value}" style="flex: 1; height: ${Math.max((value / max) * 100, 1)}%; background: #3b82f6;"></div>`).join('')}
+              </div>
+            </div>
+          </div>
+        `
+      } else if (slide.chart) {
+        // Bar, line and pie data alike read as one labelled bar per value
+        const values = slide.chart.data.map(value => Number(value) || 0)
+        const max = Math.max(1, ...values)
         content += `
           <div class="chart-container">
-            <div style="text-align: center;">
-              <h3>${slide.chart.title}</h3>
-              <p>データ可視化プレースホルダー</p>
+            <div style="width: 100%;">
+              <h3>${this.escapeHtml(slide.chart.title)}</h3>
+              ${values.map((value, index) => `<div style="display: flex; align-items: center; gap: 8px; margin: 4px 0;"><span style="width: 30%; text-align: right;">${this.escapeHtml(slide.chart!.labels[index] || '')}</span><div style="width: ${Math.max((value / max) * 60, 1)}%; height: 16px; background: #3b82f6;"></div><span>${value}</span></div>`).join('')}
             </div>
           </div>
         `
@@ -371,80 +1600,642 @@ ${slide.code.code}
     return content
   }
 
-  private generateCodeSnippet(repository: RepositoryData) {
-    const language = repository.language.toLowerCase()
-    
-    const snippets = {
-      javascript: {
-        language: 'javascript',
-        code: `// ${repository.name} - Core Implementation
-function initializeApp() {
-  const config = {
-    name: '${repository.name}',
-    version: '1.0.0',
-    features: ['modern', 'scalable', 'efficient']
-  };
-  
-  return new App(config);
-}`,
-        explanation: 'アプリケーションの初期化とコア機能'
-      },
-      typescript: {
-        language: 'typescript',
-        code: `// ${repository.name} - Type-Safe Implementation
-interface AppConfig {
-  name: string;
-  version: string;
-  features: string[];
-}
+  // A real excerpt from the repository; null when no source contents were fetched
+  private generateCodeSnippet(repository: RepositoryData, language: 'ja' | 'en' | 'zh') {
+    return extractCodeExcerpt(repository.files, language)
+  }
 
-class App {
-  constructor(private config: AppConfig) {}
-  
-  initialize(): Promise<void> {
-    return this.setupFeatures();
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
   }
-}`,
-        explanation: 'TypeScriptによる型安全な実装'
-      },
-      python: {
-        language: 'python',
-        code: `# ${repository.name} - Python Implementation
-class Application:
-    def __init__(self, name: str):
-        self.name = name
-        self.features = []
-    
-    def initialize(self) -> None:
-        """Initialize the application with core features"""
-        self.setup_logging()
-        self.load_configuration()
-        print(f"{self.name} initialized successfully!")`,
-        explanation: 'Pythonによるクリーンな実装アプローチ'
-      }
-    }
-    
-    return (snippets as any)[language] || snippets.javascript
+
+  // The Netlify analysis sees every fetched file; locally the graph is built from what was loaded
+  private generateArchitectureDiagram(repository: RepositoryData, language: 'ja' | 'en' | 'zh') {
+    const title = this.getLocalizedTitle('module_dependencies', language)
+    const diagram = repository.architectureAnalysis?.diagram || buildArchitectureDiagram(repository.files, title, STORY_CATALOG[language].diagramFileCount)
+    return diagram && { ...diagram, title }
   }
 
-  private generateArchitectureChart(repository: RepositoryData) {
+  private generateArchitectureChart(repository: RepositoryData, language: 'ja' | 'en' | 'zh') {
     return {
       type: 'bar' as const,
-      title: '技術構成',
+      title: this.getLocalizedContent('tech_stack_chart', language),
       data: Object.entries(repository.languages).map(([, bytes]) => bytes),
       labels: Object.keys(repository.languages)
     }
   }
 
-  private generateAnalysisChart(repository: RepositoryData) {
+  private generateAnalysisChart(repository: RepositoryData, language: 'ja' | 'en' | 'zh') {
     return {
       type: 'pie' as const,
-      title: 'プロジェクト分析',
+      title: this.getLocalizedContent('analysis_chart', language),
       data: [repository.stars, repository.forks, repository.commits.length],
       labels: ['Stars', 'Forks', 'Commits']
     }
   }
 
+  // Goes right after the title; slide timings are rebalanced so the total duration is unchanged
+  private insertWorkspaceOverview(
+    slides: Slide[],
+    repository: RepositoryData,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ) {
+    const workspace = repository.workspace!
+    const maxPackages = 6
+    const bullets = workspace.packages.slice(0, maxPackages).map(workspacePackage => {
+      const marker = workspacePackage.path === repository.scope ? '▶ ' : ''
+      const dependsOn = workspacePackage.workspaceDependencies.length > 0
+        ? ` → ${workspacePackage.workspaceDependencies.join(', ')}`
+        : ''
+      return `${marker}${workspacePackage.name} (${workspacePackage.path})${dependsOn}`
+    })
+    if (workspace.packages.length > maxPackages) {
+      bullets.push(`+${workspace.packages.length - maxPackages} ${this.getLocalizedContent('more_packages', language)}`)
+    }
+
+    const dependencyCount = workspace.packages.reduce((sum, workspacePackage) => sum + workspacePackage.workspaceDependencies.length, 0)
+    slides.splice(1, 0, {
+      id: '',
+      type: 'content',
+      section: 'workspace',
+      title: this.getLocalizedTitle('workspace_overview', language),
+      content: `${workspace.tool} workspace: ${workspace.packages.length} packages`,
+      bullets,
+      speakerNotes: repository.scope
+        ? {
+          ja: `このリポジトリは${workspace.packages.length}個のパッケージからなるモノレポです。今回はその中の${repository.name}を紹介します。`,
+          en: `This repository is a monorepo of ${workspace.packages.length} packages. Today we look at ${repository.name}.`,
+          zh: `这个仓库是由 ${workspace.packages.length} 个包组成的 monorepo，本次介绍其中的 ${repository.name}。`
+        }[language]
+        : {
+          ja: `このリポジトリは${workspace.packages.length}個のパッケージからなるモノレポで、パッケージ間に${dependencyCount}本の依存関係があります。`,
+          en: `This repository is a monorepo of ${workspace.packages.length} packages with ${dependencyCount} dependencies between them.`,
+          zh: `这个仓库是由 ${workspace.packages.length} 个包组成的 monorepo，包之间有 ${dependencyCount} 条依赖关系。`
+        }[language],
+      duration: 0
+    })
+
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
+  private generateChangeBreakdownChart(repository: RepositoryData, language: 'ja' | 'en' | 'zh') {
+    const groups = Array.from(summarizeRelease(repository).groups.entries()).sort((a, b) => b[1].length - a[1].length)
+    return {
+      type: 'bar' as const,
+      title: this.getLocalizedTitle('change_breakdown', language),
+      data: groups.map(([, commits]) => commits.length),
+      labels: groups.map(([category]) => CHANGE_CATEGORY_LABELS[language][category])
+    }
+  }
+
+  // API tour before the closing slide: an overview of the exports, then the key signatures with their JSDoc
+  private insertApiOverview(
+    slides: Slide[],
+    repository: RepositoryData,
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ) {
+    const surface = repository.apiSurface!
+    const overview = story.apiOverview!
+    const signatureSlides: Slide[] = selectKeySymbols(surface, duration === 5 ? 2 : 1).map(symbol => ({
+      id: '',
+      type: 'code',
+      section: 'api_overview',
+      title: `${this.getLocalizedTitle('api_signature', language)}: ${symbol.name}`,
+      content: symbol.doc || '',
+      code: {
+        language: /\.(ts|tsx|mts|cts)$/.test(symbol.path) ? 'typescript' : 'javascript',
+        code: symbol.signature,
+        explanation: symbol.doc || `${symbol.kind} ${symbol.name}`,
+        path: symbol.path,
+        startLine: symbol.line,
+        endLine: symbol.line + symbol.signature.split('\n').length - 1
+      },
+      speakerNotes: {
+        ja: `${symbol.name} のシグネチャです。${symbol.doc || '引数と戻り値の型に注目してください。'}`,
+        en: `This is the signature of ${symbol.name}. ${symbol.doc || 'Note the parameter and return types.'}`,
+        zh: `这是 ${symbol.name} 的签名。${symbol.doc || '请注意参数和返回值的类型。'}`
+      }[language],
+      duration: 0
+    }))
+
+    slides.splice(Math.max(slides.length - 1, 1), 0, {
+      id: '',
+      type: 'content',
+      section: 'api_overview',
+      title: this.getLocalizedTitle('api_overview', language),
+      content: overview.content,
+      bullets: overview.bullets,
+      speakerNotes: {
+        ja: `${surface.packageName} を利用者の視点から見てみましょう。公開されているAPIは${surface.symbols.length}個です。`,
+        en: `Let's look at ${surface.packageName} from a user's point of view. It exports ${surface.symbols.length} APIs.`,
+        zh: `让我们从使用者的角度看看 ${surface.packageName}，它公开了 ${surface.symbols.length} 个 API。`
+      }[language],
+      duration: 0
+    }, ...signatureSlides)
+
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
+  // Lines of code per language, with the function count and average complexity
+  private insertMetricsSlide(
+    slides: Slide[],
+    repository: RepositoryData,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ) {
+    const metrics = repository.codeMetrics!
+    const label = (key: string) => this.getLocalizedContent(key, language)
+    const approximately = metrics.linesEstimated ? label('approximately') : ''
+    const top = metrics.languages[0]
+    const share = metrics.totalLines > 0 ? Math.round((top.lines / metrics.totalLines) * 100) : 0
+
+    slides.splice(Math.max(slides.length - 1, 1), 0, {
+      id: '',
+      type: 'chart',
+      section: 'metrics',
+      title: this.getLocalizedTitle('by_the_numbers', language),
+      content: `${label('lines_of_code')}: ${approximately}${metrics.totalLines.toLocaleString()}`,
+      bullets: [
+        ...metrics.languages.slice(0, 4).map(entry =>
+          `${entry.language}: ${entry.lines.toLocaleString()} ${label('lines')} / ${entry.files} ${label('files')}`),
+        ...(metrics.functions > 0
+          ? [`${label('functions')}: ${metrics.functions} / ${label('average_complexity')}: ${metrics.averageComplexity}`]
+          : [])
+      ],
+      chart: {
+        type: 'bar',
+        title: label('lines_of_code'),
+        data: metrics.languages.slice(0, 6).map(entry => entry.lines),
+        labels: metrics.languages.slice(0, 6).map(entry => entry.language)
+      },
+      speakerNotes: {
+        ja: `${metrics.totalFiles}個のソースファイル、${metrics.linesEstimated ? '約' : ''}${metrics.totalLines.toLocaleString()}行のコードのうち、` +
+          `${top.language}が${share}%を占めています。` +
+          (metrics.functions > 0 ? `関数の循環的複雑度は平均${metrics.averageComplexity}です。` : ''),
+        en: `Of ${metrics.linesEstimated ? 'about ' : ''}${metrics.totalLines.toLocaleString()} lines of code in ${metrics.totalFiles} source files, ` +
+          `${share}% is ${top.language}.` +
+          (metrics.functions > 0 ? ` Functions average a cyclomatic complexity of ${metrics.averageComplexity}.` : ''),
+        zh: `在 ${metrics.totalFiles} 个源文件、${metrics.linesEstimated ? '约 ' : ''}${metrics.totalLines.toLocaleString()} 行代码中，` +
+          `${top.language} 占 ${share}%。` +
+          (metrics.functions > 0 ? `函数的平均圈复杂度为 ${metrics.averageComplexity}。` : '')
+      }[language],
+      duration: 0
+    })
+
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
+  // Hotspots where history has per-file changes, the most complex functions otherwise
+  private insertComplexitySlide(
+    slides: Slide[],
+    repository: RepositoryData,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ) {
+    const { hotspots, complexFunctions } = repository.codeMetrics!
+    const label = (key: string) => this.getLocalizedContent(key, language)
+    const fileName = (path: string) => path.split('/').pop() || path
+    const [hotspot] = hotspots
+    const [complexFunction] = complexFunctions
+
+    slides.splice(Math.max(slides.length - 1, 1), 0, {
+      id: '',
+      type: 'chart',
+      section: 'complexity',
+      title: this.getLocalizedTitle('complexity_hotspots', language),
+      content: label(hotspot ? 'hotspots_intro' : 'complex_functions_intro'),
+      bullets: hotspot
+        ? hotspots.slice(0, 3).map(entry =>
+          `${entry.path}: ${entry.changes} ${label('changes')} × ${label('complexity')} ${entry.complexity}`)
+        : complexFunctions.slice(0, 3).map(entry => `${entry.name} (${entry.path}:${entry.line}): ${entry.complexity}`),
+      chart: hotspot
+        ? {
+          type: 'bar',
+          title: label('hotspot_score'),
+          data: hotspots.map(entry => entry.score),
+          labels: hotspots.map(entry => fileName(entry.path))
+        }
+        : {
+          type: 'bar',
+          title: label('complexity'),
+          data: complexFunctions.slice(0, 6).map(entry => entry.complexity),
+          labels: complexFunctions.slice(0, 6).map(entry => entry.name)
+        },
+      speakerNotes: hotspot
+        ? {
+          ja: `変更の多さと複雑さを掛け合わせると、${fileName(hotspot.path)}が最も手を入れる価値のあるファイルです。` +
+            `${hotspot.changes}回変更されていて、関数の複雑度の合計は${hotspot.complexity}です。`,
+          en: `Weighing how often files change against how complex they are, ${fileName(hotspot.path)} is the file most worth improving. ` +
+            `It changed ${hotspot.changes} times and its functions add up to a complexity of ${hotspot.complexity}.`,
+          zh: `综合变更频率和复杂度来看，${fileName(hotspot.path)} 是最值得改进的文件。` +
+            `它被修改了 ${hotspot.changes} 次，函数复杂度合计为 ${hotspot.complexity}。`
+        }[language]
+        : {
+          ja: `最も複雑な関数は${complexFunction.path}の${complexFunction.name}で、循環的複雑度は${complexFunction.complexity}です。` +
+            (complexFunction.complexity > 10 ? 'リファクタリングやテストの追加を優先したい箇所です。' : ''),
+          en: `The most complex function is ${complexFunction.name} in ${complexFunction.path}, with a cyclomatic complexity of ${complexFunction.complexity}.` +
+            (complexFunction.complexity > 10 ? ' It is the first candidate for refactoring and more tests.' : ''),
+          zh: `最复杂的函数是 ${complexFunction.path} 中的 ${complexFunction.name}，圈复杂度为 ${complexFunction.complexity}。` +
+            (complexFunction.complexity > 10 ? '这里应优先重构并补充测试。' : '')
+        }[language],
+      duration: 0
+    })
+
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
+  // Test suite size next to the code base, before the closing slide
+  private insertQualitySlide(
+    slides: Slide[],
+    repository: RepositoryData,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ) {
+    const testing = repository.testing!
+    const label = (key: string) => this.getLocalizedContent(key, language)
+    const cases = `${testing.testCasesEstimated ? label('approximately') : ''}${testing.testCases}`
+
+    slides.splice(Math.max(slides.length - 1, 1), 0, {
+      id: '',
+      type: 'chart',
+      section: 'quality',
+      title: this.getLocalizedTitle('quality_testing', language),
+      content: `${label('test_ratio')}: ${testing.ratio}`,
+      bullets: [
+        `${label('test_frameworks')}: ${testing.frameworks.join(', ')}`,
+        `${label('test_files')} ${testing.testFiles} / ${label('source_files')} ${testing.sourceFiles}`,
+        `${label('test_cases')}: ${cases}`,
+        ...testing.byFramework.slice(0, 3).map(framework => `${framework.name}: ${framework.files} files / ${framework.cases} cases`)
+      ],
+      chart: {
+        type: 'bar',
+        title: this.getLocalizedTitle('quality_testing', language),
+        data: [testing.sourceFiles, testing.testFiles, testing.testCases],
+        labels: [label('source_files'), label('test_files'), label('test_cases')]
+      },
+      speakerNotes: testing.ratio >= 0.5
+        ? {
+          ja: `ソースファイル${testing.sourceFiles}個に対してテストファイルが${testing.testFiles}個あり、${testing.frameworks[0]}を中心にテストが充実しています。`,
+          en: `There are ${testing.testFiles} test files for ${testing.sourceFiles} source files, with a solid ${testing.frameworks[0]} suite.`,
+          zh: `${testing.sourceFiles} 个源文件对应 ${testing.testFiles} 个测试文件，以 ${testing.frameworks[0]} 为主的测试相当完善。`
+        }[language]
+        : {
+          ja: `テストファイルは${testing.testFiles}個（ソースファイル${testing.sourceFiles}個）です。${testing.frameworks[0]}でテストを書いていますが、まだ拡充の余地があります。`,
+          en: `There are ${testing.testFiles} test files (${testing.sourceFiles} source files). Tests are written with ${testing.frameworks[0]}, but there is room to grow.`,
+          zh: `共有 ${testing.testFiles} 个测试文件（${testing.sourceFiles} 个源文件）。测试使用 ${testing.frameworks[0]} 编写，但仍有扩充空间。`
+        }[language],
+      duration: 0
+    })
+
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
+  // Pipeline from trigger to deploy target, before the closing slide
+  private insertDeliverySlide(
+    slides: Slide[],
+    repository: RepositoryData,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ) {
+    const delivery = repository.deliveryAnalysis!
+    const diagram = buildPipelineDiagram(delivery, this.getLocalizedTitle('how_we_ship', language))
+    if (!diagram && delivery.deployTargets.length === 0) return
+
+    const label = (key: string) => this.getLocalizedContent(key, language)
+    const providers = Array.from(new Set(delivery.pipelines.map(pipeline => DELIVERY_PROVIDER_LABELS[pipeline.provider])))
+    const triggers = Array.from(new Set(delivery.pipelines.flatMap(pipeline => pipeline.triggers)))
+
+    slides.splice(Math.max(slides.length - 1, 1), 0, {
+      id: '',
+      type: diagram ? 'diagram' : 'content',
+      section: 'delivery',
+      title: this.getLocalizedTitle('how_we_ship', language),
+      content: providers.join(', '),
+      bullets: [
+        ...(triggers.length > 0 ? [`${label('delivery_triggers')}: ${triggers.join(', ')}`] : []),
+        ...(delivery.deployTargets.length > 0 ? [`${label('deploy_targets')}: ${delivery.deployTargets.join(', ')}`] : []),
+        ...(delivery.containerImages.length > 0
+          ? [`${label('container_images')}: ${delivery.containerImages.slice(0, 3).map(image => image.image).join(', ')}`]
+          : []),
+        ...delivery.helmCharts.slice(0, 2).map(chart => `Helm: ${chart.name}${chart.version ? ` ${chart.version}` : ''}`)
+      ],
+      ...(diagram ? { diagram } : {}),
+      speakerNotes: {
+        ja: `${providers.length > 0 ? `${providers.join('、')}のパイプラインが` : ''}` +
+          `${triggers.length > 0 ? `${triggers.join('・')}をきっかけに動き、` : ''}` +
+          (delivery.deployTargets.length > 0
+            ? `${delivery.deployTargets.join('、')}までリリースを自動化しています。`
+            : 'ビルドとテストを自動で回しています。'),
+        en: `${providers.length > 0 ? `${providers.join(', ')} pipelines ` : 'Pipelines '}` +
+          `${triggers.length > 0 ? `run on ${triggers.join(', ')} and ` : ''}` +
+          (delivery.deployTargets.length > 0
+            ? `automate releases all the way to ${delivery.deployTargets.join(', ')}.`
+            : 'keep the build and tests running automatically.'),
+        zh: `${providers.length > 0 ? `${providers.join('、')} 流水线` : '流水线'}` +
+          `${triggers.length > 0 ? `在 ${triggers.join('、')} 时触发，` : ''}` +
+          (delivery.deployTargets.length > 0
+            ? `将发布一直自动化到 ${delivery.deployTargets.join('、')}。`
+            : '自动运行构建和测试。')
+      }[language],
+      duration: 0
+    })
+
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
+  // Shipped versions as a roadmap-style timeline that ends with the unreleased work
+  private insertMilestoneSlide(
+    slides: Slide[],
+    repository: RepositoryData,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ) {
+    const history = repository.releaseHistory!
+    const diagram = buildMilestoneTimeline(history, this.getLocalizedTitle('milestones', language), this.getLocalizedContent('unreleased', language))
+    if (!diagram) return
+
+    const shipped = history.milestones.filter(milestone => !milestone.prerelease)
+    slides.splice(Math.max(slides.length - 1, 1), 0, {
+      id: '',
+      type: 'diagram',
+      section: 'milestones',
+      title: this.getLocalizedTitle('milestones', language),
+      content: '',
+      bullets: [
+        ...shipped.slice(0, 3).map(milestone => `${milestone.version}${milestone.date ? ` (${milestone.date})` : ''}` +
+          (milestone.highlights[0] ? `: ${milestone.highlights[0]}` : '')),
+        ...(history.unreleased.length > 0 ? [`${this.getLocalizedContent('unreleased', language)}: ${history.unreleased[0]}`] : [])
+      ],
+      diagram,
+      speakerNotes: {
+        ja: (shipped.length > 0 ? `これまでに${shipped.length}回のリリースを重ね、最新は${shipped[0].version}です。` : '') +
+          (history.unreleased.length > 0 ? `次のリリースでは「${history.unreleased[0]}」などを予定しています。` : ''),
+        en: (shipped.length > 0 ? `The project has shipped ${shipped.length} releases; the latest is ${shipped[0].version}. ` : '') +
+          (history.unreleased.length > 0 ? `The next release will include "${history.unreleased[0]}" and more.` : ''),
+        zh: (shipped.length > 0 ? `项目已发布 ${shipped.length} 个版本，最新版本是 ${shipped[0].version}。` : '') +
+          (history.unreleased.length > 0 ? `下一个版本计划包含「${history.unreleased[0]}」等内容。` : '')
+      }[language].trim(),
+      duration: 0
+    })
+
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
+  // Weekly commit cadence with contributor counts and the bus factor
+  private insertActivitySlide(
+    slides: Slide[],
+    repository: RepositoryData,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ) {
+    const activity = repository.contributors!
+    const label = (key: string) => this.getLocalizedContent(key, language)
+    const weeks = activity.weeklyCommits.slice(-26)
+    const perWeek = Math.round((activity.totalCommits / activity.weeklyCommits.length) * 10) / 10
+    const period = `${activity.firstActivity.slice(0, 10)} – ${activity.lastActivity.slice(0, 10)}`
+
+    slides.splice(Math.max(slides.length - 1, 1), 0, {
+      id: '',
+      type: 'chart',
+      section: 'activity',
+      title: this.getLocalizedTitle('activity', language),
+      content: `${label('active_period')}: ${period}`,
+      bullets: [
+        `${label('contributors')}: ${activity.contributors.length}`,
+        `${label('bus_factor')}: ${activity.busFactor}`,
+        `${label('commits_per_week')}: ${perWeek}`
+      ],
+      chart: {
+        type: 'timeline',
+        title: label('commits_per_week'),
+        data: weeks.map(week => week.commits),
+        labels: weeks.map(week => week.week)
+      },
+      speakerNotes: {
+        ja: `${activity.totalCommits}件のコミットを${activity.contributors.length}人で積み上げてきました。` +
+          `上位${activity.busFactor}人でコミットの過半を占めています。` +
+          (activity.busFactor === 1 && activity.contributors.length > 1 ? '知識が一人に集中しているため、レビューやドキュメントで共有を進めたいところです。' : ''),
+        en: `${activity.contributors.length} people have made ${activity.totalCommits} commits. ` +
+          `The top ${activity.busFactor} account for more than half of them.` +
+          (activity.busFactor === 1 && activity.contributors.length > 1 ? ' Knowledge is concentrated in one person, so reviews and documentation should spread it.' : ''),
+        zh: `${activity.contributors.length} 人共提交了 ${activity.totalCommits} 次。` +
+          `前 ${activity.busFactor} 人贡献了超过一半的提交。` +
+          (activity.busFactor === 1 && activity.contributors.length > 1 ? '知识集中在一个人身上，应通过评审和文档进行分享。' : '')
+      }[language],
+      duration: 0
+    })
+
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
+  // README screenshots and diagrams in story order; a short deck gets only the first one
+  private insertImageSlides(
+    slides: Slide[],
+    story: StoryStructure,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ) {
+    const images = [story.why, story.problem, story.approach, story.result, story.next]
+      .flatMap(section => section.images || [])
+      .slice(0, duration === 3 ? 1 : 2)
+    if (images.length === 0) return
+
+    images.forEach(image => {
+      slides.splice(Math.max(slides.length - 1, 1), 0, {
+        id: '',
+        type: 'image',
+        section: 'screenshots',
+        title: this.getLocalizedTitle(image.type === 'diagram' ? 'system_diagram' : 'in_action', language),
+        content: image.caption || '',
+        image,
+        speakerNotes: {
+          ja: (image.type === 'diagram' ? 'この図でシステム全体の構成を説明します。' : '実際の画面をご覧ください。') +
+            (image.ocrText ? `画面には「${image.ocrText.slice(0, 80)}」と表示されています。` : ''),
+          en: (image.type === 'diagram' ? 'This diagram shows how the whole system fits together.' : 'Here is the project in action.') +
+            (image.ocrText ? ` The screen reads "${image.ocrText.slice(0, 80)}".` : ''),
+          zh: (image.type === 'diagram' ? '这张图说明了整个系统的结构。' : '请看实际画面。') +
+            (image.ocrText ? `画面上显示「${image.ocrText.slice(0, 80)}」。` : '')
+        }[language],
+        duration: 0
+      })
+    })
+
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
+  // Top contributors by commits, right before the closing slide
+  private insertAcknowledgmentsSlide(
+    slides: Slide[],
+    repository: RepositoryData,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh'
+  ) {
+    const { contributors } = repository.contributors!
+    const label = (key: string) => this.getLocalizedContent(key, language)
+    const others = contributors.length - 5
+
+    slides.splice(Math.max(slides.length - 1, 1), 0, {
+      id: '',
+      type: 'content',
+      section: 'acknowledgments',
+      title: this.getLocalizedTitle('acknowledgments', language),
+      content: label('acknowledgments_intro'),
+      bullets: [
+        ...contributors.slice(0, 5).map(contributor => `${contributor.name}: ${contributor.commits} ${label('commits')}`),
+        ...(others > 0 ? [`+${others} ${label('more_contributors')}`] : [])
+      ],
+      speakerNotes: {
+        ja: `このプロジェクトを支えてくれた${contributors.length}人のコントリビューターに感謝します。` +
+          `特に${contributors.slice(0, 3).map(contributor => contributor.name).join('さん、')}さんの貢献が大きな力になりました。`,
+        en: `Thank you to the ${contributors.length} contributors who made this project possible, ` +
+          `especially ${contributors.slice(0, 3).map(contributor => contributor.name).join(', ')}.`,
+        zh: `感谢支持本项目的 ${contributors.length} 位贡献者，` +
+          `特别是 ${contributors.slice(0, 3).map(contributor => contributor.name).join('、')} 的巨大贡献。`
+      }[language],
+      duration: 0
+    })
+
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
+  // Business decks drop the engineering detail, technical decks open with the architecture and code,
+  // general decks skip the jargon-heavy deep dives and close with a glossary
+  private adaptToAudience(
+    slides: Slide[],
+    repository: RepositoryData,
+    story: StoryStructure,
+    mode: PresentationMode,
+    duration: 3 | 5,
+    language: 'ja' | 'en' | 'zh',
+    audience: Audience
+  ): Slide[] {
+    const hidden = this.getHiddenSections(audience)
+    let adapted = slides.filter(slide => !slide.section || !hidden.includes(slide.section))
+
+    if (audience === 'technical') {
+      const code = DEEP_DIVE_MODES.includes(mode) && !adapted.some(slide => slide.type === 'code')
+        ? this.generateCodeSnippet(repository, language)
+        : null
+      if (code) {
+        adapted.push({
+          id: '',
+          type: 'code',
+          section: 'implementation',
+          title: this.getLocalizedTitle('implementation', language),
+          content: this.getLocalizedContent('implementation_approach', language),
+          code,
+          speakerNotes: this.generateImplementationNotes(repository, language),
+          duration: 0
+        })
+      }
+      const leads = (slide: Slide) => slide.type === 'code' || (!!slide.section && TECHNICAL_LEAD_SECTIONS.includes(slide.section))
+      const [title, ...rest] = adapted
+      adapted = [title, ...rest.filter(leads), ...rest.filter(slide => !leads(slide))]
+    }
+
+    if (audience === 'general' && story.glossary && story.glossary.length > 0) {
+      adapted.splice(Math.max(adapted.length - 1, 1), 0, this.buildGlossarySlide(story.glossary, language))
+    }
+
+    this.renumberSlides(adapted, duration)
+    return adapted
+  }
+
+  private getHiddenSections(audience?: Audience): SlideSection[] {
+    return audience === 'business' ? BUSINESS_HIDDEN_SECTIONS : audience === 'general' ? GENERAL_HIDDEN_SECTIONS : []
+  }
+
+  // Template sections the audience's built-in decks leave out; required ones stay, the template asks for them
+  private isHiddenFor(section: TemplateSection, audience?: Audience): boolean {
+    return !section.required && this.getHiddenSections(audience).includes(TEMPLATE_BINDING_SLIDES[section.binding].section)
+  }
+
+  private buildGlossarySlide(glossary: GlossaryEntry[], language: 'ja' | 'en' | 'zh'): Slide {
+    const terms = glossary.slice(0, 6)
+    return {
+      id: '',
+      type: 'content',
+      section: 'glossary',
+      title: this.getLocalizedTitle('glossary', language),
+      content: this.getLocalizedContent('glossary_intro', language),
+      bullets: terms.map(entry => `${entry.term}: ${entry.definition}`),
+      speakerNotes: {
+        ja: `発表に出てきた${terms.length}つの用語を、日常の言葉で説明します。質問のときにも、このスライドに戻ってください。`,
+        en: `Here are ${terms.length} terms from the talk in everyday words. Come back to this slide during questions.`,
+        zh: `用日常语言解释演讲中出现的 ${terms.length} 个术语。提问时也可以回到这张幻灯片。`
+      }[language],
+      duration: 0
+    }
+  }
+
+  // Bullets taken over from the story keep its citations
+  private citeSlides(slides: Slide[], story: StoryStructure): Slide[] {
+    const sections = [story.why, story.problem, story.approach, story.result, story.next, story.apiOverview]
+    const sources = new Map<string, Citation[]>(sections.flatMap(section => Object.entries(section?.citations || {})))
+    return slides.map(slide => {
+      const cited = (slide.bullets || []).filter(bullet => sources.has(bullet))
+      return cited.length > 0
+        ? { ...slide, citations: Object.fromEntries(cited.map(bullet => [bullet, sources.get(bullet)!])) }
+        : slide
+    })
+  }
+
+  // Builders that vary their slide count number and time the slides once the deck is assembled
+  private renumberSlides(slides: Slide[], duration: 3 | 5) {
+    const timePerSlide = (duration * 60) / slides.length
+    slides.forEach((slide, index) => {
+      slide.id = String(index + 1)
+      slide.duration = timePerSlide
+    })
+  }
+
   private getLocalizedTitle(key: string, language: 'ja' | 'en' | 'zh'): string {
     const titles = {
       ja: {
@@ -455,7 +2246,62 @@ class Application:
         results: '成果と効果',
         next: '今後の展開',
         thanks: 'ありがとうございました',
-        github_url: 'GitHub URL:'
+        github_url: 'GitHub URL:',
+        whats_new: '新機能紹介',
+        highlights: 'ハイライト',
+        change_breakdown: '変更の内訳',
+        new_features: '新機能と改善',
+        fixes: '不具合修正',
+        dependency_changes: '依存関係の変更',
+        upgrade_notes: 'アップグレードノート',
+        workspace_overview: 'ワークスペース構成',
+        api_overview: 'API概要',
+        api_signature: 'API',
+        module_dependencies: 'モジュール依存関係',
+        by_the_numbers: '数字で見るプロジェクト',
+        complexity_hotspots: '複雑さはどこにあるか',
+        quality_testing: '品質とテスト',
+        how_we_ship: '開発からリリースまで',
+        activity: '開発アクティビティ',
+        acknowledgments: '謝辞',
+        glossary: '用語集',
+        references: '参考資料',
+        milestones: 'リリースの歩み',
+        in_action: '実際の画面',
+        system_diagram: 'システム構成図',
+        introduction: 'Introduction',
+        methods: 'Methods',
+        implementation: 'Implementation',
+        imrad_results: 'Results',
+        analysis: 'Analysis',
+        discussion: 'Discussion',
+        conclusion: 'Conclusion',
+        the_problem: '解決する課題',
+        solution: 'ソリューション',
+        traction: 'トラクション',
+        team: 'チーム',
+        the_ask: 'お願いしたいこと',
+        sprint_review: 'スプリントレビュー',
+        sprint_goal: '今回のスプリント',
+        shipped: 'リリースしたもの',
+        demo: 'デモ',
+        sprint_numbers: '数字で見るスプリント',
+        next_sprint: '次のスプリント',
+        incident_review: 'インシデントの振り返り',
+        incident_summary: '概要',
+        impact: '影響範囲',
+        timeline: 'タイムライン',
+        root_causes: '根本原因',
+        action_items: '再発防止策',
+        lessons_learned: '学んだこと',
+        project_overview: 'プロジェクトの全体像',
+        getting_started: 'はじめかた',
+        codebase_tour: 'コードベースの歩き方',
+        dev_workflow: '開発の流れ',
+        where_to_start: '最初の一歩',
+        hook: 'なぜ大事なのか',
+        big_idea: 'アイデア',
+        takeaway: '持ち帰ってほしいこと'
       },
       en: {
         why: 'Why We Built This',
@@ -465,7 +2311,62 @@ class Application:
         results: 'Results & Impact',
         next: 'What\'s Next',
         thanks: 'Thank You',
-        github_url: 'GitHub URL:'
+        github_url: 'GitHub URL:',
+        whats_new: 'What\'s New',
+        highlights: 'Highlights',
+        change_breakdown: 'Change Breakdown',
+        new_features: 'New Features & Improvements',
+        fixes: 'Bug Fixes',
+        dependency_changes: 'Dependency Changes',
+        upgrade_notes: 'Upgrade Notes',
+        workspace_overview: 'Workspace Overview',
+        api_overview: 'API Overview',
+        api_signature: 'API',
+        module_dependencies: 'Module Dependencies',
+        by_the_numbers: 'By the Numbers',
+        complexity_hotspots: 'Where the Complexity Lives',
+        quality_testing: 'Quality & Testing',
+        how_we_ship: 'How We Ship',
+        activity: 'Development Activity',
+        acknowledgments: 'Acknowledgments',
+        glossary: 'Glossary',
+        references: 'References',
+        milestones: 'Milestones',
+        in_action: 'In Action',
+        system_diagram: 'System Diagram',
+        introduction: 'Introduction',
+        methods: 'Methods',
+        implementation: 'Implementation',
+        imrad_results: 'Results',
+        analysis: 'Analysis',
+        discussion: 'Discussion',
+        conclusion: 'Conclusion',
+        the_problem: 'The Problem',
+        solution: 'Our Solution',
+        traction: 'Traction',
+        team: 'The Team',
+        the_ask: 'The Ask',
+        sprint_review: 'Sprint Review',
+        sprint_goal: 'This Sprint',
+        shipped: 'What We Shipped',
+        demo: 'Demo',
+        sprint_numbers: 'Sprint in Numbers',
+        next_sprint: 'Next Sprint',
+        incident_review: 'Incident Postmortem',
+        incident_summary: 'Summary',
+        impact: 'Impact',
+        timeline: 'Timeline',
+        root_causes: 'Root Causes',
+        action_items: 'Action Items',
+        lessons_learned: 'Lessons Learned',
+        project_overview: 'Project Overview',
+        getting_started: 'Getting Started',
+        codebase_tour: 'Codebase Tour',
+        dev_workflow: 'Development Workflow',
+        where_to_start: 'Where to Start',
+        hook: 'Why It Matters',
+        big_idea: 'The Big Idea',
+        takeaway: 'Takeaway'
       },
       zh: {
         why: '为什么构建这个',
@@ -475,7 +2376,62 @@ class Application:
         results: '结果与影响',
         next: '下一步计划',
         thanks: '谢谢',
-        github_url: 'GitHub URL:'
+        github_url: 'GitHub URL:',
+        whats_new: '新版本亮点',
+        highlights: '亮点',
+        change_breakdown: '变更构成',
+        new_features: '新功能与改进',
+        fixes: '问题修复',
+        dependency_changes: '依赖变更',
+        upgrade_notes: '升级说明',
+        workspace_overview: '工作区概览',
+        api_overview: 'API 概览',
+        api_signature: 'API',
+        module_dependencies: '模块依赖关系',
+        by_the_numbers: '数据一览',
+        complexity_hotspots: '复杂度集中在哪里',
+        quality_testing: '质量与测试',
+        how_we_ship: '交付流程',
+        activity: '开发活动',
+        acknowledgments: '致谢',
+        glossary: '术语表',
+        references: '参考资料',
+        milestones: '里程碑',
+        in_action: '实际效果',
+        system_diagram: '系统架构图',
+        introduction: '引言',
+        methods: '方法',
+        implementation: '实现',
+        imrad_results: '结果',
+        analysis: '分析',
+        discussion: '讨论',
+        conclusion: '结论',
+        the_problem: '要解决的问题',
+        solution: '解决方案',
+        traction: '增长势头',
+        team: '团队',
+        the_ask: '我们的诉求',
+        sprint_review: '迭代评审',
+        sprint_goal: '本次迭代',
+        shipped: '已交付内容',
+        demo: '演示',
+        sprint_numbers: '迭代数据',
+        next_sprint: '下一个迭代',
+        incident_review: '事故复盘',
+        incident_summary: '概述',
+        impact: '影响范围',
+        timeline: '时间线',
+        root_causes: '根本原因',
+        action_items: '改进措施',
+        lessons_learned: '经验教训',
+        project_overview: '项目概览',
+        getting_started: '快速上手',
+        codebase_tour: '代码库导览',
+        dev_workflow: '开发流程',
+        where_to_start: '从哪里开始',
+        hook: '为什么重要',
+        big_idea: '核心想法',
+        takeaway: '要点'
       }
     }
     return (titles as any)[language][key] || (titles as any).ja[key]
@@ -484,13 +2440,190 @@ class Application:
   private getLocalizedContent(key: string, language: 'ja' | 'en' | 'zh'): string {
     const content = {
       ja: {
-        github_url: 'GitHub URL:'
+        repository_url: 'リポジトリURL:',
+        no_template_data: 'このリポジトリからはこのセクションの内容を取得できませんでした',
+        glossary_intro: 'この発表に出てくる言葉',
+        references_intro: 'スライドの [番号] が示すリポジトリ内の根拠',
+        more_packages: '個のパッケージ（他）',
+        lines_of_code: 'コード行数',
+        lines: '行',
+        files: 'ファイル',
+        functions: '関数',
+        average_complexity: '平均循環的複雑度',
+        complexity: '循環的複雑度',
+        changes: '回の変更',
+        hotspot_score: '変更回数 × 複雑度',
+        hotspots_intro: '変更が多く、しかも複雑なファイル',
+        complex_functions_intro: '分岐やループが最も多い関数',
+        test_frameworks: 'テストフレームワーク',
+        test_files: 'テストファイル',
+        source_files: 'ソースファイル',
+        test_cases: 'テストケース',
+        test_ratio: 'テスト/ソース比',
+        approximately: '約',
+        delivery_triggers: 'トリガー',
+        deploy_targets: 'デプロイ先',
+        container_images: 'コンテナイメージ',
+        contributors: 'コントリビューター',
+        bus_factor: 'バスファクター',
+        commits_per_week: '週あたりのコミット数',
+        active_period: '活動期間',
+        commits: 'コミット',
+        more_contributors: '人のコントリビューター',
+        acknowledgments_intro: 'このプロジェクトに貢献してくださった皆さんに感謝します',
+        unreleased: '次期リリース',
+        tech_stack: 'プロジェクトの技術構成',
+        tech_stack_chart: '技術構成',
+        analysis_results: 'プロジェクト分析結果',
+        analysis_chart: 'プロジェクト分析',
+        implementation_approach: '主要な実装アプローチ',
+        purpose: '目的',
+        technology: '技術',
+        started: '開始',
+        limitations: '制約',
+        open_issues: '今後の課題',
+        applications: '応用可能性',
+        primary_language: '主要言語',
+        dependencies: '依存関係',
+        file_structure: 'ファイル構成',
+        development_period: '開発期間',
+        needs_test_coverage: 'テストカバレッジの拡充が必要',
+        needs_dependency_cleanup: '依存関係の最適化が必要',
+        environment_specific: '特定の環境への依存',
+        web_applications: 'Web アプリケーション開発全般',
+        data_science: 'データ分析・機械学習分野',
+        similar_projects: '同様のプロジェクト開発',
+        stable_operation: '安定した動作を実現',
+        stars: 'スター',
+        forks: 'フォーク',
+        fixes_per_week: '週あたりの修正コミット数',
+        welcome_aboard: 'ようこそ！',
+        see_readme: '詳しい手順はREADMEを参照してください',
+        key_files: '主要なファイル'
       },
       en: {
-        github_url: 'GitHub URL:'
+        repository_url: 'Repository URL:',
+        no_template_data: 'The repository has nothing for this section yet',
+        glossary_intro: 'Words used in this talk',
+        references_intro: 'Where the numbered claims in this deck come from in the repository',
+        more_packages: 'more packages',
+        lines_of_code: 'Lines of code',
+        lines: 'lines',
+        files: 'files',
+        functions: 'Functions',
+        average_complexity: 'Avg. cyclomatic complexity',
+        complexity: 'Cyclomatic complexity',
+        changes: 'changes',
+        hotspot_score: 'Changes × complexity',
+        hotspots_intro: 'Files that change often and are complex',
+        complex_functions_intro: 'Functions with the most branches and loops',
+        test_frameworks: 'Test frameworks',
+        test_files: 'Test files',
+        source_files: 'Source files',
+        test_cases: 'Test cases',
+        test_ratio: 'Test/source ratio',
+        approximately: '~',
+        delivery_triggers: 'Triggers',
+        deploy_targets: 'Deploys to',
+        container_images: 'Container images',
+        contributors: 'Contributors',
+        bus_factor: 'Bus factor',
+        commits_per_week: 'Commits per week',
+        active_period: 'Active period',
+        commits: 'commits',
+        more_contributors: 'more contributors',
+        acknowledgments_intro: 'Thanks to everyone who contributed to this project',
+        unreleased: 'Unreleased',
+        tech_stack: 'Project technology stack',
+        tech_stack_chart: 'Technology stack',
+        analysis_results: 'Project analysis',
+        analysis_chart: 'Project analysis',
+        implementation_approach: 'Key implementation approach',
+        purpose: 'Purpose',
+        technology: 'Technology',
+        started: 'Started',
+        limitations: 'Limitations',
+        open_issues: 'Open issues',
+        applications: 'Applications',
+        primary_language: 'Primary language',
+        dependencies: 'Dependencies',
+        file_structure: 'Files',
+        development_period: 'Development period',
+        needs_test_coverage: 'Test coverage needs to grow',
+        needs_dependency_cleanup: 'Dependencies need trimming',
+        environment_specific: 'Depends on a specific environment',
+        web_applications: 'Web application development in general',
+        data_science: 'Data analysis and machine learning',
+        similar_projects: 'Similar projects',
+        stable_operation: 'Runs reliably',
+        stars: 'Stars',
+        forks: 'Forks',
+        fixes_per_week: 'Fix commits per week',
+        welcome_aboard: 'Welcome aboard!',
+        see_readme: 'See the README for the full instructions',
+        key_files: 'Key files'
       },
       zh: {
-        github_url: 'GitHub URL:'
+        repository_url: '仓库地址:',
+        no_template_data: '该仓库中没有此部分的内容',
+        glossary_intro: '本次演讲中出现的词语',
+        references_intro: '幻灯片中 [编号] 所指的仓库出处',
+        more_packages: '个其他包',
+        lines_of_code: '代码行数',
+        lines: '行',
+        files: '个文件',
+        functions: '函数',
+        average_complexity: '平均圈复杂度',
+        complexity: '圈复杂度',
+        changes: '次变更',
+        hotspot_score: '变更次数 × 复杂度',
+        hotspots_intro: '变更频繁且复杂的文件',
+        complex_functions_intro: '分支和循环最多的函数',
+        test_frameworks: '测试框架',
+        test_files: '测试文件',
+        source_files: '源文件',
+        test_cases: '测试用例',
+        test_ratio: '测试/源码比',
+        approximately: '约',
+        delivery_triggers: '触发条件',
+        deploy_targets: '部署目标',
+        container_images: '容器镜像',
+        contributors: '贡献者',
+        bus_factor: '巴士因子',
+        commits_per_week: '每周提交数',
+        active_period: '活跃期间',
+        commits: '次提交',
+        more_contributors: '位其他贡献者',
+        acknowledgments_intro: '感谢所有为本项目做出贡献的人',
+        unreleased: '即将发布',
+        tech_stack: '项目技术构成',
+        tech_stack_chart: '技术构成',
+        analysis_results: '项目分析结果',
+        analysis_chart: '项目分析',
+        implementation_approach: '主要实现方法',
+        purpose: '目的',
+        technology: '技术',
+        started: '开始',
+        limitations: '限制',
+        open_issues: '后续课题',
+        applications: '应用场景',
+        primary_language: '主要语言',
+        dependencies: '依赖',
+        file_structure: '文件结构',
+        development_period: '开发周期',
+        needs_test_coverage: '需要扩充测试覆盖率',
+        needs_dependency_cleanup: '需要优化依赖',
+        environment_specific: '依赖特定环境',
+        web_applications: 'Web 应用开发',
+        data_science: '数据分析与机器学习',
+        similar_projects: '同类项目开发',
+        stable_operation: '运行稳定',
+        stars: '星标',
+        forks: '复刻',
+        fixes_per_week: '每周修复提交数',
+        welcome_aboard: '欢迎加入！',
+        see_readme: '详细步骤请参阅 README',
+        key_files: '关键文件'
       }
     }
     return (content as any)[language][key] || (content as any).ja[key]
@@ -508,81 +2641,283 @@ class Application:
     return description
   }
 
-  private formatResultBullets(bullets: string[], repository: RepositoryData): string[] {
+  private formatYear(year: number, language: 'ja' | 'en' | 'zh'): string {
+    return language === 'en' ? String(year) : `${year}年`
+  }
+
+  private formatConclusion(repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string {
+    const technologies = Object.keys(repository.languages).length
+    const iterations = repository.commits.length
+    return {
+      ja: `✓ ${repository.name}の開発完了\n✓ ${technologies}つの技術を統合\n✓ ${iterations}回のイテレーション\n\n今後の発展に期待`,
+      en: `✓ ${repository.name} is built\n✓ ${technologies} technologies integrated\n✓ ${iterations} iterations\n\nMore to come`,
+      zh: `✓ ${repository.name} 开发完成\n✓ 整合了 ${technologies} 种技术\n✓ ${iterations} 次迭代\n\n未来可期`
+    }[language]
+  }
+
+  private formatResultBullets(bullets: string[], repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string[] {
+    const iterations = repository.commits.length
+    const technologies = Object.keys(repository.languages).length
+    const defaults = {
+      ja: [`${iterations}回の開発イテレーション`, `${repository.stars}個のGitHubスター獲得`, `${technologies}つの技術を統合`],
+      en: [`${iterations} development iterations`, `${repository.stars} GitHub stars`, `${technologies} technologies integrated`],
+      zh: [`${iterations} 次开发迭代`, `获得 ${repository.stars} 个 GitHub 星标`, `整合了 ${technologies} 种技术`]
+    }[language]
     return [
-      bullets[0] || `${repository.commits.length}回の開発イテレーション`,
-      `${repository.stars}個のGitHubスター獲得`,
-      `${Object.keys(repository.languages).length}つの技術を統合`,
-      bullets[1] || '安定した動作を実現'
+      bullets[0] || defaults[0],
+      defaults[1],
+      defaults[2],
+      bullets[1] || this.getLocalizedContent('stable_operation', language)
     ].slice(0, 3)
   }
 
-  private generateMethodsBullets(repository: RepositoryData): string[] {
+  private generateMethodsBullets(repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string[] {
+    const label = (key: string) => this.getLocalizedContent(key, language)
+    const counts = {
+      ja: { packages: `${repository.dependencies.length}個のパッケージ`, files: `${repository.files.length}個のファイル` },
+      en: { packages: `${repository.dependencies.length} packages`, files: `${repository.files.length} files` },
+      zh: { packages: `${repository.dependencies.length} 个包`, files: `${repository.files.length} 个文件` }
+    }[language]
     return [
-      `主要言語: ${repository.language}`,
-      `依存関係: ${repository.dependencies.length}個のパッケージ`,
-      `ファイル構成: ${repository.files.length}個のファイル`,
-      `開発期間: ${this.calculateDevelopmentPeriod(repository)}`
+      `${label('primary_language')}: ${repository.language}`,
+      `${label('dependencies')}: ${counts.packages}`,
+      `${label('file_structure')}: ${counts.files}`,
+      `${label('development_period')}: ${this.calculateDevelopmentPeriod(repository, language)}`
     ]
   }
 
-  private calculateDevelopmentPeriod(repository: RepositoryData): string {
+  private calculateDevelopmentPeriod(repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string {
     const start = new Date(repository.createdAt)
     const end = new Date(repository.updatedAt)
     const months = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24 * 30))
-    return `約${months}ヶ月`
+    return {
+      ja: `約${months}ヶ月`,
+      en: `about ${months} months`,
+      zh: `约 ${months} 个月`
+    }[language]
   }
 
-  private identifyLimitations(repository: RepositoryData): string {
+  private identifyLimitations(repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string {
     if (repository.files.filter(f => f.path.includes('test')).length === 0) {
-      return 'テストカバレッジの拡充が必要'
+      return this.getLocalizedContent('needs_test_coverage', language)
     }
     if (repository.dependencies.length > 20) {
-      return '依存関係の最適化が必要'
+      return this.getLocalizedContent('needs_dependency_cleanup', language)
     }
-    return '特定の環境への依存'
+    return this.getLocalizedContent('environment_specific', language)
   }
 
-  private identifyApplications(repository: RepositoryData): string {
+  private identifyApplications(repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string {
     if (repository.language === 'JavaScript' || repository.language === 'TypeScript') {
-      return 'Web アプリケーション開発全般'
+      return this.getLocalizedContent('web_applications', language)
     }
     if (repository.language === 'Python') {
-      return 'データ分析・機械学習分野'
+      return this.getLocalizedContent('data_science', language)
+    }
+    return this.getLocalizedContent('similar_projects', language)
+  }
+
+  // Title notes read the repository, the others the story section
+  private generateSpeakerNotes(
+    type: string,
+    data: { name?: string; language?: string; description?: string; content?: string },
+    language: 'ja' | 'en' | 'zh'
+  ): string {
+    const notes: Record<'ja' | 'en' | 'zh', Record<NoteType, string>> = {
+      ja: {
+        title: `プロジェクト「${data.name}」の概要を説明します。このプロジェクトは${data.language}で開発され、${data.description}を目的としています。`,
+        why: `なぜこのプロジェクトを始めたのかについて説明します。${data.content}`,
+        problem: `解決したい課題について詳しく説明します。${data.content}`,
+        approach: `採用したアプローチと技術的な判断について説明します。${data.content}`,
+        results: `プロジェクトの成果と実際の効果について説明します。${data.content}`,
+        next: `今後の展開と改善計画について説明します。${data.content}`
+      },
+      en: {
+        title: `An overview of ${data.name}. The project is written in ${data.language} and aims to deliver: ${data.description}`,
+        why: `Why we started this project. ${data.content}`,
+        problem: `A closer look at the problem we set out to solve. ${data.content}`,
+        approach: `The approach we took and the technical decisions behind it. ${data.content}`,
+        results: `What the project achieved and the impact it has had. ${data.content}`,
+        next: `Where the project goes next and how it will improve. ${data.content}`
+      },
+      zh: {
+        title: `介绍项目「${data.name}」的概况。该项目使用 ${data.language} 开发，目标是：${data.description}`,
+        why: `说明我们为什么开始这个项目。${data.content}`,
+        problem: `详细说明我们要解决的问题。${data.content}`,
+        approach: `说明所采用的方法和技术决策。${data.content}`,
+        results: `说明项目的成果和实际效果。${data.content}`,
+        next: `说明今后的发展和改进计划。${data.content}`
+      }
     }
-    return '同様のプロジェクト開発'
+    const fallback = { ja: `${type}について説明します。`, en: `About the ${type}.`, zh: `关于${type}的说明。` }
+    const noteType = NOTE_TYPES.find(candidate => candidate === type)
+    return noteType ? notes[language][noteType] : fallback[language]
   }
 
-  private generateSpeakerNotes(type: string, data: any, _language: 'ja' | 'en' | 'zh'): string {
+  // Each mode has its own speaking style: persuasive pitches, conversational demos, blameless postmortems, guided onboarding, punchy lightning talks
+  private generateModeNotes(key: string, detail: string, language: 'ja' | 'en' | 'zh'): string {
     const notes = {
-      title: `プロジェクト「${data.name}」の概要を説明します。このプロジェクトは${data.language}で開発され、${data.description}を目的としています。`,
-      why: `なぜこのプロジェクトを始めたのかについて説明します。${data.content}`,
-      problem: `解決したい課題について詳しく説明します。${data.content}`,
-      approach: `採用したアプローチと技術的な判断について説明します。${data.content}`,
-      results: `プロジェクトの成果と実際の効果について説明します。${data.content}`,
-      next: `今後の展開と改善計画について説明します。${data.content}`
+      ja: {
+        pitch_open: '一言でお伝えします。',
+        pitch_problem: 'まず、私たちが解決する課題です。',
+        solution: 'それを解決するのがこのプロダクトです。',
+        rationale: 'このプロジェクトがなぜ生まれたのかをお話しします。',
+        traction: 'すでに手応えが出ています。',
+        team: 'これを作っているチームです。',
+        ask: '最後に、皆さんにお願いしたいことです。',
+        sprint_open: '今回のスプリントの成果をデモします。',
+        sprint_goal: 'このスプリントの主な成果です。',
+        shipped: 'リリースしたものを順に見ていきます。',
+        demo: '実際に動かしてみます。',
+        sprint_fixes: 'あわせて直した不具合です。',
+        sprint_numbers: '数字で振り返ります。',
+        next_sprint: '次のスプリントの予定です。フィードバックをお願いします。',
+        incident_open: '今回の障害を振り返ります。個人ではなく仕組みに注目します。',
+        incident_summary: '何が起きたのかを事実ベースでまとめます。',
+        impact: '影響を受けた範囲です。',
+        timeline: '対応の経緯を時系列で追います。',
+        root_causes: '問題を起こしやすくしていた要因です。',
+        action_items: '再発を防ぐための対策です。',
+        lessons: 'ご協力ありがとうございました。学びをチームで共有しましょう。',
+        onboarding_open: 'ようこそ。このプロジェクトの歩き方を案内します。',
+        overview: 'まず、このプロジェクトが何をするものかを押さえましょう。',
+        getting_started: '手元で動かすまでの手順です。',
+        codebase_tour: 'コードの置き場所を案内します。まず見てほしいファイル:',
+        workflow: '変更を入れるときの流れです。',
+        where_to_start: '最初に手をつけるとよいところです。分からないことは気軽に聞いてください。',
+        lightning_open: '一つのアイデアを手短にお話しします。',
+        hook: 'なぜこれが大事なのか。',
+        lightning_problem: '困っていたのはこれです。',
+        big_idea: 'アイデアはシンプルです。',
+        lightning_result: '結果です。',
+        takeaway: 'これだけ覚えて帰ってください。'
+      },
+      en: {
+        pitch_open: 'In one sentence:',
+        pitch_problem: 'Here is the problem we solve.',
+        solution: 'This is how we solve it.',
+        rationale: 'Why this project exists.',
+        traction: 'It is already getting traction.',
+        team: 'This is the team building it.',
+        ask: 'Finally, here is what we are asking for.',
+        sprint_open: 'Let\'s walk through what this sprint delivered.',
+        sprint_goal: 'The headline items from this sprint.',
+        shipped: 'Let\'s go through what we shipped.',
+        demo: 'Now let\'s see it running.',
+        sprint_fixes: 'Along the way we fixed these bugs.',
+        sprint_numbers: 'The sprint in numbers.',
+        next_sprint: 'Here is what is next. Feedback is welcome.',
+        incident_open: 'This is a blameless review: we look at systems, not people.',
+        incident_summary: 'What happened, in facts.',
+        impact: 'What was affected.',
+        timeline: 'How the response unfolded.',
+        root_causes: 'What made this failure likely.',
+        action_items: 'What we will change so it does not happen again.',
+        lessons: 'Thanks, everyone. Let\'s share what we learned.',
+        onboarding_open: 'Welcome aboard. This is a guided tour of the project.',
+        overview: 'First, what this project does.',
+        getting_started: 'How to get it running locally.',
+        codebase_tour: 'Where things live in the codebase. Start with:',
+        workflow: 'How changes get made and shipped.',
+        where_to_start: 'Good places to start. Ask questions anytime.',
+        lightning_open: 'One idea, fast.',
+        hook: 'Why this matters.',
+        lightning_problem: 'The pain.',
+        big_idea: 'The idea is simple.',
+        lightning_result: 'The result.',
+        takeaway: 'If you remember one thing, make it this.'
+      },
+      zh: {
+        pitch_open: '一句话介绍：',
+        pitch_problem: '首先是我们要解决的问题。',
+        solution: '这就是我们的解决方案。',
+        rationale: '这个项目为什么存在。',
+        traction: '项目已经获得了关注。',
+        team: '这是打造它的团队。',
+        ask: '最后，这是我们的诉求。',
+        sprint_open: '来演示本次迭代的成果。',
+        sprint_goal: '本次迭代的主要成果。',
+        shipped: '逐一看看我们交付的内容。',
+        demo: '现在实际运行一下。',
+        sprint_fixes: '同时修复了这些问题。',
+        sprint_numbers: '用数据回顾本次迭代。',
+        next_sprint: '这是下一个迭代的计划，欢迎反馈。',
+        incident_open: '这是一次不追责的复盘：关注系统而不是个人。',
+        incident_summary: '用事实说明发生了什么。',
+        impact: '受影响的范围。',
+        timeline: '按时间顺序回顾处理过程。',
+        root_causes: '是哪些因素让问题容易发生。',
+        action_items: '为防止再次发生，我们将做出的改变。',
+        lessons: '感谢大家，让我们分享这次的经验。',
+        onboarding_open: '欢迎加入，这是项目的导览。',
+        overview: '首先了解这个项目做什么。',
+        getting_started: '在本地运行起来的步骤。',
+        codebase_tour: '代码库中各部分的位置。建议先看：',
+        workflow: '提交变更的流程。',
+        where_to_start: '适合入手的地方，有问题随时提问。',
+        lightning_open: '一个想法，快速讲完。',
+        hook: '为什么这很重要。',
+        lightning_problem: '痛点在这里。',
+        big_idea: '想法很简单。',
+        lightning_result: '结果如下。',
+        takeaway: '只需记住这一点。'
+      }
     }
-    return (notes as any)[type] || `${type}について説明します。`
+    const lead = (notes[language] as Record<string, string>)[key] || ''
+    if (!detail) return lead
+    return language === 'en' ? `${lead} ${detail}` : `${lead}${detail}`
   }
 
-  private generateArchitectureNotes(repository: RepositoryData, _language: 'ja' | 'en' | 'zh'): string {
-    return `技術アーキテクチャについて説明します。主要言語は${repository.language}で、${Object.keys(repository.languages).length}種類の技術を組み合わせています。`
+  private generateArchitectureNotes(repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string {
+    const technologies = Object.keys(repository.languages).length
+    return {
+      ja: `技術アーキテクチャについて説明します。主要言語は${repository.language}で、${technologies}種類の技術を組み合わせています。`,
+      en: `The technical architecture: the primary language is ${repository.language}, combined with ${technologies} technologies in total.`,
+      zh: `说明技术架构。主要语言是 ${repository.language}，共组合了 ${technologies} 种技术。`
+    }[language]
+  }
+
+  private generateImplementationNotes(repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string {
+    return {
+      ja: `実装の詳細について説明します。${repository.language}を使用し、${repository.files.length}個のファイルで構成されています。`,
+      en: `Implementation details: the project uses ${repository.language} and consists of ${repository.files.length} files.`,
+      zh: `说明实现细节。项目使用 ${repository.language}，由 ${repository.files.length} 个文件组成。`
+    }[language]
   }
 
-  private generateImplementationNotes(repository: RepositoryData, _language: 'ja' | 'en' | 'zh'): string {
-    return `実装の詳細について説明します。${repository.language}を使用し、${repository.files.length}個のファイルで構成されています。`
+  private generateAnalysisNotes(repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string {
+    return {
+      ja: `プロジェクトの分析結果を説明します。${repository.stars}個のスター、${repository.forks}個のフォーク、${repository.commits.length}回のコミットがあります。`,
+      en: `The analysis results: ${repository.stars} stars, ${repository.forks} forks and ${repository.commits.length} commits.`,
+      zh: `说明项目分析结果：${repository.stars} 个星标、${repository.forks} 个分叉、${repository.commits.length} 次提交。`
+    }[language]
   }
 
-  private generateAnalysisNotes(repository: RepositoryData, _language: 'ja' | 'en' | 'zh'): string {
-    return `プロジェクトの分析結果を説明します。${repository.stars}個のスター、${repository.forks}個のフォーク、${repository.commits.length}回のコミットがあります。`
+  private generateDiscussionNotes(_repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string {
+    return {
+      ja: `プロジェクトの制約と今後の課題について議論します。現在の制約と将来の発展可能性を説明します。`,
+      en: `A discussion of the project's limitations and open issues, and where it could go from here.`,
+      zh: `讨论项目的限制和后续课题，说明当前的限制与未来的发展可能。`
+    }[language]
   }
 
-  private generateDiscussionNotes(_repository: RepositoryData, _language: 'ja' | 'en' | 'zh'): string {
-    return `プロジェクトの制約と今後の課題について議論します。現在の制約と将来の発展可能性を説明します。`
+  private generateConclusionNotes(repository: RepositoryData, language: 'ja' | 'en' | 'zh'): string {
+    return {
+      ja: `プレゼンテーションのまとめです。${repository.name}プロジェクトの価値と今後の展望について強調します。`,
+      en: `To wrap up, we highlight the value of ${repository.name} and where it is headed.`,
+      zh: `演示总结。强调 ${repository.name} 项目的价值和未来展望。`
+    }[language]
   }
 
-  private generateConclusionNotes(repository: RepositoryData, _language: 'ja' | 'en' | 'zh'): string {
-    return `プレゼンテーションのまとめです。${repository.name}プロジェクトの価値と今後の展望について強調します。`
+  // `section:n`, so repeated sections (image and API slides) still pair up in order
+  private getSectionKeys(slides: Slide[]): string[] {
+    const seen = new Map<string, number>()
+    return slides.map(slide => {
+      const section = slide.section || slide.type
+      const occurrence = seen.get(section) || 0
+      seen.set(section, occurrence + 1)
+      return `${section}:${occurrence}`
+    })
   }
 
   private generateId(): string {
@@ -0,0 +1,71 @@
+import 'fake-indexeddb/auto'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { FixtureServer } from './providers/__fixtures__/fixtureServer'
+import { HttpCacheEntry, HttpClient } from './providers/httpClient'
+import { RepositoryData } from '../types'
+import { StorageService } from './storage'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function cacheEntry(key: string, storedAt: Date): HttpCacheEntry {
+  return { key, etag: `"${key}"`, status: 200, headers: { 'content-type': 'application/json' }, body: '{}', storedAt: storedAt.toISOString() }
+}
+
+describe('httpCache table', () => {
+  let server: FixtureServer
+
+  beforeAll(async () => {
+    server = await FixtureServer.start({
+      interactions: [{ path: '/repos/acme/widgets', headers: { etag: '"repo-1"' }, body: { name: 'widgets' } }]
+    })
+  })
+  afterAll(() => server.close())
+
+  it('stores and reads entries by key', async () => {
+    const storage = new StorageService()
+    const entry = cacheEntry('round-trip', new Date())
+
+    await storage.putHttpCacheEntry(entry)
+
+    expect(await storage.getHttpCacheEntry('round-trip')).toEqual(entry)
+    expect(await storage.getHttpCacheEntry('missing')).toBeUndefined()
+  })
+
+  it('serves 304 revalidations for the HTTP layer', async () => {
+    const client = new HttpClient({ cache: new StorageService() })
+    await client.fetch(`${server.origin}/repos/acme/widgets`)
+
+    // A new instance, like a reloaded page, reads the same IndexedDB table
+    const response = await new HttpClient({ cache: new StorageService() }).fetch(`${server.origin}/repos/acme/widgets`)
+
+    expect(server.requests.map(request => request.status)).toEqual([200, 304])
+    expect(await response.json()).toEqual({ name: 'widgets' })
+  })
+
+  it('drops entries not revalidated for a month on cleanup', async () => {
+    const storage = new StorageService()
+    await storage.putHttpCacheEntry(cacheEntry('stale', new Date(Date.now() - 31 * DAY_MS)))
+    await storage.putHttpCacheEntry(cacheEntry('recent', new Date(Date.now() - 2 * DAY_MS)))
+
+    await storage.cleanup()
+
+    expect(await storage.getHttpCacheEntry('stale')).toBeUndefined()
+    expect(await storage.getHttpCacheEntry('recent')).toBeDefined()
+  })
+})
+
+describe('analysis baselines', () => {
+  it('outlive the expired cache entry through cleanup', async () => {
+    const storage = new StorageService()
+    const data = { url: 'https://github.com/acme/widgets', name: 'widgets' } as RepositoryData
+    // Cached two days ago, so the 24-hour entry has expired
+    const now = vi.spyOn(Date, 'now').mockReturnValue(Date.now() - 2 * DAY_MS)
+    await storage.cacheRepository('acme/widgets', data)
+    now.mockRestore()
+
+    await storage.cleanup()
+
+    expect(await storage.getCachedRepository('acme/widgets')).toBeNull()
+    expect((await storage.getLastAnalysis('acme/widgets'))?.data).toEqual(data)
+  })
+})
@@ -1,10 +1,11 @@
 import Dexie, { Table } from 'dexie'
-import { SlidePresentation, RepositoryData, StoryStructure } from '../types'
+import { SlidePresentation, RepositoryData, StoryStructure, PresentationMode, SlideTemplate } from '../types'
+import { HttpCacheEntry, HttpCacheStore } from './providers/httpClient'
 
 export interface StoredPresentation {
   id: string
   title: string
-  mode: 'ted' | 'imrad'
+  mode: PresentationMode
   language: 'ja' | 'en' | 'zh'
   duration: 3 | 5
   repositoryUrl: string
@@ -23,9 +24,16 @@ export interface CachedRepository {
   expiresAt: string
 }
 
+// The latest analysis of each repository, kept after its cache entry expires so the next one can be diffed against it
+export interface AnalysisBaseline {
+  url: string
+  data: RepositoryData
+  analyzedAt: string
+}
+
 export interface UserSettings {
   id: string
-  defaultMode: 'ted' | 'imrad'
+  defaultMode: PresentationMode
   defaultLanguage: 'ja' | 'en' | 'zh'
   defaultDuration: 3 | 5
   theme: 'light' | 'dark'
@@ -37,6 +45,9 @@ class Repo2TalkDatabase extends Dexie {
   presentations!: Table<StoredPresentation>
   repositories!: Table<CachedRepository>
   settings!: Table<UserSettings>
+  httpCache!: Table<HttpCacheEntry>
+  templates!: Table<SlideTemplate>
+  baselines!: Table<AnalysisBaseline>
 
   constructor() {
     super('Repo2TalkDatabase')
@@ -46,10 +57,22 @@ class Repo2TalkDatabase extends Dexie {
       repositories: 'url, cachedAt, expiresAt',
       settings: 'id'
     })
+    this.version(2).stores({
+      httpCache: 'key, storedAt'
+    })
+    this.version(3).stores({
+      templates: 'id, name, updatedAt'
+    })
+    // Baselines used to live in the repository cache, which cleanup empties
+    this.version(4).stores({
+      baselines: 'url, analyzedAt'
+    }).upgrade(transaction => transaction.table<CachedRepository>('repositories').toCollection().each(cached =>
+      transaction.table<AnalysisBaseline>('baselines').put({ url: cached.url, data: cached.data, analyzedAt: cached.cachedAt })
+    ))
   }
 }
 
-export class StorageService {
+export class StorageService implements HttpCacheStore {
   private db: Repo2TalkDatabase
 
   constructor() {
@@ -98,6 +121,14 @@ export class StorageService {
     await this.db.presentations.delete(id)
   }
 
+  async getPresentationsForRepository(repositoryUrl: string): Promise<StoredPresentation[]> {
+    const presentations = await this.db.presentations
+      .where('repositoryUrl')
+      .equals(repositoryUrl)
+      .toArray()
+    return presentations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
   async searchPresentations(query: string): Promise<StoredPresentation[]> {
     const lowerQuery = query.toLowerCase()
     return await this.db.presentations
@@ -117,7 +148,10 @@ export class StorageService {
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() // 24 hours
     }
 
-    await this.db.repositories.put(cached)
+    await Promise.all([
+      this.db.repositories.put(cached),
+      this.db.baselines.put({ url, data, analyzedAt: cached.cachedAt })
+    ])
   }
 
   async getCachedRepository(url: string): Promise<RepositoryData | null> {
@@ -127,15 +161,19 @@ export class StorageService {
       return null
     }
 
-    // Check if cache is expired
+    // Expired entries are a cache miss; cleanup deletes them, the baselines table keeps the analysis
     if (new Date(cached.expiresAt) < new Date()) {
-      await this.db.repositories.delete(url)
       return null
     }
 
     return cached.data
   }
 
+  // The previous analysis regardless of age, for showing what changed since
+  async getLastAnalysis(url: string): Promise<AnalysisBaseline | undefined> {
+    return await this.db.baselines.get(url)
+  }
+
   async clearExpiredCache(): Promise<void> {
     const now = new Date().toISOString()
     await this.db.repositories
@@ -144,6 +182,32 @@ export class StorageService {
       .delete()
   }
 
+  // API responses kept for ETag revalidation
+  async getHttpCacheEntry(key: string): Promise<HttpCacheEntry | undefined> {
+    return await this.db.httpCache.get(key)
+  }
+
+  async putHttpCacheEntry(entry: HttpCacheEntry): Promise<void> {
+    await this.db.httpCache.put(entry)
+  }
+
+  // User slide templates
+  async saveTemplate(template: SlideTemplate): Promise<void> {
+    await this.db.templates.put(template)
+  }
+
+  async getTemplate(id: string): Promise<SlideTemplate | undefined> {
+    return await this.db.templates.get(id)
+  }
+
+  async getAllTemplates(): Promise<SlideTemplate[]> {
+    return await this.db.templates.orderBy('name').toArray()
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await this.db.templates.delete(id)
+  }
+
   // Settings Management
   async saveSettings(settings: Partial<UserSettings>): Promise<void> {
     const currentSettings = await this.getSettings()
@@ -209,7 +273,7 @@ export class StorageService {
   // Statistics
   async getUsageStatistics(): Promise<{
     totalPresentations: number
-    presentationsByMode: Record<'ted' | 'imrad', number>
+    presentationsByMode: Record<PresentationMode, number>
     presentationsByLanguage: Record<'ja' | 'en' | 'zh', number>
     mostUsedDuration: 3 | 5
     recentActivity: StoredPresentation[]
@@ -218,7 +282,7 @@ export class StorageService {
     
     const stats = {
       totalPresentations: presentations.length,
-      presentationsByMode: { ted: 0, imrad: 0 },
+      presentationsByMode: { ted: 0, imrad: 0, release: 0, pitch: 0, sprint_demo: 0, postmortem: 0, onboarding: 0, lightning: 0 },
       presentationsByLanguage: { ja: 0, en: 0, zh: 0 },
       mostUsedDuration: 5 as 3 | 5,
       recentActivity: presentations.slice(0, 5)
@@ -240,6 +304,10 @@ export class StorageService {
   // Cleanup
   async cleanup(): Promise<void> {
     await this.clearExpiredCache()
+
+    // Entries are touched on every 304, so these haven't been requested in a month
+    const monthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
+    await this.db.httpCache.where('storedAt').below(monthAgo).delete()
     
     // Remove old presentations (keep last 50)
     const presentations = await this.db.presentations
@@ -251,6 +319,10 @@ export class StorageService {
       const toDelete = presentations.slice(50).map(p => p.id)
       await this.db.presentations.bulkDelete(toDelete)
     }
+
+    // Keep the baselines of the 50 most recently analyzed repositories
+    const staleBaselines = await this.db.baselines.orderBy('analyzedAt').reverse().offset(50).primaryKeys()
+    await this.db.baselines.bulkDelete(staleBaselines)
   }
 
   // Database Health
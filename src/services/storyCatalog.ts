@@ -0,0 +1,707 @@
+// Story templates per presentation language
+// Everything the story generator writes itself; project data (README text, commit subjects, names) stays as written
+
+import { ApiSymbolKind, ReadmeBadgeKind } from '../types'
+
+type Recency = 'active' | 'regular' | 'stable'
+
+export interface StoryCatalog {
+  // For dates in bullets
+  locale: string
+  listSeparator: string
+
+  // Release story
+  releaseTitle: (range: string) => string
+  // The line counts are left out when the history carries none
+  releaseSummary: (range: string, commits: number, files: number, additions: number, deletions: number) => string
+  releaseContributors: (count: number) => string
+  categoryCount: (category: string, count: number) => string
+  dependencyAdded: (name: string, version?: string) => string
+  dependencyRemoved: (name: string) => string
+  dependencyUpdated: (name: string, from?: string, to?: string) => string
+  fixesTitle: string
+  fixesContent: (count: number) => string
+  noFixes: string
+  noFixesBullet: string
+  featuresTitle: string
+  changedAreas: (areas: { area: string; files: number }[]) => string
+  seeCommitHistory: string
+  dependenciesTitle: string
+  scopeTitle: string
+  dependencyChangeCount: (count: number) => string
+  noDependencyChanges: string
+  changeScale: (commits: number, files: number) => string
+  upgradeTitle: string
+  upgradeCheck: string
+  upgradeSafe: string
+  dependencyDropped: (name: string) => string
+  thanks: (names: string[]) => string
+
+  // Sprint demo story (the release story over the sprint, plus what comes next)
+  nextSprintTitle: string
+  nextSprintContent: string
+
+  // Postmortem story; blameless, so commits are described and their authors never named
+  incidentTitle: string
+  incidentSummary: (fixes: number, start: string, end: string, days: number) => string
+  noIncident: string
+  impactTitle: string
+  impactContent: (files: number, areas: number) => string
+  impactUnknown: string
+  areaFiles: (area: string, files: number) => string
+  timelineTitle: string
+  timelineContent: (reverts: number) => string
+  rootCauseTitle: string
+  rootCauseContent: string
+  complexHotspot: (path: string, complexity: number, changes: number) => string
+  lowTestCoverage: (testFiles: number, sourceFiles: number) => string
+  noTests: string
+  revertedChanges: (count: number) => string
+  concentratedFixes: (area: string, files: number) => string
+  noClearCause: string
+  actionItemsTitle: string
+  actionItemsContent: string
+  addRegressionTests: (area: string) => string
+  addRegressionTestsForFixes: string
+  refactorHotspot: (path: string) => string
+  addCi: string
+  stagedRollout: string
+  shareLearnings: string
+
+  // Why
+  whyTitle: string
+  whyDescription: (name: string, description: string) => string
+  whyLanguage: (name: string, language: string) => string
+  notenkyoContent: string
+  notenkyoBullets: string[]
+  primaryLanguage: string
+  startedOn: string
+  lastUpdated: string
+  githubStars: (count: number) => string
+
+  // Problem
+  problemTitle: string
+  problemContent: (multipleStacks: boolean, language: string, largeCodebase: boolean) => string
+  readmeProblem: string
+  fileCount: (count: number) => string
+  languageCount: (count: number) => string
+  commitCount: (count: number) => string
+  needsTestCoverage: string
+  needsDocs: string
+
+  // Approach
+  approachTitle: string
+  approachQuestion: string
+  approachStrategy: string
+  approachContent: (language: string, frameworks: string[], tools: string[]) => string
+  coreTechnology: string
+  framework: string
+  tool: string
+  architectureFiles: (count: number) => string
+  feature: string
+  deliveryHeading: string
+  deliveryContent: (providers: string[], targets: string[]) => string
+  ciPipelines: (providers: string[], pipelines: number, jobs: number) => string
+  deployTargets: string
+  containers: string
+  moduleDependencies: string
+  diagramFileCount: (count: number) => string
+  deliveryPipeline: string
+
+  // Public API
+  apiTitle: string
+  apiContent: (packageName: string, entryPoints: string[], symbols: number, counts: string[]) => string
+  symbolKinds: Record<ApiSymbolKind, string>
+  symbolKindCount: (kind: string, count: number) => string
+  symbolWithKind: (name: string, kind: string) => string
+
+  // Result
+  resultTitle: string
+  resultQuestion: string
+  activityHeading: string
+  resultContent: (recency: Recency, documented: boolean, stars: number | null) => string
+  totalCommits: (count: number) => string
+  updatedDaysAgo: (days: number) => string
+  stars: (count: number) => string
+  forks: (count: number) => string
+  detailedReadme: string
+  releasesHeading: string
+  milestone: (version: string, date?: string, highlight?: string) => string
+  releases: (count: number, version: string, date?: string) => string
+  contributors: (count: number, busFactor: number) => string
+  badgeLabels: Record<ReadmeBadgeKind, string>
+  readmeBadges: string
+
+  // Next
+  nextTitle: string
+  nextContent: (needsTests: boolean, needsDocs: boolean) => string
+  strengthenTestAutomation: string
+  introduceTests: (sourceFiles: number) => string
+  expandTests: (framework: string, testFiles: number, sourceFiles: number, ratio: number) => string
+  apiDocs: string
+  upcomingRelease: string
+  roadmapItem: string
+  buildOnLatest: (version: string, releases: number) => string
+  openIssues: (count: number) => string
+  noPlannedWork: string
+
+  // Audiences: business decks lead with the value, general decks explain by analogy, technical decks name the stack
+  businessValueHeading: string
+  businessValue: (name: string, description: string, features: string[]) => string
+  businessApproachContent: (language: string, automated: boolean) => string
+  plainTechnology: (language: string) => string
+  automatedChecks: string
+  keyDependencies: string
+  analogyHeading: string
+  // A restaurant: each part is one sentence comparing a piece of the project to the kitchen
+  analogy: (name: string, parts: string[]) => string
+  analogyLanguage: (language: string) => string
+  analogyDependencies: (count: number) => string
+  analogyModules: (folders: number) => string
+  analogyTests: string
+  analogyPipeline: string
+  problemAnalogy: (files: number, languages: number) => string
+}
+
+export const STORY_CATALOG: Record<'ja' | 'en' | 'zh', StoryCatalog> = {
+  ja: {
+    locale: 'ja-JP',
+    listSeparator: '、',
+
+    releaseTitle: range => `🚀 ${range} の変更概要`,
+    releaseSummary: (range, commits, files, additions, deletions) =>
+      `${range} では ${commits}件のコミットで ${files}ファイルが変更されました` +
+      (additions + deletions > 0 ? `（+${additions} / −${deletions} 行）。` : '。'),
+    releaseContributors: count => `${count}人のコントリビューターが参加しています。`,
+    categoryCount: (category, count) => `${category} ${count}件`,
+    dependencyAdded: (name, version) => `➕ ${name} ${version} を追加`,
+    dependencyRemoved: name => `➖ ${name} を削除`,
+    dependencyUpdated: (name, from, to) => `⬆️ ${name} ${from} → ${to}`,
+    fixesTitle: '🐛 解決した不具合',
+    fixesContent: count => `${count}件の修正で、利用者が遭遇していた問題を解消しました。`,
+    noFixes: 'このリリースでは目立った不具合修正はありません。',
+    noFixesBullet: '安定性を維持したまま機能追加に集中',
+    featuresTitle: '✨ 新機能と改善',
+    changedAreas: areas => `主な変更箇所: ${areas.map(area => `${area.area}（${area.files}ファイル）`).join('、')}`,
+    seeCommitHistory: '変更内容の詳細はコミット履歴を参照してください。',
+    dependenciesTitle: '📦 依存関係と変更規模',
+    scopeTitle: '📊 変更の規模',
+    dependencyChangeCount: count => `${count}件の依存関係が変更されました。`,
+    noDependencyChanges: '依存関係の変更はありません。',
+    changeScale: (commits, files) => `${commits}コミット / ${files}ファイル`,
+    upgradeTitle: '⚠️ アップグレードノート',
+    upgradeCheck: '更新前に以下の互換性に関わる変更を確認してください。',
+    upgradeSafe: '破壊的変更はなく、そのままアップグレードできます。',
+    dependencyDropped: name => `${name} への依存を削除`,
+    thanks: names => `Thanks: ${names.join(', ')}`,
+
+    nextSprintTitle: '次のスプリント',
+    nextSprintContent: '次のスプリントで取り組む予定の項目です。',
+
+    incidentTitle: 'インシデントの概要',
+    incidentSummary: (fixes, start, end, days) => `${start}から${end}までの${days}日間に${fixes}件の修正コミットが入りました。`,
+    noIncident: 'この期間に修正コミットは見つかりませんでした。',
+    impactTitle: '影響範囲',
+    impactContent: (files, areas) => `修正は${areas}つの領域、${files}個のファイルに及びました。`,
+    impactUnknown: '履歴に変更ファイルの情報がないため、影響範囲は特定できませんでした。',
+    areaFiles: (area, files) => `${area}: ${files}ファイル`,
+    timelineTitle: 'タイムライン',
+    timelineContent: reverts => '修正の流れを時系列で追います。' + (reverts > 0 ? `うち${reverts}件は変更の取り消しでした。` : ''),
+    rootCauseTitle: '根本原因',
+    rootCauseContent: '履歴とコードの状態から見えてくる、障害を招きやすくしていた要因です。',
+    complexHotspot: (path, complexity, changes) => `${path}は複雑度${complexity}で、${changes}回変更されている`,
+    lowTestCoverage: (testFiles, sourceFiles) => `ソースファイル${sourceFiles}個に対してテストファイルが${testFiles}個しかない`,
+    noTests: '自動テストが見つからない',
+    revertedChanges: count => `${count}件の変更が取り消されている`,
+    concentratedFixes: (area, files) => `修正が${area}に集中している（${files}ファイル）`,
+    noClearCause: '履歴から明確な要因は読み取れないため、個別の調査が必要',
+    actionItemsTitle: '再発防止策',
+    actionItemsContent: '同じ種類の問題を繰り返さないための具体的な対策です。',
+    addRegressionTests: area => `${area}に回帰テストを追加する`,
+    addRegressionTestsForFixes: '修正した不具合ごとに回帰テストを追加する',
+    refactorHotspot: path => `${path}を分割して複雑度を下げる`,
+    addCi: 'CIでテストを自動実行する',
+    stagedRollout: 'リリース前のレビューと段階的なロールアウトを徹底する',
+    shareLearnings: '振り返りの内容をチームで共有し、ドキュメントに残す',
+
+    whyTitle: 'なぜこのプロジェクトを作ったのか',
+    whyDescription: (name, description) => `このプロジェクト「${name}」は、${description}を目的として開発されました。`,
+    whyLanguage: (name, language) => `このプロジェクト「${name}」は、${language}を使用して開発されたソフトウェアです。`,
+    notenkyoContent: '「のうてんきょ」は、ADHD・うつ傾向のある学習者が抱える深刻な課題に着目して開発されました。' +
+      '従来のTOEIC学習アプリは健常者向けに設計されており、認知特性や体調の変化を考慮していません。' +
+      'このギャップを埋めるため、心理学とHCI研究の知見を統合した革新的なPWAアプリを構想しました。',
+    notenkyoBullets: [
+      '対象課題: ADHD・うつ傾向の学習者の学習効率低下',
+      '既存ソリューションの限界: 健常者向け設計による非適応性',
+      '独自アプローチ: 体調×天気連動の学習最適化システム',
+      '技術的挑戦: PWAによるオフライン完結型学習環境'
+    ],
+    primaryLanguage: '主要言語',
+    startedOn: '開発開始',
+    lastUpdated: '最終更新',
+    githubStars: count => `GitHubスター数: ${count}個`,
+
+    problemTitle: '解決したい課題',
+    problemContent: (multipleStacks, language, largeCodebase) =>
+      (multipleStacks ? '複数の技術スタックを統合する必要があり、' : `${language}での開発において、`) +
+      (largeCodebase ? '大規模なコードベースの管理と' : '効率的な開発と') +
+      '保守性の確保が課題でした。',
+    readmeProblem: '課題',
+    fileCount: count => `ファイル数: ${count}個`,
+    languageCount: count => `使用言語: ${count}種類`,
+    commitCount: count => `コミット数: ${count}回`,
+    needsTestCoverage: 'テストカバレッジの改善が必要',
+    needsDocs: 'ドキュメント整備が必要',
+
+    approachTitle: '🛠️ どのようにアプローチしたか',
+    approachQuestion: '技術選択の背景は何でしょうか？',
+    approachStrategy: '技術選択の戦略',
+    approachContent: (language, frameworks, tools) =>
+      `${language}をベースとして、` +
+      (frameworks.length > 0 ? `${frameworks.join('、')}などのフレームワークを活用し、` : '') +
+      (tools.length > 0 ? `${tools.join('、')}といったツールを組み合わせて開発を進めました。` : 'モダンな開発手法を取り入れながら実装しました。'),
+    coreTechnology: '主要技術',
+    framework: 'フレームワーク',
+    tool: 'ツール',
+    architectureFiles: count => `アーキテクチャファイル数: ${count}個`,
+    feature: '機能',
+    deliveryHeading: 'デリバリー',
+    deliveryContent: (providers, targets) =>
+      `${providers.join('、')}でビルドとテストを自動化し、` +
+      (targets.length > 0 ? `${targets.join('、')}へ届けています。` : '変更のたびに品質を確認しています。'),
+    ciPipelines: (providers, pipelines, jobs) => `CI/CD: ${providers.join('、')}（パイプライン${pipelines}件・ジョブ${jobs}件）`,
+    deployTargets: 'デプロイ先',
+    containers: 'コンテナ',
+    moduleDependencies: 'モジュール依存関係',
+    diagramFileCount: count => `${count}ファイル`,
+    deliveryPipeline: 'デリバリーパイプライン',
+
+    apiTitle: '🧩 公開API',
+    apiContent: (packageName, entryPoints, symbols, counts) =>
+      `${packageName} は ${entryPoints.join('、')} から ${symbols}個のAPIを公開しています（${counts.join('・')}）。`,
+    symbolKinds: {
+      function: '関数', class: 'クラス', interface: 'インターフェース', type: '型', enum: '列挙型', variable: '定数'
+    },
+    symbolKindCount: (kind, count) => `${kind} ${count}`,
+    symbolWithKind: (name, kind) => `${name}（${kind}）`,
+
+    resultTitle: '📈 得られた結果',
+    resultQuestion: 'このプロジェクトはどんな成果を生み出しているでしょうか？',
+    activityHeading: '開発活動の成果',
+    resultContent: (recency, documented, stars) =>
+      ({ active: 'プロジェクトは活発に開発が続けられており、', regular: 'プロジェクトは定期的に更新されており、', stable: 'プロジェクトは安定した状態に達しており、' })[recency] +
+      (documented ? '充実したドキュメントとともに' : '') +
+      (stars !== null ? `GitHubで${stars}個のスターを獲得するなど、` : '') +
+      '良好な成果を上げています。',
+    totalCommits: count => `総コミット数: ${count}回`,
+    updatedDaysAgo: days => `最終更新: ${days}日前`,
+    stars: count => `スター数: ${count}個`,
+    forks: count => `フォーク数: ${count}個`,
+    detailedReadme: '詳細なREADMEを完備',
+    releasesHeading: 'リリースの歩み',
+    milestone: (version, date, highlight) => `• ${version}${date ? `（${date}）` : ''}${highlight ? `: ${highlight}` : ''}`,
+    releases: (count, version, date) => `リリース: ${count}回（最新 ${version}${date ? `、${date}` : ''}）`,
+    contributors: (count, busFactor) => `コントリビューター: ${count}人（バスファクター ${busFactor}）`,
+    badgeLabels: {
+      ci: 'CI', version: 'バージョン', license: 'ライセンス', coverage: 'カバレッジ', downloads: 'ダウンロード', other: 'その他'
+    },
+    readmeBadges: 'READMEバッジ',
+
+    nextTitle: '🚀 次のステップ',
+    nextContent: (needsTests, needsDocs) => {
+      const gaps = [...(needsTests ? ['テストカバレッジ'] : []), ...(needsDocs ? ['ドキュメント'] : [])]
+      return 'CHANGELOG、README のロードマップ、Issue に挙がっている今後の作業です' +
+        (gaps.length > 0 ? `。分析では${gaps.join('と')}の不足も見つかりました。` : '。')
+    },
+    strengthenTestAutomation: 'テスト自動化の強化',
+    introduceTests: sourceFiles => `テストの導入（ソース${sourceFiles}ファイルに対してテストなし）`,
+    expandTests: (framework, testFiles, sourceFiles, ratio) =>
+      `テストの拡充（${framework}: テスト${testFiles}ファイル / ソース${sourceFiles}ファイル、比率${ratio}）`,
+    apiDocs: 'API ドキュメントの整備',
+    upcomingRelease: '次期リリース予定',
+    roadmapItem: 'ロードマップ',
+    buildOnLatest: (version, releases) => `${version} に続く機能拡張（これまで${releases}回のリリース）`,
+    openIssues: count => `未解決のIssue ${count}件への対応`,
+    noPlannedWork: 'README、CHANGELOG、Issue に予定された作業は見つかりませんでした',
+
+    businessValueHeading: 'ビジネス価値',
+    businessValue: (name, description, features) =>
+      (description ? `「${name}」が提供するもの: ${description}` : `「${name}」は、利用者が繰り返し直面する課題を解決します。`) +
+      (features.length > 0 ? `\n主な提供価値: ${features.join('、')}` : ''),
+    businessApproachContent: (language, automated) =>
+      `実績があり広く使われている${language}を土台にすることで、基盤づくりではなく利用者に届く機能に開発の力を集中しています。` +
+      (automated ? 'すべての変更は自動で検証されてから公開されます。' : ''),
+    plainTechnology: language => `開発言語: ${language}`,
+    automatedChecks: '変更は公開前に自動でチェック',
+    keyDependencies: '主な依存パッケージ',
+    analogyHeading: 'たとえるなら',
+    analogy: (name, parts) => `「${name}」をレストランにたとえてみましょう。${parts.map(part => `${part}。`).join('')}`,
+    analogyLanguage: language => `${language}は、レシピを書くための言葉です`,
+    analogyDependencies: count => `${count}個の依存パッケージは、自分の畑で育てずに仕入れた食材です`,
+    analogyModules: folders => `${folders}個のフォルダは、それぞれ役割の決まった厨房の持ち場です`,
+    analogyTests: '自動テストは、料理を出す前の味見です',
+    analogyPipeline: 'CI/CDは、注文ごとに品質を確かめて客席まで届けるベルトコンベアです',
+    problemAnalogy: (files, languages) =>
+      `たとえるなら、${languages > 1 ? `${languages}つの言語で書かれた` : ''}${files}ページの説明書を、大勢で同時に書き換えながら矛盾なく保つような難しさです。`
+  },
+
+  en: {
+    locale: 'en-US',
+    listSeparator: ', ',
+
+    releaseTitle: range => `🚀 What Changed in ${range}`,
+    releaseSummary: (range, commits, files, additions, deletions) =>
+      `${range} brings ${commits} commits that touch ${files} files` +
+      (additions + deletions > 0 ? ` (+${additions} / −${deletions} lines).` : '.'),
+    releaseContributors: count => `${count} contributors took part.`,
+    categoryCount: (category, count) => `${category}: ${count}`,
+    dependencyAdded: (name, version) => `➕ Added ${name} ${version}`,
+    dependencyRemoved: name => `➖ Removed ${name}`,
+    dependencyUpdated: (name, from, to) => `⬆️ ${name} ${from} → ${to}`,
+    fixesTitle: '🐛 Bugs Fixed',
+    fixesContent: count => `${count} fixes resolve problems users were running into.`,
+    noFixes: 'This release contains no notable bug fixes.',
+    noFixesBullet: 'Focused on new features while staying stable',
+    featuresTitle: '✨ New Features & Improvements',
+    changedAreas: areas => `Main areas changed: ${areas.map(area => `${area.area} (${area.files} files)`).join(', ')}`,
+    seeCommitHistory: 'See the commit history for the full list of changes.',
+    dependenciesTitle: '📦 Dependencies & Scope',
+    scopeTitle: '📊 Scope of the Changes',
+    dependencyChangeCount: count => `${count} dependencies changed.`,
+    noDependencyChanges: 'No dependency changes.',
+    changeScale: (commits, files) => `${commits} commits / ${files} files`,
+    upgradeTitle: '⚠️ Upgrade Notes',
+    upgradeCheck: 'Review these compatibility-affecting changes before upgrading.',
+    upgradeSafe: 'No breaking changes; you can upgrade as is.',
+    dependencyDropped: name => `Dropped the dependency on ${name}`,
+    thanks: names => `Thanks: ${names.join(', ')}`,
+
+    nextSprintTitle: 'Next sprint',
+    nextSprintContent: 'What we plan to pick up in the next sprint.',
+
+    incidentTitle: 'Incident summary',
+    incidentSummary: (fixes, start, end, days) => `${fixes} fix commits landed over ${days} days, from ${start} to ${end}.`,
+    noIncident: 'No fix commits were found in this period.',
+    impactTitle: 'Impact',
+    impactContent: (files, areas) => `The fixes touched ${files} files across ${areas} areas.`,
+    impactUnknown: 'The history carries no file changes, so the impact could not be located.',
+    areaFiles: (area, files) => `${area}: ${files} files`,
+    timelineTitle: 'Timeline',
+    timelineContent: reverts => 'The fixes in the order they landed.' + (reverts > 0 ? ` ${reverts} of them reverted earlier changes.` : ''),
+    rootCauseTitle: 'Root causes',
+    rootCauseContent: 'What the history and the state of the code suggest made failures more likely.',
+    complexHotspot: (path, complexity, changes) => `${path} has a complexity of ${complexity} and changed ${changes} times`,
+    lowTestCoverage: (testFiles, sourceFiles) => `Only ${testFiles} test files for ${sourceFiles} source files`,
+    noTests: 'No automated tests were found',
+    revertedChanges: count => `${count} changes had to be reverted`,
+    concentratedFixes: (area, files) => `Fixes cluster in ${area} (${files} files)`,
+    noClearCause: 'The history shows no clear cause; it needs a closer look',
+    actionItemsTitle: 'Action items',
+    actionItemsContent: 'Concrete steps so the same kind of problem does not happen again.',
+    addRegressionTests: area => `Add regression tests for ${area}`,
+    addRegressionTestsForFixes: 'Add a regression test for each fixed bug',
+    refactorHotspot: path => `Split ${path} to bring its complexity down`,
+    addCi: 'Run the tests automatically in CI',
+    stagedRollout: 'Tighten pre-release review and roll out in stages',
+    shareLearnings: 'Share the findings with the team and write them down',
+
+    whyTitle: 'Why We Built This Project',
+    whyDescription: (name, description) => `${name} was built with a clear goal: ${description}`,
+    whyLanguage: (name, language) => `${name} is a software project written in ${language}.`,
+    notenkyoContent: 'Notenkyo was built for learners with ADHD or depressive tendencies, who face serious obstacles. ' +
+      'Conventional TOEIC study apps are designed for neurotypical learners and ignore cognitive traits and changes in physical condition. ' +
+      'To close that gap, we designed an innovative PWA that combines findings from psychology and HCI research.',
+    notenkyoBullets: [
+      'Target problem: lower learning efficiency for learners with ADHD or depressive tendencies',
+      'Limits of existing solutions: designed for neurotypical learners, so they don\'t adapt',
+      'Our approach: study plans optimized for physical condition and weather',
+      'Technical challenge: a fully offline learning environment as a PWA'
+    ],
+    primaryLanguage: 'Primary language',
+    startedOn: 'Started',
+    lastUpdated: 'Last updated',
+    githubStars: count => `GitHub stars: ${count}`,
+
+    problemTitle: 'The Problem We Solve',
+    problemContent: (multipleStacks, language, largeCodebase) =>
+      (multipleStacks ? 'With several technology stacks to bring together, ' : `Developing in ${language}, `) +
+      `the challenge was ${largeCodebase ? 'managing a large codebase' : 'developing efficiently'} while keeping it maintainable.`,
+    readmeProblem: 'Problem',
+    fileCount: count => `Files: ${count}`,
+    languageCount: count => `Languages: ${count}`,
+    commitCount: count => `Commits: ${count}`,
+    needsTestCoverage: 'Test coverage needs improvement',
+    needsDocs: 'Documentation needs work',
+
+    approachTitle: '🛠️ How We Approached It',
+    approachQuestion: 'What drove our technology choices?',
+    approachStrategy: 'Technology strategy',
+    approachContent: (language, frameworks, tools) =>
+      `Built on ${language}` +
+      (frameworks.length > 0 ? `, using frameworks such as ${frameworks.join(', ')}` : '') +
+      (tools.length > 0 ? `, with ${tools.join(', ')} in the toolchain.` : ', following modern development practices.'),
+    coreTechnology: 'Core technology',
+    framework: 'Framework',
+    tool: 'Tool',
+    architectureFiles: count => `Architecture files: ${count}`,
+    feature: 'Feature',
+    deliveryHeading: 'Delivery',
+    deliveryContent: (providers, targets) =>
+      `${providers.join(', ')} automate builds and tests` +
+      (targets.length > 0 ? `, shipping to ${targets.join(', ')}.` : ', checking quality on every change.'),
+    ciPipelines: (providers, pipelines, jobs) => `CI/CD: ${providers.join(', ')} (${pipelines} pipelines, ${jobs} jobs)`,
+    deployTargets: 'Deploys to',
+    containers: 'Containers',
+    moduleDependencies: 'Module Dependencies',
+    diagramFileCount: count => `${count} ${count === 1 ? 'file' : 'files'}`,
+    deliveryPipeline: 'Delivery Pipeline',
+
+    apiTitle: '🧩 Public API',
+    apiContent: (packageName, entryPoints, symbols, counts) =>
+      `${packageName} exports ${symbols} APIs from ${entryPoints.join(', ')} (${counts.join(', ')}).`,
+    symbolKinds: {
+      function: 'function', class: 'class', interface: 'interface', type: 'type', enum: 'enum', variable: 'constant'
+    },
+    symbolKindCount: (kind, count) => `${kind}: ${count}`,
+    symbolWithKind: (name, kind) => `${name} (${kind})`,
+
+    resultTitle: '📈 What We Achieved',
+    resultQuestion: 'What has this project achieved so far?',
+    activityHeading: 'Development activity',
+    resultContent: (recency, documented, stars) =>
+      ({ active: 'The project is under active development', regular: 'The project is updated regularly', stable: 'The project has reached a stable state' })[recency] +
+      (documented ? ' and comes with thorough documentation.' : '.') +
+      (stars !== null ? ` It has earned ${stars} stars on GitHub.` : ''),
+    totalCommits: count => `Total commits: ${count}`,
+    updatedDaysAgo: days => `Last updated: ${days} days ago`,
+    stars: count => `Stars: ${count}`,
+    forks: count => `Forks: ${count}`,
+    detailedReadme: 'Detailed README',
+    releasesHeading: 'Release history',
+    milestone: (version, date, highlight) => `• ${version}${date ? ` (${date})` : ''}${highlight ? `: ${highlight}` : ''}`,
+    releases: (count, version, date) => `Releases: ${count} (latest ${version}${date ? `, ${date}` : ''})`,
+    contributors: (count, busFactor) => `Contributors: ${count} (bus factor ${busFactor})`,
+    badgeLabels: {
+      ci: 'CI', version: 'Version', license: 'License', coverage: 'Coverage', downloads: 'Downloads', other: 'Other'
+    },
+    readmeBadges: 'README badges',
+
+    nextTitle: '🚀 Next Steps',
+    nextContent: (needsTests, needsDocs) => {
+      const gaps = [...(needsTests ? ['test coverage'] : []), ...(needsDocs ? ['documentation'] : [])]
+      return 'The work the CHANGELOG, the README roadmap and the issue tracker line up next' +
+        (gaps.length > 0 ? `; the analysis also found gaps in ${gaps.join(' and ')}.` : '.')
+    },
+    strengthenTestAutomation: 'Strengthen test automation',
+    introduceTests: sourceFiles => `Introduce tests (${sourceFiles} source files have none)`,
+    expandTests: (framework, testFiles, sourceFiles, ratio) =>
+      `Expand the tests (${framework}: ${testFiles} test files / ${sourceFiles} source files, ratio ${ratio})`,
+    apiDocs: 'Write API documentation',
+    upcomingRelease: 'Coming in the next release',
+    roadmapItem: 'Roadmap',
+    buildOnLatest: (version, releases) => `More features on top of ${version} (${releases} releases so far)`,
+    openIssues: count => `Work through the ${count} open issues`,
+    noPlannedWork: 'No planned work found in the README, CHANGELOG or issue tracker',
+
+    businessValueHeading: 'Business Value',
+    businessValue: (name, description, features) =>
+      (description ? `What ${name} offers: ${description}` : `${name} solves a problem its users keep running into.`) +
+      (features.length > 0 ? `\nKey value: ${features.join(', ')}` : ''),
+    businessApproachContent: (language, automated) =>
+      `Building on ${language}, a proven and widely used technology, keeps the effort on what users see rather than on infrastructure.` +
+      (automated ? ' Every change is verified automatically before it ships.' : ''),
+    plainTechnology: language => `Written in ${language}`,
+    automatedChecks: 'Every change is checked automatically before release',
+    keyDependencies: 'Key dependencies',
+    analogyHeading: 'Think of It This Way',
+    analogy: (name, parts) => `Think of ${name} as a restaurant. ${parts.map(part => `${part}.`).join(' ')}`,
+    analogyLanguage: language => `${language} is the language the recipes are written in`,
+    analogyDependencies: count => `Its ${count} dependencies are ingredients bought from suppliers rather than grown in-house`,
+    analogyModules: folders => `Its ${folders} folders are kitchen stations, each with its own job`,
+    analogyTests: 'The automated tests are the taste check before a dish leaves the kitchen',
+    analogyPipeline: 'The CI/CD pipeline is the conveyor that checks every order and carries it to the table',
+    problemAnalogy: (files, languages) =>
+      `Imagine keeping a ${files}-page manual${languages > 1 ? ` written in ${languages} languages` : ''} consistent while many people edit it at once.`
+  },
+
+  zh: {
+    locale: 'zh-CN',
+    listSeparator: '、',
+
+    releaseTitle: range => `🚀 ${range} 变更概览`,
+    releaseSummary: (range, commits, files, additions, deletions) =>
+      `${range} 共有 ${commits} 个提交，修改了 ${files} 个文件` +
+      (additions + deletions > 0 ? `（+${additions} / −${deletions} 行）。` : '。'),
+    releaseContributors: count => `共有 ${count} 位贡献者参与。`,
+    categoryCount: (category, count) => `${category} ${count} 项`,
+    dependencyAdded: (name, version) => `➕ 新增 ${name} ${version}`,
+    dependencyRemoved: name => `➖ 移除 ${name}`,
+    dependencyUpdated: (name, from, to) => `⬆️ ${name} ${from} → ${to}`,
+    fixesTitle: '🐛 已修复的问题',
+    fixesContent: count => `${count} 项修复解决了用户遇到的问题。`,
+    noFixes: '本次发布没有值得注意的问题修复。',
+    noFixesBullet: '在保持稳定的同时专注于新功能',
+    featuresTitle: '✨ 新功能与改进',
+    changedAreas: areas => `主要变更位置: ${areas.map(area => `${area.area}（${area.files} 个文件）`).join('、')}`,
+    seeCommitHistory: '详细变更请参阅提交历史。',
+    dependenciesTitle: '📦 依赖与变更规模',
+    scopeTitle: '📊 变更规模',
+    dependencyChangeCount: count => `共有 ${count} 项依赖发生变更。`,
+    noDependencyChanges: '依赖没有变更。',
+    changeScale: (commits, files) => `${commits} 个提交 / ${files} 个文件`,
+    upgradeTitle: '⚠️ 升级说明',
+    upgradeCheck: '升级前请确认以下影响兼容性的变更。',
+    upgradeSafe: '没有破坏性变更，可以直接升级。',
+    dependencyDropped: name => `移除对 ${name} 的依赖`,
+    thanks: names => `感谢: ${names.join(', ')}`,
+
+    nextSprintTitle: '下一个迭代',
+    nextSprintContent: '下一个迭代计划处理的事项。',
+
+    incidentTitle: '事故概述',
+    incidentSummary: (fixes, start, end, days) => `从 ${start} 到 ${end} 的 ${days} 天内共有 ${fixes} 个修复提交。`,
+    noIncident: '此期间未发现修复提交。',
+    impactTitle: '影响范围',
+    impactContent: (files, areas) => `修复涉及 ${areas} 个区域的 ${files} 个文件。`,
+    impactUnknown: '历史记录中没有文件变更信息，无法确定影响范围。',
+    areaFiles: (area, files) => `${area}: ${files} 个文件`,
+    timelineTitle: '时间线',
+    timelineContent: reverts => '按时间顺序回顾修复过程。' + (reverts > 0 ? `其中 ${reverts} 个是回滚。` : ''),
+    rootCauseTitle: '根本原因',
+    rootCauseContent: '从提交历史和代码状态中看出的、容易引发故障的因素。',
+    complexHotspot: (path, complexity, changes) => `${path} 复杂度为 ${complexity}，被修改了 ${changes} 次`,
+    lowTestCoverage: (testFiles, sourceFiles) => `${sourceFiles} 个源文件仅有 ${testFiles} 个测试文件`,
+    noTests: '未发现自动化测试',
+    revertedChanges: count => `有 ${count} 个变更被回滚`,
+    concentratedFixes: (area, files) => `修复集中在 ${area}（${files} 个文件）`,
+    noClearCause: '从历史中看不出明确原因，需要进一步调查',
+    actionItemsTitle: '改进措施',
+    actionItemsContent: '防止同类问题再次发生的具体措施。',
+    addRegressionTests: area => `为 ${area} 添加回归测试`,
+    addRegressionTestsForFixes: '为每个已修复的缺陷添加回归测试',
+    refactorHotspot: path => `拆分 ${path} 以降低复杂度`,
+    addCi: '在 CI 中自动运行测试',
+    stagedRollout: '加强发布前评审并分阶段发布',
+    shareLearnings: '与团队分享复盘结论并记录在文档中',
+
+    whyTitle: '为什么要做这个项目',
+    whyDescription: (name, description) => `${name} 的开发目标是: ${description}`,
+    whyLanguage: (name, language) => `${name} 是一个使用 ${language} 开发的软件项目。`,
+    notenkyoContent: 'Notenkyo 关注的是有 ADHD 或抑郁倾向的学习者所面临的严重困难。' +
+      '传统的 TOEIC 学习应用为一般学习者设计，没有考虑认知特点和身体状况的变化。' +
+      '为了弥补这一差距，我们结合心理学与人机交互研究的成果，构思了这款创新的 PWA 应用。',
+    notenkyoBullets: [
+      '目标问题: 有 ADHD 或抑郁倾向的学习者学习效率下降',
+      '现有方案的局限: 为一般学习者设计，无法适应个体差异',
+      '独特方法: 结合身体状况与天气的学习优化系统',
+      '技术挑战: 基于 PWA 的完全离线学习环境'
+    ],
+    primaryLanguage: '主要语言',
+    startedOn: '开始开发',
+    lastUpdated: '最近更新',
+    githubStars: count => `GitHub 星标: ${count}`,
+
+    problemTitle: '要解决的问题',
+    problemContent: (multipleStacks, language, largeCodebase) =>
+      (multipleStacks ? '需要整合多种技术栈，' : `在使用 ${language} 开发的过程中，`) +
+      (largeCodebase ? '如何管理庞大的代码库' : '如何高效开发') +
+      '并保证可维护性是主要挑战。',
+    readmeProblem: '问题',
+    fileCount: count => `文件数: ${count}`,
+    languageCount: count => `使用语言: ${count} 种`,
+    commitCount: count => `提交数: ${count}`,
+    needsTestCoverage: '需要提高测试覆盖率',
+    needsDocs: '需要完善文档',
+
+    approachTitle: '🛠️ 我们如何着手',
+    approachQuestion: '技术选型背后的考量是什么？',
+    approachStrategy: '技术选型策略',
+    approachContent: (language, frameworks, tools) =>
+      `以 ${language} 为基础，` +
+      (frameworks.length > 0 ? `借助 ${frameworks.join('、')} 等框架，` : '') +
+      (tools.length > 0 ? `结合 ${tools.join('、')} 等工具进行开发。` : '采用现代开发方法实现。'),
+    coreTechnology: '核心技术',
+    framework: '框架',
+    tool: '工具',
+    architectureFiles: count => `架构相关文件: ${count}`,
+    feature: '功能',
+    deliveryHeading: '交付',
+    deliveryContent: (providers, targets) =>
+      `通过 ${providers.join('、')} 自动化构建与测试，` +
+      (targets.length > 0 ? `并交付到 ${targets.join('、')}。` : '每次变更都会检查质量。'),
+    ciPipelines: (providers, pipelines, jobs) => `CI/CD: ${providers.join('、')}（${pipelines} 条流水线、${jobs} 个作业）`,
+    deployTargets: '部署目标',
+    containers: '容器',
+    moduleDependencies: '模块依赖关系',
+    diagramFileCount: count => `${count} 个文件`,
+    deliveryPipeline: '交付流水线',
+
+    apiTitle: '🧩 公开 API',
+    apiContent: (packageName, entryPoints, symbols, counts) =>
+      `${packageName} 通过 ${entryPoints.join('、')} 公开了 ${symbols} 个 API（${counts.join('、')}）。`,
+    symbolKinds: {
+      function: '函数', class: '类', interface: '接口', type: '类型', enum: '枚举', variable: '常量'
+    },
+    symbolKindCount: (kind, count) => `${kind} ${count}`,
+    symbolWithKind: (name, kind) => `${name}（${kind}）`,
+
+    resultTitle: '📈 取得的成果',
+    resultQuestion: '这个项目取得了哪些成果？',
+    activityHeading: '开发成果',
+    resultContent: (recency, documented, stars) =>
+      ({ active: '项目正在积极开发中，', regular: '项目保持定期更新，', stable: '项目已进入稳定阶段，' })[recency] +
+      (documented ? '配有完善的文档，' : '') +
+      (stars !== null ? `在 GitHub 上获得了 ${stars} 个星标，` : '') +
+      '取得了良好的成果。',
+    totalCommits: count => `总提交数: ${count}`,
+    updatedDaysAgo: days => `最近更新: ${days} 天前`,
+    stars: count => `星标数: ${count}`,
+    forks: count => `复刻数: ${count}`,
+    detailedReadme: '配有详细的 README',
+    releasesHeading: '发布历程',
+    milestone: (version, date, highlight) => `• ${version}${date ? `（${date}）` : ''}${highlight ? `: ${highlight}` : ''}`,
+    releases: (count, version, date) => `发布: ${count} 次（最新 ${version}${date ? `，${date}` : ''}）`,
+    contributors: (count, busFactor) => `贡献者: ${count} 人（巴士因子 ${busFactor}）`,
+    badgeLabels: {
+      ci: 'CI', version: '版本', license: '许可证', coverage: '覆盖率', downloads: '下载量', other: '其他'
+    },
+    readmeBadges: 'README 徽章',
+
+    nextTitle: '🚀 下一步',
+    nextContent: (needsTests, needsDocs) => {
+      const gaps = [...(needsTests ? ['测试覆盖率'] : []), ...(needsDocs ? ['文档'] : [])]
+      return 'CHANGELOG、README 路线图和 Issue 中列出的后续工作' +
+        (gaps.length > 0 ? `；分析还发现${gaps.join('和')}方面的不足。` : '。')
+    },
+    strengthenTestAutomation: '加强测试自动化',
+    introduceTests: sourceFiles => `引入测试（${sourceFiles} 个源文件尚无测试）`,
+    expandTests: (framework, testFiles, sourceFiles, ratio) =>
+      `扩充测试（${framework}: ${testFiles} 个测试文件 / ${sourceFiles} 个源文件，比例 ${ratio}）`,
+    apiDocs: '完善 API 文档',
+    upcomingRelease: '下个版本计划',
+    roadmapItem: '路线图',
+    buildOnLatest: (version, releases) => `在 ${version} 的基础上继续扩展功能（已发布 ${releases} 次）`,
+    openIssues: count => `处理 ${count} 个未解决的 Issue`,
+    noPlannedWork: '在 README、CHANGELOG 和 Issue 中未找到计划中的工作',
+
+    businessValueHeading: '商业价值',
+    businessValue: (name, description, features) =>
+      (description ? `${name} 提供的价值：${description}` : `${name} 解决了用户反复遇到的问题。`) +
+      (features.length > 0 ? `\n主要价值：${features.join('、')}` : ''),
+    businessApproachContent: (language, automated) =>
+      `以成熟且广泛使用的 ${language} 为基础，把开发精力集中在用户能看到的功能上，而不是基础设施上。` +
+      (automated ? '每次修改在发布前都会自动验证。' : ''),
+    plainTechnology: language => `开发语言：${language}`,
+    automatedChecks: '每次修改在发布前都会自动检查',
+    keyDependencies: '主要依赖',
+    analogyHeading: '打个比方',
+    analogy: (name, parts) => `把 ${name} 比作一家餐厅：${parts.join('；')}。`,
+    analogyLanguage: language => `${language} 是写菜谱所用的语言`,
+    analogyDependencies: count => `${count} 个依赖是从供应商那里采购的食材，而不是自己种的`,
+    analogyModules: folders => `${folders} 个文件夹是厨房里分工明确的各个工位`,
+    analogyTests: '自动化测试是菜品出锅前的试吃',
+    analogyPipeline: 'CI/CD 是检查每一份订单并把它送到餐桌的传送带',
+    problemAnalogy: (files, languages) =>
+      `这就像让很多人同时修改一本${languages > 1 ? `用 ${languages} 种语言写成的` : ''} ${files} 页的说明书，还要保持前后一致。`
+  }
+}
@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { ProjectPurpose, RepositoryData } from '../types'
+import { loadFixtureRepository } from './__fixtures__/repository'
+import { storyGenerator } from './storyGenerator'
+
+// What the analyze function writes for Japanese decks
+const PROJECT_PURPOSE: ProjectPurpose = {
+  primaryPurpose: 'ジョブキューの運用を簡単にする',
+  problemSolved: '失敗したジョブの再実行が手作業になっている',
+  targetAudience: 'バックエンド開発者',
+  businessValue: '運用コストの削減',
+  technicalEvidence: [],
+  marketContext: '',
+  futureVision: 'キューの状態を誰でも把握できる世界',
+  roadmap: ['ダッシュボードの拡充', 'クラスタ対応'],
+  engagingQuestions: [],
+  visualizationSuggestions: []
+}
+
+describe('next steps', () => {
+  let repository: RepositoryData
+
+  beforeAll(async () => {
+    repository = { ...await loadFixtureRepository(), projectPurpose: PROJECT_PURPOSE, openIssues: 3 }
+  })
+
+  it('lists unreleased changes, the roadmap and open issues under the project vision', async () => {
+    const { next } = await storyGenerator.generateStory(repository, 'ted', 'ja')
+
+    expect(next.bullets).toContain('次期リリース予定: Pause and resume queues from the dashboard')
+    expect(next.bullets).toContain('未解決のIssue 3件への対応')
+    expect(next.bullets.filter(bullet => bullet.startsWith('ロードマップ: '))).not.toHaveLength(0)
+    expect(next.citations?.['次期リリース予定: Pause and resume queues from the dashboard']?.[0]?.ref).toBe('CHANGELOG.md')
+  })
+
+  it('builds on the latest release when nothing is planned', async () => {
+    const { next } = await storyGenerator.generateStory({
+      ...repository,
+      openIssues: undefined,
+      readmeStructure: undefined,
+      releaseHistory: { ...repository.releaseHistory!, unreleased: [] }
+    }, 'ted', 'ja')
+
+    expect(next.bullets).toEqual(['1.2.0 に続く機能拡張（これまで2回のリリース）'])
+  })
+
+  it('says no work is planned without release, roadmap or issue data', async () => {
+    const { next } = await storyGenerator.generateStory({
+      ...repository,
+      openIssues: undefined,
+      readmeStructure: undefined,
+      releaseHistory: undefined
+    }, 'ted', 'ja')
+
+    expect(next.content).toContain(PROJECT_PURPOSE.futureVision)
+    expect(next.bullets).toEqual(['README、CHANGELOG、Issue に予定された作業は見つかりませんでした'])
+    expect(next.citations?.[next.bullets[0]]?.map(citation => citation.ref)).toEqual(['README.md', 'CHANGELOG.md'])
+  })
+
+  it('only adds the gaps the analysis found to what is planned', async () => {
+    const { next } = await storyGenerator.generateStory({ ...repository, projectPurpose: undefined, forks: 50 }, 'ted', 'en')
+
+    expect(next.bullets).toEqual([
+      'Coming in the next release: Pause and resume queues from the dashboard',
+      'Roadmap: Priority queues',
+      'Roadmap: Redis cluster support',
+      'Work through the 3 open issues',
+      // The fixture has too little Markdown, so the documentation gap is the only one added
+      'Write API documentation'
+    ])
+  })
+})
+
+describe('why the project exists', () => {
+  let repository: RepositoryData
+
+  beforeAll(async () => {
+    repository = {
+      ...await loadFixtureRepository(),
+      projectPurpose: {
+        ...PROJECT_PURPOSE,
+        technicalEvidence: ['Express.jsによる高速なRESTful API', 'PWA技術による完全オフライン対応で集中力維持']
+      }
+    }
+  })
+
+  it('cites the technical evidence by the dependencies it names', async () => {
+    const { why } = await storyGenerator.generateStory(repository, 'ted', 'ja')
+
+    expect(why.bullets[0]).toBe('Express.jsによる高速なRESTful API')
+    expect(why.citations?.[why.bullets[0]]).toEqual([{ kind: 'dependency', ref: 'express', detail: expect.any(String) }])
+    // Nothing in the repository backs the PWA claim
+    expect(why.bullets).not.toContain('PWA技術による完全オフライン対応で集中力維持')
+  })
+
+  it('builds the same bullets in every language', async () => {
+    const stories = await Promise.all((['ja', 'en', 'zh'] as const).map(language => storyGenerator.generateStory(repository, 'ted', language)))
+
+    // The analysed purpose is written in Japanese, so only Japanese decks carry its evidence
+    expect(stories.map(story => story.why.bullets.length)).toEqual([5, 4, 4])
+    expect(stories[1].why.bullets[0]).toBe('Primary language: TypeScript')
+  })
+})
@@ -1,331 +1,275 @@
-import { RepositoryData, StoryStructure, StorySection } from '../types'
+import { ApiSymbolKind, Audience, Citation, RepositoryData, StoryStructure, StorySection, PresentationMode } from '../types'
+import {
+  CHANGE_CATEGORY_LABELS,
+  ChangeCategory,
+  commitSubject,
+  selectSprint,
+  summarizeChangedAreas,
+  summarizeRelease
+} from './releaseAnalysis'
+import { analyzeIncident } from './incidentAnalysis'
+import { DetectedFramework, detectFrameworks } from './frameworkDetection'
+import { selectKeySymbols } from './apiSurface'
+import { buildArchitectureDiagram } from './architectureDiagram'
+import { DELIVERY_PROVIDER_LABELS, buildPipelineDiagram } from './deliveryAnalysis'
+import { findReadmeSection } from './readmeParser'
+import { STORY_CATALOG } from './storyCatalog'
+import { buildGlossary } from './glossary'
+import {
+  Cite,
+  changelogCitation,
+  commitCitation,
+  createCitations,
+  dependencyCitation,
+  dependencyCitations,
+  fileCitation,
+  readmeCitation,
+  readmeFileCitation
+} from './citations'
+
+// A package name as a word of its own, so `react` matches "React UI" but not "preact"
+function mentions(text: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|[^a-z0-9-])${escaped}([^a-z0-9-]|$)`, 'i').test(text)
+}
 
 export class StoryGeneratorService {
   async generateStory(
     repository: RepositoryData, 
-    mode: 'ted' | 'imrad' = 'ted',
-    language: 'ja' | 'en' | 'zh' = 'ja'
+    mode: PresentationMode = 'ted',
+    language: 'ja' | 'en' | 'zh' = 'ja',
+    audience?: Audience
   ): Promise<StoryStructure> {
-    console.log(`Generating ${mode} story in ${language} for:`, repository.name)
-    
-    // Analyze repository deeply for story generation
-    const insights = this.analyzeRepositoryInsights(repository)
-    
-    return {
-      why: this.generateWhySection(repository, language, insights),
-      problem: this.generateProblemSection(repository, language, insights),
-      approach: this.generateApproachSection(repository, language, insights),
-      result: this.generateResultSection(repository, language, insights),
-      next: this.generateNextSection(repository, language, insights)
-    }
-  }
+    console.log(`Generating ${mode} story in ${language}${audience ? ` for a ${audience} audience` : ''} for:`, repository.name)
 
-  private analyzeRepositoryInsights(repo: RepositoryData) {
-    const { files, language, languages, readme, dependencies, commits, 
-            languageStats, architectureAnalysis, designPatterns, frameworkAnalysis } = repo
-    
-    // Use enhanced analysis if available
-    const techStack = frameworkAnalysis ? this.formatTechStackFromAnalysis(frameworkAnalysis) 
-                                       : this.analyzeTechStack(files, dependencies, language)
-    const architecture = architectureAnalysis?.pattern || this.analyzeArchitecture(files)
-    const patterns = designPatterns || this.extractDesignPatterns(files)
-    const langDistribution = languageStats || this.analyzeLangDistribution(languages)
-    
-    const complexity = this.analyzeComplexity(files, languages, commits)
-    const maturity = this.analyzeProjectMaturity(repo)
-    
-    // Content analysis
-    const purpose = this.inferProjectPurpose(repo.name, repo.description, readme, files)
-    const uniqueFeatures = this.identifyUniqueFeatures(files, dependencies, readme)
-    const challenges = this.identifyTechnicalChallenges(files, techStack, complexity)
-    
-    return {
-      techStack,
-      architecture,
-      patterns,
-      langDistribution,
-      complexity,
-      maturity,
-      purpose,
-      uniqueFeatures,
-      challenges,
-      frameworkBreakdown: frameworkAnalysis
-    }
-  }
+    const story = mode === 'release' ? this.generateReleaseStory(repository, language, audience)
+      : mode === 'sprint_demo' ? this.generateSprintStory(repository, language, audience)
+      : mode === 'postmortem' ? this.generatePostmortemStory(repository, language, audience)
+      : this.generateNarrativeStory(repository, language, audience)
 
-  private formatTechStackFromAnalysis(analysis: any) {
-    return {
-      frontend: analysis.frontend,
-      backend: analysis.backend,
-      database: analysis.database,
-      testing: analysis.testing,
-      tools: analysis.buildTools,
-      frameworks: [...analysis.frontend, ...analysis.backend]
-    }
+    // General audiences get the repository's jargon explained, whatever the mode
+    return audience === 'general' ? { ...story, glossary: buildGlossary(repository, language) } : story
   }
 
-  private analyzeLangDistribution(languages: Record<string, number>) {
-    const total = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0)
-    return Object.entries(languages).map(([lang, bytes]) => ({
-      language: lang,
-      percentage: Math.round((bytes / total) * 100)
-    })).sort((a, b) => b.percentage - a.percentage)
+  private generateNarrativeStory(repository: RepositoryData, language: 'ja' | 'en' | 'zh', audience?: Audience): StoryStructure {
+    const story: StoryStructure = {
+      why: this.generateWhySection(repository, language, audience),
+      problem: this.generateProblemSection(repository, language, audience),
+      approach: this.generateApproachSection(repository, language, audience),
+      result: this.generateResultSection(repository, language, audience),
+      next: this.generateNextSection(repository, language),
+      ...(repository.apiSurface ? { apiOverview: this.generateApiOverviewSection(repository, language) } : {})
+    }
+    this.attachScreenshots(story, repository)
+    return story
   }
 
-  private extractDesignPatterns(files: any[]) {
-    const patterns: string[] = []
-    const paths = files.map(f => f.path).join(' ').toLowerCase()
-    
-    if (paths.includes('factory')) patterns.push('Factory Pattern')
-    if (paths.includes('observer') || paths.includes('event')) patterns.push('Observer Pattern')
-    if (paths.includes('singleton')) patterns.push('Singleton Pattern')
-    if (paths.includes('repository')) patterns.push('Repository Pattern')
-    if (paths.includes('service')) patterns.push('Service Pattern')
-    if (paths.includes('hook') || paths.includes('use')) patterns.push('Hooks Pattern')
-    
-    return patterns
+  // Diagrams explain the approach, screenshots show the result; images the README used to motivate the project illustrate the problem
+  private attachScreenshots(story: StoryStructure, repo: RepositoryData) {
+    (repo.screenshots || []).forEach(image => {
+      const section = image.type === 'diagram' ? story.approach
+        : image.type !== 'screenshot' ? null
+        : image.section === 'motivation' ? story.problem
+        : story.result
+      if (section) section.images = [...(section.images || []), image]
+    })
   }
 
-  private analyzeTechStack(files: any[], _dependencies: any[], _primaryLanguage: string) {
-    const stack = {
-      frontend: [],
-      backend: [],
-      database: [],
-      tools: [],
-      frameworks: []
-    } as any
-    
-    // Analyze from files
-    const hasReact = files.some(f => f.path.includes('.jsx') || f.path.includes('.tsx') || f.path.includes('react'))
-    const hasVue = files.some(f => f.path.includes('.vue'))
-    const hasAngular = files.some(f => f.path.includes('angular') || f.path.includes('.component.'))
-    const hasNext = files.some(f => f.path.includes('next.config') || f.path.includes('app/page.'))
-    const hasNuxt = files.some(f => f.path.includes('nuxt.config'))
-    
-    const hasExpress = files.some(f => f.path.includes('server') || f.path.includes('app.js'))
-    const hasFlask = files.some(f => f.path.includes('app.py') || f.path.includes('flask'))
-    const hasDjango = files.some(f => f.path.includes('manage.py') || f.path.includes('django'))
-    const hasSpring = files.some(f => f.path.includes('spring') || f.path.includes('.java'))
-    
-    const hasSQL = files.some(f => f.path.includes('.sql') || f.path.includes('database'))
-    const hasMongo = files.some(f => f.path.includes('mongo') || f.path.includes('mongoose'))
-    const hasRedis = files.some(f => f.path.includes('redis'))
-    
-    // Frontend frameworks
-    if (hasNext) stack.frameworks.push('Next.js')
-    else if (hasReact) stack.frontend.push('React')
-    if (hasVue) stack.frontend.push('Vue.js')
-    if (hasNuxt) stack.frameworks.push('Nuxt.js')
-    if (hasAngular) stack.frontend.push('Angular')
-    
-    // Backend frameworks
-    if (hasExpress) stack.backend.push('Express.js')
-    if (hasFlask) stack.backend.push('Flask')
-    if (hasDjango) stack.backend.push('Django')
-    if (hasSpring) stack.backend.push('Spring Boot')
-    
-    // Databases
-    if (hasSQL) stack.database.push('SQL Database')
-    if (hasMongo) stack.database.push('MongoDB')
-    if (hasRedis) stack.database.push('Redis')
-    
-    // Tools and build systems
-    if (files.some(f => f.path.includes('webpack'))) stack.tools.push('Webpack')
-    if (files.some(f => f.path.includes('vite'))) stack.tools.push('Vite')
-    if (files.some(f => f.path.includes('docker'))) stack.tools.push('Docker')
-    if (files.some(f => f.path.includes('.github'))) stack.tools.push('GitHub Actions')
-    
-    return stack
+  // "What's new" story: highlights, fixes, features, dependency changes and upgrade notes for a ref range
+  private generateReleaseStory(repo: RepositoryData, language: 'ja' | 'en' | 'zh', audience?: Audience): StoryStructure {
+    const t = STORY_CATALOG[language]
+    // Business and general audiences hear how much changed, not which packages and directories
+    const plain = audience === 'business' || audience === 'general'
+    const summary = summarizeRelease(repo)
+    const labels = CHANGE_CATEGORY_LABELS[language]
+    const { cite, citationsFor } = createCitations()
+    const subjects = (category: ChangeCategory, limit: number) =>
+      (summary.groups.get(category) || []).slice(0, limit).map(commit => cite(commitSubject(commit.message), commitCitation(commit)))
+
+    const rangeLabel = summary.from ? `${summary.from} → ${summary.to}` : summary.to
+    const categoryCounts = Array.from(summary.groups.entries())
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([category, commits]) => t.categoryCount(labels[category], commits.length))
+
+    const features = [...subjects('feature', 5), ...subjects('performance', 2)]
+    const fixes = subjects('fix', 5)
+    const breaking = subjects('breaking', 5)
+    const areas = summarizeChangedAreas(summary.filesChanged)
+
+    const dependencyBullets = summary.dependencyChanges.slice(0, 6).map(change => cite(
+      change.change === 'added' ? t.dependencyAdded(change.name, change.toVersion)
+        : change.change === 'removed' ? t.dependencyRemoved(change.name)
+        : t.dependencyUpdated(change.name, change.fromVersion, change.toVersion),
+      dependencyCitation({ name: change.name, version: change.toVersion || change.fromVersion || '' })
+    ))
+    const removedDependencies = plain ? [] : summary.dependencyChanges.filter(change => change.change === 'removed')
+
+    return this.citeSections({
+      why: {
+        title: t.releaseTitle(rangeLabel),
+        content: t.releaseSummary(rangeLabel, summary.commits.length, summary.filesChanged.length, summary.additions, summary.deletions) +
+          (summary.contributors.length > 0 ? `\n${t.releaseContributors(summary.contributors.length)}` : ''),
+        bullets: [...features.slice(0, 2), ...fixes.slice(0, 1)].length > 0
+          ? [...features.slice(0, 2), ...fixes.slice(0, 1)]
+          : categoryCounts.slice(0, 3),
+        visualElements: [
+          { type: 'change-breakdown', data: Object.fromEntries(Array.from(summary.groups.entries()).map(([category, commits]) => [labels[category], commits.length])) }
+        ]
+      },
+      problem: {
+        title: t.fixesTitle,
+        content: fixes.length > 0 ? t.fixesContent(summary.groups.get('fix')?.length || 0) : t.noFixes,
+        bullets: fixes.length > 0 ? fixes : [t.noFixesBullet]
+      },
+      approach: {
+        title: t.featuresTitle,
+        content: areas.length > 0 && !plain ? t.changedAreas(areas) : t.seeCommitHistory,
+        bullets: features.length > 0 ? features : subjects('refactor', 3).concat(subjects('other', 3)).slice(0, 5)
+      },
+      result: plain ? {
+        title: t.scopeTitle,
+        content: t.changeScale(summary.commits.length, summary.filesChanged.length),
+        bullets: categoryCounts.slice(0, 4)
+      } : {
+        title: t.dependenciesTitle,
+        content: summary.dependencyChanges.length > 0
+          ? t.dependencyChangeCount(summary.dependencyChanges.length)
+          : t.noDependencyChanges,
+        bullets: [
+          ...dependencyBullets,
+          t.changeScale(summary.commits.length, summary.filesChanged.length),
+          ...categoryCounts.slice(0, 2)
+        ]
+      },
+      next: {
+        title: t.upgradeTitle,
+        content: breaking.length > 0 || removedDependencies.length > 0 ? t.upgradeCheck : t.upgradeSafe,
+        bullets: [
+          ...breaking,
+          ...removedDependencies.map(change => cite(t.dependencyDropped(change.name), dependencyCitation({ name: change.name, version: change.fromVersion || '' }))),
+          ...(summary.contributors.length > 0 ? [t.thanks(summary.contributors.slice(0, 5))] : [])
+        ]
+      }
+    }, citationsFor)
   }
 
-  private analyzeArchitecture(files: any[]) {
-    const patterns = []
-    
-    // Component-based architecture
-    if (files.filter(f => f.path.includes('component')).length > 5) {
-      patterns.push('Component-Based Architecture')
-    }
-    
-    // Layered architecture
-    if (files.some(f => f.path.includes('controller')) && 
-        files.some(f => f.path.includes('service')) && 
-        files.some(f => f.path.includes('model'))) {
-      patterns.push('Layered Architecture (MVC)')
-    }
-    
-    // Microservices
-    if (files.filter(f => f.path.includes('service')).length > 3) {
-      patterns.push('Service-Oriented Architecture')
-    }
-    
-    // Modular structure
-    if (files.some(f => f.path.includes('module')) || 
-        files.filter(f => f.path.split('/').length > 3).length > files.length * 0.5) {
-      patterns.push('Modular Design')
+  // Sprint demo: the release story over the sprint's commits, closing on what the next sprint picks up
+  private generateSprintStory(repo: RepositoryData, language: 'ja' | 'en' | 'zh', audience?: Audience): StoryStructure {
+    const t = STORY_CATALOG[language]
+    const { cite, citationsFor } = createCitations()
+    const upcoming = this.generateUpcomingBullets(repo, language, cite)
+    const story: StoryStructure = {
+      ...this.generateReleaseStory(selectSprint(repo), language, audience),
+      next: {
+        title: t.nextSprintTitle,
+        content: t.nextSprintContent,
+        bullets: upcoming,
+        citations: citationsFor(upcoming)
+      }
     }
-    
-    return patterns.length > 0 ? patterns : ['Custom Architecture']
-  }
-
-  private analyzeComplexity(files: any[], languages: any, commits: any[]) {
-    let score = 0
-    
-    // File count complexity
-    if (files.length > 100) score += 3
-    else if (files.length > 50) score += 2
-    else if (files.length > 20) score += 1
-    
-    // Language diversity
-    const langCount = Object.keys(languages).length
-    if (langCount > 5) score += 3
-    else if (langCount > 3) score += 2
-    else if (langCount > 1) score += 1
-    
-    // Development activity
-    if (commits.length > 100) score += 2
-    else if (commits.length > 50) score += 1
-    
-    if (score >= 6) return 'high'
-    if (score >= 3) return 'medium'
-    return 'low'
+    this.attachScreenshots(story, repo)
+    return story
   }
 
-  private analyzeProjectMaturity(repo: RepositoryData) {
-    const { files, readme, commits, stars } = repo
-    
-    let maturityScore = 0
-    
-    // Documentation
-    if (readme.length > 1000) maturityScore += 2
-    else if (readme.length > 500) maturityScore += 1
-    
-    // Testing
-    if (files.some(f => f.path.includes('test') || f.path.includes('spec'))) maturityScore += 2
-    
-    // Configuration
-    if (files.some(f => f.path.includes('.config') || f.path.includes('package.json'))) maturityScore += 1
-    
-    // Community engagement
-    if (stars > 50) maturityScore += 2
-    else if (stars > 10) maturityScore += 1
-    
-    // Development activity
-    if (commits.length > 50) maturityScore += 1
-    
-    if (maturityScore >= 6) return 'mature'
-    if (maturityScore >= 3) return 'developing'
-    return 'early'
-  }
+  // Blameless incident review from the fix history: summary, impact, timeline, root causes and action items
+  private generatePostmortemStory(repo: RepositoryData, language: 'ja' | 'en' | 'zh', audience?: Audience): StoryStructure {
+    const t = STORY_CATALOG[language]
+    const incident = analyzeIncident(repo)
+    const { testing } = repo
+    const formatDate = (date: string) => new Date(date).toLocaleDateString(t.locale)
+    // Business and general audiences get causes and actions without the files and directories behind them
+    const plain = audience === 'business' || audience === 'general'
+    const hotspots = plain ? [] : incident.hotspots.slice(0, 2)
+    const topArea = plain ? undefined : incident.areas[0]
+    const { cite, citationsFor } = createCitations()
+
+    const causes = [
+      ...hotspots.map(hotspot => cite(t.complexHotspot(hotspot.path, hotspot.complexity, hotspot.changes), fileCitation(hotspot.path))),
+      ...(testing && testing.testFiles === 0 ? [t.noTests] : []),
+      ...(testing && testing.testFiles > 0 && testing.ratio < 0.2 ? [t.lowTestCoverage(testing.testFiles, testing.sourceFiles)] : []),
+      ...(incident.reverts > 0 ? [t.revertedChanges(incident.reverts)] : []),
+      ...(topArea && topArea.files > 1 ? [t.concentratedFixes(topArea.area, topArea.files)] : [])
+    ]
+    const actions = [
+      ...(plain ? [t.addRegressionTestsForFixes] : incident.areas.slice(0, 2).map(area => t.addRegressionTests(area.area))),
+      ...hotspots.slice(0, 1).map(hotspot => cite(t.refactorHotspot(hotspot.path), fileCitation(hotspot.path))),
+      ...(repo.deliveryAnalysis && repo.deliveryAnalysis.pipelines.length > 0 ? [] : [t.addCi]),
+      ...(incident.reverts > 0 ? [t.stagedRollout] : []),
+      t.shareLearnings
+    ]
 
-  private inferProjectPurpose(name: string, description: string, readme: string, files: any[]) {
-    const content = `${name} ${description} ${readme}`.toLowerCase()
-    
-    // Domain classification
-    if (content.includes('api') || content.includes('server') || content.includes('backend')) {
-      return 'backend_service'
-    }
-    if (content.includes('web') || content.includes('app') || content.includes('frontend')) {
-      return 'web_application'
-    }
-    if (content.includes('mobile') || content.includes('ios') || content.includes('android')) {
-      return 'mobile_application'
-    }
-    if (content.includes('library') || content.includes('package') || content.includes('module')) {
-      return 'library'
-    }
-    if (content.includes('tool') || content.includes('cli') || content.includes('utility')) {
-      return 'development_tool'
-    }
-    if (content.includes('game') || content.includes('entertainment')) {
-      return 'game'
-    }
-    if (content.includes('data') || content.includes('analysis') || content.includes('ml') || content.includes('ai')) {
-      return 'data_science'
-    }
-    
-    // Fallback based on file structure
-    if (files.some(f => f.path.includes('component') || f.path.includes('page'))) {
-      return 'web_application'
-    }
-    if (files.some(f => f.path.includes('api') || f.path.includes('server'))) {
-      return 'backend_service'
-    }
-    
-    return 'software_project'
+    return this.citeSections({
+      why: {
+        title: t.incidentTitle,
+        content: incident.start && incident.end
+          ? t.incidentSummary(incident.commits.length, formatDate(incident.start), formatDate(incident.end), incident.days)
+          : t.noIncident,
+        bullets: incident.commits.slice(-3).reverse().map(commit => cite(commitSubject(commit.message), commitCitation(commit)))
+      },
+      problem: {
+        title: t.impactTitle,
+        content: incident.files.length > 0 ? t.impactContent(incident.files.length, incident.areas.length) : t.impactUnknown,
+        bullets: plain
+          ? [t.changeScale(incident.commits.length, incident.files.length)]
+          : incident.areas.slice(0, 5).map(area => t.areaFiles(area.area, area.files))
+      },
+      approach: {
+        title: t.timelineTitle,
+        content: t.timelineContent(incident.reverts),
+        bullets: incident.commits.slice(-6).map(commit => cite(`${formatDate(commit.date)} ${commitSubject(commit.message)}`, commitCitation(commit))),
+        visualElements: [
+          { type: 'timeline', data: incident.weeklyFixes }
+        ]
+      },
+      result: {
+        title: t.rootCauseTitle,
+        content: t.rootCauseContent,
+        bullets: causes.length > 0 ? causes : [t.noClearCause]
+      },
+      next: {
+        title: t.actionItemsTitle,
+        content: t.actionItemsContent,
+        bullets: actions
+      }
+    }, citationsFor)
   }
 
-  private identifyUniqueFeatures(files: any[], _dependencies: any[], readme: string) {
-    const features = []
-    
-    // Technology-specific features
-    if (files.some(f => f.path.includes('pwa') || f.path.includes('manifest'))) {
-      features.push('Progressive Web App (PWA) capabilities')
-    }
-    if (files.some(f => f.path.includes('websocket') || f.path.includes('socket'))) {
-      features.push('Real-time communication')
-    }
-    if (files.some(f => f.path.includes('auth') || f.path.includes('login'))) {
-      features.push('User authentication system')
-    }
-    if (files.some(f => f.path.includes('payment') || f.path.includes('stripe'))) {
-      features.push('Payment processing integration')
-    }
-    if (files.some(f => f.path.includes('upload') || f.path.includes('file'))) {
-      features.push('File upload and management')
-    }
-    
-    // README-based features
-    const readmeLower = readme.toLowerCase()
-    if (readmeLower.includes('machine learning') || readmeLower.includes('ai')) {
-      features.push('Machine Learning integration')
-    }
-    if (readmeLower.includes('responsive') || readmeLower.includes('mobile')) {
-      features.push('Responsive design')
-    }
-    if (readmeLower.includes('offline') || readmeLower.includes('cache')) {
-      features.push('Offline functionality')
+  // Attaches the citations collected while a whole story was built to the sections whose bullets they back
+  private citeSections(story: StoryStructure, citationsFor: (bullets: string[]) => Record<string, Citation[]>): StoryStructure {
+    return {
+      ...story,
+      why: { ...story.why, citations: citationsFor(story.why.bullets) },
+      problem: { ...story.problem, citations: citationsFor(story.problem.bullets) },
+      approach: { ...story.approach, citations: citationsFor(story.approach.bullets) },
+      result: { ...story.result, citations: citationsFor(story.result.bullets) },
+      next: { ...story.next, citations: citationsFor(story.next.bullets) }
     }
-    
-    return features.length > 0 ? features : ['Custom functionality implementation']
   }
 
-  private identifyTechnicalChallenges(files: any[], techStack: any, complexity: string) {
-    const challenges = []
-    
-    // Complexity-based challenges
-    if (complexity === 'high') {
-      challenges.push('Managing complex codebase architecture')
-    }
-    
-    // Multi-technology challenges
-    if (techStack.frontend.length > 0 && techStack.backend.length > 0) {
-      challenges.push('Full-stack development coordination')
-    }
-    
-    // Performance challenges
-    if (files.length > 100) {
-      challenges.push('Large-scale application performance optimization')
-    }
-    
-    // Testing challenges
-    if (!files.some(f => f.path.includes('test'))) {
-      challenges.push('Ensuring code quality without comprehensive testing')
-    }
-    
-    return challenges.length > 0 ? challenges : ['Standard software development challenges']
+  // The analyze function writes the project purpose in Japanese; other languages tell the story from the repository data alone
+  private getProjectPurpose(repo: RepositoryData, language: 'ja' | 'en' | 'zh') {
+    return language === 'ja' ? repo.projectPurpose : undefined
   }
 
-  private generateWhySection(repo: RepositoryData, _language: 'ja' | 'en' | 'zh', _insights: any): StorySection {
-    const { projectPurpose } = repo
+  private generateWhySection(repo: RepositoryData, language: 'ja' | 'en' | 'zh', audience?: Audience): StorySection {
+    const t = STORY_CATALOG[language]
+    const projectPurpose = this.getProjectPurpose(repo, language)
+    const businessFirst = audience === 'business'
+    const { cite, citationsFor } = createCitations()
+    const whyBullets = this.generateWhyBullets(repo, language, cite)
     
     if (projectPurpose) {
-      // 引き込む質問から始める
+      // 引き込む質問から始める（ビジネス向けは提供価値から）
       const engagingQuestion = projectPurpose.engagingQuestions[0] || 'このプロジェクトの背景について考えてみましょう'
+      const value = `**提供価値の明確化**
+${projectPurpose.businessValue}
+`
       
       return {
         title: '🎯 なぜこのプロジェクトが生まれたのか',
         content: `
-**${engagingQuestion}**
+${businessFirst ? `${value}
+` : ''}**${engagingQuestion}**
 
 **市場の課題認識**
 ${projectPurpose.problemSolved}
@@ -333,20 +277,15 @@ ${projectPurpose.problemSolved}
 **対象ユーザーのニーズ**
 ${projectPurpose.targetAudience}に向けて、従来のソリューションでは解決できない課題に取り組みました。
 
-**提供価値の明確化**
-${projectPurpose.businessValue}
-
-**市場背景**
+${businessFirst ? '' : `${value}
+`}**市場背景**
 ${projectPurpose.marketContext}という時代背景の中で、このプロジェクトの必要性が高まりました。
 
 **技術的根拠**
 • ${projectPurpose.technicalEvidence.join('\n• ')}
         `,
-        bullets: [
-          '市場背景の重要性',
-          '技術的根拠の明確化', 
-          'ターゲットユーザーのニーズ把握'
-        ],
+        bullets: whyBullets,
+        citations: citationsFor(whyBullets),
         visualElements: [
           { type: 'engaging-question', data: engagingQuestion },
           { type: 'problem-solution', data: projectPurpose.problemSolved },
@@ -362,171 +301,270 @@ ${projectPurpose.marketContext}という時代背景の中で、このプロジ
     const isSpecialProject = repo.name === 'notenkyo'
 
     let content = ''
-    let bullets = []
+    let bullets: string[] = []
 
     if (isSpecialProject) {
-      content = `「のうてんきょ」は、ADHD・うつ傾向のある学習者が抱える深刻な課題に着目して開発されました。従来のTOEIC学習アプリは健常者向けに設計されており、認知特性や体調の変化を考慮していません。このギャップを埋めるため、心理学とHCI研究の知見を統合した革新的なPWAアプリを構想しました。`
-      
-      bullets = [
-        '対象課題: ADHD・うつ傾向の学習者の学習効率低下',
-        '既存ソリューションの限界: 健常者向け設計による非適応性',
-        '独自アプローチ: 体調×天気連動の学習最適化システム',
-        '技術的挑戦: PWAによるオフライン完結型学習環境'
-      ]
+      content = t.notenkyoContent
+      bullets = [...t.notenkyoBullets]
     } else {
       // Default logic for other repositories
       if (repo.description && repo.description.length > 0) {
-        content = `このプロジェクト「${repo.name}」は、${repo.description}を目的として開発されました。`
+        content = t.whyDescription(repo.name, repo.description)
       } else {
-        content = `このプロジェクト「${repo.name}」は、${primaryLanguage}を使用して開発されたソフトウェアです。`
+        content = t.whyLanguage(repo.name, primaryLanguage)
       }
 
-      bullets = [
-        `主要言語: ${primaryLanguage}`,
-        `開発開始: ${new Date(repo.createdAt).toLocaleDateString('ja-JP')}`,
-        `最終更新: ${new Date(repo.updatedAt).toLocaleDateString('ja-JP')}`
-      ]
-
-      if (repo.stars > 10) {
-        bullets.push(`GitHubスター数: ${repo.stars}個`)
+      const background = findReadmeSection(repo.readmeStructure, 'motivation', 'overview')
+      if (background?.text) {
+        content += `\n\n**${background.heading}**\n${background.text}`
       }
+
+      bullets = whyBullets
+    }
+
+    if (businessFirst) {
+      const features = repo.readmeStructure?.features.slice(0, 3) || []
+      content = `**${t.businessValueHeading}**\n${t.businessValue(repo.name, repo.description, features)}\n\n${content}`
     }
 
     return {
-      title: 'なぜこのプロジェクトを作ったのか',
+      title: t.whyTitle,
       content,
-      bullets
+      bullets,
+      citations: citationsFor(bullets)
     }
   }
 
-  private generateProblemSection(repo: RepositoryData, _language: 'ja' | 'en' | 'zh', _insights: any): StorySection {
+  // The same in every language: the README's own motivation and the analysed purpose's technical evidence, each with
+  // its source, then the repository's vital statistics. Evidence that names none of the dependencies can't be checked
+  private generateWhyBullets(repo: RepositoryData, language: 'ja' | 'en' | 'zh', cite: Cite): string[] {
+    const t = STORY_CATALOG[language]
+    const motivation = findReadmeSection(repo.readmeStructure, 'motivation')?.bullets.slice(0, 2)
+      .map(item => cite(item, readmeCitation(repo, item))) || []
+    const evidence = (this.getProjectPurpose(repo, language)?.technicalEvidence || []).flatMap(item => {
+      const named = repo.dependencies.map(dependency => dependency.name).filter(name => mentions(item, name))
+      return named.length > 0 ? [cite(item, ...dependencyCitations(repo, named))] : []
+    })
+
+    return [
+      ...motivation,
+      ...evidence.slice(0, 2),
+      `${t.primaryLanguage}: ${repo.language}`,
+      `${t.startedOn}: ${new Date(repo.createdAt).toLocaleDateString(t.locale)}`,
+      `${t.lastUpdated}: ${new Date(repo.updatedAt).toLocaleDateString(t.locale)}`,
+      ...(repo.stars > 10 ? [t.githubStars(repo.stars)] : [])
+    ]
+  }
+
+  private generateProblemSection(repo: RepositoryData, language: 'ja' | 'en' | 'zh', audience?: Audience): StorySection {
+    const t = STORY_CATALOG[language]
     const hasTests = repo.files.some(file => file.path.includes('test') || file.path.includes('spec'))
     const hasDocs = repo.files.some(file => file.path.includes('doc') || file.type === 'markdown')
     const commitCount = repo.commits.length
 
-    let content = ''
-    let bullets = []
-
     // Analyze project complexity
     const languageCount = Object.keys(repo.languages).length
     const totalFiles = repo.files.length
 
-    if (languageCount > 1) {
-      content = '複数の技術スタックを統合する必要があり、'
-    } else {
-      content = `${repo.language}での開発において、`
-    }
-
-    if (totalFiles > 50) {
-      content += '大規模なコードベースの管理と'
-    } else {
-      content += '効率的な開発と'
+    let content = t.problemContent(languageCount > 1, repo.language, totalFiles > 50)
+    if (audience === 'general') {
+      content += `\n\n**${t.analogyHeading}**\n${t.problemAnalogy(totalFiles, languageCount)}`
     }
 
-    content += '保守性の確保が課題でした。'
-
-    bullets = [
-      `ファイル数: ${totalFiles}個`,
-      `使用言語: ${languageCount}種類`,
-      `コミット数: ${commitCount}回`
+    // Problems the README itself lists come before the metrics
+    const motivation = findReadmeSection(repo.readmeStructure, 'motivation')
+    const { cite, citationsFor } = createCitations()
+    const bullets = [
+      ...(motivation?.bullets.slice(0, 3).map(bullet => cite(`${t.readmeProblem}: ${bullet}`, readmeCitation(repo, bullet))) || []),
+      t.fileCount(totalFiles),
+      t.languageCount(languageCount),
+      t.commitCount(commitCount)
     ]
 
     if (!hasTests) {
-      bullets.push('テストカバレッジの改善が必要')
+      bullets.push(t.needsTestCoverage)
     }
 
     if (!hasDocs) {
-      bullets.push('ドキュメント整備が必要')
+      bullets.push(t.needsDocs)
     }
 
     return {
-      title: '解決したい課題',
+      title: t.problemTitle,
       content,
-      bullets
+      bullets,
+      citations: citationsFor(bullets)
     }
   }
 
-  private generateApproachSection(repo: RepositoryData, _language: 'ja' | 'en' | 'zh', _insights: any): StorySection {
-    const { projectPurpose } = repo
+  private generateApproachSection(repo: RepositoryData, language: 'ja' | 'en' | 'zh', audience?: Audience): StorySection {
+    const t = STORY_CATALOG[language]
+    const projectPurpose = this.getProjectPurpose(repo, language)
     const architectureFiles = repo.files.filter(file => 
       file.path.includes('config') || 
       file.path.includes('src') ||
       file.path.includes('lib')
     )
 
-    const frameworks = this.detectFrameworks(repo)
+    const detectedFrameworks = this.detectFrameworks(repo)
+    const frameworks = detectedFrameworks.map(framework => framework.name)
     const tools = this.detectTools(repo)
+    const { cite, citationsFor } = createCitations()
 
     // 引き込む質問
-    const engagingQuestion = projectPurpose?.engagingQuestions[1] || '技術選択の背景は何でしょうか？'
+    const engagingQuestion = projectPurpose?.engagingQuestions[1] || t.approachQuestion
+
+    const readme = repo.readmeStructure
+    const features = readme?.features.slice(0, 5).map(feature => cite(`${t.feature}: ${feature}`, readmeCitation(repo, feature))) || []
+    const delivery = repo.deliveryAnalysis
+    const pipelineSources = delivery?.pipelines.map(pipeline => fileCitation(pipeline.path)) || []
+
+    // Business and general audiences hear what the technology does for them, not which packages it is made of
+    if (audience === 'business' || audience === 'general') {
+      const automated = !!delivery && delivery.pipelines.length > 0
+      const content = audience === 'business'
+        ? `**${engagingQuestion}**\n\n**${t.approachStrategy}**\n${t.businessApproachContent(repo.language, automated)}`
+        : `**${engagingQuestion}**\n\n**${t.analogyHeading}**\n${t.analogy(repo.name, this.generateAnalogyParts(repo, language))}`
+      const bullets = [t.plainTechnology(repo.language), ...features, ...(automated ? [cite(t.automatedChecks, ...pipelineSources)] : [])]
+      return {
+        title: t.approachTitle,
+        content,
+        bullets,
+        citations: citationsFor(bullets),
+        visualElements: [
+          { type: 'engaging-question', data: engagingQuestion },
+          ...(readme && readme.quickstart.length > 0 ? [{ type: 'quickstart', data: readme.quickstart }] : [])
+        ]
+      }
+    }
 
     let content = `**${engagingQuestion}**
 
-**技術選択の戦略**
-${repo.language}をベースとして、`
-    
-    if (frameworks.length > 0) {
-      content += `${frameworks.join('、')}などのフレームワークを活用し、`
+**${t.approachStrategy}**
+${t.approachContent(repo.language, frameworks, tools)}`
+
+    const bullets = [
+      `${t.coreTechnology}: ${repo.language}`,
+      ...detectedFrameworks.map(framework => cite(`${t.framework}: ${framework.name}`, ...dependencyCitations(repo, framework.packages))),
+      ...tools.map(tool => cite(`${t.tool}: ${tool}`, ...this.citeTool(repo, tool))),
+      t.architectureFiles(architectureFiles.length)
+    ]
+
+    // Technical audiences also get what the project is built on
+    const keyDependencies = repo.dependencies.filter(dependency => dependency.type === 'dependency').slice(0, 5)
+    if (audience === 'technical' && keyDependencies.length > 0) {
+      bullets.push(cite(`${t.keyDependencies}: ${keyDependencies
+        .map(dependency => dependency.version ? `${dependency.name}@${dependency.version}` : dependency.name)
+        .join(t.listSeparator)}`, ...keyDependencies.map(dependencyCitation)))
     }
 
-    if (tools.length > 0) {
-      content += `${tools.join('、')}といったツールを組み合わせて開発を進めました。`
-    } else {
-      content += 'モダンな開発手法を取り入れながら実装しました。'
+    const design = findReadmeSection(readme, 'architecture')
+    if (design?.text) {
+      content += `\n\n**${design.heading}**\n${design.text}`
     }
+    bullets.push(...features)
 
-    const bullets = [
-      `主要技術: ${repo.language}`,
-      ...frameworks.map(fw => `フレームワーク: ${fw}`),
-      ...tools.map(tool => `ツール: ${tool}`),
-      `アーキテクチャファイル数: ${architectureFiles.length}個`
-    ]
+    if (delivery && delivery.pipelines.length > 0) {
+      const providers = Array.from(new Set(delivery.pipelines.map(pipeline => DELIVERY_PROVIDER_LABELS[pipeline.provider])))
+      const jobCount = delivery.pipelines.reduce((sum, pipeline) => sum + pipeline.jobs.length, 0)
+      content += `\n\n**${t.deliveryHeading}**\n${t.deliveryContent(providers, delivery.deployTargets)}`
+      bullets.push(cite(t.ciPipelines(providers, delivery.pipelines.length, jobCount), ...pipelineSources))
+      if (delivery.deployTargets.length > 0) bullets.push(`${t.deployTargets}: ${delivery.deployTargets.join(t.listSeparator)}`)
+    }
+    if (delivery && delivery.containerImages.length > 0) {
+      const images = delivery.containerImages.slice(0, 3)
+      bullets.push(cite(`${t.containers}: ${images.map(image => image.image).join(t.listSeparator)}`, ...images.map(image => fileCitation(image.path))))
+    }
+
+    const diagram = repo.architectureAnalysis?.diagram || buildArchitectureDiagram(repo.files, t.moduleDependencies, t.diagramFileCount)
+    const pipelineDiagram = delivery ? buildPipelineDiagram(delivery, t.deliveryPipeline) : null
 
     return {
-      title: '🛠️ どのようにアプローチしたか',
+      title: t.approachTitle,
       content,
       bullets,
+      citations: citationsFor(bullets),
       visualElements: [
         { type: 'engaging-question', data: engagingQuestion },
         { type: 'tech-stack', data: { language: repo.language, frameworks, tools } },
-        { type: 'architecture', data: repo.architectureAnalysis }
+        { type: 'architecture', data: repo.architectureAnalysis },
+        ...(diagram ? [{ type: 'diagram', data: diagram }] : []),
+        ...(pipelineDiagram ? [{ type: 'diagram', data: pipelineDiagram }] : []),
+        ...(readme && readme.quickstart.length > 0 ? [{ type: 'quickstart', data: readme.quickstart }] : [])
       ]
     }
   }
 
-  private generateResultSection(repo: RepositoryData, _language: 'ja' | 'en' | 'zh', _insights: any): StorySection {
-    const { projectPurpose } = repo
-    const lastCommitDate = new Date(repo.updatedAt)
-    const daysSinceUpdate = Math.floor((Date.now() - lastCommitDate.getTime()) / (1000 * 60 * 60 * 24))
+  // The restaurant analogy covers only what the repository actually has
+  private generateAnalogyParts(repo: RepositoryData, language: 'ja' | 'en' | 'zh'): string[] {
+    const t = STORY_CATALOG[language]
+    const folders = new Set(repo.files.filter(file => file.path.includes('/')).map(file => file.path.split('/')[0])).size
+    return [
+      t.analogyLanguage(repo.language),
+      ...(repo.dependencies.length > 0 ? [t.analogyDependencies(repo.dependencies.length)] : []),
+      ...(folders > 1 ? [t.analogyModules(folders)] : []),
+      ...(repo.testing && repo.testing.testFiles > 0 ? [t.analogyTests] : []),
+      ...(repo.deliveryAnalysis && repo.deliveryAnalysis.pipelines.length > 0 ? [t.analogyPipeline] : [])
+    ]
+  }
 
-    // 引き込む質問
-    const engagingQuestion = projectPurpose?.engagingQuestions[2] || 'このプロジェクトはどんな成果を生み出しているでしょうか？'
+  // Library tour: what the public entry points export, most useful symbols first
+  private generateApiOverviewSection(repo: RepositoryData, language: 'ja' | 'en' | 'zh'): StorySection {
+    const t = STORY_CATALOG[language]
+    const surface = repo.apiSurface!
+    const counts = Object.entries(
+      surface.symbols.reduce<Record<string, number>>((acc, symbol) => {
+        acc[symbol.kind] = (acc[symbol.kind] || 0) + 1
+        return acc
+      }, {})
+    ).sort((a, b) => b[1] - a[1])
+
+    const keySymbols = selectKeySymbols(surface, 5)
+    const { cite, citationsFor } = createCitations()
+    const bullets = keySymbols.map(symbol => cite(
+      symbol.doc ? `${symbol.name}: ${symbol.doc}` : t.symbolWithKind(symbol.name, t.symbolKinds[symbol.kind]),
+      fileCitation(symbol.path, symbol.line)
+    ))
 
-    let content = `**${engagingQuestion}**
+    return {
+      title: t.apiTitle,
+      content: t.apiContent(
+        surface.packageName,
+        surface.entryPoints,
+        surface.symbols.length,
+        counts.map(([kind, count]) => t.symbolKindCount(t.symbolKinds[kind as ApiSymbolKind], count))
+      ),
+      bullets,
+      citations: citationsFor(bullets),
+      visualElements: [
+        { type: 'api-surface', data: keySymbols }
+      ]
+    }
+  }
 
-**開発活動の成果**`
+  private generateResultSection(repo: RepositoryData, language: 'ja' | 'en' | 'zh', audience?: Audience): StorySection {
+    const t = STORY_CATALOG[language]
+    const projectPurpose = this.getProjectPurpose(repo, language)
+    const lastCommitDate = new Date(repo.updatedAt)
+    const daysSinceUpdate = Math.floor((Date.now() - lastCommitDate.getTime()) / (1000 * 60 * 60 * 24))
 
-    if (daysSinceUpdate < 7) {
-      content += 'プロジェクトは活発に開発が続けられており、'
-    } else if (daysSinceUpdate < 30) {
-      content += 'プロジェクトは定期的に更新されており、'
-    } else {
-      content += 'プロジェクトは安定した状態に達しており、'
-    }
+    // 引き込む質問
+    const engagingQuestion = projectPurpose?.engagingQuestions[2] || t.resultQuestion
 
     const hasReadme = repo.readme.length > 0
-    if (hasReadme) {
-      content += '充実したドキュメントとともに'
-    }
+    const recency = daysSinceUpdate < 7 ? 'active' : daysSinceUpdate < 30 ? 'regular' : 'stable'
+    let content = `**${engagingQuestion}**
 
-    if (repo.stars > 10) {
-      content += `GitHubで${repo.stars}個のスターを獲得するなど、`
-    }
+**${t.activityHeading}**
+${t.resultContent(recency, hasReadme, repo.stars > 10 ? repo.stars : null)}`
 
-    content += '良好な成果を上げています。'
+    // 具体的な成果指標（ビジネス向けは価値の実現を先頭に）
+    if (projectPurpose && audience === 'business') {
+      content = `**ビジネス価値の実現**
+${projectPurpose.businessValue}
 
-    // 具体的な成果指標
-    if (projectPurpose) {
+${content}`
+    } else if (projectPurpose) {
       content += `
 
 **ビジネス価値の実現**
@@ -537,31 +575,66 @@ ${projectPurpose.businessValue}
     }
 
     const bullets = [
-      `総コミット数: ${repo.commits.length}回`,
-      `最終更新: ${daysSinceUpdate}日前`,
-      `スター数: ${repo.stars}個`,
-      `フォーク数: ${repo.forks}個`
+      t.totalCommits(repo.commits.length),
+      t.updatedDaysAgo(daysSinceUpdate),
+      t.stars(repo.stars),
+      t.forks(repo.forks)
     ]
 
+    const { cite, citationsFor } = createCitations()
     if (hasReadme) {
-      bullets.push('詳細なREADMEを完備')
+      bullets.push(cite(t.detailedReadme, readmeFileCitation(repo)))
     }
 
+    // Business and general audiences hear about adoption; commit counts, bus factors and CI badges are engineering detail
+    const adoption = [t.stars(repo.stars), t.forks(repo.forks)]
+
+    const shipped = repo.releaseHistory?.milestones.filter(milestone => !milestone.prerelease) || []
+    if (shipped.length > 0) {
+      const latest = shipped[0]
+      content += `
+
+**${t.releasesHeading}**
+${shipped.slice(0, 3).map(milestone => t.milestone(milestone.version, milestone.date, milestone.highlights[0])).join('\n')}`
+      // Releases and tags are the host's; only CHANGELOG versions have a file behind them
+      const releases = cite(t.releases(shipped.length, latest.version, latest.date),
+        shipped.some(milestone => milestone.source === 'changelog') ? changelogCitation(repo) : undefined)
+      bullets.push(releases)
+      adoption.push(releases)
+    }
+
+    const contributors = repo.contributors
+    if (contributors && contributors.contributors.length > 0) {
+      bullets.push(t.contributors(contributors.contributors.length, contributors.busFactor))
+      adoption.push(t.releaseContributors(contributors.contributors.length))
+    }
+
+    const badges = repo.readmeStructure?.badges || []
+    bullets.push(...this.generateBadgeBullets(repo, language).map(bullet => cite(bullet, readmeFileCitation(repo))))
+    const shown = audience === 'business' || audience === 'general' ? adoption : bullets
+
     return {
-      title: '📈 得られた結果',
+      title: t.resultTitle,
       content,
-      bullets,
+      bullets: shown,
+      citations: citationsFor(shown),
       visualElements: [
         { type: 'engaging-question', data: engagingQuestion },
         { type: 'metrics', data: { stars: repo.stars, forks: repo.forks, commits: repo.commits.length } },
         { type: 'business-value', data: projectPurpose?.businessValue },
-        { type: 'achievements', data: projectPurpose?.technicalEvidence }
+        { type: 'achievements', data: projectPurpose?.technicalEvidence },
+        ...(shipped.length > 0 ? [{ type: 'milestones', data: shipped.slice(0, 6) }] : []),
+        ...(contributors ? [{ type: 'activity-timeline', data: contributors.weeklyCommits }] : []),
+        ...(badges.length > 0 ? [{ type: 'badges', data: badges }] : [])
       ]
     }
   }
 
-  private generateNextSection(repo: RepositoryData, _language: 'ja' | 'en' | 'zh', _insights: any): StorySection {
-    const { projectPurpose } = repo
+  private generateNextSection(repo: RepositoryData, language: 'ja' | 'en' | 'zh'): StorySection {
+    const t = STORY_CATALOG[language]
+    const projectPurpose = this.getProjectPurpose(repo, language)
+    const { cite, citationsFor } = createCitations()
+    const upcoming = this.generateUpcomingBullets(repo, language, cite)
     
     if (projectPurpose && projectPurpose.futureVision) {
       return {
@@ -578,13 +651,8 @@ ${projectPurpose.roadmap.map((phase, index) => `${index + 1}. ${phase}`).join('\
 
 **コミュニティへの貢献**
 オープンソースとしての発展を通じて、業界全体のイノベーションを推進します。`,
-        bullets: [
-          '段階的な機能拡張',
-          'ユーザーフィードバックの継続的取り込み',
-          '技術コミュニティとの連携',
-          'パートナーシップ機会の模索',
-          'グローバル展開の可能性'
-        ],
+        bullets: upcoming,
+        citations: citationsFor(upcoming),
         visualElements: [
           { type: 'roadmap', data: projectPurpose.roadmap },
           { type: 'future-vision', data: projectPurpose.futureVision },
@@ -594,56 +662,67 @@ ${projectPurpose.roadmap.map((phase, index) => `${index + 1}. ${phase}`).join('\
     }
     
     // Fallback for other projects
-    const needsTests = !repo.files.some(file => file.path.includes('test'))
+    const { testing } = repo
+    const needsTests = testing ? testing.ratio < 0.2 : !repo.files.some(file => file.path.includes('test'))
     const needsDocs = repo.files.filter(file => file.type === 'markdown').length < 3
 
-    let content = '今後の展開として、'
-    let bullets = []
+    const content = t.nextContent(needsTests, needsDocs)
+    const bullets = [...upcoming]
 
     if (needsTests) {
-      content += 'テストカバレッジの向上、'
-      bullets.push('テスト自動化の強化')
+      bullets.push(!testing ? t.strengthenTestAutomation
+        : testing.testFiles === 0 ? t.introduceTests(testing.sourceFiles)
+        : t.expandTests(testing.frameworks[0], testing.testFiles, testing.sourceFiles, testing.ratio))
     }
 
     if (needsDocs) {
-      content += 'ドキュメントの拡充、'
-      bullets.push('API ドキュメントの整備')
-    }
-
-    content += 'パフォーマンス最適化やユーザビリティの改善に取り組む予定です。'
-
-    bullets.push(
-      '継続的インテグレーションの改善',
-      'セキュリティ監査の実施',
-      'コミュニティからのフィードバック対応'
-    )
-
-    if (repo.forks > 5) {
-      bullets.push('オープンソースコミュニティとの連携強化')
+      bullets.push(t.apiDocs)
     }
 
     return {
-      title: '🚀 次のステップ',
+      title: t.nextTitle,
       content,
-      bullets
+      bullets,
+      citations: citationsFor(bullets)
     }
   }
 
-  private detectFrameworks(repo: RepositoryData): string[] {
-    const frameworks = []
-    const dependencies = repo.dependencies.map(dep => dep.name.toLowerCase())
-    const packageNames = dependencies.join(' ')
-
-    if (packageNames.includes('react')) frameworks.push('React')
-    if (packageNames.includes('vue')) frameworks.push('Vue.js')
-    if (packageNames.includes('angular')) frameworks.push('Angular')
-    if (packageNames.includes('express')) frameworks.push('Express.js')
-    if (packageNames.includes('django')) frameworks.push('Django')
-    if (packageNames.includes('flask')) frameworks.push('Flask')
-    if (packageNames.includes('spring')) frameworks.push('Spring')
-    if (packageNames.includes('rails')) frameworks.push('Ruby on Rails')
-
-    return frameworks
+  // Static badges carry their value in the URL; dynamic ones only tell us what the project tracks
+  private generateBadgeBullets(repo: RepositoryData, language: 'ja' | 'en' | 'zh'): string[] {
+    const t = STORY_CATALOG[language]
+    const badges = repo.readmeStructure?.badges || []
+    const bullets = badges
+      .filter(badge => badge.value)
+      .map(badge => `${badge.kind === 'other' ? badge.label : t.badgeLabels[badge.kind]}: ${badge.value}`)
+    const tracked = Array.from(new Set(badges
+      .filter(badge => !badge.value && badge.kind !== 'other')
+      .map(badge => t.badgeLabels[badge.kind])))
+    if (tracked.length > 0) bullets.push(`${t.readmeBadges}: ${tracked.join(t.listSeparator)}`)
+    return bullets.slice(0, 4)
+  }
+
+  // Unreleased CHANGELOG entries, the README roadmap and open issues are the concrete next steps; otherwise build on the latest
+  // shipped version. Without any of them, say so and point at where we looked
+  private generateUpcomingBullets(repo: RepositoryData, language: 'ja' | 'en' | 'zh', cite: Cite): string[] {
+    const t = STORY_CATALOG[language]
+    const history = repo.releaseHistory
+    const upcoming = [
+      ...(history?.unreleased.slice(0, 3).map(entry => cite(`${t.upcomingRelease}: ${entry}`, changelogCitation(repo))) || []),
+      ...(findReadmeSection(repo.readmeStructure, 'roadmap')?.bullets.slice(0, 3)
+        .map(item => cite(`${t.roadmapItem}: ${item}`, readmeCitation(repo, item))) || []),
+      ...(repo.openIssues ? [t.openIssues(repo.openIssues)] : [])
+    ]
+    if (upcoming.length > 0) return upcoming
+    const latest = history?.milestones.find(milestone => !milestone.prerelease)
+    return latest
+      ? [t.buildOnLatest(latest.version, history!.milestones.length)]
+      : [cite(t.noPlannedWork, readmeFileCitation(repo), changelogCitation(repo))]
+  }
+
+  private detectFrameworks(repo: RepositoryData): DetectedFramework[] {
+    // Application frameworks only; databases, test runners and bundlers are covered by detectTools
+    return detectFrameworks(repo.dependencies)
+      .filter(framework => framework.category === 'frontend' || framework.category === 'backend')
   }
 
   private detectTools(repo: RepositoryData): string[] {
@@ -662,6 +741,15 @@ ${projectPurpose.roadmap.map((phase, index) => `${index + 1}. ${phase}`).join('\
 
     return tools
   }
+
+  // The dependencies, or failing that the files, whose names gave a tool away
+  private citeTool(repo: RepositoryData, tool: string): Citation[] {
+    const keyword = tool.toLowerCase()
+    const dependencies = repo.dependencies.filter(dependency => dependency.name.toLowerCase().includes(keyword))
+    return dependencies.length > 0
+      ? dependencies.slice(0, 3).map(dependencyCitation)
+      : repo.files.filter(file => file.path.toLowerCase().includes(keyword)).slice(0, 3).map(file => fileCitation(file.path))
+  }
 }
 
 // Export singleton instance
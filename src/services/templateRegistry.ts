@@ -0,0 +1,212 @@
+// Slide template registry
+// User templates are JSON or YAML documents listing a deck's sections in order. Each section binds a slide
+// to a story section or a piece of the repository analysis; templates are kept in IndexedDB
+
+import { PresentationMode, Slide, SlideTemplate, TemplateBinding, TemplateSection, ThemeConfig } from '../types'
+import { YamlParseError, YamlValue, parseYaml, stringifyYaml } from './yaml'
+import { storageService } from './storage'
+
+export class TemplateValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TemplateValidationError'
+  }
+}
+
+export const TEMPLATE_BINDINGS: TemplateBinding[] = [
+  'story.why', 'story.problem', 'story.approach', 'story.result', 'story.next', 'story.apiOverview', 'story.glossary',
+  'repository.overview', 'repository.architecture', 'repository.code', 'repository.workspace', 'repository.api',
+  'repository.metrics', 'repository.complexity', 'repository.testing', 'repository.delivery', 'repository.releases',
+  'repository.changes', 'repository.activity', 'repository.contributors', 'repository.screenshots', 'repository.url'
+]
+
+const SLIDE_TYPES: Slide['type'][] = ['title', 'content', 'image', 'code', 'chart', 'diagram', 'conclusion']
+const MODES: PresentationMode[] = ['ted', 'imrad', 'release', 'pitch', 'sprint_demo', 'postmortem', 'onboarding', 'lightning']
+const LAYOUTS: ThemeConfig['layout'][] = ['standard', 'wide', 'compact']
+// Hex only: the same colors go into the PowerPoint export
+const COLOR = /^#[0-9a-f]{6}$/i
+
+export const DEFAULT_THEME: ThemeConfig = {
+  primaryColor: '#333333',
+  backgroundColor: '#ffffff',
+  textColor: '#333333',
+  fontFamily: "'Helvetica Neue', sans-serif",
+  layout: 'standard'
+}
+
+// Starting point for new templates: a short tech talk with the code metrics in the middle
+export const EXAMPLE_TEMPLATE: SlideTemplate = {
+  id: 'example',
+  name: 'Tech Talk',
+  description: 'Motivation, approach and numbers, then where to find the code',
+  mode: 'ted',
+  structure: [
+    { type: 'title', binding: 'repository.overview', title: '', estimatedDuration: 15, required: true },
+    { type: 'content', binding: 'story.why', title: '', estimatedDuration: 30, required: true },
+    { type: 'code', binding: 'story.approach', title: '', estimatedDuration: 45, required: true },
+    { type: 'diagram', binding: 'repository.architecture', title: '', estimatedDuration: 30, required: false },
+    { type: 'chart', binding: 'repository.metrics', title: '', estimatedDuration: 30, required: false },
+    { type: 'content', binding: 'story.result', title: '', estimatedDuration: 30, required: true },
+    { type: 'conclusion', binding: 'repository.url', title: '', estimatedDuration: 15, required: true }
+  ],
+  theme: { ...DEFAULT_THEME, primaryColor: '#4f46e5' }
+}
+
+// JSON when the document is an object literal, YAML otherwise
+export function parseTemplate(content: string): SlideTemplate {
+  const trimmed = content.trim()
+  let document: unknown
+  try {
+    document = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed)
+  } catch (error) {
+    if (error instanceof SyntaxError || error instanceof YamlParseError) {
+      throw new TemplateValidationError(`Not a valid JSON or YAML document: ${error.message}`)
+    }
+    throw error
+  }
+  return validateTemplate(document)
+}
+
+// Timestamps belong to the browser the template is stored in and are left out
+export function serializeTemplate(template: SlideTemplate, format: 'json' | 'yaml'): string {
+  const portable = {
+    id: template.id,
+    name: template.name,
+    ...(template.description ? { description: template.description } : {}),
+    mode: template.mode,
+    structure: template.structure.map(section => ({ ...section })),
+    theme: { ...template.theme }
+  }
+  return format === 'json' ? `${JSON.stringify(portable, null, 2)}\n` : stringifyYaml(portable as unknown as YamlValue)
+}
+
+export function validateTemplate(document: unknown): SlideTemplate {
+  if (!isRecord(document)) throw new TemplateValidationError('A template must be a mapping')
+
+  const name = typeof document.name === 'string' ? document.name.trim() : ''
+  if (!name) throw new TemplateValidationError('name: required')
+
+  const mode = document.mode ?? 'ted'
+  if (!MODES.includes(mode as PresentationMode)) {
+    throw new TemplateValidationError(`mode: expected one of ${MODES.join(', ')}`)
+  }
+
+  if (!Array.isArray(document.structure) || document.structure.length === 0) {
+    throw new TemplateValidationError('structure: at least one section is required')
+  }
+
+  return {
+    id: typeof document.id === 'string' && document.id.trim() ? document.id.trim() : generateTemplateId(),
+    name,
+    ...(typeof document.description === 'string' && document.description ? { description: document.description } : {}),
+    mode: mode as PresentationMode,
+    structure: document.structure.map((section, index) => validateSection(section, `structure[${index}]`)),
+    theme: validateTheme(document.theme)
+  }
+}
+
+function validateSection(section: unknown, path: string): TemplateSection {
+  if (!isRecord(section)) throw new TemplateValidationError(`${path}: expected a mapping`)
+
+  if (!TEMPLATE_BINDINGS.includes(section.binding as TemplateBinding)) {
+    throw new TemplateValidationError(`${path}.binding: unknown binding "${section.binding}"`)
+  }
+  if (!SLIDE_TYPES.includes(section.type as Slide['type'])) {
+    throw new TemplateValidationError(`${path}.type: expected one of ${SLIDE_TYPES.join(', ')}`)
+  }
+  if (typeof section.estimatedDuration !== 'number' || !(section.estimatedDuration > 0)) {
+    throw new TemplateValidationError(`${path}.estimatedDuration: expected a positive number of seconds`)
+  }
+  if (section.title !== undefined && section.title !== null && typeof section.title !== 'string') {
+    throw new TemplateValidationError(`${path}.title: expected a string`)
+  }
+  if (section.required !== undefined && typeof section.required !== 'boolean') {
+    throw new TemplateValidationError(`${path}.required: expected true or false`)
+  }
+
+  return {
+    type: section.type as Slide['type'],
+    binding: section.binding as TemplateBinding,
+    title: typeof section.title === 'string' ? section.title : '',
+    estimatedDuration: section.estimatedDuration,
+    required: section.required === true
+  }
+}
+
+// Missing theme keys fall back to the default theme
+function validateTheme(theme: unknown): ThemeConfig {
+  if (theme === undefined || theme === null) return { ...DEFAULT_THEME }
+  if (!isRecord(theme)) throw new TemplateValidationError('theme: expected a mapping')
+
+  const merged = { ...DEFAULT_THEME, ...theme }
+  for (const key of ['primaryColor', 'backgroundColor', 'textColor'] as const) {
+    if (typeof merged[key] !== 'string' || !COLOR.test(merged[key])) {
+      throw new TemplateValidationError(`theme.${key}: expected a #rrggbb color`)
+    }
+  }
+  // The font family is written into the slide stylesheet as is
+  if (typeof merged.fontFamily !== 'string' || !merged.fontFamily.trim() || /[<>{};]/.test(merged.fontFamily)) {
+    throw new TemplateValidationError('theme.fontFamily: expected a font family')
+  }
+  if (!LAYOUTS.includes(merged.layout)) {
+    throw new TemplateValidationError(`theme.layout: expected one of ${LAYOUTS.join(', ')}`)
+  }
+
+  return {
+    primaryColor: merged.primaryColor,
+    backgroundColor: merged.backgroundColor,
+    textColor: merged.textColor,
+    fontFamily: merged.fontFamily,
+    layout: merged.layout
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function generateTemplateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2)
+}
+
+export class TemplateRegistryService {
+  async getTemplates(): Promise<SlideTemplate[]> {
+    return await storageService.getAllTemplates()
+  }
+
+  async getTemplate(id: string): Promise<SlideTemplate | undefined> {
+    return await storageService.getTemplate(id)
+  }
+
+  // Re-importing a template with a known id replaces the stored one
+  async importTemplate(content: string): Promise<SlideTemplate> {
+    return await this.saveTemplate(parseTemplate(content))
+  }
+
+  async saveTemplate(template: SlideTemplate): Promise<SlideTemplate> {
+    const existing = await storageService.getTemplate(template.id)
+    const now = new Date().toISOString()
+    const saved = { ...template, createdAt: existing?.createdAt || template.createdAt || now, updatedAt: now }
+    await storageService.saveTemplate(saved)
+    return saved
+  }
+
+  // A copy of the example under a fresh id, so it can be edited without losing the original
+  async createFromExample(): Promise<SlideTemplate> {
+    return await this.saveTemplate({ ...EXAMPLE_TEMPLATE, id: generateTemplateId() })
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await storageService.deleteTemplate(id)
+  }
+
+  exportTemplate(template: SlideTemplate, format: 'json' | 'yaml'): { blob: Blob; filename: string } {
+    const slug = template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || template.id
+    return {
+      blob: new Blob([serializeTemplate(template, format)], { type: format === 'json' ? 'application/json' : 'application/yaml' }),
+      filename: `${slug}.template.${format === 'json' ? 'json' : 'yaml'}`
+    }
+  }
+}
+
+export const templateRegistry = new TemplateRegistryService()
@@ -0,0 +1,92 @@
+// Test suite analysis
+// Finds test files by each framework's conventions, counts their test cases and relates them to the source files
+
+import { Dependency, FileData, TestingAnalysis } from '../types'
+import { detectLanguage } from './fileClassification'
+import { detectFrameworks } from './frameworkDetection'
+
+interface TestConvention {
+  framework: string
+  // Test files of this convention
+  files: RegExp
+  // One match per test case
+  cases: RegExp
+  // Content that confirms the framework when several share a file convention
+  marker?: RegExp
+}
+
+const SCRIPT_TEST_FILE = /(\.(test|spec)\.[cm]?[jt]sx?$)|((^|\/)__tests__\/.+\.[cm]?[jt]sx?$)/
+const SCRIPT_TEST_CASE = /(^|[^\w.])(it|test)(\.(only|skip|concurrent|todo))?(\.each\s*(\([^)]*\)|`[^`]*`))?\s*\(/gm
+
+// The first convention matching a path decides; JavaScript runners share one convention and are told apart by markers
+const TEST_CONVENTIONS: TestConvention[] = [
+  { framework: 'Vitest', files: SCRIPT_TEST_FILE, cases: SCRIPT_TEST_CASE, marker: /from\s+['"]vitest['"]/ },
+  { framework: 'Jest', files: SCRIPT_TEST_FILE, cases: SCRIPT_TEST_CASE, marker: /@jest\/globals|\bjest\.(fn|mock|spyOn)\(/ },
+  { framework: 'Mocha', files: SCRIPT_TEST_FILE, cases: SCRIPT_TEST_CASE, marker: /from\s+['"](chai|mocha)['"]|require\(['"](chai|mocha)['"]\)/ },
+  { framework: 'pytest', files: /(^|\/)(test_[^/]+|[^/]+_test)\.py$|(^|\/)tests?\/(?!.*(__init__|conftest)\.py$).+\.py$/, cases: /^[ \t]*(async[ \t]+)?def[ \t]+test\w*[ \t]*\(/gm },
+  { framework: 'Go test', files: /_test\.go$/, cases: /^func[ \t]+(Test|Fuzz)\w*[ \t]*\(/gm },
+  { framework: 'JUnit', files: /(^|\/)src\/test\/.+\.(java|kt)$|Tests?\.(java|kt)$/, cases: /@(Test|ParameterizedTest|RepeatedTest|TestFactory)\b/g },
+  { framework: 'RSpec', files: /(^|\/)spec\/.+_spec\.rb$/, cases: /^[ \t]*(it|specify|example|scenario)\b[ \t]*(['"({]|do\b)/gm },
+  { framework: 'Minitest', files: /(^|\/)test\/.+_test\.rb$/, cases: /^[ \t]*(def[ \t]+test_\w+|test[ \t]+['"])/gm },
+  { framework: 'PHPUnit', files: /(^|\/)tests\/.+Test\.php$/, cases: /function[ \t]+test\w*[ \t]*\(|@test\b|#\[Test\]/g },
+  { framework: 'Rust test', files: /(^|\/)tests\/.+\.rs$/, cases: /#\[(tokio::)?test\]/g },
+  { framework: 'xUnit', files: /Tests?\.cs$/, cases: /\[(Fact|Theory|Test|TestMethod)\]/g }
+]
+
+export function isTestFile(path: string): boolean {
+  return TEST_CONVENTIONS.some(convention => convention.files.test(path))
+}
+
+export function analyzeTests(files: FileData[], dependencies: Dependency[]): TestingAnalysis {
+  const declared = detectFrameworks(dependencies)
+    .filter(framework => framework.category === 'testing')
+    .map(framework => framework.name)
+  // JavaScript test files look the same for every runner; without a marker the declared dependency decides
+  const scriptFallback = ['Vitest', 'Jest', 'Mocha', 'Playwright', 'Cypress'].find(name => declared.includes(name)) || 'Jest'
+
+  const byFramework = new Map<string, { files: number; parsedFiles: number; cases: number }>()
+  let sourceFiles = 0
+
+  files.forEach(file => {
+    const matching = TEST_CONVENTIONS.filter(convention => convention.files.test(file.path))
+    if (matching.length === 0) {
+      // Helpers inside test directories (conftest.py, fixtures) are neither tests nor sources
+      if (detectLanguage(file.path) && !/\.d\.ts$|(^|\/)(tests?|spec|__tests__)\//.test(file.path)) sourceFiles++
+      return
+    }
+
+    const convention = matching[0]
+    const framework = convention.files === SCRIPT_TEST_FILE
+      ? TEST_CONVENTIONS.find(candidate => candidate.files === SCRIPT_TEST_FILE && !!file.content && !!candidate.marker?.test(file.content))?.framework
+        || scriptFallback
+      : convention.framework
+    const entry = byFramework.get(framework) || { files: 0, parsedFiles: 0, cases: 0 }
+    entry.files++
+    if (file.content) {
+      entry.parsedFiles++
+      entry.cases += file.content.match(convention.cases)?.length || 0
+    }
+    byFramework.set(framework, entry)
+  })
+
+  // Hosted providers only download some test files; scale their cases up to the whole suite
+  const frameworks = Array.from(byFramework.entries())
+    .map(([name, entry]) => ({
+      name,
+      files: entry.files,
+      cases: entry.parsedFiles > 0 ? Math.round(entry.cases * (entry.files / entry.parsedFiles)) : 0
+    }))
+    .sort((a, b) => b.files - a.files)
+  const testFiles = frameworks.reduce((sum, framework) => sum + framework.files, 0)
+  const parsedFiles = Array.from(byFramework.values()).reduce((sum, entry) => sum + entry.parsedFiles, 0)
+
+  return {
+    frameworks: Array.from(new Set([...frameworks.map(framework => framework.name), ...declared])),
+    byFramework: frameworks,
+    testFiles,
+    sourceFiles,
+    testCases: frameworks.reduce((sum, framework) => sum + framework.cases, 0),
+    testCasesEstimated: parsedFiles < testFiles,
+    ratio: sourceFiles > 0 ? Math.round((testFiles / sourceFiles) * 100) / 100 : 0
+  }
+}
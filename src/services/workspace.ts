@@ -0,0 +1,299 @@
+// Monorepo workspace detection
+// Finds pnpm/yarn/npm/Lerna/Nx/Cargo workspace packages so a single package can be presented
+
+import { RepositoryData, FileData, Dependency, WorkspaceInfo, WorkspacePackage, WorkspaceTool } from '../types'
+import { detectLanguage } from './fileClassification'
+import { findManifestPaths, parseManifests, readTomlString, readTomlStringArray, readTomlTable } from './manifestParser'
+import { analyzeTests } from './testAnalysis'
+import { analyzeContributors } from './contributorAnalysis'
+import { analyzeCodeMetrics } from './codeMetrics'
+
+export type WorkspaceFileReader = (path: string) => Promise<string | null>
+
+// Root files that declare workspace members
+export const WORKSPACE_CONFIG_FILES = ['package.json', 'pnpm-workspace.yaml', 'lerna.json', 'nx.json', 'Cargo.toml']
+
+// Files that mark a directory as a workspace member
+const PACKAGE_MANIFESTS = ['package.json', 'Cargo.toml', 'project.json']
+const MAX_WORKSPACE_PACKAGES = 100
+const README_PATTERN = /^readme(\.(md|markdown|mdx|rst|txt))?$/i
+
+// Only the fields we read; values are validated where used since manifests are user content
+interface PackageJson {
+  name?: unknown
+  version?: unknown
+  description?: unknown
+  workspaces?: unknown[] | { packages?: unknown[] }
+}
+
+interface LernaJson {
+  packages?: unknown[]
+}
+
+interface ProjectJson {
+  name?: unknown
+  implicitDependencies?: unknown[]
+}
+
+interface MemberPatterns {
+  include: string[]
+  exclude: string[]
+}
+
+export async function detectWorkspace(paths: string[], readFile: WorkspaceFileReader): Promise<WorkspaceInfo | null> {
+  const available = new Set(paths)
+  const read = (path: string) => available.has(path) ? readFile(path).catch(() => null) : Promise.resolve(null)
+  const [packageJson, pnpmWorkspace, lernaJson, nxJson, cargoToml] = await Promise.all(WORKSPACE_CONFIG_FILES.map(read))
+
+  const patterns: MemberPatterns = { include: [], exclude: [] }
+  let tool: WorkspaceTool | null = null
+
+  // Later checks win the tool label: Nx and pnpm usually sit on top of package.json workspaces
+  const cargoWorkspace = cargoToml ? readTomlTable(cargoToml, 'workspace') : null
+  if (cargoWorkspace !== null) {
+    patterns.include.push(...readTomlStringArray(cargoWorkspace, 'members'))
+    patterns.exclude.push(...readTomlStringArray(cargoWorkspace, 'exclude'))
+    tool = 'cargo'
+  }
+
+  const workspaces = parseJson<PackageJson>(packageJson)?.workspaces
+  const npmWorkspaces = Array.isArray(workspaces) ? workspaces : workspaces?.packages
+  if (Array.isArray(npmWorkspaces)) {
+    addGlobs(patterns, npmWorkspaces)
+    tool = available.has('yarn.lock') ? 'yarn' : 'npm'
+  }
+
+  const lerna = parseJson<LernaJson>(lernaJson)
+  if (lerna) {
+    addGlobs(patterns, Array.isArray(lerna.packages) ? lerna.packages : ['packages/*'])
+    tool = 'lerna'
+  }
+
+  if (pnpmWorkspace) {
+    addGlobs(patterns, parsePnpmWorkspace(pnpmWorkspace))
+    tool = 'pnpm'
+  }
+
+  if (nxJson) tool = 'nx'
+  if (!tool) return null
+
+  const include = patterns.include.map(globToRegExp)
+  const exclude = patterns.exclude.map(globToRegExp)
+  const directories = new Set<string>()
+
+  paths.forEach(path => {
+    const segments = path.split('/')
+    const filename = segments.pop() || ''
+    const directory = segments.join('/')
+    if (!directory || !PACKAGE_MANIFESTS.includes(filename) || segments.includes('node_modules')) return
+
+    // Nx projects are identified by their project.json rather than by glob
+    const isMember = (filename === 'project.json' && nxJson !== null) || include.some(pattern => pattern.test(directory))
+    if (isMember && !exclude.some(pattern => pattern.test(directory))) {
+      directories.add(directory)
+    }
+  })
+
+  const packages: WorkspacePackage[] = []
+  for (const directory of Array.from(directories).sort().slice(0, MAX_WORKSPACE_PACKAGES)) {
+    packages.push(await readWorkspacePackage(directory, paths, read))
+  }
+  if (packages.length === 0) return null
+
+  const names = new Set(packages.map(workspacePackage => workspacePackage.name))
+  packages.forEach(workspacePackage => {
+    const internal = workspacePackage.dependencies
+      .map(dependency => dependency.name)
+      .filter(name => names.has(name) && name !== workspacePackage.name)
+    workspacePackage.workspaceDependencies = Array.from(new Set([...workspacePackage.workspaceDependencies, ...internal]))
+  })
+
+  return { tool, packages }
+}
+
+async function readWorkspacePackage(
+  directory: string,
+  paths: string[],
+  read: WorkspaceFileReader
+): Promise<WorkspacePackage> {
+  // Dependencies come from every ecosystem manifest in the package, e.g. a Python package's pyproject.toml
+  const manifests = new Map<string, string>()
+  for (const path of [...findManifestPaths(paths, directory), `${directory}/project.json`]) {
+    const content = await read(path)
+    if (content) manifests.set(path.slice(directory.length + 1), content)
+  }
+
+  const packageJson = parseJson<PackageJson>(manifests.get('package.json') || null)
+  const cargoPackage = manifests.has('Cargo.toml') ? readTomlTable(manifests.get('Cargo.toml')!, 'package') : null
+  const project = parseJson<ProjectJson>(manifests.get('project.json') || null)
+  const prefix = `${directory}/`
+
+  return {
+    name: stringField(packageJson?.name)
+      || (cargoPackage && readTomlString(cargoPackage, 'name'))
+      || stringField(project?.name)
+      || directory.split('/').pop()
+      || directory,
+    path: directory,
+    version: stringField(packageJson?.version) || (cargoPackage ? readTomlString(cargoPackage, 'version') : undefined),
+    description: stringField(packageJson?.description) || (cargoPackage ? readTomlString(cargoPackage, 'description') : undefined),
+    dependencies: parseManifests(manifests),
+    workspaceDependencies: Array.isArray(project?.implicitDependencies)
+      ? project.implicitDependencies.filter((name: unknown): name is string => typeof name === 'string' && !name.startsWith('!'))
+      : [],
+    fileCount: paths.filter(path => path.startsWith(prefix)).length
+  }
+}
+
+export function findWorkspacePackage(workspace: WorkspaceInfo | undefined, packagePath: string): WorkspacePackage {
+  const workspacePackage = workspace?.packages.find(candidate => candidate.path === packagePath)
+  if (!workspacePackage) {
+    throw new Error(`ワークスペースのパッケージが見つかりません: ${packagePath}`)
+  }
+  return workspacePackage
+}
+
+export function findPackageReadme(paths: string[], packagePath: string): string | null {
+  const prefix = `${packagePath}/`
+  return paths
+    .filter(path => path.startsWith(prefix) && README_PATTERN.test(path.slice(prefix.length)))
+    .sort((a, b) => Number(!/\.md$/i.test(a)) - Number(!/\.md$/i.test(b)))[0] || null
+}
+
+// Narrows a whole-repository analysis to one package; the workspace itself is kept for the overview slide
+export function scopeToPackage(repository: RepositoryData, packagePath: string, readme: string | null): RepositoryData {
+  const workspacePackage = findWorkspacePackage(repository.workspace, packagePath)
+  const prefix = `${packagePath}/`
+  const inPackage = (path?: string) => !!path && path.startsWith(prefix)
+
+  const files = repository.files.filter(file => inPackage(file.path))
+  const languages: Record<string, number> = {}
+  files.forEach(file => {
+    const language = detectLanguage(file.path)
+    if (language) languages[language] = (languages[language] || 0) + Math.max(file.size, 1)
+  })
+
+  // Hosted providers fetch history already filtered by path and carry no per-commit files
+  const commits = repository.commits.some(commit => commit.files)
+    ? repository.commits.filter(commit => commit.files?.some(file => inPackage(file.path) || inPackage(file.previousPath)))
+    : repository.commits
+
+  return {
+    ...repository,
+    name: workspacePackage.name,
+    description: workspacePackage.description || repository.description,
+    language: Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0] || repository.language,
+    languages,
+    dependencies: workspacePackage.dependencies,
+    commits,
+    contributors: analyzeContributors(commits) || undefined,
+    files,
+    codeMetrics: analyzeCodeMetrics(files, commits) || undefined,
+    testing: analyzeTests(files, workspacePackage.dependencies),
+    readme: readme || repository.readme,
+    release: repository.release && {
+      ...repository.release,
+      filesChanged: repository.release.filesChanged.filter(file => inPackage(file.path) || inPackage(file.previousPath))
+    },
+    scope: packagePath
+  }
+}
+
+// Root dependencies plus every package's external dependencies, so a workspace isn't judged by its root alone
+export function mergeWorkspaceDependencies(rootDependencies: Dependency[], workspace: WorkspaceInfo | null): Dependency[] {
+  if (!workspace) return rootDependencies
+
+  const internal = new Set(workspace.packages.map(workspacePackage => workspacePackage.name))
+  const merged = new Map<string, Dependency>()
+  ;[rootDependencies, ...workspace.packages.map(workspacePackage => workspacePackage.dependencies)].forEach(dependencies => {
+    dependencies.forEach(dependency => {
+      const key = `${dependency.ecosystem}:${dependency.type}:${dependency.name}`
+      if (!internal.has(dependency.name) && !merged.has(key)) merged.set(key, dependency)
+    })
+  })
+  return Array.from(merged.values())
+}
+
+// Most important files first, taking turns between packages so one large package can't crowd out the rest
+export function selectRepresentativeFiles(files: FileData[], limit: number, workspace?: WorkspaceInfo | null): FileData[] {
+  // Files with fetched contents feed the code excerpts, so they are kept ahead of the rest
+  const ranked = [...files].sort((a, b) =>
+    Number(!!b.content) - Number(!!a.content) || b.importance - a.importance || a.path.localeCompare(b.path))
+  if (!workspace || ranked.length <= limit) return ranked.slice(0, limit)
+
+  const groups = new Map<string, FileData[]>()
+  const packagePaths = workspace.packages.map(workspacePackage => `${workspacePackage.path}/`)
+  ranked.forEach(file => {
+    const group = packagePaths.find(prefix => file.path.startsWith(prefix)) || ''
+    groups.set(group, [...(groups.get(group) || []), file])
+  })
+
+  const queues = Array.from(groups.values())
+  const selected: FileData[] = []
+  for (let index = 0; selected.length < limit; index++) {
+    const round = queues.filter(queue => index < queue.length).map(queue => queue[index])
+    if (round.length === 0) break
+    selected.push(...round.slice(0, limit - selected.length))
+  }
+  return selected
+}
+
+function parsePnpmWorkspace(content: string): string[] {
+  const patterns: string[] = []
+  let inPackages = false
+
+  for (const line of content.split('\n')) {
+    const packagesKey = line.match(/^packages\s*:\s*(.*)$/)
+    if (packagesKey) {
+      // Flow style: `packages: ['apps/*', 'packages/*']`
+      Array.from(packagesKey[1].matchAll(/["']([^"']+)["']/g)).forEach(item => patterns.push(item[1]))
+      inPackages = true
+      continue
+    }
+    if (!inPackages) continue
+
+    const item = line.match(/^\s*-\s*["']?([^"'#]+?)["']?\s*(#.*)?$/)
+    if (item) {
+      patterns.push(item[1])
+    } else if (/^\S/.test(line)) {
+      inPackages = false
+    }
+  }
+
+  return patterns
+}
+
+function addGlobs(patterns: MemberPatterns, globs: unknown[]) {
+  globs.filter((glob): glob is string => typeof glob === 'string').forEach(glob => {
+    if (glob.startsWith('!')) patterns.exclude.push(glob.slice(1))
+    else patterns.include.push(glob)
+  })
+}
+
+function globToRegExp(glob: string): RegExp {
+  const normalized = glob.trim().replace(/^\.\//, '').replace(/\/+$/, '')
+  const source = normalized.split('/').map((segment, index, segments) => {
+    // `**` spans any number of directories, including none
+    if (segment === '**') return index === segments.length - 1 ? '.*' : '(?:[^/]+/)*'
+    const pattern = segment
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]')
+    return index === segments.length - 1 ? pattern : `${pattern}/`
+  }).join('')
+  return new RegExp(`^${source}$`)
+}
+
+function parseJson<T extends object>(content: string | null): T | null {
+  if (!content) return null
+  try {
+    const parsed = JSON.parse(content)
+    return parsed && typeof parsed === 'object' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+function stringField(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined
+}
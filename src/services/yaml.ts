@@ -0,0 +1,276 @@
+// Minimal YAML reader and writer
+// Covers the subset used by CI configs, compose files and Helm charts: block mappings and sequences,
+// flow collections, quoted and block scalars. Anchors, tags and multiple documents are not interpreted.
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue }
+
+interface YamlLine {
+  indent: number
+  text: string
+}
+
+export class YamlParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'YamlParseError'
+  }
+}
+
+// First document only; returns null for an empty document
+export function parseYaml(content: string): YamlValue {
+  const lines: YamlLine[] = []
+  for (const raw of content.replace(/\r\n/g, '\n').split('\n')) {
+    if (/^(---|\.\.\.)(\s|$)/.test(raw)) {
+      if (lines.length > 0) break
+      continue
+    }
+    const text = stripComment(raw).trimEnd()
+    if (!text.trim()) continue
+    if (/^\t/.test(text)) throw new YamlParseError('Tabs are not allowed for indentation')
+    lines.push({ indent: text.length - text.trimStart().length, text: text.trimStart() })
+  }
+
+  if (lines.length === 0) return null
+  return parseNode(lines, 0, lines[0].indent)[0]
+}
+
+// Object lookup that tolerates scalars and arrays along the way
+export function yamlMapping(value: YamlValue | undefined): { [key: string]: YamlValue } {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {}
+}
+
+export function yamlList(value: YamlValue | undefined): YamlValue[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+export function yamlString(value: YamlValue | undefined): string | undefined {
+  return typeof value === 'string' ? value : typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined
+}
+
+// Block style; strings are quoted whenever reading them back plain would change them
+export function stringifyYaml(value: YamlValue): string {
+  return `${writeNode(value, 0).join('\n')}\n`
+}
+
+function parseNode(lines: YamlLine[], index: number, indent: number): [YamlValue, number] {
+  return isSequenceItem(lines[index].text)
+    ? parseSequence(lines, index, indent)
+    : parseMapping(lines, index, indent)
+}
+
+function parseSequence(lines: YamlLine[], index: number, indent: number): [YamlValue[], number] {
+  const items: YamlValue[] = []
+
+  while (index < lines.length && lines[index].indent === indent && isSequenceItem(lines[index].text)) {
+    const rest = lines[index].text.slice(1).trimStart()
+    let value: YamlValue
+
+    if (!rest) {
+      index++
+      if (index < lines.length && lines[index].indent > indent) {
+        [value, index] = parseNode(lines, index, lines[index].indent)
+      } else {
+        value = null
+      }
+    } else if (isSequenceItem(rest) || splitKey(rest)) {
+      // `- key: value` opens a mapping whose keys line up with `key`
+      const column = indent + lines[index].text.length - rest.length
+      lines[index] = { indent: column, text: rest }
+      const nested = parseNode(lines, index, column)
+      value = nested[0]
+      index = nested[1]
+    } else {
+      [value, index] = parseValue(rest, lines, index + 1, indent)
+    }
+
+    items.push(value)
+  }
+
+  return [items, index]
+}
+
+function parseMapping(lines: YamlLine[], index: number, indent: number): [{ [key: string]: YamlValue }, number] {
+  const mapping: { [key: string]: YamlValue } = {}
+
+  while (index < lines.length && lines[index].indent === indent && !isSequenceItem(lines[index].text)) {
+    const entry = splitKey(lines[index].text)
+    if (!entry) throw new YamlParseError(`Expected a mapping entry: ${lines[index].text}`)
+    index++
+
+    let value: YamlValue
+    if (entry.rest) {
+      [value, index] = parseValue(entry.rest, lines, index, indent)
+    } else if (index < lines.length && (lines[index].indent > indent || (lines[index].indent === indent && isSequenceItem(lines[index].text)))) {
+      [value, index] = parseNode(lines, index, lines[index].indent)
+    } else {
+      value = null
+    }
+
+    // `<<: *anchor` merges can't be resolved without anchors
+    if (entry.key !== '<<') mapping[entry.key] = value
+  }
+
+  return [mapping, index]
+}
+
+// Inline value, or a block scalar (`|`, `>`) continuing on the more indented lines that follow
+function parseValue(text: string, lines: YamlLine[], index: number, indent: number): [YamlValue, number] {
+  const value = text.replace(/^(&\S+|![^\s]*)\s*/, '')
+  const block = value.match(/^([|>])[-+0-9]*$/)
+
+  if (block) {
+    const collected: YamlLine[] = []
+    while (index < lines.length && lines[index].indent > indent) {
+      collected.push(lines[index++])
+    }
+    const base = Math.min(...collected.map(line => line.indent))
+    const texts = collected.map(line => `${' '.repeat(line.indent - base)}${line.text}`)
+    return [block[1] === '|' ? texts.join('\n') : texts.join(' '), index]
+  }
+
+  // Plain multi-line scalars continue on more indented lines
+  let scalar = value
+  while (index < lines.length && lines[index].indent > indent && !/^["'[{]/.test(value) && !splitKey(lines[index].text)) {
+    scalar += ` ${lines[index++].text}`
+  }
+
+  return [/^[[{]/.test(scalar) ? parseFlow(scalar) : parseScalar(scalar), index]
+}
+
+function parseScalar(text: string): YamlValue {
+  const value = text.trim()
+  if (value.startsWith('"')) {
+    return value.slice(1, value.lastIndexOf('"') > 0 ? value.lastIndexOf('"') : undefined)
+      .replace(/\\(["\\/nt])/g, (_, char: string) => char === 'n' ? '\n' : char === 't' ? '\t' : char)
+  }
+  if (value.startsWith("'")) {
+    return value.slice(1, value.lastIndexOf("'") > 0 ? value.lastIndexOf("'") : undefined).replace(/''/g, "'")
+  }
+  if (value === '' || value === '~' || value === 'null') return null
+  if (value === 'true') return true
+  if (value === 'false') return false
+  if (/^[-+]?(\d+|\d*\.\d+)$/.test(value)) return Number(value)
+  return value
+}
+
+// `[a, b]` and `{ a: 1, b: [c] }`
+function parseFlow(text: string): YamlValue {
+  let position = 0
+
+  const skipSpaces = () => {
+    while (position < text.length && /\s/.test(text[position])) position++
+  }
+
+  const readItem = (): YamlValue => {
+    skipSpaces()
+    const char = text[position]
+    if (char === '[') {
+      position++
+      const items: YamlValue[] = []
+      skipSpaces()
+      while (position < text.length && text[position] !== ']') {
+        items.push(readItem())
+        skipSpaces()
+        if (text[position] === ',') position++
+        skipSpaces()
+      }
+      position++
+      return items
+    }
+    if (char === '{') {
+      position++
+      const mapping: { [key: string]: YamlValue } = {}
+      skipSpaces()
+      while (position < text.length && text[position] !== '}') {
+        const key = readScalar(':,}')
+        let value: YamlValue = null
+        if (text[position] === ':') {
+          position++
+          value = readItem()
+        }
+        mapping[String(key)] = value
+        skipSpaces()
+        if (text[position] === ',') position++
+        skipSpaces()
+      }
+      position++
+      return mapping
+    }
+    return readScalar(',]}')
+  }
+
+  const readScalar = (terminators: string): YamlValue => {
+    skipSpaces()
+    const start = position
+    const quote = text[position] === '"' || text[position] === "'" ? text[position] : null
+    if (quote) {
+      position++
+      while (position < text.length && !(text[position] === quote && text[position - 1] !== '\\')) position++
+      position++
+    } else {
+      while (position < text.length && !terminators.includes(text[position])) position++
+    }
+    return parseScalar(text.slice(start, position))
+  }
+
+  return readItem()
+}
+
+function writeNode(value: YamlValue, indent: number): string[] {
+  const pad = ' '.repeat(indent)
+  if (Array.isArray(value) && value.length > 0) {
+    return value.flatMap(item => {
+      if (!isCollection(item)) return [`${pad}- ${writeScalar(item)}`]
+      const [first, ...rest] = writeNode(item, indent + 2)
+      return [`${pad}- ${first.trimStart()}`, ...rest]
+    })
+  }
+  if (isCollection(value)) {
+    return Object.entries(value).map(([key, item]) => isCollection(item)
+      ? [`${pad}${writeScalar(key)}:`, ...writeNode(item, indent + 2)]
+      : [`${pad}${writeScalar(key)}: ${writeScalar(item)}`]).flat()
+  }
+  return [`${pad}${writeScalar(value)}`]
+}
+
+// Non-empty lists and mappings; empty ones are written inline
+function isCollection(value: YamlValue): value is YamlValue[] | { [key: string]: YamlValue } {
+  return value !== null && typeof value === 'object' && Object.keys(value).length > 0
+}
+
+function writeScalar(value: YamlValue): string {
+  if (Array.isArray(value)) return '[]'
+  if (value !== null && typeof value === 'object') return '{}'
+  if (typeof value !== 'string') return String(value)
+  const plain = /^[^\s\-?:,[\]{}#&*!|>'"%@`][^\n#]*$/.test(value) && !/:(\s|$)|\s$/.test(value)
+  return plain && parseScalar(value) === value ? value : JSON.stringify(value)
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ')
+}
+
+function splitKey(text: string): { key: string; rest: string } | null {
+  const match = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'[{#-][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*)|$)/)
+  if (!match) return null
+  const key = String(parseScalar(match[1]))
+  return { key, rest: (match[2] || '').trim() }
+}
+
+// `#` starts a comment only at the line start or after whitespace, outside quotes
+function stripComment(line: string): string {
+  let quote: string | null = null
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index]
+    if (quote) {
+      if (char === quote && line[index - 1] !== '\\') quote = null
+    } else if (char === '"' || char === "'") {
+      // Quotes only open a string at the start of a value
+      if (index === 0 || /[\s:[{,-]/.test(line[index - 1])) quote = char
+    } else if (char === '#' && (index === 0 || /\s/.test(line[index - 1]))) {
+      return line.slice(0, index)
+    }
+  }
+  return line
+}
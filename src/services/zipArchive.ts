@@ -0,0 +1,115 @@
+// Minimal ZIP archive reader
+// Reads the central directory of a .zip file and inflates entries on demand (stored / deflate only)
+
+import { inflateRaw } from 'pako'
+
+export interface ZipEntry {
+  path: string
+  isDirectory: boolean
+  size: number
+  compressedSize: number
+  lastModified: number
+  read(): Uint8Array
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+export function readZipArchive(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  const decoder = new TextDecoder('utf-8')
+
+  const eocdOffset = findEndOfCentralDirectory(view)
+  if (eocdOffset < 0) {
+    throw new Error('Invalid ZIP archive: end of central directory not found')
+  }
+
+  const entryCount = view.getUint16(eocdOffset + 10, true)
+  const directoryOffset = view.getUint32(eocdOffset + 16, true)
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const entries: ZipEntry[] = []
+  let offset = directoryOffset
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP archive: corrupt central directory')
+    }
+
+    const method = view.getUint16(offset + 10, true)
+    const dosTime = view.getUint16(offset + 12, true)
+    const dosDate = view.getUint16(offset + 14, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const size = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localHeaderOffset = view.getUint32(offset + 42, true)
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+
+    entries.push({
+      path,
+      isDirectory: path.endsWith('/'),
+      size,
+      compressedSize,
+      lastModified: dosDateTimeToMillis(dosDate, dosTime),
+      read: () => readEntryData(view, bytes, localHeaderOffset, compressedSize, method, path)
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The EOCD record is at least 22 bytes and may be followed by a comment of up to 64KB
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff)
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset
+    }
+  }
+  return -1
+}
+
+function readEntryData(
+  view: DataView,
+  bytes: Uint8Array,
+  localHeaderOffset: number,
+  compressedSize: number,
+  method: number,
+  path: string
+): Uint8Array {
+  if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Invalid ZIP archive: corrupt local header for ${path}`)
+  }
+
+  const nameLength = view.getUint16(localHeaderOffset + 26, true)
+  const extraLength = view.getUint16(localHeaderOffset + 28, true)
+  const dataStart = localHeaderOffset + 30 + nameLength + extraLength
+  const data = bytes.subarray(dataStart, dataStart + compressedSize)
+
+  switch (method) {
+    case 0:
+      return data
+    case 8:
+      return inflateRaw(data)
+    default:
+      throw new Error(`Unsupported ZIP compression method ${method} for ${path}`)
+  }
+}
+
+function dosDateTimeToMillis(date: number, time: number): number {
+  const year = ((date >> 9) & 0x7f) + 1980
+  const month = ((date >> 5) & 0x0f) - 1
+  const day = date & 0x1f
+  const hours = (time >> 11) & 0x1f
+  const minutes = (time >> 5) & 0x3f
+  const seconds = (time & 0x1f) * 2
+  return new Date(year, month, day, hours, minutes, seconds).getTime()
+}
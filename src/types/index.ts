@@ -11,6 +11,7 @@ export interface RepositoryData {
   commits: CommitData[]
   files: FileData[]
   readme: string
+  readmeStructure?: ReadmeStructure
   screenshots: ImageData[]
   architectureAnalysis?: ArchitectureAnalysis
   designPatterns?: string[]
@@ -19,6 +20,296 @@ export interface RepositoryData {
   updatedAt: string
   stars: number
   forks: number
+  // Open items in the host's issue tracker; GitHub counts open pull requests too. Bitbucket doesn't report it
+  openIssues?: number
+  // Branch, tag or commit the snapshot was taken from (default branch when absent)
+  ref?: string
+  release?: ReleaseData
+  workspace?: WorkspaceInfo
+  // Workspace package directory the analysis is limited to (whole repository when absent)
+  scope?: string
+  apiSurface?: ApiSurface
+  testing?: TestingAnalysis
+  deliveryAnalysis?: DeliveryAnalysis
+  contributors?: ContributorAnalysis
+  codeMetrics?: CodeMetrics
+  releaseHistory?: ReleaseHistory
+  // Where each field came from; absent on data saved before provenance was tracked
+  provenance?: RepositoryProvenance
+}
+
+// `api` is the host API or the repository's own files; `scraped` comes from web pages,
+// `inferred` from heuristics over other fields, and `fallback` is a placeholder for data that couldn't be read
+export type DataSource = 'api' | 'scraped' | 'inferred' | 'fallback'
+
+export type DataConfidence = 'high' | 'medium' | 'low'
+
+export interface FieldProvenance {
+  source: DataSource
+  confidence: DataConfidence
+  note?: string
+}
+
+export type RepositoryProvenance = Partial<Record<keyof RepositoryData, FieldProvenance>>
+
+export type DeliveryProvider = 'github-actions' | 'gitlab-ci' | 'jenkins' | 'netlify'
+
+// How the project is built and shipped: CI pipelines, deploy targets and container images
+export interface DeliveryAnalysis {
+  pipelines: DeliveryPipeline[]
+  deployTargets: string[]
+  containerImages: ContainerImage[]
+  helmCharts: { name: string; version?: string; path: string }[]
+}
+
+export interface DeliveryPipeline {
+  provider: DeliveryProvider
+  name: string
+  path: string
+  // push, pull_request, schedule, tag, manual, ...
+  triggers: string[]
+  jobs: DeliveryJob[]
+}
+
+export interface DeliveryJob {
+  name: string
+  stage?: string
+  needs: string[]
+  image?: string
+  // Deploy target when the job ships somewhere (e.g. "GitHub Pages", "Kubernetes")
+  deploysTo?: string
+}
+
+export interface ContainerImage {
+  image: string
+  // `base` images come from FROM lines, `service` images from compose/CI/Helm
+  role: 'base' | 'service'
+  path: string
+}
+
+// Test suite found by framework conventions; counts are of files in the analyzed tree
+export interface TestingAnalysis {
+  frameworks: string[]
+  byFramework: { name: string; files: number; cases: number }[]
+  testFiles: number
+  sourceFiles: number
+  testCases: number
+  // True when only some test files were downloaded and the case count was extrapolated
+  testCasesEstimated: boolean
+  // Test files per source file
+  ratio: number
+}
+
+// Who wrote the analyzed commits and how steadily; bots are counted in the cadence but not as contributors
+export interface ContributorAnalysis {
+  contributors: ContributorStats[]
+  totalCommits: number
+  // Fewest contributors who together authored more than half of the commits
+  busFactor: number
+  // One entry per week (starting Monday, UTC) from the first to the last commit, quiet weeks included
+  weeklyCommits: { week: string; commits: number }[]
+  firstActivity: string
+  lastActivity: string
+}
+
+export interface ContributorStats {
+  name: string
+  email?: string
+  commits: number
+  additions: number
+  deletions: number
+  firstCommit: string
+  lastCommit: string
+}
+
+// Sizes and complexity measured from file contents; hosted providers only download some files,
+// so their line counts are extrapolated from file sizes
+export interface CodeMetrics {
+  languages: LanguageLines[]
+  totalFiles: number
+  totalLines: number
+  linesEstimated: boolean
+  // Cyclomatic complexity of JavaScript, TypeScript and Python functions in the downloaded files
+  functions: number
+  averageComplexity: number
+  complexFunctions: FunctionComplexity[]
+  // Files that change often and are complex; empty when commits carry no per-file changes
+  hotspots: CodeHotspot[]
+}
+
+export interface LanguageLines {
+  language: string
+  files: number
+  // Non-blank lines that aren't only a comment
+  lines: number
+}
+
+export interface FunctionComplexity {
+  path: string
+  name: string
+  line: number
+  complexity: number
+}
+
+export interface CodeHotspot {
+  path: string
+  // Commits touching the file, and the lines they added or removed
+  changes: number
+  churn: number
+  // Sum over the file's functions
+  complexity: number
+  score: number
+}
+
+export type ApiSymbolKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable'
+
+// Public API of a JavaScript/TypeScript library, read from its package.json entry points
+export interface ApiSurface {
+  packageName: string
+  entryPoints: string[]
+  symbols: ApiSymbol[]
+}
+
+export interface ApiSymbol {
+  name: string
+  kind: ApiSymbolKind
+  // Declaration without its body, e.g. `export function parse(input: string): Ast`
+  signature: string
+  // First paragraph of the JSDoc comment
+  doc?: string
+  path: string
+  line: number
+}
+
+export type WorkspaceTool = 'pnpm' | 'yarn' | 'npm' | 'lerna' | 'nx' | 'cargo'
+
+// Monorepo layout detected from the root workspace configuration
+export interface WorkspaceInfo {
+  tool: WorkspaceTool
+  packages: WorkspacePackage[]
+}
+
+export interface WorkspacePackage {
+  name: string
+  path: string
+  version?: string
+  description?: string
+  dependencies: Dependency[]
+  // Names of other packages in the same workspace this package depends on
+  workspaceDependencies: string[]
+  fileCount: number
+}
+
+// README read from its Markdown syntax tree
+export interface ReadmeStructure {
+  title?: string
+  // First prose paragraph, without badges and images
+  summary?: string
+  sections: ReadmeSection[]
+  features: string[]
+  quickstart: ReadmeCodeBlock[]
+  images: ReadmeImage[]
+  badges: ReadmeBadge[]
+}
+
+export type ReadmeSectionKind =
+  | 'overview'
+  | 'motivation'
+  | 'features'
+  | 'installation'
+  | 'usage'
+  | 'architecture'
+  | 'roadmap'
+  | 'contributing'
+  | 'license'
+  | 'other'
+
+export interface ReadmeSection {
+  heading: string
+  depth: number
+  kind: ReadmeSectionKind
+  // Paragraph text directly under the heading, up to the next heading
+  text: string
+  bullets: string[]
+  // README lines from the heading to the section's last block, and of each bullet (1-based, inclusive);
+  // missing on analyses cached before they were recorded
+  startLine?: number
+  endLine?: number
+  bulletLines?: { startLine: number; endLine: number }[]
+}
+
+export interface ReadmeCodeBlock {
+  language?: string
+  code: string
+  section: string
+}
+
+export interface ReadmeImage {
+  // As written in the README; relative paths are relative to the README
+  url: string
+  alt: string
+  animated: boolean
+  section?: string
+}
+
+export type ReadmeBadgeKind = 'ci' | 'version' | 'license' | 'coverage' | 'downloads' | 'other'
+
+export interface ReadmeBadge {
+  kind: ReadmeBadgeKind
+  label: string
+  // Only static shields.io badges spell out their value
+  value?: string
+  imageUrl: string
+  link?: string
+}
+
+// Shipped versions from the CHANGELOG and the host's releases or tags
+export interface ReleaseHistory {
+  // Newest first
+  milestones: Milestone[]
+  // Entries under the CHANGELOG's "Unreleased" heading
+  unreleased: string[]
+}
+
+export interface Milestone {
+  version: string
+  // YYYY-MM-DD when known; plain tags carry no date on some hosts
+  date?: string
+  title?: string
+  highlights: string[]
+  source: 'changelog' | 'release' | 'tag'
+  prerelease?: boolean
+  url?: string
+}
+
+// Release-focused analysis of a `from..to` range
+export interface ReleaseData {
+  from: string
+  to: string
+  filesChanged: CommitFileChange[]
+  dependencyChanges: DependencyChange[]
+}
+
+export interface DependencyChange {
+  name: string
+  type: Dependency['type']
+  ecosystem?: DependencyEcosystem
+  change: 'added' | 'removed' | 'updated'
+  fromVersion?: string
+  toVersion?: string
+}
+
+// Differences between two analyses of the same repository
+export interface RepositoryChangeSummary {
+  // When the earlier analysis was made
+  since: string
+  newCommits: CommitData[]
+  addedFiles: string[]
+  removedFiles: string[]
+  modifiedFiles: string[]
+  dependencyChanges: DependencyChange[]
+  starsDelta: number
+  forksDelta: number
 }
 
 export interface LanguageStats {
@@ -34,6 +325,8 @@ export interface ArchitectureAnalysis {
   layering: string[]
   designRationale: string
   scalabilityIndicators: string[]
+  // Module dependencies resolved from imports, clustered by directory
+  diagram?: DiagramData
 }
 
 export interface ProjectPurpose {
@@ -62,15 +355,29 @@ export interface Dependency {
   name: string
   version: string
   type: 'dependency' | 'devDependency'
+  // Package registry the name belongs to, e.g. `pypi` for requirements.txt entries
+  ecosystem?: DependencyEcosystem
 }
 
+export type DependencyEcosystem = 'npm' | 'pypi' | 'go' | 'cargo' | 'rubygems' | 'maven' | 'composer' | 'nuget'
+
 export interface CommitData {
   sha: string
   message: string
   author: string
+  authorEmail?: string
   date: string
   additions: number
   deletions: number
+  files?: CommitFileChange[]
+}
+
+export interface CommitFileChange {
+  path: string
+  additions: number
+  deletions: number
+  status?: 'added' | 'modified' | 'removed' | 'renamed'
+  previousPath?: string
 }
 
 export interface FileData {
@@ -86,6 +393,11 @@ export interface ImageData {
   caption?: string
   ocrText?: string
   type: 'screenshot' | 'diagram' | 'other'
+  // Repository path for images stored in the repository
+  path?: string
+  // README section the image appeared under; decides which story section shows it
+  section?: ReadmeSectionKind
+  animated?: boolean
 }
 
 // Story Generation Types
@@ -95,17 +407,40 @@ export interface StoryStructure {
   approach: StorySection
   result: StorySection
   next: StorySection
+  // Public API tour, only for libraries with an analyzable entry point
+  apiOverview?: StorySection
+  // Plain-language definitions of the repository's jargon, for general audiences
+  glossary?: GlossaryEntry[]
+}
+
+export interface GlossaryEntry {
+  term: string
+  definition: string
 }
 
 export interface StorySection {
   title: string
   content: string
   bullets: string[]
+  // Where each bullet's claim comes from, keyed by the bullet text
+  citations?: Record<string, Citation[]>
   images?: ImageData[]
   code?: CodeSnippet[]
   visualElements?: VisualElement[]
 }
 
+// A repository source behind a generated claim
+export interface Citation {
+  kind: 'file' | 'readme' | 'commit' | 'dependency'
+  // File or README path, commit SHA or dependency name
+  ref: string
+  // 1-based, inclusive
+  startLine?: number
+  endLine?: number
+  // Commit subject or dependency version
+  detail?: string
+}
+
 export interface VisualElement {
   type: string
   data: any
@@ -115,35 +450,70 @@ export interface CodeSnippet {
   language: string
   code: string
   explanation: string
+  // Where the excerpt was taken from (1-based, inclusive line range)
+  path?: string
+  startLine?: number
+  endLine?: number
 }
 
 // Slide Generation Types
+export type PresentationMode = 'ted' | 'imrad' | 'release' | 'pitch' | 'sprint_demo' | 'postmortem' | 'onboarding' | 'lightning'
+
+// Who the deck is for; decks without one address a mixed audience
+export type Audience = 'technical' | 'business' | 'general'
+
 export interface SlidePresentation {
   id: string
   title: string
-  mode: 'ted' | 'imrad'
+  mode: PresentationMode
   language: 'ja' | 'en' | 'zh'
   duration: 3 | 5
   slides: Slide[]
   story: StoryStructure
   repository: RepositoryData
+  audience?: Audience
+  // Set when the deck was built from a user template
+  templateId?: string
+  theme?: ThemeConfig
   createdAt: string
   updatedAt: string
 }
 
+// What a slide presents, so a re-analysis can tell which slides its changes touch
+export type SlideSection =
+  | 'title' | 'why' | 'problem' | 'approach' | 'architecture' | 'results' | 'next' | 'conclusion'
+  | 'introduction' | 'methods' | 'implementation' | 'analysis' | 'discussion'
+  | 'highlights' | 'change_breakdown' | 'features' | 'fixes' | 'dependency_changes' | 'upgrade_notes'
+  | 'traction' | 'team' | 'ask' | 'demo' | 'impact' | 'timeline' | 'root_causes' | 'action_items'
+  | 'getting_started' | 'codebase_tour' | 'workflow'
+  | 'workspace' | 'api_overview' | 'metrics' | 'complexity' | 'quality' | 'delivery' | 'milestones' | 'activity' | 'screenshots' | 'acknowledgments'
+  | 'glossary' | 'references'
+
 export interface Slide {
   id: string
-  type: 'title' | 'content' | 'image' | 'code' | 'chart' | 'conclusion'
+  type: 'title' | 'content' | 'image' | 'code' | 'chart' | 'diagram' | 'conclusion'
+  // Missing on presentations saved before sections were tracked
+  section?: SlideSection
   title: string
   content: string
   bullets?: string[]
+  // Sources of the bullets taken from the story, keyed by the bullet text; edited bullets lose theirs
+  citations?: Record<string, Citation[]>
   image?: ImageData
   code?: CodeSnippet
   chart?: ChartData
+  diagram?: DiagramData
   speakerNotes: string
   duration: number
 }
 
+// Mermaid source; rendered in the browser and rasterized for PDF/PPTX
+export interface DiagramData {
+  type: 'mermaid'
+  title: string
+  source: string
+}
+
 export interface ChartData {
   type: 'bar' | 'line' | 'pie' | 'timeline'
   data: any[]
@@ -153,19 +523,52 @@ export interface ChartData {
 
 // Template Types
 export interface SlideTemplate {
+  id: string
   name: string
-  mode: 'ted' | 'imrad'
+  description?: string
+  // Story generation style the sections draw on
+  mode: PresentationMode
   structure: TemplateSection[]
   theme: ThemeConfig
+  createdAt?: string
+  updatedAt?: string
 }
 
 export interface TemplateSection {
   type: Slide['type']
+  binding: TemplateBinding
+  // Empty for the binding's default title
   title: string
+  // Seconds, relative: the deck is scaled to the chosen duration
   estimatedDuration: number
+  // Required sections without data get a placeholder slide; optional ones are dropped
   required: boolean
 }
 
+export type TemplateBinding =
+  | 'story.why'
+  | 'story.problem'
+  | 'story.approach'
+  | 'story.result'
+  | 'story.next'
+  | 'story.apiOverview'
+  | 'story.glossary'
+  | 'repository.overview'
+  | 'repository.architecture'
+  | 'repository.code'
+  | 'repository.workspace'
+  | 'repository.api'
+  | 'repository.metrics'
+  | 'repository.complexity'
+  | 'repository.testing'
+  | 'repository.delivery'
+  | 'repository.releases'
+  | 'repository.changes'
+  | 'repository.activity'
+  | 'repository.contributors'
+  | 'repository.screenshots'
+  | 'repository.url'
+
 export interface ThemeConfig {
   primaryColor: string
   backgroundColor: string
@@ -180,6 +583,8 @@ export interface ExportConfig {
   theme: string
   includeNotes: boolean
   quality: 'low' | 'medium' | 'high'
+  // Appends slides listing the sources cited by the bullets
+  includeReferences?: boolean
 }
 
 // Analysis Progress
@@ -188,4 +593,56 @@ export interface AnalysisProgress {
   progress: number
   message: string
   error?: string
-}
\ No newline at end of file
+  // Server-side step last reported by the analysis stream
+  step?: AnalysisStep
+  // Fields received so far, before the final result arrives
+  partial?: Partial<RepositoryData>
+  // Steps that failed without stopping the analysis
+  stepErrors?: AnalysisStepError[]
+}
+
+// Steps of the remote analysis, in roughly the order the analyze-repo function runs them
+export type AnalysisStep =
+  | 'ingestion'
+  | 'metadata'
+  | 'tree'
+  | 'history'
+  | 'readme'
+  | 'dependencies'
+  | 'sources'
+  | 'release'
+  | 'purpose'
+  | 'architecture'
+  | 'frameworks'
+
+export interface AnalysisStepEvent {
+  step: AnalysisStep
+  status: 'started' | 'completed' | 'failed'
+  // Ingestion stage name, or the endpoint a failure came from
+  detail?: string
+  error?: string
+  partial?: Partial<RepositoryData>
+}
+
+export interface AnalysisStepError {
+  step: AnalysisStep
+  detail?: string
+  error: string
+}
+
+// API quota as reported by the host's rate limit headers
+export interface RateLimitQuota {
+  host: string
+  // GitHub tracks `core`, `search`, `graphql`, ... separately
+  resource: string
+  limit: number
+  remaining: number
+  resetAt: string
+}
+
+// One line of the analyze-repo NDJSON response
+export type AnalysisStreamEvent =
+  | ({ type: 'step' } & AnalysisStepEvent)
+  | { type: 'quota'; quota: RateLimitQuota }
+  | { type: 'result'; repository: RepositoryData }
+  | { type: 'error'; error: string; details?: string }
\ No newline at end of file
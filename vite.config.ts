@@ -34,15 +34,10 @@ export default defineConfig({
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
         runtimeCaching: [
           {
+            // API responses are revalidated with ETags by the provider HTTP layer (cached in IndexedDB);
+            // a service worker cache would answer conditional requests with stale data
             urlPattern: /^https:\/\/api\.github\.com\/.*/i,
-            handler: 'CacheFirst',
-            options: {
-              cacheName: 'github-api-cache',
-              expiration: {
-                maxEntries: 100,
-                maxAgeSeconds: 60 * 60 * 24 // 24 hours
-              }
-            }
+            handler: 'NetworkOnly'
           },
           {
             urlPattern: /^https:\/\/raw\.githubusercontent\.com\/.*/i,
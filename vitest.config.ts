@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so tests skip the React and PWA plugins
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // Provider tests wait out recorded Retry-After headers against a local server
+    testTimeout: 20000
+  }
+})